@@ -1,8 +1,12 @@
 import type React from 'react';
 import { useCallback } from 'react';
 import { Textarea } from '@/components/ui/textarea';
+import type { Theme } from '../../../features/ThemeSelector';
 import type { EditorStyles } from '../types/editorPane.types';
 import { generatePaddingStyles } from '../utils/editorStyles';
+import type { CursorRange } from '../utils/multiCursor';
+import { MultiCursorOverlay } from './MultiCursorOverlay';
+import { SyntaxHighlightLayer } from './SyntaxHighlightLayer';
 
 interface EditorTextareaProps {
   /** Textarea reference */
@@ -13,16 +17,30 @@ interface EditorTextareaProps {
   onChange: (value: string) => void;
   /** Keyboard event handler */
   onKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+  /** Mouse down handler (Alt+click cursors) */
+  onMouseDown?: (e: React.MouseEvent<HTMLTextAreaElement>) => void;
+  /** Cursors besides the textarea's own */
+  extraCursors?: CursorRange[];
+  /** Paste handler (image attachments) */
+  onPaste?: (e: React.ClipboardEvent<HTMLTextAreaElement>) => void;
+  /** Drag over handler (image attachments) */
+  onDragOver?: (e: React.DragEvent<HTMLTextAreaElement>) => void;
+  /** Drop handler (image attachments) */
+  onDrop?: (e: React.DragEvent<HTMLTextAreaElement>) => void;
   /** Focus mode enabled */
   focusMode: boolean;
   /** Typewriter mode enabled */
   typewriterMode: boolean;
   /** Word wrap enabled */
   wordWrap: boolean;
+  /** Line numbers gutter visible */
+  lineNumbers?: boolean;
   /** Editor styles */
   editorStyles: EditorStyles;
   /** Auto-resize function */
   onAutoResize?: () => void;
+  /** Theme used to color markdown syntax */
+  theme?: Theme;
 }
 
 /**
@@ -33,11 +51,18 @@ export const EditorTextarea: React.FC<EditorTextareaProps> = ({
   markdown,
   onChange,
   onKeyDown,
+  onMouseDown,
+  extraCursors = [],
+  onPaste,
+  onDragOver,
+  onDrop,
   focusMode,
   typewriterMode,
   wordWrap,
+  lineNumbers = true,
   editorStyles,
   onAutoResize,
+  theme,
 }) => {
   // Simple change handler - auto-resize is handled by useSimpleEditor throttling
   const handleChange = useCallback(
@@ -51,31 +76,56 @@ export const EditorTextarea: React.FC<EditorTextareaProps> = ({
     [onChange, onAutoResize]
   );
 
-  const paddingStyles = generatePaddingStyles(focusMode);
+  const paddingStyles = generatePaddingStyles(focusMode, lineNumbers);
+  // The highlight layer must wrap exactly like the textarea
+  const textStyles: EditorStyles = {
+    ...editorStyles,
+    wordWrap: wordWrap ? 'break-word' : 'normal',
+    overflowWrap: wordWrap ? 'break-word' : 'normal',
+  };
 
   return (
-    <Textarea
-      ref={textareaRef}
-      value={markdown}
-      onChange={handleChange}
-      onKeyDown={onKeyDown}
-      placeholder="Start writing your markdown here..."
-      className={`
-        w-full h-full resize-none border-0 rounded-none focus:ring-0 focus:outline-none pl-14
-        markdown-editor-textarea
-        ${focusMode ? 'bg-opacity-95' : ''}
-        ${typewriterMode ? 'scroll-smooth' : ''}
-        transition-all duration-200
-      `}
-      style={
-        {
-          minHeight: '100%',
-          padding: paddingStyles,
-          ...editorStyles,
-          wordWrap: wordWrap ? 'break-word' : 'normal',
-          overflowWrap: wordWrap ? 'break-word' : 'normal',
-        } as React.CSSProperties
-      }
-    />
+    <>
+      <Textarea
+        ref={textareaRef}
+        value={markdown}
+        onChange={handleChange}
+        onKeyDown={onKeyDown}
+        onMouseDown={onMouseDown}
+        onPaste={onPaste}
+        onDragOver={onDragOver}
+        onDrop={onDrop}
+        data-syntax-highlight
+        placeholder="Start writing your markdown here..."
+        className={`
+          w-full h-full resize-none border-0 rounded-none focus:ring-0 focus:outline-none pl-14
+          markdown-editor-textarea
+          ${focusMode ? 'bg-opacity-95' : ''}
+          ${typewriterMode ? 'scroll-smooth' : ''}
+          transition-all duration-200
+        `}
+        style={
+          {
+            minHeight: '100%',
+            padding: paddingStyles,
+            ...textStyles,
+            '--editor-caret-color': theme?.text,
+          } as React.CSSProperties
+        }
+      />
+
+      {/* Colored copy of the text; the textarea's own text is transparent */}
+      <SyntaxHighlightLayer
+        textareaRef={textareaRef}
+        markdown={markdown}
+        padding={paddingStyles}
+        editorStyles={textStyles}
+        theme={theme}
+      >
+        {extraCursors.length > 0 && (
+          <MultiCursorOverlay markdown={markdown} cursors={extraCursors} theme={theme} />
+        )}
+      </SyntaxHighlightLayer>
+    </>
   );
 };
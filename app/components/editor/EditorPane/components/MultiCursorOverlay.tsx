@@ -0,0 +1,60 @@
+import type React from 'react';
+import { memo } from 'react';
+import type { Theme } from '../../../features/ThemeSelector';
+import type { CursorRange } from '../utils/multiCursor';
+
+interface MultiCursorOverlayProps {
+  /** Markdown content */
+  markdown: string;
+  /** Cursors to draw (the primary cursor is drawn by the textarea) */
+  cursors: CursorRange[];
+  /** Theme configuration */
+  theme?: Theme;
+}
+
+/**
+ * Extra carets and selections, drawn over an invisible copy of the text so they
+ * land exactly where the textarea would put them. Rendered inside the syntax
+ * highlight layer, which already follows the textarea's scroll and width.
+ */
+export const MultiCursorOverlay: React.FC<MultiCursorOverlayProps> = memo(
+  ({ markdown, cursors, theme }) => {
+    const sorted = [...cursors].sort((a, b) => a.start - b.start);
+    const parts: React.ReactNode[] = [];
+    let copied = 0;
+
+    for (const { start, end } of sorted) {
+      parts.push(markdown.slice(copied, start));
+      if (end > start) {
+        parts.push(
+          <span key={`selection-${start}`} style={{ backgroundColor: 'Highlight' }}>
+            {markdown.slice(start, end)}
+          </span>
+        );
+      }
+      // Zero-width anchor, so the caret doesn't shift the text around it
+      parts.push(
+        <span key={`caret-${end}`} className="relative">
+          <span
+            className={`absolute top-0 bottom-0 -left-px w-0.5 ${theme ? '' : 'bg-foreground'}`}
+            style={{ backgroundColor: theme?.text }}
+          />
+        </span>
+      );
+      copied = end;
+    }
+    parts.push(markdown.slice(copied));
+
+    return (
+      <div
+        className="absolute inset-0 pointer-events-none"
+        data-multi-cursor-overlay
+        // Behind the highlighted text, so selections don't cover it
+        style={{ padding: 'inherit', color: 'transparent', boxSizing: 'border-box', zIndex: -1 }}
+      >
+        {parts}
+      </div>
+    );
+  }
+);
+MultiCursorOverlay.displayName = 'MultiCursorOverlay';
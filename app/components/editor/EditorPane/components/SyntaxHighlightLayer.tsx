@@ -0,0 +1,162 @@
+import type React from 'react';
+import { memo, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { Theme } from '../../../features/ThemeSelector';
+import type { EditorStyles } from '../types/editorPane.types';
+import {
+  getHighlightStyles,
+  type HighlightChunk,
+  type HighlightTokenType,
+  splitIntoChunks,
+  tokenizeChunk,
+} from '../utils/syntaxHighlight';
+
+interface SyntaxHighlightLayerProps {
+  /** Textarea the layer mirrors */
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
+  /** Markdown content */
+  markdown: string;
+  /** Padding of the textarea */
+  padding: string;
+  /** Editor styles shared with the textarea */
+  editorStyles: EditorStyles;
+  /** Theme configuration */
+  theme?: Theme;
+  /** Decorations drawn in the same scrolled space as the text (e.g. extra cursors) */
+  children?: React.ReactNode;
+}
+
+type HighlightStyles = Record<HighlightTokenType, React.CSSProperties>;
+
+/**
+ * One chunk of highlighted lines. Memoized on its text and entry state, so typing
+ * only re-tokenizes the chunk being edited.
+ */
+const HighlightedChunk = memo<HighlightChunk & { styles: HighlightStyles }>(
+  ({ text, state, isFirst, styles }) => {
+    const lines = tokenizeChunk({ text, state, isFirst });
+
+    return (
+      <div data-highlight-chunk>
+        {lines.map((tokens, lineIndex) => (
+          // biome-ignore lint/suspicious/noArrayIndexKey: Lines have no identity besides their position
+          <span key={lineIndex}>
+            {tokens.map((token, tokenIndex) =>
+              token.type === 'text' ? (
+                token.text
+              ) : (
+                // biome-ignore lint/suspicious/noArrayIndexKey: Tokens have no identity besides their position
+                <span key={tokenIndex} style={styles[token.type]}>
+                  {token.text}
+                </span>
+              )
+            )}
+            {lineIndex < lines.length - 1 ? (
+              '\n'
+            ) : tokens.length === 0 ? (
+              <span data-line-placeholder>{'\u200b'}</span>
+            ) : null}
+          </span>
+        ))}
+      </div>
+    );
+  }
+);
+HighlightedChunk.displayName = 'HighlightedChunk';
+
+/**
+ * Colored copy of the textarea content drawn on top of it. The textarea keeps the
+ * caret, selection and all input handling; its own text is made transparent.
+ */
+export const SyntaxHighlightLayer: React.FC<SyntaxHighlightLayerProps> = ({
+  textareaRef,
+  markdown,
+  padding,
+  editorStyles,
+  theme,
+  children,
+}) => {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState<number | null>(null);
+
+  const chunks = useMemo(() => splitIntoChunks(markdown), [markdown]);
+  const styles = useMemo(() => getHighlightStyles(theme), [theme]);
+
+  // Follow the textarea's scroll position and content width (which excludes its scrollbar)
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const syncScroll = () => {
+      if (contentRef.current) {
+        contentRef.current.style.transform = `translate(${-textarea.scrollLeft}px, ${-textarea.scrollTop}px)`;
+      }
+    };
+    const syncWidth = () => setWidth(textarea.clientWidth);
+
+    syncScroll();
+    syncWidth();
+    textarea.addEventListener('scroll', syncScroll, { passive: true });
+    const resizeObserver = new ResizeObserver(syncWidth);
+    resizeObserver.observe(textarea);
+
+    return () => {
+      textarea.removeEventListener('scroll', syncScroll);
+      resizeObserver.disconnect();
+    };
+  }, [textareaRef]);
+
+  // Edits can scroll the textarea without a scroll event reaching us first
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && contentRef.current) {
+      contentRef.current.style.transform = `translate(${-textarea.scrollLeft}px, ${-textarea.scrollTop}px)`;
+    }
+  });
+
+  // Count occurrences so identical chunks (e.g. repeated blank lines) get distinct keys
+  const occurrences = new Map<string, number>();
+
+  return (
+    <div
+      aria-hidden="true"
+      className="absolute inset-0 overflow-hidden pointer-events-none select-none"
+      data-syntax-highlight-layer
+    >
+      <div
+        ref={contentRef}
+        data-syntax-highlight-content
+        style={{
+          position: 'relative',
+          fontSize: editorStyles.fontSize,
+          lineHeight: editorStyles.lineHeight,
+          fontFamily: editorStyles.fontFamily,
+          whiteSpace: editorStyles.whiteSpace,
+          wordWrap: editorStyles.wordWrap,
+          overflowWrap: editorStyles.overflowWrap,
+          hyphens: editorStyles.hyphens,
+          color: theme?.text,
+          padding,
+          boxSizing: 'border-box',
+          width: editorStyles.whiteSpace === 'pre' ? 'max-content' : (width ?? '100%'),
+          minWidth: width ?? '100%',
+          willChange: 'transform',
+        }}
+      >
+        {chunks.map((chunk) => {
+          const baseKey = `${chunk.isFirst ? 1 : 0}${chunk.state}\u0000${chunk.text}`;
+          const count = occurrences.get(baseKey) ?? 0;
+          occurrences.set(baseKey, count + 1);
+
+          return (
+            <HighlightedChunk
+              key={count ? `${baseKey}\u0000${count}` : baseKey}
+              {...chunk}
+              styles={styles}
+            />
+          );
+        })}
+        {children}
+      </div>
+    </div>
+  );
+};
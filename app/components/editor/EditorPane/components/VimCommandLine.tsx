@@ -0,0 +1,61 @@
+import type React from 'react';
+import type { VimCommandLineConfig } from '../types/editorPane.types';
+import { generateHeaderStyles } from '../utils/editorStyles';
+
+const MODE_LABELS: Partial<Record<VimCommandLineConfig['mode'], string>> = {
+  insert: '-- INSERT --',
+  visual: '-- VISUAL --',
+};
+
+/**
+ * Vim command line shown below the editor: ':' input, :s confirmation and messages
+ */
+export const VimCommandLine: React.FC<VimCommandLineConfig> = ({
+  mode,
+  commandLine,
+  message,
+  confirmPrompt,
+  pendingKeys,
+  theme,
+}) => {
+  const headerStyles = generateHeaderStyles(theme);
+
+  const renderContent = () => {
+    if (mode === 'command') {
+      if (confirmPrompt) {
+        return <span>{confirmPrompt}</span>;
+      }
+
+      return (
+        <span>
+          :{commandLine}
+          <span className="inline-block w-2 h-4 align-text-bottom animate-pulse bg-current" />
+        </span>
+      );
+    }
+
+    if (message) {
+      return (
+        <span className={message.type === 'error' ? 'text-red-500' : undefined}>
+          {message.text}
+        </span>
+      );
+    }
+
+    return <span className="opacity-60">{MODE_LABELS[mode] ?? ' '}</span>;
+  };
+
+  return (
+    <div
+      className="px-4 py-1 border-t font-mono text-xs whitespace-pre truncate"
+      style={headerStyles}
+      data-vim-command-line
+      aria-live="polite"
+    >
+      <div className="flex justify-between gap-4">
+        <span className="truncate">{renderContent()}</span>
+        {pendingKeys && mode !== 'command' && <span className="opacity-60">{pendingKeys}</span>}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import { useRef, useState } from 'react';
 import { useVimMode } from '@/hooks/editor';
+import type { UseVimModeOptions, VimExCommandOptions } from '@/types/vim';
 import type { EditorState } from '../types/editorPane.types';
 
 /**
@@ -8,7 +9,9 @@ import type { EditorState } from '../types/editorPane.types';
 export const useEditorState = (
   markdown: string,
   onChange: (value: string) => void,
-  vimMode = false
+  vimMode = false,
+  vimExCommands?: VimExCommandOptions,
+  history: Pick<UseVimModeOptions, 'onUndo' | 'onRedo'> = {}
 ): EditorState & {
   vim: ReturnType<typeof useVimMode>;
   setVimModeState: React.Dispatch<React.SetStateAction<'normal' | 'insert' | 'visual' | 'command'>>;
@@ -22,6 +25,9 @@ export const useEditorState = (
   const vim = useVimMode(textareaRef, markdown, onChange, {
     enabled: vimMode,
     onModeChange: setVimModeState,
+    exCommands: vimExCommands,
+    onUndo: history.onUndo,
+    onRedo: history.onRedo,
   });
 
   return {
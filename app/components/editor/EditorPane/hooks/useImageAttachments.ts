@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Custom hook for pasting and dropping images into the editor as attachments
+ * @author Axel Modra
+ */
+
+import { useCallback } from 'react';
+import { useToast } from '@/hooks/core/useToast';
+import { attachmentStorage } from '@/services/attachmentStorage';
+import { createAttachmentMarkdown, getImageFiles } from '@/utils/attachmentUtils';
+import { getTextOffsetFromPoint } from '../utils/multiCursor';
+
+/** Numbers the upload placeholders; shared so split panes never reuse one */
+let uploadCounter = 0;
+
+/**
+ * Custom hook for image attachments.
+ * A placeholder is inserted right away and replaced by the image reference once the
+ * upload finishes, so typing can go on meanwhile.
+ */
+export const useImageAttachments = (
+  textareaRef: React.RefObject<HTMLTextAreaElement>,
+  onChange: (value: string) => void
+) => {
+  const { toast } = useToast();
+
+  /**
+   * Replace a placeholder in the current content, keeping the caret where it was
+   */
+  const replacePlaceholder = useCallback(
+    (placeholder: string, replacement: string) => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+
+      const value = textarea.value;
+      const index = value.indexOf(placeholder);
+      if (index === -1) return;
+
+      const shift = replacement.length - placeholder.length;
+      const { selectionStart, selectionEnd } = textarea;
+      const adjust = (position: number) => (position > index ? position + shift : position);
+
+      onChange(value.slice(0, index) + replacement + value.slice(index + placeholder.length));
+      requestAnimationFrame(() => {
+        textarea.setSelectionRange(adjust(selectionStart), adjust(selectionEnd));
+      });
+    },
+    [textareaRef, onChange]
+  );
+
+  const insertImages = useCallback(
+    async (files: File[], start: number, end: number) => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+
+      const uploadId = ++uploadCounter;
+      const placeholder = `![Uploading ${files.length > 1 ? `${files.length} images` : files[0].name}…](#upload-${uploadId})`;
+      const value = textarea.value;
+      onChange(value.slice(0, start) + placeholder + value.slice(end));
+      requestAnimationFrame(() => {
+        const caret = start + placeholder.length;
+        textarea.setSelectionRange(caret, caret);
+      });
+
+      const references: string[] = [];
+      for (const file of files) {
+        try {
+          const attachment = await attachmentStorage.save(file, file.name);
+          references.push(createAttachmentMarkdown(attachment.id, file.name));
+        } catch (error) {
+          import('@/utils/console').then(({ safeConsole }) => {
+            safeConsole.error('Failed to store image attachment:', error);
+          });
+          toast({
+            title: 'Image not added',
+            description: error instanceof Error ? error.message : `Failed to store "${file.name}"`,
+            variant: 'destructive',
+          });
+        }
+      }
+
+      replacePlaceholder(placeholder, references.join('\n'));
+    },
+    [textareaRef, onChange, replacePlaceholder, toast]
+  );
+
+  /**
+   * Pasted images become attachments; any other paste keeps its default behavior
+   */
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+      const files = getImageFiles(e.clipboardData);
+      if (files.length === 0) return;
+
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      insertImages(files, selectionStart, selectionEnd);
+    },
+    [insertImages]
+  );
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLTextAreaElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  }, []);
+
+  /**
+   * Dropped images are inserted where they are dropped (or at the caret when that
+   * position can't be found)
+   */
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLTextAreaElement>) => {
+      const files = getImageFiles(e.dataTransfer);
+      if (files.length === 0) return;
+
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const content = textarea.parentElement?.querySelector<HTMLElement>(
+        '[data-syntax-highlight-content]'
+      );
+      const offset = content ? getTextOffsetFromPoint(content, e.clientX, e.clientY) : null;
+
+      textarea.focus({ preventScroll: true });
+      if (offset === null) {
+        insertImages(files, textarea.selectionStart, textarea.selectionEnd);
+      } else {
+        insertImages(files, offset, offset);
+      }
+    },
+    [insertImages]
+  );
+
+  return {
+    handlePaste,
+    handleDragOver,
+    handleDrop,
+  };
+};
@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Custom hook for multi-cursor editing in the editor textarea
+ * @author Axel Modra
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+  applyCursorEdit,
+  type CursorEdit,
+  type CursorRange,
+  findNextOccurrence,
+  getColumnCursors,
+  getTextOffsetFromPoint,
+  getWordRangeAt,
+  mergeCursors,
+  moveCursors,
+} from '../utils/multiCursor';
+
+/** Keys that only modify other keys; they keep the cursors as they are */
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'CapsLock']);
+
+/**
+ * Custom hook for multi-cursor editing.
+ * The textarea keeps showing the primary cursor (the last one added); the extra
+ * cursors are drawn by an overlay. Each keystroke is applied at every cursor with
+ * a single onChange call, so it becomes a single undo step.
+ */
+export const useMultiCursor = (
+  textareaRef: React.RefObject<HTMLTextAreaElement>,
+  markdown: string,
+  onChange: (value: string) => void
+) => {
+  const [cursors, setCursors] = useState<CursorRange[]>([]);
+  const cursorsRef = useRef(cursors);
+  cursorsRef.current = cursors;
+
+  // Content produced by the last multi-cursor edit; any other change drops the cursors
+  const editedValueRef = useRef<string | null>(null);
+
+  const clearCursors = useCallback(() => {
+    setCursors((previous) => (previous.length ? [] : previous));
+  }, []);
+
+  useEffect(() => {
+    if (markdown !== editedValueRef.current) {
+      editedValueRef.current = null;
+      clearCursors();
+    }
+  }, [markdown, clearCursors]);
+
+  // Runs after the new value is committed, so the textarea doesn't reset the caret afterwards
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    const primary = cursors[cursors.length - 1];
+    if (!textarea || !primary) return;
+
+    if (textarea.selectionStart !== primary.start || textarea.selectionEnd !== primary.end) {
+      textarea.setSelectionRange(primary.start, primary.end);
+    }
+  }, [cursors, textareaRef]);
+
+  /**
+   * Current cursors, with the primary one read from the textarea
+   */
+  const getCurrentCursors = useCallback((textarea: HTMLTextAreaElement): CursorRange[] => {
+    const primary = { start: textarea.selectionStart, end: textarea.selectionEnd };
+    return cursorsRef.current.length > 1
+      ? [...cursorsRef.current.slice(0, -1), primary]
+      : [primary];
+  }, []);
+
+  const applyEdit = useCallback(
+    (textarea: HTMLTextAreaElement, edit: CursorEdit) => {
+      const result = applyCursorEdit(markdown, getCurrentCursors(textarea), edit);
+      editedValueRef.current = result.value;
+      setCursors(result.cursors);
+      onChange(result.value);
+    },
+    [markdown, onChange, getCurrentCursors]
+  );
+
+  /**
+   * Select the word under each cursor, or add the next occurrence of the selection
+   */
+  const addNextOccurrence = useCallback(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const current = getCurrentCursors(textarea);
+    const primary = current[current.length - 1];
+    if (primary.start === primary.end) {
+      setCursors(
+        mergeCursors(current.map((cursor) => getWordRangeAt(markdown, cursor.start) ?? cursor))
+      );
+      return;
+    }
+
+    const next = findNextOccurrence(markdown, current);
+    if (next) setCursors([...current, next]);
+  }, [markdown, textareaRef, getCurrentCursors]);
+
+  /**
+   * Keyboard handling; returns true when the key was consumed
+   */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+      const isModifierPressed = e.ctrlKey || e.metaKey;
+
+      if (isModifierPressed && !e.altKey && !e.shiftKey && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        addNextOccurrence();
+        return true;
+      }
+
+      const textarea = textareaRef.current;
+      if (!textarea || cursorsRef.current.length < 2) return false;
+      if (e.nativeEvent.isComposing) {
+        clearCursors();
+        return false;
+      }
+
+      let edit: CursorEdit | null = null;
+      if (!isModifierPressed && !e.altKey) {
+        if (e.key === 'Backspace') edit = { type: 'deleteBackward' };
+        else if (e.key === 'Delete') edit = { type: 'deleteForward' };
+        else if (e.key === 'Enter') edit = { type: 'insert', text: '\n' };
+        else if (e.key === 'Tab' && !e.shiftKey) edit = { type: 'insert', text: '  ' };
+      }
+      if (!isModifierPressed && e.key.length === 1) {
+        // Printable characters, including the ones typed with Alt/Option
+        edit = { type: 'insert', text: e.key };
+      }
+
+      if (edit) {
+        e.preventDefault();
+        applyEdit(textarea, edit);
+        return true;
+      }
+
+      const isPlainKey = !isModifierPressed && !e.altKey && !e.shiftKey;
+      if (isPlainKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+        e.preventDefault();
+        setCursors(
+          moveCursors(markdown, getCurrentCursors(textarea), e.key === 'ArrowLeft' ? -1 : 1)
+        );
+        return true;
+      }
+
+      if (MODIFIER_KEYS.has(e.key) || (isModifierPressed && e.key.toLowerCase() === 'c')) {
+        return false;
+      }
+
+      // Escape and any other key go back to a single cursor and keep their usual behavior
+      clearCursors();
+      return false;
+    },
+    [markdown, textareaRef, addNextOccurrence, applyEdit, clearCursors, getCurrentCursors]
+  );
+
+  /**
+   * Alt+click adds (or removes) a cursor; Alt+Shift drag makes a box selection
+   */
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLTextAreaElement>) => {
+      const textarea = textareaRef.current;
+      if (!textarea || e.button !== 0) return;
+      if (!e.altKey) {
+        clearCursors();
+        return;
+      }
+
+      const content = textarea.parentElement?.querySelector<HTMLElement>(
+        '[data-syntax-highlight-content]'
+      );
+      const anchor = content ? getTextOffsetFromPoint(content, e.clientX, e.clientY) : null;
+      if (!content || anchor === null) return;
+
+      e.preventDefault();
+      textarea.focus({ preventScroll: true });
+
+      if (!e.shiftKey) {
+        const current = getCurrentCursors(textarea);
+        const remaining = current.filter(
+          (cursor) => cursor.start !== anchor || cursor.end !== anchor
+        );
+        setCursors(
+          remaining.length < current.length && remaining.length > 0
+            ? remaining
+            : mergeCursors([...current, { start: anchor, end: anchor }])
+        );
+        return;
+      }
+
+      setCursors([{ start: anchor, end: anchor }]);
+      let frame = 0;
+      const handleMouseMove = (event: MouseEvent) => {
+        cancelAnimationFrame(frame);
+        frame = requestAnimationFrame(() => {
+          const head = getTextOffsetFromPoint(content, event.clientX, event.clientY);
+          if (head !== null) setCursors(getColumnCursors(textarea.value, anchor, head));
+        });
+      };
+      const handleMouseUp = () => {
+        window.removeEventListener('mousemove', handleMouseMove);
+        window.removeEventListener('mouseup', handleMouseUp);
+      };
+      window.addEventListener('mousemove', handleMouseMove);
+      window.addEventListener('mouseup', handleMouseUp);
+    },
+    [textareaRef, clearCursors, getCurrentCursors]
+  );
+
+  // Cursors besides the primary one, which the textarea shows itself
+  const extraCursors = useMemo(() => (cursors.length > 1 ? cursors.slice(0, -1) : []), [cursors]);
+
+  return {
+    extraCursors,
+    handleKeyDown,
+    handleMouseDown,
+  };
+};
@@ -9,7 +9,10 @@ import { EditorHeader } from "./components/EditorHeader";
 import { EditorTextarea } from "./components/EditorTextarea";
 import { FocusModeOverlay } from "./components/FocusModeOverlay";
 import { LineNumbers } from "./components/LineNumbers";
+import { VimCommandLine } from "./components/VimCommandLine";
 import { useEditorState } from "./hooks/useEditorState";
+import { useImageAttachments } from "./hooks/useImageAttachments";
+import { useMultiCursor } from "./hooks/useMultiCursor";
 import { useResponsiveEditor } from "./hooks/useResponsiveEditor";
 import { useSimpleEditor } from "./hooks/useSimpleEditor";
 import { useTypewriterMode } from "./hooks/useTypewriterMode";
@@ -30,6 +33,10 @@ export const EditorPane: React.FC<EditorPaneProps> = ({
   typewriterMode = false,
   wordWrap = true,
   vimMode = false,
+  lineNumbers = true,
+  vimExCommands,
+  onUndo,
+  onRedo,
   theme,
   isMobile = false,
   isTablet = false,
@@ -38,7 +45,9 @@ export const EditorPane: React.FC<EditorPaneProps> = ({
   const { vimModeState, textareaRef, vim } = useEditorState(
     markdown,
     onChange,
-    vimMode
+    vimMode,
+    vimExCommands,
+    { onUndo, onRedo }
   );
 
   const { insertTextAtCursor, autoResize } = useSimpleEditor(textareaRef, {
@@ -68,6 +77,10 @@ export const EditorPane: React.FC<EditorPaneProps> = ({
     textareaRef,
   });
 
+  const multiCursor = useMultiCursor(textareaRef, markdown, onChange);
+
+  const imageAttachments = useImageAttachments(textareaRef, onChange);
+
   const editorStyles = generateEditorStyles(responsiveConfig, wordWrap, theme);
 
   const handleKeyDownEvent = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -76,6 +89,8 @@ export const EditorPane: React.FC<EditorPaneProps> = ({
       vimHandler: vim,
       markdown,
       onChange,
+      // In vim, keys only type text in insert mode
+      multiCursor: !vimMode || vimModeState === "insert" ? multiCursor : undefined,
     });
   };
 
@@ -102,16 +117,23 @@ export const EditorPane: React.FC<EditorPaneProps> = ({
           markdown={markdown}
           onChange={onChange}
           onKeyDown={handleKeyDownEvent}
+          onMouseDown={multiCursor.handleMouseDown}
+          extraCursors={multiCursor.extraCursors}
+          onPaste={imageAttachments.handlePaste}
+          onDragOver={imageAttachments.handleDragOver}
+          onDrop={imageAttachments.handleDrop}
           focusMode={focusMode}
           typewriterMode={typewriterMode}
           wordWrap={wordWrap}
+          lineNumbers={lineNumbers}
           editorStyles={editorStyles}
           onAutoResize={autoResize}
+          theme={theme}
         />
 
         {/* Line Numbers Overlay */}
         <LineNumbers
-          show={!focusMode}
+          show={lineNumbers && !focusMode}
           markdown={markdown}
           fontSize={responsiveConfig.fontSize}
           lineHeight={responsiveConfig.lineHeight}
@@ -121,6 +143,18 @@ export const EditorPane: React.FC<EditorPaneProps> = ({
         {/* Focus Mode Overlay */}
         <FocusModeOverlay enabled={focusMode} theme={theme} />
       </div>
+
+      {/* Vim Command Line */}
+      {vimMode && (
+        <VimCommandLine
+          mode={vimModeState}
+          commandLine={vim.commandLine}
+          message={vim.commandMessage}
+          confirmPrompt={vim.confirmPrompt}
+          pendingKeys={vim.pendingKeys}
+          theme={theme}
+        />
+      )}
     </div>
   );
 };
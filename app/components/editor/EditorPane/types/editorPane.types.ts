@@ -3,6 +3,7 @@
  * @author Axel Modra
  */
 
+import type { VimCommandMessage, VimExCommandOptions } from '@/types/vim';
 import type { Theme } from '../../../features/ThemeSelector';
 
 /**
@@ -25,6 +26,14 @@ export interface EditorPaneProps {
   wordWrap?: boolean;
   /** Enable vim mode */
   vimMode?: boolean;
+  /** Show line numbers gutter */
+  lineNumbers?: boolean;
+  /** Editor integration for vim ex-commands (:w, :q, :e, :set) */
+  vimExCommands?: VimExCommandOptions;
+  /** Undo handler for vim `u` */
+  onUndo?: () => void;
+  /** Redo handler for vim Ctrl-r */
+  onRedo?: () => void;
   /** Theme configuration */
   theme?: Theme;
   /** Mobile device flag */
@@ -99,6 +108,10 @@ export interface KeyboardHandlerConfig {
   markdown: string;
   /** Content change callback */
   onChange: (value: string) => void;
+  /** Multi-cursor handler; returns true when it consumed the key */
+  multiCursor?: {
+    handleKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => boolean;
+  };
 }
 
 /**
@@ -137,6 +150,24 @@ export interface FocusModeConfig {
   theme?: Theme;
 }
 
+/**
+ * Vim command line configuration
+ */
+export interface VimCommandLineConfig {
+  /** Current vim mode state */
+  mode: 'normal' | 'insert' | 'visual' | 'command';
+  /** Text typed after ':' */
+  commandLine: string;
+  /** Result message of the last ex-command */
+  message: VimCommandMessage | null;
+  /** Active :s///c confirmation prompt */
+  confirmPrompt: string | null;
+  /** Keys typed for an unfinished command (e.g. `d2` or `"a`) */
+  pendingKeys?: string;
+  /** Theme configuration */
+  theme?: Theme;
+}
+
 /**
  * Editor header configuration
  */
@@ -64,10 +64,13 @@ export const generateEditorStyles = (
 };
 
 /**
- * Generate padding styles for textarea based on focus mode
+ * Generate padding styles for textarea based on focus mode and line numbers gutter
  */
-export const generatePaddingStyles = (focusMode: boolean): string => {
-  return `1.5rem 1.5rem 1.5rem ${focusMode ? "2rem" : "3.5rem"}`;
+export const generatePaddingStyles = (
+  focusMode: boolean,
+  lineNumbers = true
+): string => {
+  return `1.5rem 1.5rem 1.5rem ${focusMode || !lineNumbers ? "2rem" : "3.5rem"}`;
 };
 
 /**
@@ -33,7 +33,9 @@ export const handleKeyDown = (
   e: React.KeyboardEvent<HTMLTextAreaElement>,
   config: KeyboardHandlerConfig
 ): void => {
-  const { vimMode, vimHandler, markdown, onChange } = config;
+  const { vimMode, vimHandler, markdown, onChange, multiCursor } = config;
+
+  if (multiCursor?.handleKeyDown(e)) return;
 
   if (vimMode) {
     vimHandler.handleKeyDown(e);
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyCursorEdit,
+  findNextOccurrence,
+  getColumnCursors,
+  getWordRangeAt,
+  mergeCursors,
+  moveCursors,
+} from './multiCursor';
+
+const caret = (offset: number) => ({ start: offset, end: offset });
+
+describe('mergeCursors', () => {
+  it('merges overlapping selections', () => {
+    expect(
+      mergeCursors([
+        { start: 0, end: 2 },
+        { start: 1, end: 3 },
+      ])
+    ).toEqual([{ start: 0, end: 3 }]);
+  });
+
+  it('merges carets at the same offset', () => {
+    expect(mergeCursors([caret(2), caret(2)])).toEqual([caret(2)]);
+  });
+
+  it('keeps selections that only touch', () => {
+    expect(
+      mergeCursors([
+        { start: 0, end: 2 },
+        { start: 2, end: 4 },
+      ])
+    ).toEqual([
+      { start: 0, end: 2 },
+      { start: 2, end: 4 },
+    ]);
+  });
+
+  it('keeps the last added cursor primary', () => {
+    expect(mergeCursors([caret(5), { start: 0, end: 1 }, { start: 0, end: 3 }])).toEqual([
+      caret(5),
+      { start: 0, end: 3 },
+    ]);
+  });
+});
+
+describe('applyCursorEdit', () => {
+  it('inserts at every caret and keeps the cursor order', () => {
+    expect(applyCursorEdit('abcd', [caret(3), caret(1)], { type: 'insert', text: 'x' })).toEqual({
+      value: 'axbcxd',
+      cursors: [caret(5), caret(2)],
+    });
+  });
+
+  it('replaces every selection', () => {
+    const cursors = [
+      { start: 0, end: 5 },
+      { start: 6, end: 11 },
+    ];
+    expect(applyCursorEdit('hello world', cursors, { type: 'insert', text: 'X' })).toEqual({
+      value: 'X X',
+      cursors: [caret(1), caret(3)],
+    });
+  });
+
+  it('does not delete backward past the start of the text', () => {
+    expect(applyCursorEdit('abc', [caret(0), caret(2)], { type: 'deleteBackward' })).toEqual({
+      value: 'ac',
+      cursors: [caret(0), caret(1)],
+    });
+  });
+
+  it('does not delete forward past the end of the text', () => {
+    expect(applyCursorEdit('ab', [caret(2)], { type: 'deleteForward' })).toEqual({
+      value: 'ab',
+      cursors: [caret(2)],
+    });
+  });
+
+  it('merges carets that meet after deleting', () => {
+    expect(applyCursorEdit('abc', [caret(1), caret(2)], { type: 'deleteBackward' })).toEqual({
+      value: 'c',
+      cursors: [caret(0)],
+    });
+  });
+
+  it('does not delete text twice when a deletion reaches into the previous selection', () => {
+    expect(
+      applyCursorEdit('abc', [{ start: 0, end: 2 }, caret(2)], { type: 'deleteBackward' })
+    ).toEqual({
+      value: 'c',
+      cursors: [caret(0)],
+    });
+  });
+});
+
+describe('moveCursors', () => {
+  it('moves carets and stops at the edges of the text', () => {
+    expect(moveCursors('abc', [caret(0), caret(3)], -1)).toEqual([caret(0), caret(2)]);
+    expect(moveCursors('abc', [caret(0), caret(3)], 1)).toEqual([caret(1), caret(3)]);
+  });
+
+  it('collapses selections to the edge in the direction of movement', () => {
+    expect(moveCursors('abc', [{ start: 1, end: 3 }], -1)).toEqual([caret(1)]);
+    expect(moveCursors('abc', [{ start: 1, end: 3 }], 1)).toEqual([caret(3)]);
+  });
+
+  it('merges carets that end up on the same offset', () => {
+    expect(moveCursors('abc', [caret(0), caret(1)], -1)).toEqual([caret(0)]);
+  });
+});
+
+describe('getWordRangeAt', () => {
+  it('finds the word around or before an offset', () => {
+    expect(getWordRangeAt('foo bar_1 baz', 5)).toEqual({ start: 4, end: 9 });
+    expect(getWordRangeAt('foo bar_1 baz', 3)).toEqual({ start: 0, end: 3 });
+  });
+
+  it('treats letters outside ASCII as word characters', () => {
+    expect(getWordRangeAt('héllo wörld', 8)).toEqual({ start: 6, end: 11 });
+  });
+
+  it('returns null between spaces', () => {
+    expect(getWordRangeAt('a  b', 2)).toBeNull();
+  });
+});
+
+describe('findNextOccurrence', () => {
+  const text = 'foo bar foo baz foo';
+
+  it('finds the next occurrence after the primary cursor', () => {
+    expect(findNextOccurrence(text, [{ start: 0, end: 3 }])).toEqual({ start: 8, end: 11 });
+    expect(
+      findNextOccurrence(text, [
+        { start: 0, end: 3 },
+        { start: 8, end: 11 },
+      ])
+    ).toEqual({ start: 16, end: 19 });
+  });
+
+  it('wraps around to the start of the text', () => {
+    expect(findNextOccurrence(text, [{ start: 16, end: 19 }])).toEqual({ start: 0, end: 3 });
+  });
+
+  it('returns null when every occurrence has a cursor', () => {
+    expect(
+      findNextOccurrence(text, [
+        { start: 0, end: 3 },
+        { start: 8, end: 11 },
+        { start: 16, end: 19 },
+      ])
+    ).toBeNull();
+  });
+
+  it('returns null without a selection', () => {
+    expect(findNextOccurrence(text, [caret(4)])).toBeNull();
+  });
+});
+
+describe('getColumnCursors', () => {
+  const text = 'abcdef\nab\nabcdef';
+
+  it('selects the same columns on every line', () => {
+    expect(getColumnCursors(text, 1, 14)).toEqual([
+      { start: 1, end: 4 },
+      { start: 8, end: 9 },
+      { start: 11, end: 14 },
+    ]);
+  });
+
+  it('skips lines too short to reach the box', () => {
+    expect(getColumnCursors(text, 3, 15)).toEqual([
+      { start: 3, end: 5 },
+      { start: 13, end: 15 },
+    ]);
+  });
+
+  it("makes the head's line primary when selecting upward", () => {
+    expect(getColumnCursors(text, 15, 3)).toEqual([
+      { start: 13, end: 15 },
+      { start: 3, end: 5 },
+    ]);
+  });
+});
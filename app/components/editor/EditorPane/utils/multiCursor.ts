@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Text operations for multi-cursor editing
+ * @author Axel Modra
+ */
+
+/**
+ * One cursor: a caret when start equals end, otherwise a selection
+ */
+export interface CursorRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Edit applied at every cursor at once
+ */
+export type CursorEdit =
+  | { type: 'insert'; text: string }
+  | { type: 'deleteBackward' }
+  | { type: 'deleteForward' };
+
+const WORD_CHAR_PATTERN = /[\p{L}\p{N}_]/u;
+
+const rangesOverlap = (a: CursorRange, b: CursorRange) =>
+  a.start === b.start || (a.start < b.end && b.start < a.end);
+
+/**
+ * Merge overlapping cursors. Insertion order is kept, so the last cursor stays
+ * the primary one (the one shown by the textarea itself).
+ */
+export const mergeCursors = (cursors: CursorRange[]): CursorRange[] => {
+  const merged: CursorRange[] = [];
+
+  for (const cursor of cursors) {
+    let next = cursor;
+    for (let index = merged.length - 1; index >= 0; index--) {
+      if (rangesOverlap(merged[index], next)) {
+        next = {
+          start: Math.min(merged[index].start, next.start),
+          end: Math.max(merged[index].end, next.end),
+        };
+        merged.splice(index, 1);
+      }
+    }
+    merged.push(next);
+  }
+
+  return merged;
+};
+
+/**
+ * Apply one edit at every cursor in a single pass
+ */
+export const applyCursorEdit = (
+  text: string,
+  cursors: CursorRange[],
+  edit: CursorEdit
+): { value: string; cursors: CursorRange[] } => {
+  const order = cursors
+    .map((_, index) => index)
+    .sort((a, b) => cursors[a].start - cursors[b].start);
+  const inserted = edit.type === 'insert' ? edit.text : '';
+  const next: CursorRange[] = [];
+  let value = '';
+  let copied = 0;
+
+  for (const index of order) {
+    let { start: from, end: to } = cursors[index];
+    if (from === to && edit.type === 'deleteBackward') from = Math.max(0, from - 1);
+    if (from === to && edit.type === 'deleteForward') to = Math.min(text.length, to + 1);
+
+    // A deletion can reach into the previous cursor's range, which is already handled
+    from = Math.max(from, copied);
+    to = Math.max(to, from);
+
+    value += text.slice(copied, from) + inserted;
+    copied = to;
+    next[index] = { start: value.length, end: value.length };
+  }
+
+  value += text.slice(copied);
+  return { value, cursors: mergeCursors(next) };
+};
+
+/**
+ * Move every cursor one character left or right; selections collapse to their edge
+ */
+export const moveCursors = (
+  text: string,
+  cursors: CursorRange[],
+  direction: -1 | 1
+): CursorRange[] =>
+  mergeCursors(
+    cursors.map(({ start, end }) => {
+      let caret = direction < 0 ? start : end;
+      if (start === end) caret = Math.min(text.length, Math.max(0, caret + direction));
+      return { start: caret, end: caret };
+    })
+  );
+
+/**
+ * Range of the word touching an offset, or null when there is none
+ */
+export const getWordRangeAt = (text: string, offset: number): CursorRange | null => {
+  let start = offset;
+  let end = offset;
+  while (start > 0 && WORD_CHAR_PATTERN.test(text[start - 1])) start--;
+  while (end < text.length && WORD_CHAR_PATTERN.test(text[end])) end++;
+  return start === end ? null : { start, end };
+};
+
+/**
+ * Next occurrence of the primary selection's text that no cursor covers yet,
+ * searching forward from the primary cursor and wrapping around once
+ */
+export const findNextOccurrence = (text: string, cursors: CursorRange[]): CursorRange | null => {
+  const primary = cursors[cursors.length - 1];
+  const needle = text.slice(primary.start, primary.end);
+  if (!needle) return null;
+
+  let from = primary.end;
+  let wrapped = false;
+  while (true) {
+    const index = text.indexOf(needle, from);
+    if (index === -1 && !wrapped) {
+      wrapped = true;
+      from = 0;
+      continue;
+    }
+    if (index === -1 || (wrapped && index >= primary.end)) return null;
+
+    const candidate = { start: index, end: index + needle.length };
+    if (!cursors.some((cursor) => rangesOverlap(cursor, candidate))) return candidate;
+    from = index + 1;
+  }
+};
+
+/**
+ * Box selection between two offsets: one range per line, spanning the same columns.
+ * Lines too short to reach the box are skipped; the head's line ends up primary.
+ */
+export const getColumnCursors = (text: string, anchor: number, head: number): CursorRange[] => {
+  const lineStartOf = (offset: number) => text.lastIndexOf('\n', offset - 1) + 1;
+  const anchorLineStart = lineStartOf(anchor);
+  const headLineStart = lineStartOf(head);
+  const fromColumn = Math.min(anchor - anchorLineStart, head - headLineStart);
+  const toColumn = Math.max(anchor - anchorLineStart, head - headLineStart);
+
+  const cursors: CursorRange[] = [];
+  let lineStart = Math.min(anchorLineStart, headLineStart);
+  const lastLineStart = Math.max(anchorLineStart, headLineStart);
+  while (lineStart <= lastLineStart) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    if (lineEnd - lineStart >= fromColumn) {
+      cursors.push({
+        start: lineStart + fromColumn,
+        end: Math.min(lineEnd, lineStart + toColumn),
+      });
+    }
+    if (newline === -1) break;
+    lineStart = newline + 1;
+  }
+
+  return anchor > head ? cursors.reverse() : cursors;
+};
+
+/**
+ * Text offset under a viewport point, read from the syntax highlight layer (which
+ * mirrors the textarea's layout). Returns null when the point is not over the text.
+ */
+export const getTextOffsetFromPoint = (
+  content: HTMLElement,
+  x: number,
+  y: number
+): number | null => {
+  // The layer ignores the pointer; let it be hit-tested just for this lookup
+  const pointerEvents = content.style.pointerEvents;
+  content.style.pointerEvents = 'auto';
+  let node: Node | null = null;
+  let nodeOffset = 0;
+  try {
+    if (typeof document.caretPositionFromPoint === 'function') {
+      const position = document.caretPositionFromPoint(x, y);
+      node = position?.offsetNode ?? null;
+      nodeOffset = position?.offset ?? 0;
+    } else if (typeof document.caretRangeFromPoint === 'function') {
+      const range = document.caretRangeFromPoint(x, y);
+      node = range?.startContainer ?? null;
+      nodeOffset = range?.startOffset ?? 0;
+    }
+  } finally {
+    content.style.pointerEvents = pointerEvents;
+  }
+
+  let chunk: Node | null = node;
+  while (chunk && chunk.parentNode !== content) chunk = chunk.parentNode;
+  if (!node || !(chunk instanceof HTMLElement) || !chunk.hasAttribute('data-highlight-chunk')) {
+    return null;
+  }
+
+  // Chunks hold the lines between blank lines; the newline separating two chunks is not rendered
+  const chunkLength = (element: Element) =>
+    (element.textContent?.length ?? 0) - element.querySelectorAll('[data-line-placeholder]').length;
+
+  let offset = 0;
+  let sibling = chunk.previousElementSibling;
+  while (sibling) {
+    if (sibling.hasAttribute('data-highlight-chunk')) offset += chunkLength(sibling) + 1;
+    sibling = sibling.previousElementSibling;
+  }
+
+  const range = document.createRange();
+  range.setStart(chunk, 0);
+  range.setEnd(node, nodeOffset);
+  return offset + Math.min(range.toString().length, chunkLength(chunk));
+};
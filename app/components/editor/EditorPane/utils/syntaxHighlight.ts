@@ -0,0 +1,326 @@
+/**
+ * @fileoverview Markdown syntax highlighting for the editor surface
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import type { Theme } from '../../../features/ThemeSelector';
+
+/**
+ * Kind of highlighted markdown syntax
+ */
+export type HighlightTokenType =
+  | 'text'
+  | 'heading'
+  | 'marker'
+  | 'strong'
+  | 'emphasis'
+  | 'strike'
+  | 'code'
+  | 'link'
+  | 'url'
+  | 'quote'
+  | 'list'
+  | 'hr'
+  | 'frontMatter'
+  | 'frontMatterKey'
+  | 'html';
+
+/**
+ * Highlighted piece of a line
+ */
+export interface HighlightToken {
+  type: HighlightTokenType;
+  text: string;
+}
+
+/**
+ * Block state carried from line to line: '' (normal), 'frontMatter' or 'fence:<marker>'.
+ * Kept as a string so chunks can be memoized by plain prop comparison.
+ */
+export type HighlightBlockState = string;
+
+/**
+ * Run of consecutive lines highlighted (and memoized) together
+ */
+export interface HighlightChunk {
+  /** Lines of the chunk joined with "\n" */
+  text: string;
+  /** Block state before the first line */
+  state: HighlightBlockState;
+  /** The chunk starts the document, so a leading "---" opens front matter */
+  isFirst: boolean;
+}
+
+/** Chunks end at blank lines, or after this many lines when there are none */
+const MAX_CHUNK_LINES = 200;
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^( {0,3}#{1,6})(\s.*)?$/;
+const HR_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_PATTERN = /^ {0,3}(?:>[ \t]?)+/;
+const LIST_PATTERN = /^([ \t]*)([-*+]|\d{1,9}[.)])([ \t]+)(\[[ xX]\][ \t])?/;
+const FRONT_MATTER_KEY_PATTERN = /^([\w-]+)(:)/;
+
+// Order matters: code spans win over everything, links over emphasis
+const INLINE_PATTERN = new RegExp(
+  [
+    '(?<code>`+[^`]+?`+)',
+    '(?<wiki>\\[\\[[^\\]\\n]+\\]\\])',
+    '(?<link>!?\\[[^\\]\\n]*\\]\\([^)\\s]*(?:\\s+"[^"]*")?\\))',
+    '(?<autolink><https?:\\/\\/[^>\\s]+>|https?:\\/\\/[^\\s<>()]+)',
+    '(?<strong>(\\*\\*|__)(?=\\S)[^\\n]*?\\S\\6)',
+    '(?<emphasis>(\\*|_)(?=\\S)[^\\n]*?\\S\\8)',
+    '(?<strike>~~(?=\\S)[^\\n]*?\\S~~)',
+    '(?<html><!--.*?-->|<\\/?[A-Za-z][^>\\n]*>)',
+  ].join('|'),
+  'g'
+);
+
+const isFenceState = (state: HighlightBlockState) => state.startsWith('fence:');
+
+/**
+ * Block state after a line, tracking only front matter and fenced code
+ */
+export const getNextBlockState = (
+  line: string,
+  state: HighlightBlockState,
+  isFirstLine: boolean
+): HighlightBlockState => {
+  if (state === 'frontMatter') {
+    const trimmed = line.trim();
+    return trimmed === '---' || trimmed === '...' ? '' : state;
+  }
+
+  // Cheap check first: this runs for every line of the document on each edit
+  const fence = line.includes('``') || line.includes('~~') ? FENCE_PATTERN.exec(line) : null;
+  if (isFenceState(state)) {
+    const marker = state.slice('fence:'.length);
+    const closes =
+      fence &&
+      fence[1][0] === marker[0] &&
+      fence[1].length >= marker.length &&
+      !line.slice(fence[0].length).trim();
+    return closes ? '' : state;
+  }
+
+  if (isFirstLine && line.trim() === '---') return 'frontMatter';
+  if (fence && !(fence[1][0] === '`' && line.slice(fence[0].length).includes('`'))) {
+    return `fence:${fence[1]}`;
+  }
+  return '';
+};
+
+/**
+ * Tokenize inline markdown (code spans, links, emphasis, html)
+ */
+export const tokenizeInline = (
+  text: string,
+  baseType: HighlightTokenType = 'text'
+): HighlightToken[] => {
+  const tokens: HighlightToken[] = [];
+  let cursor = 0;
+
+  INLINE_PATTERN.lastIndex = 0;
+  let match = INLINE_PATTERN.exec(text);
+  while (match !== null) {
+    if (match.index > cursor)
+      tokens.push({ type: baseType, text: text.slice(cursor, match.index) });
+
+    const groups = match.groups ?? {};
+    const value = match[0];
+    if (groups.link) {
+      // Split "[text](url)" so the url can be dimmed
+      const labelEnd = value.indexOf('](') + 1;
+      tokens.push({ type: 'link', text: value.slice(0, labelEnd) });
+      tokens.push({ type: 'url', text: value.slice(labelEnd) });
+    } else if (groups.code) {
+      tokens.push({ type: 'code', text: value });
+    } else if (groups.wiki) {
+      tokens.push({ type: 'link', text: value });
+    } else if (groups.autolink) {
+      tokens.push({ type: 'url', text: value });
+    } else if (groups.strong) {
+      tokens.push({ type: 'strong', text: value });
+    } else if (groups.emphasis) {
+      tokens.push({ type: 'emphasis', text: value });
+    } else if (groups.strike) {
+      tokens.push({ type: 'strike', text: value });
+    } else {
+      tokens.push({ type: 'html', text: value });
+    }
+
+    cursor = match.index + value.length;
+    match = INLINE_PATTERN.exec(text);
+  }
+
+  if (cursor < text.length) tokens.push({ type: baseType, text: text.slice(cursor) });
+  return tokens;
+};
+
+/**
+ * Tokenize one line given the block state before it
+ */
+export const tokenizeLine = (
+  line: string,
+  state: HighlightBlockState,
+  isFirstLine: boolean
+): HighlightToken[] => {
+  if (!line) return [];
+
+  if (state === 'frontMatter' || (isFirstLine && line.trim() === '---')) {
+    const key = FRONT_MATTER_KEY_PATTERN.exec(line);
+    return key
+      ? [
+          { type: 'frontMatterKey', text: key[1] },
+          { type: 'marker', text: key[2] },
+          { type: 'frontMatter', text: line.slice(key[0].length) },
+        ]
+      : [{ type: 'frontMatter', text: line }];
+  }
+
+  if (isFenceState(state)) {
+    return [{ type: getNextBlockState(line, state, false) ? 'code' : 'marker', text: line }];
+  }
+  if (FENCE_PATTERN.test(line) && getNextBlockState(line, state, false)) {
+    return [{ type: 'marker', text: line }];
+  }
+
+  const heading = HEADING_PATTERN.exec(line);
+  if (heading) {
+    return [
+      { type: 'marker', text: heading[1] },
+      ...(heading[2] ? [{ type: 'heading' as const, text: heading[2] }] : []),
+    ];
+  }
+
+  if (HR_PATTERN.test(line)) return [{ type: 'hr', text: line }];
+
+  const quote = QUOTE_PATTERN.exec(line);
+  if (quote) {
+    return [
+      { type: 'marker', text: quote[0] },
+      ...tokenizeInline(line.slice(quote[0].length), 'quote'),
+    ];
+  }
+
+  const list = LIST_PATTERN.exec(line);
+  if (list) {
+    const tokens: HighlightToken[] = [
+      { type: 'text', text: list[1] },
+      { type: 'list', text: list[2] },
+      { type: 'text', text: list[3] },
+      { type: 'list', text: list[4] ?? '' },
+      ...tokenizeInline(line.slice(list[0].length)),
+    ];
+    return tokens.filter((token) => token.text);
+  }
+
+  return tokenizeInline(line);
+};
+
+/**
+ * Tokenize every line of a chunk, carrying the block state across lines
+ */
+export const tokenizeChunk = (chunk: HighlightChunk): HighlightToken[][] => {
+  let state = chunk.state;
+  return chunk.text.split('\n').map((line, index) => {
+    const isFirstLine = chunk.isFirst && index === 0;
+    const tokens = tokenizeLine(line, state, isFirstLine);
+    state = getNextBlockState(line, state, isFirstLine);
+    return tokens;
+  });
+};
+
+/**
+ * Split a document into chunks at blank lines. Boundaries only depend on nearby
+ * content, so an edit changes one chunk and the others keep their memoized render.
+ */
+export const splitIntoChunks = (markdown: string): HighlightChunk[] => {
+  const chunks: HighlightChunk[] = [];
+  let state: HighlightBlockState = '';
+  let chunkStart = 0;
+  let chunkState: HighlightBlockState = '';
+  let chunkLines = 0;
+  let lineStart = 0;
+  let lineIndex = 0;
+
+  while (lineStart <= markdown.length) {
+    const newline = markdown.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? markdown.length : newline;
+    const line = markdown.slice(lineStart, lineEnd);
+
+    state = getNextBlockState(line, state, lineIndex === 0);
+    chunkLines++;
+
+    const isLastLine = newline === -1;
+    if (isLastLine || (!line.trim() && !isFenceState(state)) || chunkLines >= MAX_CHUNK_LINES) {
+      chunks.push({
+        text: markdown.slice(chunkStart, lineEnd),
+        state: chunkState,
+        isFirst: chunkStart === 0,
+      });
+      chunkStart = lineEnd + 1;
+      chunkState = state;
+      chunkLines = 0;
+    }
+
+    if (isLastLine) break;
+    lineStart = newline + 1;
+    lineIndex++;
+  }
+
+  return chunks;
+};
+
+/**
+ * Add an alpha channel to a "#rrggbb" color; other formats are returned unchanged
+ */
+const withAlpha = (color: string, alpha: string) =>
+  /^#[0-9a-f]{6}$/i.test(color) ? `${color}${alpha}` : color;
+
+/**
+ * Token colors derived from the active theme. Only colors and decorations change,
+ * never font weight or style, so the text lines up exactly with the textarea.
+ */
+export const getHighlightStyles = (
+  theme?: Theme
+): Record<HighlightTokenType, React.CSSProperties> => {
+  if (!theme) {
+    return {
+      text: {},
+      heading: { textDecoration: 'underline' },
+      marker: { opacity: 0.55 },
+      strong: {},
+      emphasis: {},
+      strike: { textDecoration: 'line-through' },
+      code: { opacity: 0.8 },
+      link: { textDecoration: 'underline' },
+      url: { opacity: 0.6 },
+      quote: { opacity: 0.75 },
+      list: { opacity: 0.75 },
+      hr: { opacity: 0.55 },
+      frontMatter: { opacity: 0.7 },
+      frontMatterKey: { opacity: 0.85 },
+      html: { opacity: 0.7 },
+    };
+  }
+
+  return {
+    text: {},
+    heading: { color: theme.primary },
+    marker: { color: withAlpha(theme.text, '8c') },
+    strong: { color: theme.secondary },
+    emphasis: { color: theme.accent },
+    strike: { color: withAlpha(theme.text, '99'), textDecoration: 'line-through' },
+    code: { color: theme.secondary, backgroundColor: withAlpha(theme.accent, '1a') },
+    link: { color: theme.accent, textDecoration: 'underline' },
+    url: { color: withAlpha(theme.text, '99') },
+    quote: { color: withAlpha(theme.text, 'bf') },
+    list: { color: theme.primary },
+    hr: { color: withAlpha(theme.text, '8c') },
+    frontMatter: { color: theme.secondary },
+    frontMatterKey: { color: theme.primary },
+    html: { color: withAlpha(theme.accent, 'cc') },
+  };
+};
@@ -3,9 +3,9 @@
  * @author Axel Modra
  */
 
-import { ImageIcon, Link } from "lucide-react";
+import { ImageIcon, Link, Upload } from "lucide-react";
 import type React from "react";
-import { useId, useState } from "react";
+import { useId, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -18,6 +18,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/core/useToast";
+import { attachmentStorage } from "@/services/attachmentStorage";
+import { getAttachmentPath } from "@/utils/attachmentUtils";
 
 interface ImageLinkDialogProps {
   /** Whether the dialog is open */
@@ -44,6 +46,7 @@ export const ImageLinkDialog: React.FC<ImageLinkDialogProps> = ({
   // Generate unique IDs for form elements
   const imageUrlId = useId();
   const altTextId = useId();
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   /**
    * Validate if URL is a valid image URL
@@ -137,6 +140,36 @@ export const ImageLinkDialog: React.FC<ImageLinkDialogProps> = ({
     }
   };
 
+  /**
+   * Store a picked image as an attachment and insert it
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsValidating(true);
+
+    try {
+      const attachment = await attachmentStorage.save(file, file.name);
+      const finalAltText =
+        altText.trim() || file.name.replace(/\.[^.]+$/, "") || "Image";
+
+      onImageInsert(getAttachmentPath(attachment.id), finalAltText);
+      handleClose();
+    } catch (error) {
+      setIsValidating(false);
+      toast({
+        title: "Upload Failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "An error occurred while storing the image",
+        variant: "destructive",
+      });
+    }
+  };
+
   /**
    * Handle dialog close
    */
@@ -174,8 +207,9 @@ export const ImageLinkDialog: React.FC<ImageLinkDialogProps> = ({
             Insert Image
           </DialogTitle>
           <DialogDescription>
-            Enter the URL of the image you want to insert. The image will be
-            embedded using standard markdown format.
+            Enter the URL of the image you want to insert, or upload one from
+            your device. The image will be embedded using standard markdown
+            format.
           </DialogDescription>
         </DialogHeader>
 
@@ -217,6 +251,23 @@ export const ImageLinkDialog: React.FC<ImageLinkDialogProps> = ({
           </div>
 
           <DialogFooter className="flex-col sm:flex-row gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isValidating}
+              className="w-full sm:w-auto sm:mr-auto"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Upload
+            </Button>
             <Button
               type="button"
               variant="outline"
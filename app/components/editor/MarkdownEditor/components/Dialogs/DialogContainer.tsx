@@ -4,8 +4,12 @@
  */
 
 import React from 'react';
+import type { FileData } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
 import { AdvancedExport } from '../../../../features/AdvancedExport';
+import { SavedVersionDiff } from '../../../../features/DiffViewer';
 import { SearchDialog } from '../../../../features/SearchDialog';
+import type { WorkspaceSearchMatch } from '../../../../features/SearchDialog/types/search.types';
 import type { Theme } from '../../../../features/ThemeSelector';
 import { KeyboardShortcuts } from '../../../../navigation/KeyboardShortcuts';
 import { DocumentTemplates } from '../../../../templates/DocumentTemplates';
@@ -27,6 +31,11 @@ export interface DialogContainerProps {
   fileName: string;
   onMarkdownChange: (markdown: string) => void;
   onLoadTemplate: (content: string, fileName: string) => void;
+  onLoadSavedVersion?: () => Promise<string | null>;
+
+  // Workspace search
+  storageService?: FileStorageService | null;
+  onOpenSearchMatch?: (file: FileData, match: WorkspaceSearchMatch) => void;
 
   // Theme
   currentTheme?: Theme;
@@ -42,6 +51,9 @@ export const DialogContainer: React.FC<DialogContainerProps> = ({
   fileName,
   onMarkdownChange,
   onLoadTemplate,
+  onLoadSavedVersion,
+  storageService,
+  onOpenSearchMatch,
   currentTheme,
 }) => {
   // Handle escape key to close dialogs
@@ -72,6 +84,9 @@ export const DialogContainer: React.FC<DialogContainerProps> = ({
           markdown={markdown}
           onReplace={onMarkdownChange}
           onClose={() => onCloseDialog('showSearch')}
+          storageService={storageService}
+          fileName={fileName}
+          onOpenMatch={onOpenSearchMatch}
         />
       )}
 
@@ -102,6 +117,17 @@ export const DialogContainer: React.FC<DialogContainerProps> = ({
           currentTheme={currentTheme}
         />
       )}
+
+      {/* Saved Version Diff Dialog */}
+      {dialogState.showDiff && onLoadSavedVersion && (
+        <SavedVersionDiff
+          isOpen={dialogState.showDiff}
+          onClose={() => onCloseDialog('showDiff')}
+          fileName={fileName}
+          currentContent={markdown}
+          loadSavedContent={onLoadSavedVersion}
+        />
+      )}
     </>
   );
 };
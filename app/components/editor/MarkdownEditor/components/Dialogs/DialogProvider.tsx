@@ -36,6 +36,7 @@ const initialDialogState: DialogState = {
   showShortcuts: false,
   showTemplates: false,
   showAdvancedExport: false,
+  showDiff: false,
 };
 
 /**
@@ -61,6 +62,7 @@ const dialogReducer = (state: DialogState, action: DialogAction): DialogState =>
         showShortcuts: false,
         showTemplates: false,
         showAdvancedExport: false,
+        showDiff: false,
       };
 
     case 'TOGGLE_DIALOG':
@@ -4,24 +4,31 @@ EditorHeader
  */
 
 import {
+  Columns2,
   Eye,
   EyeOff,
   FileText,
+  FolderTree,
+  GitCompare,
   Keyboard,
   List,
   Maximize2,
   Minimize2,
   PanelLeft,
+  Presentation,
   Search,
+  Tag,
 } from "lucide-react";
 import React from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
+import type { TagChanges } from "@/utils/tagUtils";
 import { generateHeaderStyles, getHeaderClassName } from "@/utils/themeUtils";
 import { AuthButtons } from "../../../../auth/AuthButtons";
 import { FileOperations } from "../../../../features/FileOperations";
+import { TagEditorDialog } from "../../../../features/TagEditorDialog";
 import { type Theme, ThemeSelector } from "../../../../features/ThemeSelector";
 import { WritingSettings } from "../../../../features/WritingSettings";
 import { Toolbar } from "../../../Toolbar";
@@ -46,15 +53,24 @@ export interface EditorHeaderProps {
   onLoad: (content: string, name: string) => void;
   onNewFile: () => void;
 
+  // Tags
+  tags?: string[];
+  tagSuggestions?: string[];
+  onTagsChange?: (changes: TagChanges) => Promise<unknown>;
+
   // View controls
   showPreview: boolean;
   onTogglePreview: () => void;
+  isSplit?: boolean;
+  onToggleSplit?: () => void;
 
   // Dialog controls
   onShowSearch: () => void;
   onShowTemplates: () => void;
   onShowAdvancedExport: () => void;
   onShowShortcuts: () => void;
+  onShowDiff?: () => void;
+  onStartPresentation?: () => void;
 
   // Toolbar
   onInsertText: (text: string) => void;
@@ -76,8 +92,10 @@ export interface EditorHeaderProps {
   zenMode: boolean;
 
   // Sidebar controls
+  showFiles?: boolean;
   showToc?: boolean;
   showOutline?: boolean;
+  onToggleFiles?: () => void;
   onToggleToc?: () => void;
   onToggleOutline?: () => void;
 }
@@ -94,12 +112,19 @@ export const EditorHeader: React.FC<EditorHeaderProps> = ({
   markdown,
   onLoad,
   onNewFile,
+  tags = [],
+  tagSuggestions,
+  onTagsChange,
   showPreview,
   onTogglePreview,
+  isSplit = false,
+  onToggleSplit,
   onShowSearch,
   onShowTemplates,
   onShowAdvancedExport,
   onShowShortcuts,
+  onShowDiff,
+  onStartPresentation,
   onInsertText,
   settings,
   onSettingsChange,
@@ -109,13 +134,16 @@ export const EditorHeader: React.FC<EditorHeaderProps> = ({
   canRedo,
   responsive,
   zenMode,
+  showFiles,
   showToc,
   showOutline,
+  onToggleFiles,
   onToggleToc,
   onToggleOutline,
 }) => {
   const { isMobile, isTablet, isSmallTablet } = responsive;
   const [isFullscreen, setIsFullscreen] = React.useState(false);
+  const [isTagEditorOpen, setIsTagEditorOpen] = React.useState(false);
 
   // Compute desktop state from responsive props to avoid race condition
   const isDesktop = !isMobile && !isTablet && !isSmallTablet;
@@ -322,7 +350,28 @@ export const EditorHeader: React.FC<EditorHeaderProps> = ({
           isDesktop ? "justify-end" : "justify-center"
         } space-x-1 px-2 sm:px-4 py-1 border-t border-gray-200/50 dark:border-gray-700/50`}
       >
-        {/* Sidebar Controls - TOC and Outline */}
+        {/* Sidebar Controls - Files, TOC and Outline */}
+        {onToggleFiles && (
+          <Button
+            variant={showFiles ? "default" : "ghost"}
+            size="sm"
+            onClick={onToggleFiles}
+            className={`h-6 w-6 sm:h-8 sm:w-8 p-0 sm:p-2 transition-all duration-200 ${
+              showFiles
+                ? "bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400 shadow-sm"
+                : "hover:bg-gray-100 dark:hover:bg-gray-800"
+            }`}
+            title={showFiles ? "Hide Files" : "Show Files"}
+            style={{
+              color: showFiles ? undefined : currentTheme.text,
+              borderColor: showFiles ? "rgb(245 158 11 / 0.3)" : "transparent",
+            }}
+            data-theme-button="true"
+          >
+            <FolderTree className="h-3 w-3 sm:h-4 sm:w-4" />
+          </Button>
+        )}
+
         {onToggleToc && (
           <Button
             variant={showToc ? "default" : "ghost"}
@@ -369,7 +418,7 @@ export const EditorHeader: React.FC<EditorHeaderProps> = ({
           </Button>
         )}
 
-        {(onToggleToc || onToggleOutline) && (
+        {(onToggleFiles || onToggleToc || onToggleOutline) && (
           <Separator orientation="vertical" className="h-4 sm:h-6" />
         )}
 
@@ -401,6 +450,64 @@ export const EditorHeader: React.FC<EditorHeaderProps> = ({
           )}
         </Button>
 
+        {onToggleSplit && (
+          <Button
+            variant={isSplit ? "default" : "ghost"}
+            size="sm"
+            onClick={onToggleSplit}
+            className="h-6 w-6 sm:h-8 sm:w-8 p-0 sm:p-2"
+            title={isSplit ? "Close Split Editor" : "Split Editor"}
+            aria-pressed={isSplit}
+            style={{ color: isSplit ? undefined : currentTheme.text }}
+            data-theme-button="true"
+          >
+            <Columns2 className="h-3 w-3 sm:h-4 sm:w-4" />
+          </Button>
+        )}
+
+        {onShowDiff && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onShowDiff}
+            className="h-6 w-6 sm:h-8 sm:w-8 p-0 sm:p-2"
+            title="Compare with saved version"
+            style={{ color: currentTheme.text }}
+            data-theme-button="true"
+          >
+            <GitCompare className="h-3 w-3 sm:h-4 sm:w-4" />
+          </Button>
+        )}
+
+        {onStartPresentation && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onStartPresentation}
+            className="h-6 w-6 sm:h-8 sm:w-8 p-0 sm:p-2"
+            title="Present (opens a live slideshow window)"
+            style={{ color: currentTheme.text }}
+            data-theme-button="true"
+          >
+            <Presentation className="h-3 w-3 sm:h-4 sm:w-4" />
+          </Button>
+        )}
+
+        {onTagsChange && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsTagEditorOpen(true)}
+            className="h-6 sm:h-8 px-1 sm:px-2 gap-1 text-xs"
+            title={tags.length > 0 ? `Tags: ${tags.join(", ")}` : "Add tags"}
+            style={{ color: currentTheme.text }}
+            data-theme-button="true"
+          >
+            <Tag className="h-3 w-3 sm:h-4 sm:w-4" />
+            {tags.length > 0 && <span>{tags.length}</span>}
+          </Button>
+        )}
+
         <Button
           variant="ghost"
           size="sm"
@@ -570,8 +677,24 @@ export const EditorHeader: React.FC<EditorHeaderProps> = ({
           onZenModeToggle={() =>
             onSettingsChange({ zenMode: !settings.zenMode })
           }
+          scrollSync={settings.scrollSync}
+          onScrollSyncToggle={() =>
+            onSettingsChange({ scrollSync: !settings.scrollSync })
+          }
         />
       </div>
+
+      {onTagsChange && (
+        <TagEditorDialog
+          isOpen={isTagEditorOpen}
+          onOpenChange={setIsTagEditorOpen}
+          title="Edit Tags"
+          description={`Tags for "${fileName}".`}
+          tags={tags}
+          suggestions={tagSuggestions}
+          onSubmit={onTagsChange}
+        />
+      )}
     </div>
   );
 };
@@ -4,10 +4,18 @@
  */
 
 import type React from 'react';
+import { useCallback, useRef } from 'react';
+import { usePaneScrollSync, useScrollSync } from '@/hooks/editor';
+import type { FileData } from '@/lib/supabase';
+import type { VimExCommandOptions } from '@/types/vim';
+import { revealTextareaRange } from '@/utils/scrollSyncUtils';
 import type { Theme } from '../../../../features/ThemeSelector';
 import { EditorPane } from '../../../EditorPane';
-import { PreviewPane } from '../../../PreviewPane';
+import { PreviewPane, type SourceRevealTarget } from '../../../PreviewPane';
+import type { UseSplitEditorReturn } from '../../hooks/useSplitEditor';
 import type { EditorSettings, ResponsiveState } from '../../types';
+import { EditorSplitPane } from './EditorSplitPane';
+import { SplitDivider } from './SplitDivider';
 
 /**
  * Props for EditorMainContent component
@@ -31,6 +39,18 @@ export interface EditorMainContentProps {
 
   // Text insertion
   onInsertTextAtCursor?: (insertFn: (text: string, selectInserted?: boolean) => void) => void;
+
+  // Vim ex-commands
+  vimExCommands?: VimExCommandOptions;
+
+  // Vim undo (u) / redo (Ctrl-r)
+  onUndo?: () => void;
+  onRedo?: () => void;
+
+  // Split editor
+  splitEditor?: UseSplitEditorReturn;
+  fileName?: string;
+  files?: FileData[];
 }
 
 /**
@@ -44,9 +64,42 @@ export const EditorMainContent: React.FC<EditorMainContentProps> = ({
   showPreview,
   responsive,
   onInsertTextAtCursor,
+  vimExCommands,
+  onUndo,
+  onRedo,
+  splitEditor,
+  fileName = '',
+  files = [],
 }) => {
   const { isMobile, isTablet, isSmallTablet } = responsive;
   const { zenMode } = settings;
+  const editorContainerRef = useRef<HTMLDivElement>(null);
+  const previewContainerRef = useRef<HTMLDivElement>(null);
+  const primaryPaneRef = useRef<HTMLDivElement>(null);
+  const secondaryPaneRef = useRef<HTMLDivElement>(null);
+
+  const splitDirection = zenMode ? null : (splitEditor?.state.direction ?? null);
+  const primaryPaneStyle: React.CSSProperties =
+    splitEditor && splitDirection ? { flex: `0 0 ${splitEditor.state.ratio * 100}%` } : { flex: 1 };
+
+  useScrollSync({
+    enabled: settings.scrollSync && showPreview && !zenMode,
+    editorRef: editorContainerRef,
+    previewRef: previewContainerRef,
+    markdown,
+  });
+
+  usePaneScrollSync({
+    enabled: !!splitDirection && !!splitEditor?.state.syncScroll,
+    firstRef: primaryPaneRef,
+    secondRef: secondaryPaneRef,
+  });
+
+  // Block yang diklik di preview dipilih di editor pada ketinggian viewport yang sama
+  const handleRevealSource = useCallback(({ start, end, viewportOffset }: SourceRevealTarget) => {
+    const textarea = editorContainerRef.current?.querySelector('textarea');
+    if (textarea) revealTextareaRange(textarea, start, end, viewportOffset);
+  }, []);
 
   return (
     <div
@@ -54,6 +107,7 @@ export const EditorMainContent: React.FC<EditorMainContentProps> = ({
     >
       {/* Editor Pane */}
       <div
+        ref={editorContainerRef}
         className={`
         ${isMobile || isSmallTablet ? 'w-full' : showPreview && !zenMode ? 'w-1/2' : 'w-full'}
         ${(isMobile || isSmallTablet) && showPreview && !zenMode ? 'h-1/2' : 'flex-1'}
@@ -61,25 +115,66 @@ export const EditorMainContent: React.FC<EditorMainContentProps> = ({
         min-h-0 overflow-hidden
       `}
       >
-        <EditorPane
-          markdown={markdown}
-          onChange={onChange}
-          fontSize={settings.fontSize}
-          lineHeight={settings.lineHeight}
-          focusMode={settings.focusMode}
-          typewriterMode={settings.typewriterMode}
-          wordWrap={settings.wordWrap}
-          vimMode={settings.vimMode}
-          theme={theme}
-          isMobile={isMobile}
-          isTablet={isTablet}
-          onInsertTextAtCursor={onInsertTextAtCursor}
-        />
+        <div
+          className={`h-full flex min-h-0 ${splitDirection === 'vertical' ? 'flex-row' : 'flex-col'}`}
+        >
+          <div
+            ref={primaryPaneRef}
+            className="min-h-0 min-w-0 overflow-hidden"
+            style={primaryPaneStyle}
+          >
+            <EditorPane
+              markdown={markdown}
+              onChange={onChange}
+              fontSize={settings.fontSize}
+              lineHeight={settings.lineHeight}
+              focusMode={settings.focusMode}
+              typewriterMode={settings.typewriterMode}
+              wordWrap={settings.wordWrap}
+              vimMode={settings.vimMode}
+              lineNumbers={settings.lineNumbers}
+              vimExCommands={vimExCommands}
+              onUndo={onUndo}
+              onRedo={onRedo}
+              theme={theme}
+              isMobile={isMobile}
+              isTablet={isTablet}
+              onInsertTextAtCursor={onInsertTextAtCursor}
+            />
+          </div>
+
+          {/* Split Editor Pane */}
+          {splitEditor && splitDirection && (
+            <>
+              <SplitDivider
+                direction={splitDirection}
+                ratio={splitEditor.state.ratio}
+                onRatioChange={splitEditor.actions.setRatio}
+                containerRef={editorContainerRef}
+              />
+              <div ref={secondaryPaneRef} className="flex-1 min-h-0 min-w-0 overflow-hidden">
+                <EditorSplitPane
+                  splitEditor={splitEditor}
+                  files={files}
+                  fileName={fileName}
+                  markdown={markdown}
+                  onChange={onChange}
+                  onUndo={onUndo}
+                  onRedo={onRedo}
+                  theme={theme}
+                  settings={settings}
+                  responsive={responsive}
+                />
+              </div>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Preview Pane */}
       {showPreview && !zenMode && (
         <div
+          ref={previewContainerRef}
           className={`
           ${isMobile || isSmallTablet ? 'w-full h-1/2' : 'w-1/2'}
           min-h-0 overflow-hidden
@@ -91,6 +186,8 @@ export const EditorMainContent: React.FC<EditorMainContentProps> = ({
             theme={theme}
             isMobile={isMobile}
             isTablet={isTablet}
+            onMarkdownChange={onChange}
+            onRevealSource={handleRevealSource}
           />
         </div>
       )}
@@ -6,9 +6,12 @@
 import { PanelLeftClose, PanelLeftOpen } from 'lucide-react';
 import type React from 'react';
 import { Button } from '@/components/ui/button';
+import type { FileData } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
 import { generateHeaderStyles, getHeaderClassName } from '@/utils/themeUtils';
 import type { Theme } from '../../../../features/ThemeSelector';
 import { DocumentOutline } from '../../../../navigation/DocumentOutline';
+import { FolderTree } from '../../../../navigation/FolderTree';
 import { TableOfContents } from '../../../../navigation/TableOfContents';
 import type { ResponsiveState, UIState } from '../../types';
 
@@ -26,8 +29,15 @@ export interface EditorSidebarProps {
   uiState: UIState;
   onToggleToc: () => void;
   onToggleOutline: () => void;
+  onToggleFiles: () => void;
   onToggleSidebar: () => void;
 
+  // Files
+  files: FileData[];
+  storageService: FileStorageService | null;
+  activeFileName?: string;
+  onOpenFile: (file: FileData) => void;
+
   // Responsive
   responsive: ResponsiveState;
 
@@ -44,18 +54,23 @@ export const EditorSidebar: React.FC<EditorSidebarProps> = ({
   uiState,
   onToggleToc,
   onToggleOutline,
+  onToggleFiles,
   onToggleSidebar,
+  files,
+  storageService,
+  activeFileName,
+  onOpenFile,
   responsive,
   zenMode,
 }) => {
   const { isMobile, isTablet } = responsive;
-  const { showToc, showOutline, sidebarCollapsed } = uiState;
+  const { showToc, showOutline, showFiles, sidebarCollapsed } = uiState;
 
   // Don't render sidebar on mobile or in zen mode
   if (isMobile || zenMode) return null;
 
-  // Don't render if neither TOC nor outline is shown
-  if (!showToc && !showOutline) return null;
+  // Don't render if no panel is shown
+  if (!showFiles && !showToc && !showOutline) return null;
 
   // Get theme-based styling
   const headerClassName = getHeaderClassName(theme);
@@ -80,6 +95,41 @@ export const EditorSidebar: React.FC<EditorSidebarProps> = ({
           opacity: 0.9,
         }}
       >
+        {/* Folder Tree - Top */}
+        {showFiles && (
+          <div
+            className={`
+            ${showToc || showOutline ? 'flex-1' : 'h-full'}
+            min-h-0 flex flex-col
+            ${showToc || showOutline ? 'border-b border-gray-200 dark:border-gray-700' : ''}
+            transition-all duration-300
+          `}
+          >
+            <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Files</h3>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onToggleFiles}
+                  className="h-6 w-6 p-0"
+                  title="Hide Files"
+                >
+                  <PanelLeftClose className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex-1 min-h-0">
+              <FolderTree
+                files={files}
+                storageService={storageService}
+                activeFileName={activeFileName}
+                onOpenFile={onOpenFile}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Table of Contents - Top Half */}
         {showToc && (
           <div
@@ -145,7 +195,7 @@ export const EditorSidebar: React.FC<EditorSidebarProps> = ({
       </div>
 
       {/* Sidebar Collapse Toggle - Tablet only */}
-      {isTablet && (showToc || showOutline) && (
+      {isTablet && (showFiles || showToc || showOutline) && (
         <Button
           variant="ghost"
           size="sm"
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Second editor pane of the split editor
+ * @author Axel Modra
+ */
+
+import { Columns2, Link2, Rows2, Save, X } from 'lucide-react';
+import type React from 'react';
+import { useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { FileData } from '@/lib/supabase';
+import type { Theme } from '../../../../features/ThemeSelector';
+import { EditorPane } from '../../../EditorPane';
+import type { UseSplitEditorReturn } from '../../hooks/useSplitEditor';
+import type { EditorSettings, ResponsiveState } from '../../types';
+
+/** Select value for the main document */
+const MAIN_DOCUMENT_VALUE = '__main_document__';
+
+/** Ctrl/Cmd shortcuts the editor applies to the main document */
+const MAIN_DOCUMENT_SHORTCUT_KEYS = new Set(['b', 'i', 'u', 'k', '`']);
+
+const getFileValue = (file: FileData) => file.id || file.title;
+
+/**
+ * Props for EditorSplitPane component
+ */
+export interface EditorSplitPaneProps {
+  splitEditor: UseSplitEditorReturn;
+
+  // Files that can be opened in the pane
+  files: FileData[];
+
+  // Main document, shown when no other file is open
+  fileName: string;
+  markdown: string;
+  onChange: (value: string) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+
+  // Theme
+  theme: Theme;
+
+  // Settings
+  settings: EditorSettings;
+
+  // Responsive
+  responsive: ResponsiveState;
+}
+
+/**
+ * Second editor pane: the main document at its own scroll position, or another file
+ * with its own undo history that is saved separately
+ */
+export const EditorSplitPane: React.FC<EditorSplitPaneProps> = ({
+  splitEditor,
+  files,
+  fileName,
+  markdown,
+  onChange,
+  onUndo,
+  onRedo,
+  theme,
+  settings,
+  responsive,
+}) => {
+  const { state: split, actions: splitActions } = splitEditor;
+  const otherFile = split.file;
+
+  const handleSelectFile = useCallback(
+    (value: string) => {
+      const file = files.find((candidate) => getFileValue(candidate) === value);
+      // The main document is already shown when picked from the list
+      if (value === MAIN_DOCUMENT_VALUE || !file || file.title === fileName) {
+        splitActions.showMainDocument();
+        return;
+      }
+      splitActions.openFile(file);
+    },
+    [files, fileName, splitActions]
+  );
+
+  // With another file open, undo/redo and save belong to that file; formatting shortcuts
+  // insert into the main document, so they are kept from reaching it
+  const handlePaneKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (!otherFile || !(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        e.stopPropagation();
+        if (key === 'y' || e.shiftKey) splitActions.redo();
+        else splitActions.undo();
+      } else if (key === 's' && !e.shiftKey) {
+        e.preventDefault();
+        e.stopPropagation();
+        splitActions.save();
+      } else if (MAIN_DOCUMENT_SHORTCUT_KEYS.has(key)) {
+        e.stopPropagation();
+      }
+    },
+    [otherFile, splitActions]
+  );
+
+  const iconButtonClassName = 'h-6 w-6 p-0';
+
+  return (
+    <div className="h-full flex flex-col min-h-0" data-split-editor-pane>
+      <div
+        className="flex items-center gap-1 border-b px-2 py-1 text-xs"
+        style={{ color: theme.text }}
+      >
+        <Select
+          value={otherFile ? getFileValue(otherFile) : MAIN_DOCUMENT_VALUE}
+          onValueChange={handleSelectFile}
+        >
+          <SelectTrigger className="h-6 w-auto min-w-0 max-w-[16rem] gap-1 px-2 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={MAIN_DOCUMENT_VALUE}>{fileName} (same document)</SelectItem>
+            {files
+              .filter((file) => file.title !== fileName)
+              .map((file) => (
+                <SelectItem key={getFileValue(file)} value={getFileValue(file)}>
+                  {file.title}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+
+        {otherFile && split.isModified && (
+          <>
+            <span className="h-2 w-2 rounded-full bg-current" title="Unsaved changes" />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={splitActions.save}
+              className={iconButtonClassName}
+              title={`Save ${otherFile.title}`}
+              style={{ color: theme.text }}
+            >
+              <Save className="h-3.5 w-3.5" />
+            </Button>
+          </>
+        )}
+
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant={split.syncScroll ? 'default' : 'ghost'}
+            size="sm"
+            onClick={splitActions.toggleSyncScroll}
+            className={iconButtonClassName}
+            title={split.syncScroll ? 'Unlock pane scrolling' : 'Scroll panes together'}
+            aria-pressed={split.syncScroll}
+            style={{ color: split.syncScroll ? undefined : theme.text }}
+          >
+            <Link2 className="h-3.5 w-3.5" />
+          </Button>
+
+          {split.canSplitVertically && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                splitActions.setDirection(
+                  split.direction === 'vertical' ? 'horizontal' : 'vertical'
+                )
+              }
+              className={iconButtonClassName}
+              title={split.direction === 'vertical' ? 'Split down' : 'Split right'}
+              style={{ color: theme.text }}
+            >
+              {split.direction === 'vertical' ? (
+                <Rows2 className="h-3.5 w-3.5" />
+              ) : (
+                <Columns2 className="h-3.5 w-3.5" />
+              )}
+            </Button>
+          )}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={splitActions.toggleSplit}
+            className={iconButtonClassName}
+            title="Close split"
+            style={{ color: theme.text }}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {/* biome-ignore lint/a11y/noStaticElementInteractions: only routes shortcuts typed in the pane's textarea */}
+      <div className="flex-1 min-h-0" onKeyDown={handlePaneKeyDown}>
+        <EditorPane
+          markdown={otherFile ? split.markdown : markdown}
+          onChange={otherFile ? splitActions.setMarkdown : onChange}
+          fontSize={settings.fontSize}
+          lineHeight={settings.lineHeight}
+          focusMode={settings.focusMode}
+          typewriterMode={settings.typewriterMode}
+          wordWrap={settings.wordWrap}
+          vimMode={settings.vimMode}
+          lineNumbers={settings.lineNumbers}
+          onUndo={otherFile ? splitActions.undo : onUndo}
+          onRedo={otherFile ? splitActions.redo : onRedo}
+          theme={theme}
+          isMobile={responsive.isMobile}
+          isTablet={responsive.isTablet}
+        />
+      </div>
+    </div>
+  );
+};
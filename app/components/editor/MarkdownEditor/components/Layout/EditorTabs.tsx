@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Tab bar for the documents open in the editor
+ * @author Axel Modra
+ */
+
+import { FileText, Plus, X } from 'lucide-react';
+import type React from 'react';
+import { Button } from '@/components/ui/button';
+import { generateHeaderStyles, getHeaderClassName } from '@/utils/themeUtils';
+import type { Theme } from '../../../../features/ThemeSelector';
+import type { EditorTab } from '../../types';
+
+/**
+ * Props for EditorTabs component
+ */
+export interface EditorTabsProps {
+  tabs: EditorTab[];
+  activeTabId: string;
+  onSwitchTab: (tabId: string) => void;
+  onCloseTab: (tabId: string) => void;
+  onNewTab: () => void;
+
+  // Theme
+  theme: Theme;
+
+  // Zen mode
+  zenMode: boolean;
+}
+
+/**
+ * Editor tab bar: click to switch, middle-click or the close button to close.
+ * Tabs with unsaved changes show a dot until hovered.
+ */
+export const EditorTabs: React.FC<EditorTabsProps> = ({
+  tabs,
+  activeTabId,
+  onSwitchTab,
+  onCloseTab,
+  onNewTab,
+  theme,
+  zenMode,
+}) => {
+  if (zenMode) return null;
+
+  // Get theme-based styling
+  const headerClassName = getHeaderClassName(theme);
+  const headerStyles = generateHeaderStyles(theme);
+
+  return (
+    <div
+      className={`flex items-stretch border-b overflow-x-auto ${headerClassName}`}
+      style={headerStyles}
+      role="tablist"
+      aria-label="Open documents"
+    >
+      {tabs.map((tab) => {
+        const isActive = tab.id === activeTabId;
+
+        return (
+          <div
+            key={tab.id}
+            className={`group flex items-center gap-1 border-r pl-3 pr-1 text-sm flex-shrink-0 ${
+              isActive ? 'bg-background font-medium' : 'text-muted-foreground hover:bg-muted/50'
+            }`}
+          >
+            <button
+              type="button"
+              role="tab"
+              aria-selected={isActive}
+              onClick={() => onSwitchTab(tab.id)}
+              onAuxClick={(e) => {
+                if (e.button === 1) onCloseTab(tab.id);
+              }}
+              title={tab.fileName}
+              className="flex items-center gap-1.5 py-1.5 max-w-[12rem]"
+            >
+              <FileText className="h-3.5 w-3.5 flex-shrink-0" />
+              <span className="truncate">{tab.fileName}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => onCloseTab(tab.id)}
+              aria-label={`Close ${tab.fileName}${tab.isModified ? ' (unsaved changes)' : ''}`}
+              className="flex h-5 w-5 items-center justify-center rounded hover:bg-muted"
+            >
+              {tab.isModified && (
+                <span className="h-2 w-2 rounded-full bg-current group-hover:hidden" />
+              )}
+              <X
+                className={`h-3.5 w-3.5 ${
+                  tab.isModified
+                    ? 'hidden group-hover:block'
+                    : isActive
+                      ? ''
+                      : 'opacity-0 group-hover:opacity-100'
+                }`}
+              />
+            </button>
+          </div>
+        );
+      })}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onNewTab}
+        className="h-auto rounded-none px-2"
+        aria-label="New tab"
+        title="New tab"
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Draggable divider between the two panes of the split editor
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import { useCallback } from 'react';
+import type { SplitDirection } from '../../types';
+
+/** Ratio change per arrow key press */
+const KEYBOARD_STEP = 0.05;
+
+/**
+ * Props for SplitDivider component
+ */
+export interface SplitDividerProps {
+  direction: SplitDirection;
+  ratio: number;
+  onRatioChange: (ratio: number) => void;
+  /** Element holding both panes; the ratio is measured against it */
+  containerRef: React.RefObject<HTMLElement>;
+}
+
+/**
+ * Divider that resizes the panes by dragging or with the arrow keys
+ */
+export const SplitDivider: React.FC<SplitDividerProps> = ({
+  direction,
+  ratio,
+  onRatioChange,
+  containerRef,
+}) => {
+  const isVertical = direction === 'vertical';
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      const container = containerRef.current;
+      if (!container || e.button !== 0) return;
+
+      e.preventDefault();
+      const handle = e.currentTarget;
+      handle.setPointerCapture(e.pointerId);
+
+      const handlePointerMove = (event: PointerEvent) => {
+        const rect = container.getBoundingClientRect();
+        onRatioChange(
+          isVertical
+            ? (event.clientX - rect.left) / rect.width
+            : (event.clientY - rect.top) / rect.height
+        );
+      };
+      const handlePointerUp = () => {
+        handle.removeEventListener('pointermove', handlePointerMove);
+        handle.removeEventListener('pointerup', handlePointerUp);
+        handle.removeEventListener('pointercancel', handlePointerUp);
+      };
+      handle.addEventListener('pointermove', handlePointerMove);
+      handle.addEventListener('pointerup', handlePointerUp);
+      handle.addEventListener('pointercancel', handlePointerUp);
+    },
+    [containerRef, isVertical, onRatioChange]
+  );
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      const decrease = isVertical ? 'ArrowLeft' : 'ArrowUp';
+      const increase = isVertical ? 'ArrowRight' : 'ArrowDown';
+      if (e.key !== decrease && e.key !== increase) return;
+
+      e.preventDefault();
+      onRatioChange(ratio + (e.key === increase ? KEYBOARD_STEP : -KEYBOARD_STEP));
+    },
+    [isVertical, ratio, onRatioChange]
+  );
+
+  return (
+    // biome-ignore lint/a11y/useSemanticElements: <hr> can't be focused and dragged
+    <div
+      role="separator"
+      aria-orientation={direction}
+      aria-label="Resize editor panes"
+      aria-valuenow={Math.round(ratio * 100)}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      tabIndex={0}
+      onPointerDown={handlePointerDown}
+      onKeyDown={handleKeyDown}
+      className={`flex-shrink-0 touch-none bg-border transition-colors hover:bg-primary/40 focus-visible:bg-primary/60 focus-visible:outline-none ${
+        isVertical ? 'w-1 cursor-col-resize' : 'h-1 cursor-row-resize'
+      }`}
+    />
+  );
+};
@@ -14,3 +14,9 @@ export type { EditorMainContentProps } from './EditorMainContent';
 export { EditorMainContent } from './EditorMainContent';
 export type { EditorSidebarProps } from './EditorSidebar';
 export { EditorSidebar } from './EditorSidebar';
+export type { EditorSplitPaneProps } from './EditorSplitPane';
+export { EditorSplitPane } from './EditorSplitPane';
+export type { EditorTabsProps } from './EditorTabs';
+export { EditorTabs } from './EditorTabs';
+export type { SplitDividerProps } from './SplitDivider';
+export { SplitDivider } from './SplitDivider';
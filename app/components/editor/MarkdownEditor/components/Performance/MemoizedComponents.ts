@@ -32,6 +32,8 @@ export const MemoizedEditorHeader = memo<EditorHeaderProps>(
       prevProps.isModified === nextProps.isModified &&
       prevProps.currentTheme.id === nextProps.currentTheme.id &&
       prevProps.showPreview === nextProps.showPreview &&
+      prevProps.isSplit === nextProps.isSplit &&
+      prevProps.onToggleSplit === nextProps.onToggleSplit &&
       prevProps.settings.fontSize === nextProps.settings.fontSize &&
       prevProps.settings.lineHeight === nextProps.settings.lineHeight &&
       prevProps.settings.focusMode === nextProps.settings.focusMode &&
@@ -39,8 +41,13 @@ export const MemoizedEditorHeader = memo<EditorHeaderProps>(
       prevProps.settings.wordWrap === nextProps.settings.wordWrap &&
       prevProps.settings.vimMode === nextProps.settings.vimMode &&
       prevProps.settings.zenMode === nextProps.settings.zenMode &&
+      prevProps.settings.scrollSync === nextProps.settings.scrollSync &&
       prevProps.canUndo === nextProps.canUndo &&
       prevProps.canRedo === nextProps.canRedo &&
+      prevProps.showFiles === nextProps.showFiles &&
+      prevProps.tags === nextProps.tags &&
+      prevProps.tagSuggestions === nextProps.tagSuggestions &&
+      prevProps.onTagsChange === nextProps.onTagsChange &&
       prevProps.responsive.isMobile === nextProps.responsive.isMobile &&
       prevProps.responsive.isTablet === nextProps.responsive.isTablet &&
       prevProps.responsive.isSmallTablet ===
@@ -65,8 +72,13 @@ export const MemoizedEditorSidebar = memo<EditorSidebarProps>(
       prevProps.theme.id === nextProps.theme.id &&
       prevProps.uiState.showToc === nextProps.uiState.showToc &&
       prevProps.uiState.showOutline === nextProps.uiState.showOutline &&
+      prevProps.uiState.showFiles === nextProps.uiState.showFiles &&
       prevProps.uiState.sidebarCollapsed ===
         nextProps.uiState.sidebarCollapsed &&
+      prevProps.files === nextProps.files &&
+      prevProps.storageService === nextProps.storageService &&
+      prevProps.activeFileName === nextProps.activeFileName &&
+      prevProps.onOpenFile === nextProps.onOpenFile &&
       prevProps.responsive.isMobile === nextProps.responsive.isMobile &&
       prevProps.responsive.isTablet === nextProps.responsive.isTablet &&
       prevProps.zenMode === nextProps.zenMode
@@ -94,7 +106,15 @@ export const MemoizedEditorMainContent = memo<EditorMainContentProps>(
       prevProps.settings.wordWrap === nextProps.settings.wordWrap &&
       prevProps.settings.vimMode === nextProps.settings.vimMode &&
       prevProps.settings.zenMode === nextProps.settings.zenMode &&
+      prevProps.settings.lineNumbers === nextProps.settings.lineNumbers &&
+      prevProps.settings.scrollSync === nextProps.settings.scrollSync &&
+      prevProps.vimExCommands === nextProps.vimExCommands &&
+      prevProps.onUndo === nextProps.onUndo &&
+      prevProps.onRedo === nextProps.onRedo &&
       prevProps.showPreview === nextProps.showPreview &&
+      prevProps.splitEditor === nextProps.splitEditor &&
+      prevProps.fileName === nextProps.fileName &&
+      prevProps.files === nextProps.files &&
       prevProps.responsive.isMobile === nextProps.responsive.isMobile &&
       prevProps.responsive.isTablet === nextProps.responsive.isTablet &&
       prevProps.responsive.isSmallTablet === nextProps.responsive.isSmallTablet
@@ -324,6 +344,11 @@ export const VirtualizedEditorSidebar = memo<
       prevProps.theme?.id === nextProps.theme?.id &&
       prevProps.uiState?.showToc === nextProps.uiState?.showToc &&
       prevProps.uiState?.showOutline === nextProps.uiState?.showOutline &&
+      prevProps.uiState?.showFiles === nextProps.uiState?.showFiles &&
+      prevProps.files === nextProps.files &&
+      prevProps.storageService === nextProps.storageService &&
+      prevProps.activeFileName === nextProps.activeFileName &&
+      prevProps.onOpenFile === nextProps.onOpenFile &&
       prevProps.responsive?.isMobile === nextProps.responsive?.isMobile &&
       prevProps.responsive?.isTablet === nextProps.responsive?.isTablet &&
       prevProps.zenMode === nextProps.zenMode
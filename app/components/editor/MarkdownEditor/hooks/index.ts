@@ -23,6 +23,7 @@ export {
   useNumericSetting,
   useSettingToggle,
 } from "./useEditorSettings";
+export { useEditorTabs } from "./useEditorTabs";
 export type { UseEditorStateExtendedReturn } from "./useEditorState";
 export { useEditorState } from "./useEditorState";
 export type {
@@ -33,4 +34,6 @@ export type {
 
 export { useKeyboardShortcuts, useShortcutHelp } from "./useKeyboardShortcuts";
 export { useResponsiveLayout } from "./useResponsiveLayout";
+export type { UseSplitEditorReturn } from "./useSplitEditor";
+export { useSplitEditor } from "./useSplitEditor";
 export { useThemeManager } from "./useThemeManager";
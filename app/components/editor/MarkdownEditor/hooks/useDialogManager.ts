@@ -16,6 +16,7 @@ export const useDialogManager = (): UseDialogManagerReturn => {
     showShortcuts: false,
     showTemplates: false,
     showAdvancedExport: false,
+    showDiff: false,
   });
 
   /**
@@ -47,6 +48,7 @@ export const useDialogManager = (): UseDialogManagerReturn => {
       showShortcuts: false,
       showTemplates: false,
       showAdvancedExport: false,
+      showDiff: false,
     });
   }, []);
 
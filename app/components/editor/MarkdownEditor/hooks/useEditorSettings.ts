@@ -20,6 +20,7 @@ export interface UseEditorSettingsReturn {
     toggleWordWrap: () => void;
     toggleVimMode: () => void;
     toggleZenMode: () => void;
+    toggleScrollSync: () => void;
     updateSettings: (newSettings: Partial<EditorSettings>) => void;
     resetSettings: () => void;
     saveSettings: () => void;
@@ -114,6 +115,16 @@ export const useEditorSettings = (
     }));
   }, []);
 
+  /**
+   * Toggle scroll sync between editor and preview
+   */
+  const toggleScrollSync = useCallback(() => {
+    setSettings((prev) => ({
+      ...prev,
+      scrollSync: !prev.scrollSync,
+    }));
+  }, []);
+
   /**
    * Update multiple settings at once
    */
@@ -216,6 +227,7 @@ export const useEditorSettings = (
     toggleWordWrap,
     toggleVimMode,
     toggleZenMode,
+    toggleScrollSync,
     updateSettings,
     resetSettings,
     saveSettings,
@@ -5,10 +5,14 @@
 
 import { useAuth } from "@clerk/react-router";
 import { useCallback, useEffect, useState } from "react";
-import { useToast, useUndoRedo } from "@/hooks/core";
+import { type UndoRedoSnapshot, useToast, useUndoRedo } from "@/hooks/core";
 import { isFirstVisit } from "@/utils/editorPreferences";
 import { fileContextManager } from "@/utils/fileContext";
-import type { EditorState, UseEditorStateReturn } from "../types";
+import type {
+  EditorDocument,
+  EditorState,
+  UseEditorStateReturn,
+} from "../types";
 import {
   DEFAULT_FILE,
   STORAGE_KEYS,
@@ -80,6 +84,8 @@ export const useEditorState = (
     canUndo,
     canRedo,
     clearHistory,
+    getSnapshot,
+    restoreSnapshot,
   } = useUndoRedo(initialContent, {
     maxHistorySize: 50,
     debounceMs: 300,
@@ -313,6 +319,34 @@ export const useEditorState = (
     [isModified, setMarkdown, clearHistory, toast, updateFileContext]
   );
 
+  // Show another tab's document, bringing back its undo history
+  const handleRestoreDocument = useCallback(
+    (editorDocument: EditorDocument) => {
+      if (editorDocument.history) {
+        restoreSnapshot(editorDocument.history);
+      } else {
+        clearHistory(editorDocument.markdown);
+      }
+      setFileName(editorDocument.fileName);
+      setIsModified(editorDocument.isModified);
+      setIsRestoring(false);
+
+      updateFileContext(editorDocument.fileName, editorDocument.fileId, "manual");
+
+      if (typeof localStorage !== "undefined") {
+        try {
+          localStorage.setItem(STORAGE_KEYS.CONTENT, editorDocument.markdown);
+          localStorage.setItem(STORAGE_KEYS.FILE_NAME, editorDocument.fileName);
+        } catch (error) {
+          import("@/utils/console").then(({ safeConsole }) => {
+            safeConsole.warn("Failed to update localStorage:", error);
+          });
+        }
+      }
+    },
+    [restoreSnapshot, clearHistory, updateFileContext]
+  );
+
   const state: EditorState = {
     markdown,
     fileName,
@@ -326,6 +360,7 @@ export const useEditorState = (
     setModified: handleSetModified,
     newFile: handleNewFile,
     loadFile: handleLoadFile,
+    restoreDocument: handleRestoreDocument,
   };
 
   return {
@@ -337,6 +372,7 @@ export const useEditorState = (
       canUndo,
       canRedo,
       clearHistory,
+      getSnapshot,
     },
     isRestoring,
   };
@@ -352,5 +388,6 @@ export interface UseEditorStateExtendedReturn extends UseEditorStateReturn {
     canUndo: boolean;
     canRedo: boolean;
     clearHistory: (newValue?: string) => void;
+    getSnapshot: () => UndoRedoSnapshot;
   };
 }
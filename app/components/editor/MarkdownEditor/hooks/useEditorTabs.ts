@@ -0,0 +1,353 @@
+/**
+ * @fileoverview Editor tabs: several open documents, each with its own undo history and view state
+ * @author Axel Modra
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FileData } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
+import { fileContextManager, type OpenTabsContext, type PersistedTab } from '@/utils/fileContext';
+import type { EditorTab } from '../types';
+import type { UseEditorStateExtendedReturn } from './useEditorState';
+
+const NEW_TAB_BASE_NAME = 'untitled';
+
+interface TabsState {
+  tabs: EditorTab[];
+  activeTabId: string;
+}
+
+interface UseEditorTabsOptions {
+  /** Stored files, used to link a saved document to its tab */
+  files: FileData[];
+  /** Storage to load background tabs from */
+  storageService: FileStorageService | null;
+  /** Tabs that were open before the reload */
+  restoredTabs: OpenTabsContext | null;
+  /** The URL opens a document (new file, file link, shared content) that needs its own tab */
+  opensNewDocument: boolean;
+}
+
+const createTabId = () => `tab_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+const createTab = (fileName: string, isModified = false, fileId?: string): EditorTab => ({
+  id: createTabId(),
+  fileName,
+  fileId,
+  isModified,
+  selection: { start: 0, end: 0 },
+  scrollTop: 0,
+});
+
+/**
+ * Name for a new document that no open tab or stored file uses yet, since saving
+ * a document under a taken name would overwrite that file
+ */
+const getNewTabFileName = (tabs: EditorTab[], files: FileData[]): string => {
+  const takenNames = new Set([
+    ...tabs.map((tab) => tab.fileName),
+    ...files.map((file) => file.title),
+  ]);
+  let fileName = `${NEW_TAB_BASE_NAME}.md`;
+  for (let index = 2; takenNames.has(fileName); index++) {
+    fileName = `${NEW_TAB_BASE_NAME}-${index}.md`;
+  }
+  return fileName;
+};
+
+/**
+ * Stored file holding the active tab's document. The editor saves by name, so after
+ * a save or rename the file with the tab's name holds the document; while the file
+ * list doesn't know the name yet the current link is kept
+ */
+const linkFileId = (
+  files: FileData[],
+  fileName: string,
+  fileId: string | undefined
+): string | undefined => {
+  const linkedFile = fileId ? files.find((file) => file.id === fileId) : undefined;
+  if (linkedFile?.title === fileName) return fileId;
+  return files.find((file) => file.title === fileName)?.id ?? (linkedFile ? undefined : fileId);
+};
+
+const getEditorTextarea = () =>
+  document.querySelector<HTMLTextAreaElement>('.markdown-editor-textarea');
+
+/**
+ * Restored tabs come back without history; unsaved content was kept for background tabs only
+ */
+const fromPersistedTab = ({ content, ...tab }: PersistedTab): EditorTab => ({
+  ...tab,
+  markdown: content,
+});
+
+const getInitialTabs = (
+  restoredTabs: OpenTabsContext | null,
+  fileName: string,
+  isModified: boolean,
+  opensNewDocument: boolean
+): TabsState => {
+  const tabs = restoredTabs?.tabs.map(fromPersistedTab) ?? [];
+  const activeTab = tabs.find((tab) => tab.id === restoredTabs?.activeTabId);
+
+  if (!activeTab || opensNewDocument) {
+    const tab = createTab(fileName, isModified);
+    // The previously active tab is no longer in the editor; load it again when opened
+    return {
+      tabs: [
+        ...tabs.map((other) => (other === activeTab ? { ...other, markdown: undefined } : other)),
+        tab,
+      ],
+      activeTabId: tab.id,
+    };
+  }
+
+  return { tabs, activeTabId: activeTab.id };
+};
+
+/**
+ * Custom hook for editor tabs.
+ * The editor state always holds the active tab's document; switching tabs parks it
+ * (content, undo history, cursor and scroll position) in the tab and brings back
+ * the other tab's document.
+ */
+export const useEditorTabs = (
+  editorState: UseEditorStateExtendedReturn,
+  { files, storageService, restoredTabs, opensNewDocument }: UseEditorTabsOptions
+) => {
+  const { state: editor, actions: editorActions } = editorState;
+
+  const [{ tabs, activeTabId }, setTabsState] = useState<TabsState>(() =>
+    getInitialTabs(restoredTabs, editor.fileName, editor.isModified, opensNewDocument)
+  );
+
+  // Bumped on every switch, so a slow background load can't override a later switch
+  const switchIdRef = useRef(0);
+  // Latest state for code that runs after an await
+  const latestRef = useRef({ tabs, activeTabId, editorState });
+  latestRef.current = { tabs, activeTabId, editorState };
+
+  // The active tab follows renames, loads and saves made through the editor state
+  useEffect(() => {
+    setTabsState((previous) => ({
+      ...previous,
+      tabs: previous.tabs.map((tab) => {
+        if (tab.id !== previous.activeTabId) return tab;
+
+        const fileId = linkFileId(files, editor.fileName, tab.fileId);
+        return tab.fileName !== editor.fileName ||
+          tab.isModified !== editor.isModified ||
+          tab.fileId !== fileId
+          ? { ...tab, fileName: editor.fileName, fileId, isModified: editor.isModified }
+          : tab;
+      }),
+    }));
+  }, [editor.fileName, editor.isModified, files]);
+
+  // Keep the tabs across reloads; only background tabs store unsaved content,
+  // the active document is restored by the editor itself
+  useEffect(() => {
+    fileContextManager.setOpenTabs({
+      activeTabId,
+      tabs: tabs.map(({ id, fileName, fileId, isModified, markdown, selection, scrollTop }) => ({
+        id,
+        fileName,
+        fileId,
+        isModified,
+        content: isModified && id !== activeTabId ? markdown : undefined,
+        selection,
+        scrollTop,
+      })),
+    });
+  }, [tabs, activeTabId]);
+
+  /**
+   * Current tabs with the editor's document parked in the active one
+   * (or without the active one when it is being closed)
+   */
+  const getTabsWithActiveParked = useCallback((closeActive = false): EditorTab[] => {
+    const { tabs: currentTabs, activeTabId: currentId, editorState: current } = latestRef.current;
+    if (closeActive) return currentTabs.filter((tab) => tab.id !== currentId);
+
+    const textarea = getEditorTextarea();
+    return currentTabs.map((tab) =>
+      tab.id === currentId
+        ? {
+            ...tab,
+            fileName: current.state.fileName,
+            isModified: current.state.isModified,
+            markdown: current.state.markdown,
+            history: current.undoRedo.getSnapshot(),
+            selection: textarea
+              ? { start: textarea.selectionStart, end: textarea.selectionEnd }
+              : tab.selection,
+            scrollTop: textarea?.scrollTop ?? tab.scrollTop,
+          }
+        : tab
+    );
+  }, []);
+
+  const loadContent = useCallback(
+    async (fileName: string, fileId?: string) => {
+      const loaded = await storageService?.load(fileId || fileName);
+      return loaded?.content ?? '';
+    },
+    [storageService]
+  );
+
+  /**
+   * Show a tab's document in the editor, loading it from storage when it isn't in memory
+   */
+  const activateTab = useCallback(
+    async (target: EditorTab, closeActive = false) => {
+      const switchId = ++switchIdRef.current;
+
+      let markdown = target.markdown;
+      if (markdown === undefined) {
+        markdown = await loadContent(target.fileName, target.fileId);
+        if (switchId !== switchIdRef.current) return;
+      }
+
+      // Parked only now, so nothing typed while loading is lost
+      const nextTabs = getTabsWithActiveParked(closeActive);
+      editorActions.restoreDocument({
+        markdown,
+        fileName: target.fileName,
+        isModified: target.isModified,
+        history: target.history,
+        fileId: target.fileId,
+      });
+      setTabsState({
+        tabs: nextTabs.map((tab) =>
+          tab.id === target.id ? { ...tab, markdown: undefined, history: undefined } : tab
+        ),
+        activeTabId: target.id,
+      });
+
+      // Bring back the cursor and scroll position once the new content is rendered
+      setTimeout(() => {
+        const textarea = getEditorTextarea();
+        if (!textarea) return;
+        textarea.setSelectionRange(target.selection.start, target.selection.end);
+        textarea.scrollTop = target.scrollTop;
+      }, 0);
+    },
+    [loadContent, getTabsWithActiveParked, editorActions]
+  );
+
+  const switchTab = useCallback(
+    async (tabId: string) => {
+      const target = tabs.find((tab) => tab.id === tabId);
+      if (!target || tabId === activeTabId) return;
+      await activateTab(target);
+    },
+    [tabs, activeTabId, activateTab]
+  );
+
+  /**
+   * Start a new document, either in a new tab or in place of the closed active tab
+   */
+  const showNewDocument = useCallback(
+    (closeActive = false) => {
+      switchIdRef.current++;
+
+      const nextTabs = getTabsWithActiveParked(closeActive);
+      const tab = createTab(getNewTabFileName(nextTabs, files));
+      editorActions.restoreDocument({
+        markdown: '',
+        fileName: tab.fileName,
+        isModified: false,
+      });
+      setTabsState({ tabs: [...nextTabs, tab], activeTabId: tab.id });
+    },
+    [files, getTabsWithActiveParked, editorActions]
+  );
+
+  const newTab = useCallback(() => showNewDocument(), [showNewDocument]);
+
+  /**
+   * Open a stored file: focus its tab when it is already open, reuse the active
+   * tab when it is an untouched empty document, otherwise open a new tab
+   */
+  const openFile = useCallback(
+    async (file: FileData) => {
+      const openTab = tabs.find((tab) =>
+        file.id ? tab.fileId === file.id : !tab.fileId && tab.fileName === file.title
+      );
+      if (openTab) {
+        await switchTab(openTab.id);
+        return;
+      }
+
+      const switchId = ++switchIdRef.current;
+      const content = await loadContent(file.title, file.id);
+      if (switchId !== switchIdRef.current) return;
+
+      const { state: current } = latestRef.current.editorState;
+      const isBlank = !current.isModified && !current.markdown.trim();
+      const nextTabs = isBlank ? latestRef.current.tabs : getTabsWithActiveParked();
+
+      editorActions.loadFile(content, file.title, true, file.id, 'manual');
+      if (isBlank) {
+        setTabsState((previous) => ({
+          ...previous,
+          tabs: previous.tabs.map((tab) =>
+            tab.id === previous.activeTabId ? { ...tab, fileId: file.id } : tab
+          ),
+        }));
+      } else {
+        const tab = createTab(file.title, false, file.id);
+        setTabsState({ tabs: [...nextTabs, tab], activeTabId: tab.id });
+      }
+    },
+    [tabs, switchTab, loadContent, getTabsWithActiveParked, editorActions]
+  );
+
+  /**
+   * Close a tab, asking first when it has unsaved changes
+   */
+  const closeTab = useCallback(
+    async (tabId: string) => {
+      const index = tabs.findIndex((tab) => tab.id === tabId);
+      if (index === -1) return;
+
+      const isActive = tabId === activeTabId;
+      const tab = tabs[index];
+      const isModified = isActive ? editor.isModified : tab.isModified;
+      const fileName = isActive ? editor.fileName : tab.fileName;
+      if (
+        isModified &&
+        !window.confirm(`"${fileName}" has unsaved changes. Are you sure you want to close it?`)
+      ) {
+        return;
+      }
+
+      if (!isActive) {
+        setTabsState((previous) => ({
+          ...previous,
+          tabs: previous.tabs.filter((other) => other.id !== tabId),
+        }));
+        return;
+      }
+
+      const remaining = tabs.filter((other) => other.id !== tabId);
+      if (remaining.length === 0) {
+        showNewDocument(true);
+        return;
+      }
+      await activateTab(remaining[Math.min(index, remaining.length - 1)], true);
+    },
+    [tabs, activeTabId, editor.isModified, editor.fileName, showNewDocument, activateTab]
+  );
+
+  return {
+    tabs,
+    activeTabId,
+    actions: {
+      switchTab,
+      newTab,
+      openFile,
+      closeTab,
+    },
+  };
+};
@@ -61,6 +61,7 @@ export const useResponsiveLayout = (): UseResponsiveLayoutReturn => {
 
   /**
    * Get layout configuration based on device type
+   * Tablets keep the split editor but stack its panes, phones show a single pane
    */
   const getLayoutConfig = useCallback(
     (deviceType: DeviceType): LayoutConfig => {
@@ -74,6 +75,7 @@ export const useResponsiveLayout = (): UseResponsiveLayoutReturn => {
             stackLayout: true,
             compactMode: true,
             touchFriendly: true,
+            splitEditor: "disabled",
           };
 
         case DeviceType.TABLET_SMALL:
@@ -84,6 +86,7 @@ export const useResponsiveLayout = (): UseResponsiveLayoutReturn => {
             stackLayout: true,
             compactMode: true,
             touchFriendly: true,
+            splitEditor: "stacked",
           };
 
         case DeviceType.TABLET_LARGE:
@@ -94,6 +97,7 @@ export const useResponsiveLayout = (): UseResponsiveLayoutReturn => {
             stackLayout: false,
             compactMode: false,
             touchFriendly: true,
+            splitEditor: "stacked",
           };
 
         case DeviceType.DESKTOP_SMALL:
@@ -104,6 +108,7 @@ export const useResponsiveLayout = (): UseResponsiveLayoutReturn => {
             stackLayout: false,
             compactMode: false,
             touchFriendly: false,
+            splitEditor: "free",
           };
 
         case DeviceType.DESKTOP_LARGE:
@@ -114,6 +119,7 @@ export const useResponsiveLayout = (): UseResponsiveLayoutReturn => {
             stackLayout: false,
             compactMode: false,
             touchFriendly: false,
+            splitEditor: "free",
           };
 
         default:
@@ -124,6 +130,7 @@ export const useResponsiveLayout = (): UseResponsiveLayoutReturn => {
             stackLayout: false,
             compactMode: false,
             touchFriendly: false,
+            splitEditor: "free",
           };
       }
     },
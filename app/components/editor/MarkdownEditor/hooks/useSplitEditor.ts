@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Split editor: a second editor pane for another file or another part of the same one
+ * @author Axel Modra
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useToast, useUndoRedo } from '@/hooks/core';
+import type { FileData } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
+import { parseFileOperationError } from '@/utils/fileOperationErrors';
+import type { SplitDirection, SplitEditorLayout, SplitEditorMode } from '../types';
+import { DEFAULT_SPLIT_EDITOR_LAYOUT } from '../utils/constants';
+import { loadSplitEditorLayout, saveSplitEditorLayout } from '../utils/storageUtils';
+
+/** Smallest share of the space either pane can be resized to */
+const MIN_PANE_RATIO = 0.2;
+
+interface UseSplitEditorOptions {
+  /** Storage to load the second pane's file from */
+  storageService: FileStorageService | null;
+  /** Saves the second pane's file */
+  saveFile: (file: FileData) => Promise<FileData>;
+  /** Split editor availability on the current device */
+  mode: SplitEditorMode;
+}
+
+/**
+ * Hook return type for the split editor
+ */
+export interface UseSplitEditorReturn {
+  state: {
+    /** Divider orientation used on this device, or null when the editor isn't split */
+    direction: SplitDirection | null;
+    ratio: number;
+    syncScroll: boolean;
+    /** Whether panes can sit side by side on this device */
+    canSplitVertically: boolean;
+    /** File shown in the second pane; null shows the main document */
+    file: FileData | null;
+    markdown: string;
+    isModified: boolean;
+    canUndo: boolean;
+    canRedo: boolean;
+  };
+  actions: {
+    toggleSplit: () => void;
+    setDirection: (direction: SplitDirection) => void;
+    setRatio: (ratio: number) => void;
+    toggleSyncScroll: () => void;
+    showMainDocument: () => void;
+    openFile: (file: FileData) => Promise<void>;
+    setMarkdown: (value: string) => void;
+    undo: () => void;
+    redo: () => void;
+    save: () => Promise<void>;
+  };
+}
+
+/**
+ * Custom hook for the split editor.
+ * The second pane shows the main document (so two regions of it can be edited at once)
+ * or another stored file with its own undo history and dirty state.
+ */
+export const useSplitEditor = ({
+  storageService,
+  saveFile,
+  mode,
+}: UseSplitEditorOptions): UseSplitEditorReturn => {
+  const [layout, setLayout] = useState<SplitEditorLayout>(DEFAULT_SPLIT_EDITOR_LAYOUT);
+  const [file, setFile] = useState<FileData | null>(null);
+  const [isModified, setIsModified] = useState(false);
+  const { toast } = useToast();
+  const isLayoutLoadedRef = useRef(false);
+
+  const {
+    value: markdown,
+    setValue,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    clearHistory,
+  } = useUndoRedo('', {
+    maxHistorySize: 50,
+    debounceMs: 300,
+  });
+
+  // Loaded after mount so the server render and hydration agree
+  useEffect(() => {
+    setLayout(loadSplitEditorLayout());
+  }, []);
+
+  useEffect(() => {
+    // Skip the defaults rendered before the saved layout is loaded
+    if (!isLayoutLoadedRef.current) {
+      isLayoutLoadedRef.current = true;
+      return;
+    }
+    saveSplitEditorLayout(layout);
+  }, [layout]);
+
+  /**
+   * Ask before dropping unsaved changes of the second pane's file
+   */
+  const confirmDiscard = useCallback(
+    () =>
+      !file ||
+      !isModified ||
+      window.confirm(`"${file.title}" has unsaved changes. Are you sure you want to close it?`),
+    [file, isModified]
+  );
+
+  const showMainDocument = useCallback(() => {
+    if (!file || !confirmDiscard()) return;
+    setFile(null);
+    setIsModified(false);
+    clearHistory('');
+  }, [file, confirmDiscard, clearHistory]);
+
+  const toggleSplit = useCallback(() => {
+    if (layout.direction && !confirmDiscard()) return;
+
+    if (layout.direction) {
+      setFile(null);
+      setIsModified(false);
+      clearHistory('');
+    }
+    setLayout((prev) => ({ ...prev, direction: prev.direction ? null : 'vertical' }));
+  }, [layout.direction, confirmDiscard, clearHistory]);
+
+  const setDirection = useCallback((direction: SplitDirection) => {
+    setLayout((prev) => ({ ...prev, direction }));
+  }, []);
+
+  const setRatio = useCallback((ratio: number) => {
+    const clampedRatio = Math.max(MIN_PANE_RATIO, Math.min(1 - MIN_PANE_RATIO, ratio));
+    setLayout((prev) => ({ ...prev, ratio: clampedRatio }));
+  }, []);
+
+  const toggleSyncScroll = useCallback(() => {
+    setLayout((prev) => ({ ...prev, syncScroll: !prev.syncScroll }));
+  }, []);
+
+  const openFile = useCallback(
+    async (target: FileData) => {
+      if (!storageService || !confirmDiscard()) return;
+
+      try {
+        const loaded = await storageService.load(target.id || target.title);
+        if (!loaded) return;
+
+        setFile(loaded);
+        setIsModified(false);
+        clearHistory(loaded.content);
+      } catch (error) {
+        import('@/utils/console').then(({ safeConsole }) => {
+          safeConsole.error('Failed to open file in split pane:', error);
+        });
+      }
+    },
+    [storageService, confirmDiscard, clearHistory]
+  );
+
+  const setMarkdown = useCallback(
+    (value: string) => {
+      setValue(value);
+      setIsModified(true);
+    },
+    [setValue]
+  );
+
+  const save = useCallback(async () => {
+    if (!file) return;
+
+    try {
+      const saved = await saveFile({ ...file, content: markdown });
+      setFile(saved);
+      setIsModified(false);
+    } catch (error) {
+      // The pane keeps its unsaved changes and stays marked as modified
+      import('@/utils/console').then(({ safeConsole }) => {
+        safeConsole.error('Failed to save split pane file:', error);
+      });
+      toast({
+        title: 'Save Failed',
+        description: `"${file.title}" was not saved. ${parseFileOperationError(error).userMessage}`,
+        variant: 'destructive',
+      });
+    }
+  }, [file, markdown, saveFile, toast]);
+
+  // Phones show a single pane, tablets always stack the panes
+  const direction =
+    mode === 'disabled' || !layout.direction
+      ? null
+      : mode === 'stacked'
+        ? 'horizontal'
+        : layout.direction;
+
+  return useMemo(
+    () => ({
+      state: {
+        direction,
+        ratio: layout.ratio,
+        syncScroll: layout.syncScroll,
+        canSplitVertically: mode === 'free',
+        file,
+        markdown,
+        isModified,
+        canUndo,
+        canRedo,
+      },
+      actions: {
+        toggleSplit,
+        setDirection,
+        setRatio,
+        toggleSyncScroll,
+        showMainDocument,
+        openFile,
+        setMarkdown,
+        undo,
+        redo,
+        save,
+      },
+    }),
+    [
+      direction,
+      layout.ratio,
+      layout.syncScroll,
+      mode,
+      file,
+      markdown,
+      isModified,
+      canUndo,
+      canRedo,
+      toggleSplit,
+      setDirection,
+      setRatio,
+      toggleSyncScroll,
+      showMainDocument,
+      openFile,
+      setMarkdown,
+      undo,
+      redo,
+      save,
+    ]
+  );
+};
@@ -5,16 +5,23 @@ MarkdownEditor
 
 import { useAuth } from '@clerk/react-router';
 import React from 'react';
-import { useSearchParams } from 'react-router';
+import { useNavigate, useSearchParams } from 'react-router';
 
 import { usePerformanceDebug, useRenderPerformance } from '@/hooks/core/usePerformance';
 import { useAutoFileRestoration, useFileStorage, useImmediateFileLoading } from '@/hooks/files';
+import { useTags } from '@/hooks/files/useTags';
+import type { FileData } from '@/lib/supabase';
+import type { VimExCommandOptions } from '@/types/vim';
+import { scrollToLineInEditor } from '@/utils/headingUtils';
+import { applyTagChanges, type TagChanges } from '@/utils/tagUtils';
 
 import { useWelcomeDialog, WelcomeDialog } from '../../auth/WelcomeDialog';
+import { usePresentationBroadcast } from '../../features/Presentation';
+import type { WorkspaceSearchMatch } from '../../features/SearchDialog/types/search.types';
 import { type Theme, useTheme } from '../../features/ThemeSelector';
 import { MobileNav } from '../../layout/MobileNav';
 import { ContentRestorationLoader } from '../../shared/ThemeAwareLoader';
-import { DialogContainer, EditorContainer } from './components';
+import { DialogContainer, EditorContainer, EditorTabs } from './components';
 import {
   EditorErrorBoundary,
   MemoizedEditorFooter,
@@ -27,8 +34,10 @@ import {
   useDialogManager,
   useEditorSettings,
   useEditorState,
+  useEditorTabs,
   useKeyboardShortcuts,
   useResponsiveLayout,
+  useSplitEditor,
 } from './hooks';
 import type { MarkdownEditorProps } from './types';
 import { DEFAULT_FILE } from './utils/constants';
@@ -45,6 +54,7 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
   style = {},
 }) => {
   const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
   const urlFile = searchParams.get('file');
   const urlTitle = searchParams.get('title');
   const urlContent = searchParams.get('content');
@@ -290,6 +300,21 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
     }
   );
 
+  // A document requested by the URL opens next to the restored tabs
+  const editorTabs = useEditorTabs(editorState, {
+    files: fileStorage.files,
+    storageService: fileStorage.storageService,
+    restoredTabs: fileRestoration.openTabs,
+    opensNewDocument: isFromFilesPage || !!urlTitle || !!urlContent || isNewFileRequest,
+  });
+  const { actions: tabActions } = editorTabs;
+
+  const splitEditor = useSplitEditor({
+    storageService: fileStorage.storageService,
+    saveFile: fileStorage.saveFile,
+    mode: responsiveLayout.layout.splitEditor,
+  });
+
   useRenderPerformance('MarkdownEditor');
   usePerformanceDebug();
 
@@ -321,7 +346,15 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
   const { state: responsive } = responsiveLayout;
   const { currentTheme, setTheme } = globalTheme;
 
+  // Present mode window follows the document live while editing
+  const presentationState = React.useMemo(
+    () => ({ markdown: editor.markdown, fileName: editor.fileName, theme: currentTheme }),
+    [editor.markdown, editor.fileName, currentTheme]
+  );
+  const { openPresentation } = usePresentationBroadcast(presentationState);
+
   const [showPreview, setShowPreview] = React.useState(true);
+  const [showFiles, setShowFiles] = React.useState(false);
   const [showToc, setShowToc] = React.useState(false);
   const [showOutline, setShowOutline] = React.useState(false);
   const { state: dialogs, actions: dialogActions } = dialogManager;
@@ -332,6 +365,7 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
 
   React.useEffect(() => {
     if (responsive.isMobile) {
+      setShowFiles(false);
       setShowToc(false);
       setShowOutline(false);
       setSidebarCollapsed(true);
@@ -389,12 +423,44 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
     [editorActions]
   );
 
-  const handleManualSave = React.useCallback(async () => {
+  // Saved files get their tags from storage; unsaved files keep draft tags until the first save
+  const { tagCounts, updateTags } = useTags(fileStorage.storageService, fileStorage.files);
+  const [draftTags, setDraftTags] = React.useState<{ fileName: string; tags: string[] }>({
+    fileName: '',
+    tags: [],
+  });
+  const currentSavedFile = fileStorage.files.find((file) => file.title === editor.fileName);
+  const fileTags = React.useMemo(
+    () =>
+      currentSavedFile
+        ? (currentSavedFile.tags ?? [])
+        : draftTags.fileName === editor.fileName
+          ? draftTags.tags
+          : [],
+    [currentSavedFile, draftTags, editor.fileName]
+  );
+  const tagSuggestions = React.useMemo(() => tagCounts.map(({ tag }) => tag), [tagCounts]);
+
+  const handleTagsChange = React.useCallback(
+    async (changes: TagChanges) => {
+      if (currentSavedFile?.id) {
+        await updateTags([currentSavedFile.id], changes);
+        return;
+      }
+      setDraftTags({ fileName: editor.fileName, tags: applyTagChanges(fileTags, changes) });
+    },
+    [currentSavedFile?.id, updateTags, editor.fileName, fileTags]
+  );
+
+  /**
+   * Save the current document; resolves false when nothing could be saved
+   */
+  const handleManualSave = React.useCallback(async (): Promise<boolean> => {
     if (!editor.markdown || !editor.fileName || !fileStorage.saveFile) {
       import('@/utils/console').then(({ safeConsole }) => {
         safeConsole.warn('Cannot save: missing content, filename, or save function');
       });
-      return;
+      return false;
     }
 
     const currentContentHash = `${editor.fileName}:${
@@ -405,7 +471,7 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
       import('@/utils/console').then(({ safeConsole }) => {
         safeConsole.dev('Content unchanged, skipping save');
       });
-      return;
+      return true;
     }
 
     try {
@@ -418,7 +484,7 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
         title: editor.fileName,
         content: editor.markdown,
         fileType: 'markdown',
-        tags: [],
+        tags: fileTags,
       });
 
       lastSavedContentRef.current = currentContentHash;
@@ -427,12 +493,107 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
       });
 
       editorActions.setModified(false);
+      return true;
     } catch (error) {
       import('@/utils/console').then(({ safeConsole }) => {
         safeConsole.error('Manual save failed:', error);
       });
+      return false;
     }
-  }, [editor.markdown, editor.fileName, fileStorage, editorActions]);
+  }, [editor.markdown, editor.fileName, fileTags, fileStorage, editorActions]);
+
+  // Resolve the saved copy by title, falling back to the title itself for local storage
+  const loadSavedVersion = React.useCallback(async () => {
+    if (!fileStorage.storageService || !editor.fileName) return null;
+
+    const savedFile = fileStorage.files.find((file) => file.title === editor.fileName);
+    const loaded = await fileStorage.storageService.load(savedFile?.id || editor.fileName);
+    return loaded?.content ?? null;
+  }, [fileStorage.storageService, fileStorage.files, editor.fileName]);
+
+  // :e <file> opens a stored file by title, or starts a new buffer with that name
+  const openFileByName = React.useCallback(
+    async (name: string) => {
+      const target = name.toLowerCase();
+      const savedFile = fileStorage.files.find((file) => {
+        const title = file.title.toLowerCase();
+        return title === target || title === `${target}.md`;
+      });
+
+      if (!savedFile) {
+        editorActions.loadFile('', name, true, undefined, 'manual');
+        return;
+      }
+
+      const loaded = await fileStorage.storageService?.load(savedFile.id || savedFile.title);
+      if (!loaded) {
+        throw new Error(`File not found: ${name}`);
+      }
+      editorActions.loadFile(loaded.content, loaded.title, true, loaded.id, 'manual');
+    },
+    [fileStorage.files, fileStorage.storageService, editorActions]
+  );
+
+  // Sidebar folder tree: files open in their own tab
+  const handleOpenTreeFile = React.useCallback(
+    async (file: FileData) => {
+      if (file.title === editor.fileName) return;
+
+      try {
+        await tabActions.openFile(file);
+      } catch (error) {
+        import('@/utils/console').then(({ safeConsole }) => {
+          safeConsole.error('Error opening file from folder tree:', error);
+        });
+      }
+    },
+    [editor.fileName, tabActions]
+  );
+
+  // Workspace search: open the matching file, then select the match once the editor re-renders
+  const handleOpenSearchMatch = React.useCallback(
+    async (file: FileData, match: WorkspaceSearchMatch) => {
+      try {
+        if (file.title !== editor.fileName) {
+          await tabActions.openFile(file);
+        }
+
+        dialogActions.hideDialog('showSearch');
+        setTimeout(() => {
+          scrollToLineInEditor(match.line - 1, {
+            selection: { column: match.column, length: match.length },
+          });
+        }, 0);
+      } catch (error) {
+        import('@/utils/console').then(({ safeConsole }) => {
+          safeConsole.error('Error opening search result:', error);
+        });
+      }
+    },
+    [editor.fileName, tabActions, dialogActions]
+  );
+
+  const vimExCommands = React.useMemo<VimExCommandOptions>(
+    () => ({
+      fileName: editor.fileName,
+      isModified: editor.isModified,
+      settings: { lineNumbers: settings.lineNumbers, wordWrap: settings.wordWrap },
+      onWrite: handleManualSave,
+      onQuit: () => navigate('/files'),
+      onEdit: openFileByName,
+      onSettingsChange: settingsActions.updateSettings,
+    }),
+    [
+      editor.fileName,
+      editor.isModified,
+      settings.lineNumbers,
+      settings.wordWrap,
+      handleManualSave,
+      navigate,
+      openFileByName,
+      settingsActions.updateSettings,
+    ]
+  );
 
   const keyboardContext = React.useMemo(
     () => ({
@@ -442,7 +603,7 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
       showShortcuts: () => dialogActions.showDialog('showShortcuts'),
       undo: undoRedo.undo,
       redo: undoRedo.redo,
-      newFile: editorActions.newFile,
+      newFile: tabActions.newTab,
       saveFile: handleManualSave,
       openFile: () => {
         // TODO: Implement open file functionality
@@ -454,7 +615,7 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
       settingsActions,
       dialogActions,
       undoRedo,
-      editorActions,
+      tabActions,
       handleManualSave,
     ]
   );
@@ -466,10 +627,11 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
       showPreview,
       showToc,
       showOutline,
-      showNavigation: showToc || showOutline,
+      showFiles,
+      showNavigation: showFiles || showToc || showOutline,
       sidebarCollapsed,
     }),
-    [showPreview, showToc, showOutline, sidebarCollapsed]
+    [showPreview, showToc, showOutline, showFiles, sidebarCollapsed]
   );
 
   const handleMarkdownChange = React.useCallback(
@@ -488,6 +650,10 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
     [setTheme, eventHandlers]
   );
 
+  const handleToggleFiles = React.useCallback(() => {
+    setShowFiles((prev) => !prev);
+  }, []);
+
   const handleToggleToc = React.useCallback(() => {
     setShowToc((prev) => !prev);
   }, []);
@@ -589,7 +755,7 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
               onTogglePreview={() => setShowPreview(!showPreview)}
               onToggleZen={settingsActions.toggleZenMode}
               onSearch={() => dialogActions.showDialog('showSearch')}
-              onNewFile={editorActions.newFile}
+              onNewFile={tabActions.newTab}
               markdown={editor.markdown}
               fileName={editor.fileName}
               onLoad={editorActions.loadFile}
@@ -629,13 +795,20 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
               onThemeChange={handleThemeChange}
               markdown={editor.markdown}
               onLoad={editorActions.loadFile}
-              onNewFile={editorActions.newFile}
+              onNewFile={tabActions.newTab}
+              tags={fileTags}
+              tagSuggestions={tagSuggestions}
+              onTagsChange={handleTagsChange}
               showPreview={showPreview}
               onTogglePreview={() => setShowPreview(!showPreview)}
+              isSplit={!!splitEditor.state.direction}
+              onToggleSplit={splitEditor.actions.toggleSplit}
               onShowSearch={() => dialogActions.showDialog('showSearch')}
               onShowTemplates={() => dialogActions.showDialog('showTemplates')}
               onShowAdvancedExport={() => dialogActions.showDialog('showAdvancedExport')}
               onShowShortcuts={() => dialogActions.showDialog('showShortcuts')}
+              onShowDiff={() => dialogActions.showDialog('showDiff')}
+              onStartPresentation={openPresentation}
               onInsertText={insertText}
               settings={settings}
               onSettingsChange={settingsActions.updateSettings}
@@ -645,13 +818,25 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
               canRedo={undoRedo.canRedo}
               responsive={responsive}
               zenMode={settings.zenMode}
+              showFiles={showFiles}
               showToc={showToc}
               showOutline={showOutline}
+              onToggleFiles={handleToggleFiles}
               onToggleToc={handleToggleToc}
               onToggleOutline={handleToggleOutline}
             />
           )}
 
+          <EditorTabs
+            tabs={editorTabs.tabs}
+            activeTabId={editorTabs.activeTabId}
+            onSwitchTab={tabActions.switchTab}
+            onCloseTab={tabActions.closeTab}
+            onNewTab={tabActions.newTab}
+            theme={currentTheme}
+            zenMode={settings.zenMode}
+          />
+
           <div className="flex-1 flex overflow-hidden">
             <MemoizedEditorSidebar
               markdown={editor.markdown}
@@ -659,7 +844,12 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
               uiState={uiState}
               onToggleToc={handleToggleToc}
               onToggleOutline={handleToggleOutline}
+              onToggleFiles={handleToggleFiles}
               onToggleSidebar={() => setSidebarCollapsed(!sidebarCollapsed)}
+              files={fileStorage.files}
+              storageService={fileStorage.storageService}
+              activeFileName={editor.fileName}
+              onOpenFile={handleOpenTreeFile}
               responsive={responsive}
               zenMode={settings.zenMode}
             />
@@ -672,6 +862,12 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
               showPreview={showPreview}
               responsive={responsive}
               onInsertTextAtCursor={handleInsertTextAtCursor}
+              vimExCommands={vimExCommands}
+              onUndo={undoRedo.undo}
+              onRedo={undoRedo.redo}
+              splitEditor={splitEditor}
+              fileName={editor.fileName}
+              files={fileStorage.files}
             />
           </div>
 
@@ -689,6 +885,9 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
             fileName={editor.fileName}
             onMarkdownChange={handleMarkdownChange}
             onLoadTemplate={loadTemplate}
+            onLoadSavedVersion={loadSavedVersion}
+            storageService={fileStorage.storageService}
+            onOpenSearchMatch={handleOpenSearchMatch}
             currentTheme={currentTheme}
           />
 
@@ -3,6 +3,7 @@
  * @author Axel Modra
  */
 
+import type { UndoRedoSnapshot } from '@/hooks/core';
 import type { Theme } from '../../../features/ThemeSelector';
 
 /**
@@ -19,6 +20,45 @@ export interface EditorState {
   autoSave: boolean;
 }
 
+/**
+ * Document shown by the editor when switching tabs
+ */
+export interface EditorDocument {
+  /** Markdown content */
+  markdown: string;
+  /** File name */
+  fileName: string;
+  /** Whether content has been modified */
+  isModified: boolean;
+  /** Undo history to bring back; starts fresh when omitted */
+  history?: UndoRedoSnapshot;
+  /** Storage ID of the file, when saved */
+  fileId?: string;
+}
+
+/**
+ * Open editor tab. The active tab's document lives in the editor state; the
+ * others keep theirs here until they are activated again.
+ */
+export interface EditorTab {
+  /** Tab identifier */
+  id: string;
+  /** File name */
+  fileName: string;
+  /** Stored file shown in the tab; undefined until the document is saved */
+  fileId?: string;
+  /** Whether the tab has unsaved changes */
+  isModified: boolean;
+  /** Parked content; undefined when it should be loaded from storage */
+  markdown?: string;
+  /** Parked undo history (kept in memory only) */
+  history?: UndoRedoSnapshot;
+  /** Cursor selection */
+  selection: { start: number; end: number };
+  /** Editor scroll position */
+  scrollTop: number;
+}
+
 /**
  * Editor settings configuration
  */
@@ -37,6 +77,10 @@ export interface EditorSettings {
   vimMode: boolean;
   /** Zen mode enabled */
   zenMode: boolean;
+  /** Line numbers gutter visible */
+  lineNumbers: boolean;
+  /** Editor and preview scroll together */
+  scrollSync: boolean;
 }
 
 /**
@@ -49,7 +93,9 @@ export interface UIState {
   showToc: boolean;
   /** Show document outline */
   showOutline: boolean;
-  /** Show navigation (combined TOC + Outline) */
+  /** Show folder tree */
+  showFiles: boolean;
+  /** Show navigation (combined Files + TOC + Outline) */
   showNavigation: boolean;
   /** Sidebar collapsed state */
   sidebarCollapsed: boolean;
@@ -67,6 +113,8 @@ export interface DialogState {
   showTemplates: boolean;
   /** Show advanced export dialog */
   showAdvancedExport: boolean;
+  /** Show diff against the last saved version */
+  showDiff: boolean;
 }
 
 /**
@@ -183,6 +231,7 @@ export interface UseEditorStateReturn {
       source?: 'url' | 'files-page' | 'manual' | 'auto-save',
       silent?: boolean
     ) => void;
+    restoreDocument: (document: EditorDocument) => void;
   };
   undoRedo: {
     undo: () => void;
@@ -190,6 +239,7 @@ export interface UseEditorStateReturn {
     canUndo: boolean;
     canRedo: boolean;
     clearHistory: (newValue?: string) => void;
+    getSnapshot: () => UndoRedoSnapshot;
   };
 }
 
@@ -220,6 +270,30 @@ export interface LayoutConfig {
   stackLayout: boolean;
   compactMode: boolean;
   touchFriendly: boolean;
+  splitEditor: SplitEditorMode;
+}
+
+/**
+ * How the split editor fits the device: off, always one pane above the other, or either direction
+ */
+export type SplitEditorMode = 'disabled' | 'stacked' | 'free';
+
+/**
+ * Orientation of the divider between the two editor panes
+ * (vertical: side by side, horizontal: one above the other)
+ */
+export type SplitDirection = 'vertical' | 'horizontal';
+
+/**
+ * Split editor layout, kept across sessions
+ */
+export interface SplitEditorLayout {
+  /** Divider orientation, or null when the editor isn't split */
+  direction: SplitDirection | null;
+  /** Share of the space taken by the first pane (0-1) */
+  ratio: number;
+  /** Both panes scroll by the same amount */
+  syncScroll: boolean;
 }
 
 /**
@@ -67,6 +67,8 @@ export interface LayoutConfig {
   compactMode: boolean;
   /** Touch-friendly sizing */
   touchFriendly: boolean;
+  /** Split editor availability (tablets always stack the panes) */
+  splitEditor: 'disabled' | 'stacked' | 'free';
 }
 
 /**
@@ -164,6 +164,8 @@ export interface UpdateSettingsAction extends BaseAction {
     wordWrap?: boolean;
     vimMode?: boolean;
     zenMode?: boolean;
+    lineNumbers?: boolean;
+    scrollSync?: boolean;
   };
 }
 
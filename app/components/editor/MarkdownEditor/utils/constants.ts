@@ -3,7 +3,7 @@ Constants
 @author Axel Modra
  */
 
-import type { EditorConfig } from '../types';
+import type { EditorConfig, SplitEditorLayout } from '../types';
 import type { Breakpoints } from '../types/responsive.types';
 
 /**
@@ -28,6 +28,8 @@ export const DEFAULT_EDITOR_CONFIG: EditorConfig = {
     wordWrap: true,
     vimMode: false,
     zenMode: false,
+    lineNumbers: true,
+    scrollSync: true,
   },
   breakpoints: {
     mobile: 499,
@@ -60,6 +62,15 @@ export const BREAKPOINTS: Breakpoints = {
  */
 export { MEDIA_QUERIES } from '@/utils/responsive';
 
+/**
+ * Default split editor layout (not split; panes share the space evenly)
+ */
+export const DEFAULT_SPLIT_EDITOR_LAYOUT: SplitEditorLayout = {
+  direction: null,
+  ratio: 0.5,
+  syncScroll: false,
+};
+
 /**
  * Local storage keys
  */
@@ -70,6 +81,7 @@ export const STORAGE_KEYS = {
   SETTINGS: 'markdownEditor_settings',
   UI_STATE: 'markdownEditor_uiState',
   WINDOW_STATE: 'markdownEditor_windowState',
+  SPLIT_EDITOR: 'markdownEditor_splitEditor',
 } as const;
 
 /**
@@ -79,6 +79,7 @@ export const getOptimalLayout = (deviceType: DeviceType): LayoutConfig => {
       stackLayout: true,
       compactMode: true,
       touchFriendly: true,
+      splitEditor: 'disabled',
     },
     [DeviceType.MOBILE]: {
       showSidebar: false,
@@ -87,6 +88,7 @@ export const getOptimalLayout = (deviceType: DeviceType): LayoutConfig => {
       stackLayout: true,
       compactMode: true,
       touchFriendly: true,
+      splitEditor: 'disabled',
     },
     [DeviceType.TABLET_SMALL]: {
       showSidebar: true,
@@ -95,6 +97,7 @@ export const getOptimalLayout = (deviceType: DeviceType): LayoutConfig => {
       stackLayout: true,
       compactMode: true,
       touchFriendly: true,
+      splitEditor: 'stacked',
     },
     [DeviceType.TABLET_LARGE]: {
       showSidebar: true,
@@ -103,6 +106,7 @@ export const getOptimalLayout = (deviceType: DeviceType): LayoutConfig => {
       stackLayout: false,
       compactMode: false,
       touchFriendly: true,
+      splitEditor: 'stacked',
     },
     [DeviceType.DESKTOP_SMALL]: {
       showSidebar: true,
@@ -111,6 +115,7 @@ export const getOptimalLayout = (deviceType: DeviceType): LayoutConfig => {
       stackLayout: false,
       compactMode: false,
       touchFriendly: false,
+      splitEditor: 'free',
     },
     [DeviceType.DESKTOP_LARGE]: {
       showSidebar: true,
@@ -119,6 +124,7 @@ export const getOptimalLayout = (deviceType: DeviceType): LayoutConfig => {
       stackLayout: false,
       compactMode: false,
       touchFriendly: false,
+      splitEditor: 'free',
     },
   };
 
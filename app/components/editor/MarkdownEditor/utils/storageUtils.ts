@@ -3,8 +3,8 @@
  * @author Axel Modra
  */
 
-import type { EditorSettings, UIState } from '../types';
-import { DEFAULT_EDITOR_CONFIG, STORAGE_KEYS } from './constants';
+import type { EditorSettings, SplitEditorLayout, UIState } from '../types';
+import { DEFAULT_EDITOR_CONFIG, DEFAULT_SPLIT_EDITOR_LAYOUT, STORAGE_KEYS } from './constants';
 
 /**
  * Storage error types
@@ -139,6 +139,26 @@ export const loadUIState = (): UIState | null => {
   return getStorageJSON<UIState>(STORAGE_KEYS.UI_STATE);
 };
 
+/**
+ * Save split editor layout
+ */
+export const saveSplitEditorLayout = (layout: SplitEditorLayout): boolean => {
+  return setStorageJSON(STORAGE_KEYS.SPLIT_EDITOR, layout);
+};
+
+/**
+ * Load split editor layout
+ */
+export const loadSplitEditorLayout = (): SplitEditorLayout => {
+  const layout = getStorageJSON<SplitEditorLayout>(STORAGE_KEYS.SPLIT_EDITOR);
+
+  // Merge with defaults to ensure all properties exist
+  return {
+    ...DEFAULT_SPLIT_EDITOR_LAYOUT,
+    ...layout,
+  };
+};
+
 /**
  * Save window state (position, size, etc.)
  */
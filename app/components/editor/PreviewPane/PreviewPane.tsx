@@ -5,17 +5,31 @@
  */
 
 import type React from 'react';
+import { useMemo, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
-import rehypeHighlight from 'rehype-highlight';
-import remarkGfm from 'remark-gfm';
+import { parseFrontMatter } from '@/utils/frontMatter';
+import {
+  MARKDOWN_REHYPE_PLUGINS,
+  MARKDOWN_REMARK_PLUGINS,
+  MARKDOWN_REMARK_REHYPE_OPTIONS,
+  type MarkdownPluginList,
+} from '@/utils/markdownPlugins';
 import { generateHeaderStyles } from '@/utils/themeUtils';
+import { FrontMatterCard } from './components/FrontMatterCard';
 import { createMarkdownComponents } from './components/MarkdownComponents';
 import { useHeadingCache } from './hooks/useHeadingCache';
 // Custom hooks dan utilities
 import { useHighlightJs } from './hooks/useHighlightJs';
+import { useSourceReveal } from './hooks/useSourceReveal';
 // Types
 import type { PreviewPaneProps } from './types/preview.types';
 import { getResponsiveOptions } from './utils/languageUtils';
+import { rehypeSourceLines } from './utils/sourceLineUtils';
+
+/**
+ * Preview menambahkan atribut baris source pada block untuk scroll sync
+ */
+const PREVIEW_REHYPE_PLUGINS: MarkdownPluginList = [...MARKDOWN_REHYPE_PLUGINS, rehypeSourceLines];
 
 /**
  * Komponen utama PreviewPane dengan architecture yang bersih
@@ -27,6 +41,8 @@ export const PreviewPane: React.FC<PreviewPaneProps> = ({
   theme,
   isMobile = false,
   isTablet = false,
+  onMarkdownChange,
+  onRevealSource,
 }) => {
   // Setup highlight.js dengan theme management
   useHighlightJs(isDarkMode, theme);
@@ -34,12 +50,20 @@ export const PreviewPane: React.FC<PreviewPaneProps> = ({
   // Setup heading cache management
   useHeadingCache(markdown);
 
+  // Klik block di preview memilih source-nya di editor
+  const previewRef = useRef<HTMLDivElement>(null);
+  useSourceReveal(previewRef, onRevealSource);
+
+  // Front matter ditampilkan sebagai kartu metadata, bukan bagian body
+  const frontMatter = useMemo(() => parseFrontMatter(markdown), [markdown]);
+
   // Create markdown components dengan current props
   const markdownComponents = createMarkdownComponents({
     markdown,
     theme,
     isMobile,
     isTablet,
+    onMarkdownChange,
   });
 
   // Get responsive options
@@ -77,6 +101,7 @@ export const PreviewPane: React.FC<PreviewPaneProps> = ({
       </div>
 
       <div
+        ref={previewRef}
         data-preview-pane
         className={`flex-1 overflow-auto transition-colors duration-200 preview-content ${isMobile || isTablet ? 'preview-pane-responsive' : 'p-6'} ${isDarkMode ? 'dark-preview' : ''}`}
         style={{
@@ -106,9 +131,18 @@ export const PreviewPane: React.FC<PreviewPaneProps> = ({
             } as React.CSSProperties
           }
         >
+          {frontMatter && (
+            <FrontMatterCard
+              frontMatter={frontMatter}
+              markdown={markdown}
+              onMarkdownChange={onMarkdownChange}
+              theme={theme}
+            />
+          )}
           <ReactMarkdown
-            remarkPlugins={[remarkGfm]}
-            rehypePlugins={[rehypeHighlight]}
+            remarkPlugins={MARKDOWN_REMARK_PLUGINS}
+            rehypePlugins={PREVIEW_REHYPE_PLUGINS}
+            remarkRehypeOptions={MARKDOWN_REMARK_REHYPE_OPTIONS}
             components={markdownComponents}
           >
             {markdown}
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview CalloutBlock - Render callout GitHub-style (> [!NOTE], > [!WARNING], ...)
+ * @author Axel Modra
+ */
+
+import {
+  AlertTriangle,
+  Info,
+  Lightbulb,
+  type LucideIcon,
+  MessageSquareWarning,
+  OctagonAlert,
+} from 'lucide-react';
+import React from 'react';
+import type { CalloutType } from '@/utils/remarkCallouts';
+import type { CalloutBlockProps } from '../types/preview.types';
+
+const CALLOUT_STYLES: Record<CalloutType, { color: string; icon: LucideIcon }> = {
+  note: { color: '#2563eb', icon: Info },
+  tip: { color: '#16a34a', icon: Lightbulb },
+  important: { color: '#9333ea', icon: MessageSquareWarning },
+  warning: { color: '#d97706', icon: AlertTriangle },
+  caution: { color: '#dc2626', icon: OctagonAlert },
+};
+
+/**
+ * Kotak callout berwarna; paragraf pertama (callout-title) dirender sebagai judul dengan icon
+ */
+export const CalloutBlock: React.FC<CalloutBlockProps> = ({
+  type,
+  children,
+  theme,
+  sourceLines,
+}) => {
+  const { color, icon: Icon } = CALLOUT_STYLES[type];
+  const [title, ...body] = React.Children.toArray(children).filter(
+    (child) => typeof child !== 'string' || child.trim() !== ''
+  );
+  const titleContent = React.isValidElement<{ children?: React.ReactNode }>(title)
+    ? title.props.children
+    : title;
+
+  return (
+    <div
+      role="note"
+      {...sourceLines}
+      className={`callout callout-${type} my-4 rounded-r-lg border-l-4 px-4 py-3 not-italic`}
+      style={{
+        borderColor: color,
+        backgroundColor: `${color}14`,
+        color: theme?.text || 'inherit',
+      }}
+    >
+      <p
+        className="callout-title mt-0 mb-1 flex items-center gap-2 font-semibold"
+        style={{ color }}
+      >
+        <Icon className="h-4 w-4 shrink-0" />
+        {titleContent}
+      </p>
+      <div className="[&>*:last-child]:mb-0 [&>*:first-child]:mt-0">{body}</div>
+    </div>
+  );
+};
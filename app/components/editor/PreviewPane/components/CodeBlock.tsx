@@ -21,6 +21,7 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({
   language,
   isMobile = false,
   isTablet = false,
+  sourceLines,
 }) => {
   const responsiveOptions = getResponsiveOptions(isMobile, isTablet);
 
@@ -34,7 +35,7 @@ export const CodeBlock: React.FC<CodeBlockProps> = ({
   };
 
   return (
-    <div className="relative group my-6">
+    <div className="relative group my-6" {...sourceLines}>
       {/* 🔥 Super Ultra Indah Code Block Container */}
       <div className="relative overflow-hidden rounded-xl border border-gray-200 dark:border-gray-700 shadow-lg hover:shadow-xl transition-all duration-300 bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-900">
         {/* ✨ Header dengan language info dan copy button */}
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview DiagramBlock - Render fenced block mermaid/sequence/flow sebagai SVG
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { renderDiagram } from '@/utils/diagramUtils';
+import { isDarkTheme } from '@/utils/themeUtils';
+import type { DiagramBlockProps } from '../types/preview.types';
+
+type DiagramState =
+  | { status: 'loading' }
+  | { status: 'rendered'; svg: string }
+  | { status: 'error'; message: string };
+
+/**
+ * Diagram dengan toggle untuk melihat source dan panel error jika parse gagal
+ */
+export const DiagramBlock: React.FC<DiagramBlockProps> = ({
+  language,
+  source,
+  theme,
+  sourceLines,
+}) => {
+  const [state, setState] = useState<DiagramState>({ status: 'loading' });
+  const [showSource, setShowSource] = useState(false);
+  const diagramTheme = isDarkTheme(theme) ? 'dark' : 'default';
+
+  useEffect(() => {
+    let cancelled = false;
+
+    renderDiagram(language, source, diagramTheme)
+      .then((svg) => {
+        if (!cancelled) setState({ status: 'rendered', svg });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setState({
+          status: 'error',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [language, source, diagramTheme]);
+
+  const hasError = state.status === 'error';
+
+  return (
+    <div
+      className="relative my-6 overflow-hidden rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm not-prose"
+      {...sourceLines}
+    >
+      <div className="flex items-center justify-between px-4 py-2 bg-gradient-to-r from-gray-100 to-gray-200 dark:from-gray-700 dark:to-gray-800 border-b border-gray-200 dark:border-gray-600">
+        <div className="flex items-center gap-2">
+          <span className="text-lg">📊</span>
+          <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+            {language.toUpperCase()}
+          </span>
+          <div className="h-1 w-1 rounded-full bg-gray-400" />
+          <span className="text-xs text-gray-500 dark:text-gray-400">Diagram</span>
+        </div>
+
+        {!hasError && (
+          <button
+            type="button"
+            onClick={() => setShowSource((value) => !value)}
+            className="px-3 py-1 rounded-md text-xs bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 text-gray-700 dark:text-gray-300 font-medium"
+            aria-pressed={showSource}
+          >
+            {showSource ? 'View diagram' : 'View source'}
+          </button>
+        )}
+      </div>
+
+      {hasError && (
+        <div
+          role="alert"
+          className="px-4 py-3 text-sm border-b border-red-200 bg-red-50 text-red-700 dark:border-red-900 dark:bg-red-950/40 dark:text-red-300"
+        >
+          <p className="font-semibold">Failed to render diagram</p>
+          <p className="mt-1 whitespace-pre-wrap font-mono text-xs">{state.message}</p>
+        </div>
+      )}
+
+      {showSource || hasError ? (
+        <pre className="overflow-x-auto p-4 m-0 text-sm leading-relaxed bg-gray-50 dark:bg-gray-900">
+          <code>{source}</code>
+        </pre>
+      ) : state.status === 'rendered' ? (
+        <div
+          className="diagram-svg flex justify-center overflow-x-auto p-4"
+          // biome-ignore lint/security/noDangerouslySetInnerHtml: SVG sudah disanitasi di renderDiagram
+          dangerouslySetInnerHTML={{ __html: state.svg }}
+        />
+      ) : (
+        <div className="p-4 text-sm text-gray-500 dark:text-gray-400">Rendering diagram...</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+/**
+ * @fileoverview FrontMatterCard - Kartu metadata YAML front matter yang bisa diedit dari preview
+ * @author Axel Modra
+ */
+
+import { Calendar, Pencil, User } from 'lucide-react';
+import type React from 'react';
+import { useId, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { normalizeTags, updateFrontMatter } from '@/utils/frontMatter';
+import type { FrontMatterCardProps } from '../types/preview.types';
+
+interface FrontMatterDraft {
+  title: string;
+  author: string;
+  description: string;
+  tags: string;
+  date: string;
+}
+
+/**
+ * Tampilkan metadata dokumen; mode edit menulis ulang blok front matter di markdown
+ */
+export const FrontMatterCard: React.FC<FrontMatterCardProps> = ({
+  frontMatter,
+  markdown,
+  onMarkdownChange,
+  theme,
+}) => {
+  const { fields, error } = frontMatter;
+  const [draft, setDraft] = useState<FrontMatterDraft | null>(null);
+  const fieldId = useId();
+
+  const startEditing = () => {
+    setDraft({
+      title: fields.title ?? '',
+      author: fields.author ?? '',
+      description: fields.description ?? '',
+      tags: fields.tags?.join(', ') ?? '',
+      date: fields.date ?? '',
+    });
+  };
+
+  const updateDraft = (key: keyof FrontMatterDraft, value: string) => {
+    setDraft((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleSave = () => {
+    if (!draft || !onMarkdownChange) return;
+    onMarkdownChange(
+      updateFrontMatter(markdown, {
+        title: draft.title,
+        author: draft.author,
+        description: draft.description,
+        tags: normalizeTags(draft.tags),
+        date: draft.date,
+      })
+    );
+    setDraft(null);
+  };
+
+  const cardStyle: React.CSSProperties = {
+    borderColor: theme?.accent || '#d1d5db',
+    backgroundColor: theme?.surface ? `${theme.surface}80` : '#f8fafc',
+    color: theme?.text || 'inherit',
+  };
+
+  if (error) {
+    return (
+      <div
+        role="alert"
+        className="not-prose mb-6 rounded-lg border border-red-300 bg-red-50 px-4 py-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950/40 dark:text-red-300"
+      >
+        <p className="font-semibold">Invalid front matter</p>
+        <p className="mt-1 whitespace-pre-wrap font-mono text-xs">{error}</p>
+      </div>
+    );
+  }
+
+  if (draft) {
+    const textFields: Array<{ key: keyof FrontMatterDraft; label: string; placeholder: string }> = [
+      { key: 'title', label: 'Title', placeholder: 'Document title' },
+      { key: 'author', label: 'Author', placeholder: 'Author name' },
+      { key: 'date', label: 'Date', placeholder: 'YYYY-MM-DD' },
+      { key: 'tags', label: 'Tags', placeholder: 'tag-one, tag-two' },
+    ];
+
+    return (
+      <div className="not-prose mb-6 rounded-lg border p-4 space-y-3" style={cardStyle}>
+        <div className="grid gap-3 sm:grid-cols-2">
+          {textFields.map(({ key, label, placeholder }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`${fieldId}-${key}`} className="text-xs">
+                {label}
+              </Label>
+              <Input
+                id={`${fieldId}-${key}`}
+                value={draft[key]}
+                placeholder={placeholder}
+                onChange={(event) => updateDraft(key, event.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${fieldId}-description`} className="text-xs">
+            Description
+          </Label>
+          <Textarea
+            id={`${fieldId}-description`}
+            value={draft.description}
+            placeholder="Short summary"
+            onChange={(event) => updateDraft('description', event.target.value)}
+            className="min-h-[60px] text-sm"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="not-prose mb-6 rounded-lg border px-4 py-3" style={cardStyle}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <p className="text-lg font-semibold leading-tight">{fields.title || 'Untitled'}</p>
+          {(fields.author || fields.date) && (
+            <div className="flex flex-wrap items-center gap-3 text-xs opacity-75">
+              {fields.author && (
+                <span className="flex items-center gap-1">
+                  <User className="h-3 w-3" />
+                  {fields.author}
+                </span>
+              )}
+              {fields.date && (
+                <span className="flex items-center gap-1">
+                  <Calendar className="h-3 w-3" />
+                  {fields.date}
+                </span>
+              )}
+            </div>
+          )}
+          {fields.description && <p className="text-sm opacity-90">{fields.description}</p>}
+          {fields.tags && (
+            <div className="flex flex-wrap gap-1 pt-1">
+              {fields.tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="text-xs">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        {onMarkdownChange && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={startEditing}
+            className="h-7 px-2 shrink-0"
+            title="Edit metadata"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
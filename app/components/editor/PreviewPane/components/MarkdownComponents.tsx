@@ -5,9 +5,17 @@
 
 import React, { useState } from 'react';
 import type { Components } from 'react-markdown';
+import { isDiagramLanguage } from '@/utils/diagramUtils';
+import { isCalloutType } from '@/utils/remarkCallouts';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
 import { useHeadingCache } from '../hooks/useHeadingCache';
-import type { MarkdownComponentsProps } from '../types/preview.types';
+import type { MarkdownComponentsProps, SourceLineAttributes } from '../types/preview.types';
+import { extractTextContent } from '../utils/languageUtils';
+import { getSourceLineProps } from '../utils/sourceLineUtils';
+import { setTaskItemChecked } from '../utils/taskListUtils';
+import { CalloutBlock } from './CalloutBlock';
 import { CodeBlock, InlineCode } from './CodeBlock';
+import { DiagramBlock } from './DiagramBlock';
 
 /**
  * Props untuk heading component
@@ -15,6 +23,7 @@ import { CodeBlock, InlineCode } from './CodeBlock';
 interface HeadingComponentProps {
   children: React.ReactNode;
   markdown: string;
+  sourceLines?: SourceLineAttributes;
   theme?: {
     text?: string;
     accent?: string;
@@ -36,10 +45,12 @@ interface ImageComponentProps {
 
 /**
  * Custom image component dengan error handling dan responsive design
+ * Attachment (attachments/<id>) dimuat dari penyimpanan attachment
  */
 const ImageComponent: React.FC<ImageComponentProps> = ({ src, alt, title, theme }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
+  const attachment = useAttachmentUrl(src);
 
   const handleLoad = () => {
     setIsLoading(false);
@@ -65,7 +76,7 @@ const ImageComponent: React.FC<ImageComponentProps> = ({ src, alt, title, theme
     );
   }
 
-  if (hasError) {
+  if (hasError || attachment.isMissing) {
     return (
       <div
         className="flex items-center justify-center p-4 border-2 border-dashed rounded-lg"
@@ -75,7 +86,9 @@ const ImageComponent: React.FC<ImageComponentProps> = ({ src, alt, title, theme
         }}
       >
         <div className="text-center">
-          <span className="text-sm text-red-500 block">Failed to load image</span>
+          <span className="text-sm text-red-500 block">
+            {attachment.isMissing ? 'Image attachment not found' : 'Failed to load image'}
+          </span>
           <span className="text-xs text-gray-500 mt-1">{alt || 'Image'}</span>
         </div>
       </div>
@@ -95,21 +108,23 @@ const ImageComponent: React.FC<ImageComponentProps> = ({ src, alt, title, theme
           <span className="text-sm text-gray-500">Loading image...</span>
         </div>
       )}
-      <img
-        src={src}
-        alt={alt || 'Image'}
-        title={title}
-        onLoad={handleLoad}
-        onError={handleError}
-        className={`max-w-full h-auto rounded-lg shadow-sm transition-opacity duration-200 ${
-          isLoading ? 'opacity-0 absolute' : 'opacity-100'
-        }`}
-        style={{
-          border: `1px solid ${theme?.accent || '#e5e7eb'}`,
-        }}
-        loading="lazy"
-        crossOrigin="anonymous"
-      />
+      {attachment.src && (
+        <img
+          src={attachment.src}
+          alt={alt || 'Image'}
+          title={title}
+          onLoad={handleLoad}
+          onError={handleError}
+          className={`max-w-full h-auto rounded-lg shadow-sm transition-opacity duration-200 ${
+            isLoading ? 'opacity-0 absolute' : 'opacity-100'
+          }`}
+          style={{
+            border: `1px solid ${theme?.accent || '#e5e7eb'}`,
+          }}
+          loading="lazy"
+          crossOrigin="anonymous"
+        />
+      )}
       {alt && !isLoading && !hasError && (
         <p className="text-sm text-gray-600 mt-2 text-center italic">{alt}</p>
       )}
@@ -121,7 +136,12 @@ const ImageComponent: React.FC<ImageComponentProps> = ({ src, alt, title, theme
  * Custom heading component factory
  */
 const createHeadingComponent = (level: number) => {
-  const HeadingComponent: React.FC<HeadingComponentProps> = ({ children, markdown, theme }) => {
+  const HeadingComponent: React.FC<HeadingComponentProps> = ({
+    children,
+    markdown,
+    theme,
+    sourceLines,
+  }) => {
     const { getOrCreateHeadingId } = useHeadingCache(markdown);
     const headingText = React.Children.toArray(children).join('');
     const id = getOrCreateHeadingId(headingText);
@@ -197,6 +217,7 @@ const createHeadingComponent = (level: number) => {
         style: getHeadingStyles(level),
         'data-heading-level': level,
         'data-heading-text': headingText,
+        ...sourceLines,
       },
       children
     );
@@ -216,29 +237,85 @@ export const createMarkdownComponents = ({
   theme,
   isMobile = false,
   isTablet = false,
+  onMarkdownChange,
 }: MarkdownComponentsProps): Components => {
   return {
     // Heading components
-    h1: ({ children }) => createHeadingComponent(1)({ children, markdown, theme }),
-    h2: ({ children }) => createHeadingComponent(2)({ children, markdown, theme }),
-    h3: ({ children }) => createHeadingComponent(3)({ children, markdown, theme }),
-    h4: ({ children }) => createHeadingComponent(4)({ children, markdown, theme }),
-    h5: ({ children }) => createHeadingComponent(5)({ children, markdown, theme }),
-    h6: ({ children }) => createHeadingComponent(6)({ children, markdown, theme }),
+    h1: ({ children, node }) =>
+      createHeadingComponent(1)({
+        children,
+        markdown,
+        theme,
+        sourceLines: getSourceLineProps(node),
+      }),
+    h2: ({ children, id, className, node }) =>
+      // Label section footnote dari GFM hanya untuk screen reader
+      id === 'footnote-label' ? (
+        <h2 id={id} className={className}>
+          {children}
+        </h2>
+      ) : (
+        createHeadingComponent(2)({
+          children,
+          markdown,
+          theme,
+          sourceLines: getSourceLineProps(node),
+        })
+      ),
+    h3: ({ children, node }) =>
+      createHeadingComponent(3)({
+        children,
+        markdown,
+        theme,
+        sourceLines: getSourceLineProps(node),
+      }),
+    h4: ({ children, node }) =>
+      createHeadingComponent(4)({
+        children,
+        markdown,
+        theme,
+        sourceLines: getSourceLineProps(node),
+      }),
+    h5: ({ children, node }) =>
+      createHeadingComponent(5)({
+        children,
+        markdown,
+        theme,
+        sourceLines: getSourceLineProps(node),
+      }),
+    h6: ({ children, node }) =>
+      createHeadingComponent(6)({
+        children,
+        markdown,
+        theme,
+        sourceLines: getSourceLineProps(node),
+      }),
 
     // Blockquote component
-    blockquote: ({ children }) => (
-      <blockquote
-        className="border-l-4 pl-4 py-2 my-4 italic rounded-r-lg"
-        style={{
-          borderColor: theme?.primary || '#3b82f6',
-          backgroundColor: theme?.surface ? `${theme.surface}40` : '#eff6ff',
-          color: theme?.text || 'inherit',
-        }}
-      >
-        {children}
-      </blockquote>
-    ),
+    blockquote: ({ children, node }) => {
+      const calloutType = node?.properties?.dataCallout;
+      if (isCalloutType(calloutType)) {
+        return (
+          <CalloutBlock type={calloutType} theme={theme} sourceLines={getSourceLineProps(node)}>
+            {children}
+          </CalloutBlock>
+        );
+      }
+
+      return (
+        <blockquote
+          {...getSourceLineProps(node)}
+          className="border-l-4 pl-4 py-2 my-4 italic rounded-r-lg"
+          style={{
+            borderColor: theme?.primary || '#3b82f6',
+            backgroundColor: theme?.surface ? `${theme.surface}40` : '#eff6ff',
+            color: theme?.text || 'inherit',
+          }}
+        >
+          {children}
+        </blockquote>
+      );
+    },
 
     // Code components
     code: ({ children, className, ...props }) => {
@@ -255,7 +332,7 @@ export const createMarkdownComponents = ({
     },
 
     // Pre component (code blocks)
-    pre: ({ children }) => {
+    pre: ({ children, node }) => {
       // Extract language info dari code element
       const codeElement = React.Children.toArray(children).find(
         (child): child is React.ReactElement =>
@@ -271,6 +348,17 @@ export const createMarkdownComponents = ({
       const match = className.match(/language-(\w+)/);
       const language = match ? match[1] : '';
 
+      if (isDiagramLanguage(language)) {
+        return (
+          <DiagramBlock
+            language={language}
+            source={extractTextContent(codeElement?.props?.children).trim()}
+            theme={theme}
+            sourceLines={getSourceLineProps(node)}
+          />
+        );
+      }
+
       return (
         <CodeBlock
           className={className}
@@ -278,6 +366,7 @@ export const createMarkdownComponents = ({
           theme={theme}
           isMobile={isMobile}
           isTablet={isTablet}
+          sourceLines={getSourceLineProps(node)}
         >
           {codeElement?.props?.children || children}
         </CodeBlock>
@@ -285,8 +374,8 @@ export const createMarkdownComponents = ({
     },
 
     // Table components
-    table: ({ children }) => (
-      <div className="overflow-x-auto my-6">
+    table: ({ children, node }) => (
+      <div className="overflow-x-auto my-6" {...getSourceLineProps(node)}>
         <table
           className="w-full border-collapse rounded-lg overflow-hidden shadow-sm"
           style={{ borderColor: theme?.accent || '#d1d5db' }}
@@ -296,8 +385,9 @@ export const createMarkdownComponents = ({
       </div>
     ),
 
-    th: ({ children }) => (
+    th: ({ children, node }) => (
       <th
+        {...getSourceLineProps(node)}
         className="border px-4 py-3 font-semibold text-left"
         style={{
           borderColor: theme?.accent || '#d1d5db',
@@ -309,8 +399,9 @@ export const createMarkdownComponents = ({
       </th>
     ),
 
-    td: ({ children }) => (
+    td: ({ children, node }) => (
       <td
+        {...getSourceLineProps(node)}
         className="border px-4 py-3"
         style={{
           borderColor: theme?.accent || '#d1d5db',
@@ -334,16 +425,111 @@ export const createMarkdownComponents = ({
     ),
 
     // List components
-    ul: ({ children }) => <ul className="list-disc list-inside space-y-1 my-4 ml-4">{children}</ul>,
+    ul: ({ children, className, node }) => (
+      <ul
+        {...getSourceLineProps(node)}
+        className={`${className?.includes('contains-task-list') ? 'list-none ml-1' : 'list-disc list-inside ml-4'} space-y-1 my-4`}
+      >
+        {children}
+      </ul>
+    ),
 
-    ol: ({ children }) => (
-      <ol className="list-decimal list-inside space-y-1 my-4 ml-4">{children}</ol>
+    ol: ({ children, className, node }) => (
+      <ol
+        {...getSourceLineProps(node)}
+        className={`${className?.includes('contains-task-list') ? 'list-none ml-1' : 'list-decimal list-inside ml-4'} space-y-1 my-4`}
+      >
+        {children}
+      </ol>
     ),
 
-    li: ({ children }) => (
-      <li className="leading-relaxed" style={{ color: theme?.text || 'inherit' }}>
+    li: ({ children, id, className, node }) => {
+      const isTaskItem = className?.includes('task-list-item');
+      const itemOffset = node?.position?.start.offset;
+
+      // Klik checkbox task list menulis [ ] / [x] kembali ke source markdown
+      const handleTaskChange = (event: React.ChangeEvent<HTMLLIElement>) => {
+        const target = event.target as unknown as HTMLInputElement;
+        if (target.type !== 'checkbox' || target.closest('li') !== event.currentTarget) return;
+        event.stopPropagation();
+        if (!onMarkdownChange || itemOffset === undefined) return;
+
+        const updated = setTaskItemChecked(markdown, itemOffset, target.checked);
+        if (updated !== null) onMarkdownChange(updated);
+      };
+
+      return (
+        <li
+          id={id}
+          {...getSourceLineProps(node)}
+          className={`leading-relaxed ${isTaskItem ? 'task-list-item' : ''}`}
+          style={{ color: theme?.text || 'inherit' }}
+          onChange={isTaskItem ? handleTaskChange : undefined}
+        >
+          {children}
+        </li>
+      );
+    },
+
+    input: ({ type, checked, disabled }) =>
+      type === 'checkbox' ? (
+        <input
+          type="checkbox"
+          checked={!!checked}
+          readOnly
+          disabled={disabled && !onMarkdownChange}
+          className="mr-2 align-middle cursor-pointer accent-current"
+          style={{ accentColor: theme?.primary || '#3b82f6' }}
+        />
+      ) : (
+        <input type={type} checked={checked} disabled={disabled} readOnly />
+      ),
+
+    // Definition list components
+    dl: ({ children, node }) => (
+      <dl className="my-4 space-y-1" {...getSourceLineProps(node)}>
+        {children}
+      </dl>
+    ),
+
+    dt: ({ children, node }) => (
+      <dt
+        {...getSourceLineProps(node)}
+        className="font-semibold mt-3"
+        style={{ color: theme?.text || 'inherit' }}
+      >
+        {children}
+      </dt>
+    ),
+
+    dd: ({ children, node }) => (
+      <dd
+        {...getSourceLineProps(node)}
+        className="ml-6 mb-2"
+        style={{ color: theme?.text || 'inherit' }}
+      >
+        {children}
+      </dd>
+    ),
+
+    // Footnotes section
+    section: ({ children, className, node: _node, ...props }) => (
+      <section
+        className={className}
+        {...props}
+        style={
+          className?.includes('footnotes')
+            ? {
+                marginTop: '3rem',
+                paddingTop: '1rem',
+                borderTop: `1px solid ${theme?.accent || '#e5e7eb'}`,
+                fontSize: '0.9em',
+              }
+            : undefined
+        }
+      >
         {children}
-      </li>
+      </section>
     ),
 
     // Image component
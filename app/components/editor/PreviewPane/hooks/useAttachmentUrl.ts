@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Custom hook untuk menampilkan image attachment (attachments/<id>) di preview
+ * @author Axel Modra
+ */
+
+import { useEffect, useState } from 'react';
+import { attachmentStorage } from '@/services/attachmentStorage';
+import { getAttachmentId } from '@/utils/attachmentUtils';
+
+interface AttachmentUrlState {
+  /** URL yang dipakai img; undefined selama attachment dimuat atau jika tidak ditemukan */
+  src?: string;
+  isResolving: boolean;
+  isMissing: boolean;
+}
+
+/**
+ * Resolve src attachment menjadi object URL; src lain dikembalikan apa adanya
+ * @param src - src image dari markdown
+ */
+export const useAttachmentUrl = (src?: string): AttachmentUrlState => {
+  const attachmentId = getAttachmentId(src);
+  const [resolved, setResolved] = useState<{ id: string; url: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!attachmentId) return;
+
+    let isCancelled = false;
+    attachmentStorage
+      .getObjectUrl(attachmentId)
+      .catch(() => null)
+      .then((url) => {
+        if (!isCancelled) setResolved({ id: attachmentId, url });
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [attachmentId]);
+
+  if (!attachmentId) {
+    return { src, isResolving: false, isMissing: false };
+  }
+
+  if (resolved?.id !== attachmentId) {
+    return { src: undefined, isResolving: true, isMissing: false };
+  }
+
+  return { src: resolved.url ?? undefined, isResolving: false, isMissing: !resolved.url };
+};
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Custom hook untuk klik block di preview agar source-nya terpilih di editor
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import { useEffect } from 'react';
+import { SOURCE_END_ATTRIBUTE, SOURCE_START_ATTRIBUTE } from '@/utils/scrollSyncUtils';
+import type { SourceRevealTarget } from '../types/preview.types';
+
+/**
+ * Klik pada element interaktif tetap menjalankan aksinya sendiri
+ */
+const INTERACTIVE_SELECTOR = 'a, button, input, textarea, select, label, summary, [role="button"]';
+
+/**
+ * Pasang handler klik (event delegation) pada container preview
+ * Block terdalam yang memiliki offset source (paragraf, list item, sel tabel, heading) dipakai
+ */
+export const useSourceReveal = (
+  containerRef: React.RefObject<HTMLElement>,
+  onRevealSource?: (target: SourceRevealTarget) => void
+): void => {
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !onRevealSource) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!(event.target instanceof Element) || event.target.closest(INTERACTIVE_SELECTOR)) return;
+
+      // Drag untuk menyeleksi teks di preview bukan klik navigasi
+      const selection = window.getSelection();
+      if (selection && !selection.isCollapsed) return;
+
+      const block = event.target.closest<HTMLElement>(`[${SOURCE_START_ATTRIBUTE}]`);
+      if (!block || !container.contains(block)) return;
+
+      const start = Number(block.getAttribute(SOURCE_START_ATTRIBUTE));
+      const end = Number(block.getAttribute(SOURCE_END_ATTRIBUTE) || start);
+      if (Number.isNaN(start) || Number.isNaN(end)) return;
+
+      onRevealSource({
+        start,
+        end,
+        viewportOffset: block.getBoundingClientRect().top - container.getBoundingClientRect().top,
+      });
+    };
+
+    container.addEventListener('click', handleClick);
+    return () => container.removeEventListener('click', handleClick);
+  }, [containerRef, onRevealSource]);
+};
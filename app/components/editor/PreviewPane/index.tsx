@@ -4,7 +4,9 @@
  */
 
 export { createMarkdownComponents } from './components/MarkdownComponents';
+export { useAttachmentUrl } from './hooks/useAttachmentUrl';
 export { useHeadingCache } from './hooks/useHeadingCache';
 export { useHighlightJs } from './hooks/useHighlightJs';
+export { useSourceReveal } from './hooks/useSourceReveal';
 export { PreviewPane } from './PreviewPane';
-export type { PreviewPaneProps } from './types/preview.types';
+export type { PreviewPaneProps, SourceRevealTarget } from './types/preview.types';
@@ -3,6 +3,9 @@
  * @author Axel Modra
  */
 
+import type { DiagramLanguage } from '@/utils/diagramUtils';
+import type { ParsedFrontMatter } from '@/utils/frontMatter';
+import type { CalloutType } from '@/utils/remarkCallouts';
 import type { Theme } from '../../../features/ThemeSelector';
 
 /**
@@ -19,6 +22,46 @@ export interface PreviewPaneProps {
   isMobile?: boolean;
   /** Apakah dalam mode tablet */
   isTablet?: boolean;
+  /** Callback saat metadata front matter diedit dari preview */
+  onMarkdownChange?: (markdown: string) => void;
+  /** Callback saat block di preview diklik untuk memilih source-nya di editor */
+  onRevealSource?: (target: SourceRevealTarget) => void;
+}
+
+/**
+ * Atribut posisi source markdown pada block preview (untuk scroll sync dan lompat ke source)
+ */
+export interface SourceLineAttributes {
+  'data-source-line'?: number;
+  'data-source-end-line'?: number;
+  'data-source-start'?: number;
+  'data-source-end'?: number;
+}
+
+/**
+ * Block preview yang diklik: range source dan posisinya di viewport preview
+ */
+export interface SourceRevealTarget {
+  /** Offset awal block di markdown */
+  start: number;
+  /** Offset akhir block di markdown */
+  end: number;
+  /** Jarak block dari atas viewport preview (px) */
+  viewportOffset: number;
+}
+
+/**
+ * Props untuk FrontMatterCard component
+ */
+export interface FrontMatterCardProps {
+  /** Hasil parse front matter dokumen */
+  frontMatter: ParsedFrontMatter;
+  /** Konten markdown lengkap */
+  markdown: string;
+  /** Callback dengan markdown yang front matter-nya sudah diperbarui */
+  onMarkdownChange?: (markdown: string) => void;
+  /** Theme configuration */
+  theme?: Theme;
 }
 
 /**
@@ -33,6 +76,22 @@ export interface MarkdownComponentsProps {
   isMobile?: boolean;
   /** Apakah dalam mode tablet */
   isTablet?: boolean;
+  /** Callback untuk menulis balik perubahan (mis. checkbox task list) ke markdown */
+  onMarkdownChange?: (markdown: string) => void;
+}
+
+/**
+ * Props untuk CalloutBlock component
+ */
+export interface CalloutBlockProps {
+  /** Jenis callout (note, tip, important, warning, caution) */
+  type: CalloutType;
+  /** Isi blockquote, diawali paragraf judul */
+  children: React.ReactNode;
+  /** Theme configuration */
+  theme?: Theme;
+  /** Baris source block di markdown */
+  sourceLines?: SourceLineAttributes;
 }
 
 /**
@@ -51,6 +110,22 @@ export interface CodeBlockProps {
   isMobile?: boolean;
   /** Apakah dalam mode tablet */
   isTablet?: boolean;
+  /** Baris source block di markdown */
+  sourceLines?: SourceLineAttributes;
+}
+
+/**
+ * Props untuk DiagramBlock component
+ */
+export interface DiagramBlockProps {
+  /** Bahasa fenced block (mermaid, sequence, flow) */
+  language: DiagramLanguage;
+  /** Source diagram */
+  source: string;
+  /** Theme configuration */
+  theme?: Theme;
+  /** Baris source block di markdown */
+  sourceLines?: SourceLineAttributes;
 }
 
 /**
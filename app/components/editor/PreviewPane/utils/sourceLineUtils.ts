@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Utilities untuk menandai block preview dengan baris source markdown-nya
+ * Dipakai oleh scroll sync dan klik preview untuk lompat ke source di editor
+ * @author Axel Modra
+ */
+
+import type { Element, Root, RootContent } from 'hast';
+import {
+  SOURCE_END_ATTRIBUTE,
+  SOURCE_END_LINE_ATTRIBUTE,
+  SOURCE_LINE_ATTRIBUTE,
+  SOURCE_START_ATTRIBUTE,
+} from '@/utils/scrollSyncUtils';
+import type { SourceLineAttributes } from '../types/preview.types';
+
+/**
+ * Element block yang diberi atribut source line; inline element diwakili block induknya
+ */
+const SOURCE_LINE_TAGS = new Set([
+  'p',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'blockquote',
+  'pre',
+  'table',
+  'tr',
+  'th',
+  'td',
+  'ul',
+  'ol',
+  'li',
+  'dl',
+  'dt',
+  'dd',
+  'hr',
+  'div',
+  'section',
+]);
+
+/**
+ * Atribut baris (data-source-line) dan offset (data-source-start) dari posisi node
+ */
+export const getSourceLineProps = (node?: Pick<Element, 'position'>): SourceLineAttributes => {
+  const position = node?.position;
+  if (!position) return {};
+
+  return {
+    [SOURCE_LINE_ATTRIBUTE]: position.start.line,
+    [SOURCE_END_LINE_ATTRIBUTE]: position.end.line,
+    [SOURCE_START_ATTRIBUTE]: position.start.offset,
+    [SOURCE_END_ATTRIBUTE]: position.end.offset,
+  };
+};
+
+const annotateSourceLines = (nodes: RootContent[]): void => {
+  for (const node of nodes) {
+    if (node.type !== 'element') continue;
+
+    if (SOURCE_LINE_TAGS.has(node.tagName) && node.position) {
+      node.properties = {
+        ...node.properties,
+        dataSourceLine: node.position.start.line,
+        dataSourceEndLine: node.position.end.line,
+        dataSourceStart: node.position.start.offset,
+        dataSourceEnd: node.position.end.offset,
+      };
+    }
+    annotateSourceLines(node.children);
+  }
+};
+
+/**
+ * Rehype plugin: tempel baris source pada block yang tidak di-override MarkdownComponents
+ * (paragraf, hr, math display); komponen custom memakai getSourceLineProps
+ */
+export const rehypeSourceLines = () => (tree: Root) => {
+  annotateSourceLines(tree.children);
+};
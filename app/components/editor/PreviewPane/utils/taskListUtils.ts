@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Utilities untuk toggle checkbox task list dari preview ke source markdown
+ * @author Axel Modra
+ */
+
+const TASK_ITEM_PATTERN = /^((?:[-*+]|\d+[.)])[ \t]+)\[([ xX])\]/;
+
+/**
+ * Toggle [ ] / [x] pada list item yang dimulai di offset tertentu
+ *
+ * @param markdown - Source markdown lengkap
+ * @param itemOffset - Offset awal list item (dari position node li)
+ * @param checked - State checkbox yang diinginkan
+ * @returns Markdown baru, atau null jika offset bukan task list item
+ */
+export const setTaskItemChecked = (
+  markdown: string,
+  itemOffset: number,
+  checked: boolean
+): string | null => {
+  const match = TASK_ITEM_PATTERN.exec(markdown.slice(itemOffset));
+  if (!match) return null;
+
+  const markerOffset = itemOffset + match[1].length + 1;
+  return `${markdown.slice(0, markerOffset)}${checked ? 'x' : ' '}${markdown.slice(markerOffset + 1)}`;
+};
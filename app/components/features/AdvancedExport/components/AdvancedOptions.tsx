@@ -1,5 +1,7 @@
+import { X } from 'lucide-react';
 import type React from 'react';
 import { useId } from 'react';
+import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
@@ -16,8 +18,62 @@ export const AdvancedOptions: React.FC<AdvancedOptionsProps> = ({
   // Generate unique IDs for form elements
   const watermarkId = useId();
   const customCSSId = useId();
+  const coverImageId = useId();
+
+  const handleCoverChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file?.type.startsWith('image/')) return;
+
+    const reader = new FileReader();
+    reader.onload = () => onOptionsChange('coverImage', reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
   return (
     <div className="space-y-3 sm:space-y-4">
+      {/* EPUB Cover Image */}
+      {options.format === 'epub' && (
+        <div>
+          <Label
+            htmlFor={coverImageId}
+            className={`${isMobile ? 'text-xs' : 'text-xs sm:text-sm'}`}
+          >
+            Cover Image
+          </Label>
+          {options.coverImage ? (
+            <div className="flex items-center gap-2 mt-1">
+              <img
+                src={options.coverImage}
+                alt="Cover preview"
+                className="h-16 w-auto rounded border object-contain"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onOptionsChange('coverImage', '')}
+                className="h-8 px-2"
+              >
+                <X className="h-3.5 w-3.5 mr-1" />
+                Remove
+              </Button>
+            </div>
+          ) : (
+            <Input
+              id={coverImageId}
+              type="file"
+              accept="image/*"
+              onChange={handleCoverChange}
+              className={`${isMobile ? 'text-xs h-9' : 'text-xs sm:text-sm h-8 sm:h-9'}`}
+            />
+          )}
+          <p className={`text-muted-foreground mt-1 ${isMobile ? 'text-xs' : 'text-xs'}`}>
+            Cover opsional yang ditampilkan sebagai halaman pertama e-book
+          </p>
+        </div>
+      )}
+
       {/* Watermark Settings */}
       <div>
         <Label htmlFor={watermarkId} className={`${isMobile ? 'text-xs' : 'text-xs sm:text-sm'}`}>
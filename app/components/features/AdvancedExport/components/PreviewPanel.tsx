@@ -2,11 +2,14 @@ import { Download, Eye, Loader2, Monitor, Smartphone, Tablet } from 'lucide-reac
 import type React from 'react';
 import { useCallback, useEffect, useMemo, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
-import rehypeHighlight from 'rehype-highlight';
-import remarkGfm from 'remark-gfm';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { generateKey } from '@/utils/common';
+import {
+  MARKDOWN_REHYPE_PLUGINS,
+  MARKDOWN_REMARK_PLUGINS,
+  MARKDOWN_REMARK_REHYPE_OPTIONS,
+} from '@/utils/markdownPlugins';
 import { generateHeaderStyles } from '@/utils/themeUtils';
 import { createMarkdownComponents } from '../../../editor/PreviewPane/components/MarkdownComponents';
 import { useHighlightJs } from '../../../editor/PreviewPane/hooks/useHighlightJs';
@@ -348,9 +351,8 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
             {options.format === 'pdf' &&
               `Print-ready document (${options.fontFamily}, ${options.fontSize}px)`}
             {options.format === 'docx' &&
-              `Rich Text Format (${options.fontFamily}, ${options.fontSize}px)`}
-            {options.format === 'epub' &&
-              `Web Document (${options.fontFamily}, ${options.fontSize}px)`}
+              `Word Document (${options.fontFamily}, ${options.fontSize}px)`}
+            {options.format === 'epub' && `E-book (${options.fontFamily}, ${options.fontSize}px)`}
             {options.format === 'presentation' &&
               `HTML Presentation (${options.fontFamily}, ${options.fontSize}px)`}
           </div>
@@ -579,8 +581,9 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
               }
             >
               <ReactMarkdown
-                remarkPlugins={[remarkGfm]}
-                rehypePlugins={[rehypeHighlight]}
+                remarkPlugins={MARKDOWN_REMARK_PLUGINS}
+                rehypePlugins={MARKDOWN_REHYPE_PLUGINS}
+                remarkRehypeOptions={MARKDOWN_REMARK_REHYPE_OPTIONS}
                 components={markdownComponents}
               >
                 {markdown}
@@ -1,13 +1,41 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { type FrontMatterFields, parseFrontMatter } from '@/utils/frontMatter';
 import type { ExportOptions } from '../types/export.types';
 import { DEFAULT_EXPORT_OPTIONS } from '../utils/constants';
 
-export const useExportOptions = (fileName: string, _currentTheme?: unknown) => {
-  const [options, setOptions] = useState<ExportOptions>({
-    ...DEFAULT_EXPORT_OPTIONS,
-    title: fileName.replace('.md', ''),
-    author: 'Document Author',
-  });
+/**
+ * Field ExportOptions yang diisi dari front matter dokumen
+ */
+const getFrontMatterOptions = (fields: FrontMatterFields): Partial<ExportOptions> => {
+  const updates: Partial<ExportOptions> = {};
+  if (fields.title) updates.title = fields.title;
+  if (fields.author) updates.author = fields.author;
+  if (fields.description) updates.description = fields.description;
+  if (fields.tags) updates.tags = fields.tags;
+  if (fields.date) updates.date = fields.date;
+  return updates;
+};
+
+const createInitialOptions = (fileName: string, fields: FrontMatterFields): ExportOptions => ({
+  ...DEFAULT_EXPORT_OPTIONS,
+  title: fileName.replace('.md', ''),
+  author: 'Document Author',
+  ...getFrontMatterOptions(fields),
+});
+
+export const useExportOptions = (fileName: string, markdown = '', _currentTheme?: unknown) => {
+  const frontMatterFields = useMemo(() => parseFrontMatter(markdown)?.fields ?? {}, [markdown]);
+  const frontMatterKey = JSON.stringify(frontMatterFields);
+
+  const [options, setOptions] = useState<ExportOptions>(() =>
+    createInitialOptions(fileName, frontMatterFields)
+  );
+
+  // Sinkronkan ulang ketika metadata front matter berubah
+  // biome-ignore lint/correctness/useExhaustiveDependencies: frontMatterKey mewakili isi frontMatterFields
+  useEffect(() => {
+    setOptions((prev) => ({ ...prev, ...getFrontMatterOptions(frontMatterFields) }));
+  }, [frontMatterKey]);
 
   /**
    * Update single option
@@ -30,12 +58,8 @@ export const useExportOptions = (fileName: string, _currentTheme?: unknown) => {
    * Reset options ke default
    */
   const resetOptions = useCallback(() => {
-    setOptions({
-      ...DEFAULT_EXPORT_OPTIONS,
-      title: fileName.replace('.md', ''),
-      author: 'Document Author',
-    });
-  }, [fileName]);
+    setOptions(createInitialOptions(fileName, frontMatterFields));
+  }, [fileName, frontMatterFields]);
 
   /**
    * Validate options sebelum export
@@ -4,21 +4,26 @@
  */
 
 import { useCallback, useState } from 'react';
+import { loadMarkdownAttachments } from '@/utils/attachmentUtils';
+import { renderMarkdownDiagrams } from '@/utils/diagramUtils';
 import type { ExportOptions, UseExportReturn } from '../types/export.types';
 import { ERROR_MESSAGES, EXPORT_PROGRESS_STEPS, SUCCESS_MESSAGES } from '../utils/constants';
-import { generateStyledHTML } from '../utils/htmlGenerator';
+import { downloadFile, sanitizeFilename } from '../utils/downloadFile';
 import { convertMarkdownToHTML } from '../utils/markdownConverter';
+import { createPdfDocument } from '../utils/pdfDocument';
 
 /**
- * Custom hook untuk export ke PDF
+ * Custom hook untuk export ke PDF (file .pdf dibuat langsung di browser, tanpa dialog print)
  *
  * @param markdown - Konten markdown
+ * @param fileName - Nama file default
  * @param onSuccess - Callback ketika export berhasil
  * @param onError - Callback ketika export gagal
  * @returns Export state dan functions
  */
 export const useExportToPDF = (
   markdown: string,
+  fileName: string,
   onSuccess?: (message: string) => void,
   onError?: (error: string) => void
 ): UseExportReturn => {
@@ -36,43 +41,23 @@ export const useExportToPDF = (
       setExportProgress(EXPORT_PROGRESS_STEPS.INITIALIZING);
 
       try {
-        // Convert markdown to HTML
-        const { html: htmlContent } = convertMarkdownToHTML(markdown);
+        // Convert markdown to HTML (MathML dirender langsung oleh browser saat layout)
+        const diagrams = await renderMarkdownDiagrams(markdown);
+        const attachments = await loadMarkdownAttachments(markdown);
+        const { html: htmlContent } = convertMarkdownToHTML(markdown, {
+          mathOutput: 'mathml',
+          diagrams,
+          attachments,
+        });
         setExportProgress(EXPORT_PROGRESS_STEPS.PROCESSING);
 
-        // Generate styled HTML
-        const styledHTML = generateStyledHTML({
-          ...options,
-          htmlContent,
-          themeConfig: {
-            name: '',
-            primaryColor: '',
-            backgroundColor: '',
-            accentColor: '',
-          }, // Will be set in generateStyledHTML
-        });
+        // Layout HTML menjadi halaman PDF (header/footer, nomor halaman, outline)
         setExportProgress(EXPORT_PROGRESS_STEPS.GENERATING);
-
-        // Create new window untuk print
-        const printWindow = window.open('', '_blank');
-        if (!printWindow) {
-          throw new Error('Popup blocked. Please allow popups for this site.');
-        }
-
-        setExportProgress(EXPORT_PROGRESS_STEPS.STYLING);
-
-        // Use modern approach instead of deprecated document.write
-        printWindow.document.documentElement.innerHTML = styledHTML;
-
+        const blob = await createPdfDocument(options, htmlContent);
         setExportProgress(EXPORT_PROGRESS_STEPS.FINALIZING);
 
-        // Setup print handler
-        printWindow.onload = () => {
-          setTimeout(() => {
-            printWindow.print();
-            printWindow.close();
-          }, 500);
-        };
+        const safeFileName = sanitizeFilename(options.title || fileName, '.pdf');
+        downloadFile(blob, safeFileName);
 
         setExportProgress(EXPORT_PROGRESS_STEPS.COMPLETE);
         onSuccess?.(SUCCESS_MESSAGES.PDF_EXPORTED);
@@ -87,7 +72,7 @@ export const useExportToPDF = (
         setExportProgress(0);
       }
     },
-    [markdown, onSuccess, onError]
+    [markdown, fileName, onSuccess, onError]
   );
 
   const resetExport = useCallback(() => {
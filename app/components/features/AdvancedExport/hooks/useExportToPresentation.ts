@@ -1,7 +1,24 @@
 import { useCallback, useState } from 'react';
+import { getAttachmentId, loadMarkdownAttachments } from '@/utils/attachmentUtils';
+import { DIAGRAM_EXPORT_STYLES, renderMarkdownDiagrams } from '@/utils/diagramUtils';
+import {
+  KATEX_STYLESHEET_URL,
+  MARKDOWN_EXPORT_STYLES,
+  MATH_EXPORT_STYLES,
+} from '@/utils/markdownPlugins';
+import { getSlideBackground, parseMarkdownToSlides } from '@/utils/slideUtils';
 import type { ExportOptions, SlideData, UseExportReturn } from '../types/export.types';
 import { ERROR_MESSAGES, EXPORT_PROGRESS_STEPS, SUCCESS_MESSAGES } from '../utils/constants';
 import { downloadFile, sanitizeFilename } from '../utils/downloadFile';
+import { convertMarkdownToHTML } from '../utils/markdownConverter';
+
+/**
+ * Slide dengan isi dan catatan yang sudah dirender ke HTML
+ */
+interface RenderedSlide extends SlideData {
+  contentHtml: string;
+  notesHtml: string;
+}
 
 /**
  * Custom hook untuk export ke Presentation
@@ -37,11 +54,28 @@ export const useExportToPresentation = (
         setExportProgress(EXPORT_PROGRESS_STEPS.PROCESSING);
 
         if (slides.length === 0) {
-          throw new Error('No slides found. Make sure your markdown has headings.');
-        }
+          throw new Error(
+            'No slides found. Separate slides with --- or start them with # / ## headings.'
+          );
+        }
+
+        // Render markdown setiap slide (list, code, table, image, math, diagram)
+        const diagrams = await renderMarkdownDiagrams(markdown);
+        const attachments = await loadMarkdownAttachments(markdown);
+        const renderedSlides = slides.map((slide) => ({
+          ...slide,
+          contentHtml: convertMarkdownToHTML(slide.content, { diagrams, attachments }).html,
+          notesHtml: convertMarkdownToHTML(slide.notes, { attachments }).html,
+          background:
+            slide.background &&
+            getSlideBackground(slide.background, (url) => {
+              const id = getAttachmentId(url);
+              return (id && attachments.get(id)) || url;
+            }),
+        }));
 
         // Generate presentation HTML
-        const presentationHTML = generatePresentationHTML(options, slides);
+        const presentationHTML = generatePresentationHTML(options, renderedSlides);
         setExportProgress(EXPORT_PROGRESS_STEPS.GENERATING);
 
         // Create blob dan download
@@ -80,61 +114,28 @@ export const useExportToPresentation = (
   };
 };
 
-/**
- * Parse markdown menjadi slides berdasarkan headings
- */
-const parseMarkdownToSlides = (markdown: string): SlideData[] => {
-  const slides: SlideData[] = [];
-  const lines = markdown.split('\n');
-  let currentSlide: SlideData = { title: '', content: [] };
-
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-
-    // Heading level 1 atau 2 membuat slide baru
-    if (trimmedLine.startsWith('# ') || trimmedLine.startsWith('## ')) {
-      // Simpan slide sebelumnya jika ada
-      if (currentSlide.title) {
-        slides.push(currentSlide);
-      }
-
-      // Mulai slide baru
-      currentSlide = {
-        title: trimmedLine.replace(/^#+\s/, ''),
-        content: [],
-      };
-    } else if (trimmedLine) {
-      // Tambahkan konten ke slide saat ini
-      currentSlide.content.push(trimmedLine);
-    }
-  }
-
-  // Tambahkan slide terakhir
-  if (currentSlide.title) {
-    slides.push(currentSlide);
-  }
-
-  return slides;
-};
-
 /**
  * Generate HTML presentation
  */
-const generatePresentationHTML = (options: ExportOptions, slides: SlideData[]): string => {
+const generatePresentationHTML = (options: ExportOptions, slides: RenderedSlide[]): string => {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>${escapeHtml(options.title)} - Presentation</title>
+    <link rel="stylesheet" href="${KATEX_STYLESHEET_URL}">
     <style>
         ${generatePresentationStyles(options)}
+        ${MARKDOWN_EXPORT_STYLES}
+        ${MATH_EXPORT_STYLES}
+        ${DIAGRAM_EXPORT_STYLES}
     </style>
 </head>
 <body>
     <div class="presentation">
         <div class="slide-counter">
-            <span id="current-slide">1</span> / <span id="total-slides">${slides.length}</span>
+            <span id="current-slide">1</span> / <span id="total-slides">${slides.length + 1}</span>
         </div>
 
         ${generateTitleSlide(options)}
@@ -142,6 +143,8 @@ const generatePresentationHTML = (options: ExportOptions, slides: SlideData[]):
 
         <div class="navigation">
             <button class="nav-btn" onclick="previousSlide()">Previous</button>
+            <button class="nav-btn" onclick="toggleOverview()">Overview</button>
+            <button class="nav-btn" onclick="openPresenterView()">Presenter</button>
             <button class="nav-btn" onclick="toggleFullscreen()">Fullscreen</button>
             <button class="nav-btn" onclick="nextSlide()">Next</button>
         </div>
@@ -184,12 +187,14 @@ const generatePresentationStyles = (options: ExportOptions): string => {
         .slide {
             display: none;
             flex: 1;
+            min-height: 0;
             padding: 60px;
             text-align: center;
-            justify-content: center;
+            justify-content: safe center;
             align-items: center;
             flex-direction: column;
             position: relative;
+            overflow: hidden;
         }
 
         .slide.active {
@@ -214,6 +219,8 @@ const generatePresentationStyles = (options: ExportOptions): string => {
             font-size: 1.5em;
             line-height: 1.6;
             max-width: 900px;
+            max-height: 100%;
+            overflow-y: auto;
             text-align: left;
         }
 
@@ -246,6 +253,204 @@ const generatePresentationStyles = (options: ExportOptions): string => {
             opacity: 0.9;
         }
 
+        .slide-content h1, .slide-content h2, .slide-content h3,
+        .slide-content h4, .slide-content h5, .slide-content h6 {
+            font-size: 1.2em;
+            margin: 0.8em 0 0.4em;
+            text-shadow: none;
+        }
+
+        .slide-content li > ul, .slide-content li > ol {
+            margin: 0.25em 0;
+        }
+
+        .slide-content a {
+            color: inherit;
+            text-decoration: underline;
+        }
+
+        .slide-content pre {
+            background: rgba(0,0,0,0.35);
+            padding: 1em;
+            border-radius: 8px;
+            margin: 1em 0;
+            overflow-x: auto;
+            font-size: 0.75em;
+        }
+
+        .slide-content pre code {
+            background: none;
+            padding: 0;
+        }
+
+        .slide-content table {
+            border-collapse: collapse;
+            margin: 1em auto;
+            font-size: 0.85em;
+        }
+
+        .slide-content th, .slide-content td {
+            border: 1px solid rgba(255,255,255,0.4);
+            padding: 0.4em 0.8em;
+        }
+
+        .slide-content th {
+            background: rgba(255,255,255,0.15);
+        }
+
+        .slide-content img, .slide-content svg {
+            max-width: 100%;
+            max-height: 60vh;
+        }
+
+        .notes {
+            display: none;
+        }
+
+        /* Layout dari directive <!-- layout: ... --> */
+        .layout-center .slide-content {
+            text-align: center;
+        }
+
+        .layout-center .slide-content ul, .layout-center .slide-content ol {
+            display: inline-block;
+            text-align: left;
+        }
+
+        .layout-section .slide-title {
+            font-size: 3.5em;
+        }
+
+        .layout-section .slide-content {
+            text-align: center;
+            opacity: 0.85;
+        }
+
+        .layout-two-column .slide-content {
+            width: 100%;
+            max-width: 1200px;
+            columns: 2;
+            column-gap: 3em;
+        }
+
+        .layout-two-column .slide-content > * {
+            break-inside: avoid;
+        }
+
+        /* Overview: semua slide sebagai thumbnail */
+        body.overview .presentation {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(260px, 1fr));
+            align-content: start;
+            gap: 24px;
+            padding: 30px;
+            overflow-y: auto;
+        }
+
+        body.overview .slide {
+            display: flex;
+            aspect-ratio: 16 / 9;
+            padding: 12px;
+            font-size: 4px;
+            border-radius: 8px;
+            background-color: rgba(0,0,0,0.2);
+            outline: 2px solid rgba(255,255,255,0.2);
+            cursor: pointer;
+        }
+
+        body.overview .slide.active {
+            outline: 4px solid #ffffff;
+        }
+
+        body.overview .navigation, body.overview .slide-counter, body.overview .progress-bar {
+            display: none;
+        }
+
+        /* Presenter view (window terpisah) */
+        body.presenter {
+            background: #111827;
+        }
+
+        .presenter-view {
+            display: grid;
+            grid-template-columns: 3fr 2fr;
+            gap: 24px;
+            height: 100vh;
+            padding: 24px;
+        }
+
+        .presenter-main, .presenter-side {
+            display: flex;
+            flex-direction: column;
+            gap: 12px;
+            min-height: 0;
+        }
+
+        .presenter-label {
+            font-size: 0.8em;
+            letter-spacing: 0.08em;
+            text-transform: uppercase;
+            opacity: 0.6;
+        }
+
+        .presenter-frame {
+            position: relative;
+            aspect-ratio: 16 / 9;
+            overflow: hidden;
+            border-radius: 8px;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+        }
+
+        .presenter-frame .slide {
+            display: flex;
+            position: absolute;
+            inset: 0;
+            padding: 4%;
+        }
+
+        .presenter-end {
+            display: flex;
+            height: 100%;
+            align-items: center;
+            justify-content: center;
+            opacity: 0.7;
+        }
+
+        .presenter-status {
+            display: flex;
+            align-items: center;
+            gap: 16px;
+            font-size: 1.4em;
+            font-variant-numeric: tabular-nums;
+        }
+
+        .presenter-status .nav-btn {
+            font-size: 0.6em;
+            padding: 8px 16px;
+        }
+
+        .presenter-notes {
+            flex: 1;
+            overflow-y: auto;
+            padding: 16px;
+            border-radius: 8px;
+            background: rgba(255,255,255,0.06);
+            font-size: 1.2em;
+            line-height: 1.5;
+        }
+
+        .presenter-notes p, .presenter-notes ul, .presenter-notes ol {
+            margin: 0.5em 0;
+        }
+
+        .presenter-notes ul, .presenter-notes ol {
+            padding-left: 1.5em;
+        }
+
+        .presenter-empty {
+            opacity: 0.5;
+        }
+
         .title-slide {
             background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
         }
@@ -387,52 +592,43 @@ const generateTitleSlide = (options: ExportOptions): string => {
 /**
  * Generate single slide HTML
  */
-const generateSlideHTML = (slide: SlideData): string => {
-  const processedContent = slide.content
-    .map((line) => {
-      // Process basic markdown dalam content
-      let processed = line;
-
-      // Bold
-      processed = processed.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-
-      // Italic
-      processed = processed.replace(/\*(.*?)\*/g, '<em>$1</em>');
-
-      // Code
-      processed = processed.replace(/`(.*?)`/g, '<code>$1</code>');
-
-      // Lists
-      if (line.startsWith('* ') || line.startsWith('- ')) {
-        return `<li>${processed.substring(2)}</li>`;
-      }
-
-      if (/^\d+\.\s/.test(line)) {
-        const match = line.match(/^\d+\.\s(.*)$/);
-        if (match) {
-          return `<li>${processed.replace(/^\d+\.\s/, '')}</li>`;
-        }
-      }
-
-      // Blockquotes
-      if (line.startsWith('> ')) {
-        return `<blockquote>${processed.substring(2)}</blockquote>`;
-      }
-
-      return `<p>${processed}</p>`;
-    })
-    .join('');
+const generateSlideHTML = (slide: RenderedSlide): string => {
+  const background = slide.background
+    ? ` style="background: ${escapeHtml(slide.background).replace(/"/g, '&quot;')};"`
+    : '';
 
   return `
-    <div class="slide">
-        <h2>${escapeHtml(slide.title)}</h2>
-        <div class="slide-content">
-            ${processedContent}
-        </div>
+    <div class="slide layout-${slide.layout}"${background}>
+        ${slide.title ? `<h2 class="slide-title">${escapeHtml(slide.title)}</h2>` : ''}
+        ${slide.contentHtml ? `<div class="slide-content">${slide.contentHtml}</div>` : ''}
+        ${slide.notesHtml ? `<aside class="notes">${slide.notesHtml}</aside>` : ''}
     </div>
   `;
 };
 
+/**
+ * Markup presenter view; diisi dan dikendalikan oleh script window presentasi
+ */
+const PRESENTER_VIEW_HTML = `
+    <div class="presenter-view">
+        <div class="presenter-main">
+            <div class="presenter-label">Current slide</div>
+            <div class="presenter-frame" id="presenter-current"></div>
+            <div class="presenter-status">
+                <span id="presenter-elapsed">00:00</span>
+                <button class="nav-btn" id="presenter-reset">Reset timer</button>
+                <span id="presenter-counter"></span>
+                <span id="presenter-clock"></span>
+            </div>
+        </div>
+        <div class="presenter-side">
+            <div class="presenter-label">Next slide</div>
+            <div class="presenter-frame" id="presenter-next"></div>
+            <div class="presenter-label">Notes</div>
+            <div class="presenter-notes" id="presenter-notes"></div>
+        </div>
+    </div>`;
+
 /**
  * Generate presentation JavaScript
  */
@@ -441,6 +637,11 @@ const generatePresentationScript = (totalSlides: number): string => {
         let currentSlide = 0;
         const slides = document.querySelectorAll('.slide');
         const totalSlidesCount = ${totalSlides};
+        const presenterViewHTML = ${JSON.stringify(PRESENTER_VIEW_HTML)};
+        let isOverview = false;
+        let presenterWindow = null;
+        let presenterStartedAt = 0;
+        let presenterTimer = null;
 
         function showSlide(n) {
             slides[currentSlide].classList.remove('active');
@@ -448,6 +649,10 @@ const generatePresentationScript = (totalSlides: number): string => {
             slides[currentSlide].classList.add('active');
             document.getElementById('current-slide').textContent = currentSlide + 1;
             updateProgressBar();
+            if (isOverview) {
+                slides[currentSlide].scrollIntoView({ block: 'nearest' });
+            }
+            updatePresenterView();
         }
 
         function nextSlide() {
@@ -477,16 +682,144 @@ const generatePresentationScript = (totalSlides: number): string => {
             progressBar.style.width = progress + '%';
         }
 
-        // Keyboard navigation
-        document.addEventListener('keydown', function(e) {
+        // Overview mode: semua slide sebagai grid thumbnail
+        function toggleOverview(force) {
+            isOverview = typeof force === 'boolean' ? force : !isOverview;
+            document.body.classList.toggle('overview', isOverview);
+            if (isOverview) {
+                slides[currentSlide].scrollIntoView({ block: 'nearest' });
+            }
+        }
+
+        function getOverviewColumns() {
+            const columns = getComputedStyle(document.querySelector('.presentation')).gridTemplateColumns;
+            return Math.max(1, columns.split(' ').length);
+        }
+
+        slides.forEach(function(slide, index) {
+            slide.addEventListener('click', function() {
+                if (!isOverview) return;
+                showSlide(index);
+                toggleOverview(false);
+            });
+        });
+
+        // Presenter view: slide saat ini, slide berikutnya, catatan dan timer di window terpisah
+        function formatElapsed(milliseconds) {
+            const seconds = Math.floor(milliseconds / 1000);
+            return String(Math.floor(seconds / 60)).padStart(2, '0') + ':' + String(seconds % 60).padStart(2, '0');
+        }
+
+        function updatePresenterTimer() {
+            if (!presenterWindow || presenterWindow.closed) {
+                clearInterval(presenterTimer);
+                presenterTimer = null;
+                return;
+            }
+            const presenterDocument = presenterWindow.document;
+            presenterDocument.getElementById('presenter-elapsed').textContent = formatElapsed(Date.now() - presenterStartedAt);
+            presenterDocument.getElementById('presenter-clock').textContent = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        }
+
+        function renderPreview(frame, slide) {
+            frame.innerHTML = '';
+            if (!slide) {
+                const end = frame.ownerDocument.createElement('div');
+                end.className = 'presenter-end';
+                end.textContent = 'End of presentation';
+                frame.appendChild(end);
+                return;
+            }
+            const preview = frame.ownerDocument.importNode(slide, true);
+            preview.classList.add('active');
+            // Skala font mengikuti perbandingan lebar preview dengan layar presentasi
+            preview.style.fontSize = (frame.clientWidth / window.innerWidth) * 16 + 'px';
+            frame.appendChild(preview);
+        }
+
+        function updatePresenterView() {
+            if (!presenterWindow || presenterWindow.closed) return;
+            const presenterDocument = presenterWindow.document;
+            const notes = slides[currentSlide].querySelector('.notes');
+            renderPreview(presenterDocument.getElementById('presenter-current'), slides[currentSlide]);
+            renderPreview(presenterDocument.getElementById('presenter-next'), slides[currentSlide + 1]);
+            presenterDocument.getElementById('presenter-counter').textContent = (currentSlide + 1) + ' / ' + totalSlidesCount;
+            presenterDocument.getElementById('presenter-notes').innerHTML = notes
+                ? notes.innerHTML
+                : '<p class="presenter-empty">No speaker notes for this slide.</p>';
+        }
+
+        function openPresenterView() {
+            if (presenterWindow && !presenterWindow.closed) {
+                presenterWindow.focus();
+                return;
+            }
+            presenterWindow = window.open('', 'presenter-view', 'width=1200,height=720');
+            if (!presenterWindow) {
+                alert('Popup blocked. Please allow popups to open the presenter view.');
+                return;
+            }
+
+            const presenterDocument = presenterWindow.document;
+            presenterDocument.head.innerHTML = document.head.innerHTML;
+            presenterDocument.title = document.title + ' - Presenter View';
+            presenterDocument.body.className = 'presenter';
+            presenterDocument.body.innerHTML = presenterViewHTML;
+            presenterDocument.addEventListener('keydown', handleKeydown);
+            presenterDocument.getElementById('presenter-reset').addEventListener('click', function() {
+                presenterStartedAt = Date.now();
+                updatePresenterTimer();
+            });
+            presenterWindow.addEventListener('resize', updatePresenterView);
+
+            presenterStartedAt = Date.now();
+            clearInterval(presenterTimer);
+            presenterTimer = setInterval(updatePresenterTimer, 1000);
+            updatePresenterTimer();
+            updatePresenterView();
+        }
+
+        // Keyboard navigation (juga dipakai oleh presenter view)
+        function handleKeydown(e) {
+            if (isOverview) {
+                switch(e.key) {
+                    case 'ArrowRight':
+                        e.preventDefault();
+                        showSlide(Math.min(currentSlide + 1, totalSlidesCount - 1));
+                        break;
+                    case 'ArrowLeft':
+                        e.preventDefault();
+                        showSlide(Math.max(currentSlide - 1, 0));
+                        break;
+                    case 'ArrowDown':
+                        e.preventDefault();
+                        showSlide(Math.min(currentSlide + getOverviewColumns(), totalSlidesCount - 1));
+                        break;
+                    case 'ArrowUp':
+                        e.preventDefault();
+                        showSlide(Math.max(currentSlide - getOverviewColumns(), 0));
+                        break;
+                    case 'Enter':
+                    case 'Escape':
+                    case 'o':
+                    case 'O':
+                        e.preventDefault();
+                        toggleOverview(false);
+                        break;
+                }
+                return;
+            }
+
             switch(e.key) {
                 case 'ArrowRight':
+                case 'ArrowDown':
                 case ' ':
                 case 'PageDown':
                     e.preventDefault();
                     nextSlide();
                     break;
                 case 'ArrowLeft':
+                case 'ArrowUp':
                 case 'PageUp':
                     e.preventDefault();
                     previousSlide();
@@ -503,8 +836,20 @@ const generatePresentationScript = (totalSlides: number): string => {
                     e.preventDefault();
                     toggleFullscreen();
                     break;
+                case 'o':
+                case 'O':
+                case 'Escape':
+                    toggleOverview(true);
+                    break;
+                case 'p':
+                case 'P':
+                    e.preventDefault();
+                    openPresenterView();
+                    break;
             }
-        });
+        }
+
+        document.addEventListener('keydown', handleKeydown);
 
         // Touch/swipe support
         let startX = 0;
@@ -530,6 +875,12 @@ const generatePresentationScript = (totalSlides: number): string => {
             }
         });
 
+        window.addEventListener('beforeunload', function() {
+            if (presenterWindow && !presenterWindow.closed) {
+                presenterWindow.close();
+            }
+        });
+
         // Initialize
         updateProgressBar();
     `;
@@ -38,8 +38,10 @@ export const AdvancedExport: React.FC<AdvancedExportProps> = ({
 
   const [previewMode, setPreviewMode] = useState<PreviewMode>('desktop');
 
-  const { options, updateOption, validateOptions, getValidatedOptions } =
-    useExportOptions(fileName);
+  const { options, updateOption, validateOptions, getValidatedOptions } = useExportOptions(
+    fileName,
+    markdown
+  );
 
   const handleExportSuccess = (message: string) => {
     toast({
@@ -56,7 +58,7 @@ export const AdvancedExport: React.FC<AdvancedExportProps> = ({
     });
   };
 
-  const pdfExport = useExportToPDF(markdown, handleExportSuccess, handleExportError);
+  const pdfExport = useExportToPDF(markdown, fileName, handleExportSuccess, handleExportError);
   const docxExport = useExportToDocx(markdown, fileName, handleExportSuccess, handleExportError);
   const epubExport = useExportToEpub(markdown, fileName, handleExportSuccess, handleExportError);
   const presentationExport = useExportToPresentation(
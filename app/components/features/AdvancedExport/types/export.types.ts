@@ -66,6 +66,10 @@ export interface ExportOptions {
   author: string;
   /** Deskripsi dokumen */
   description: string;
+  /** Tags/keywords dokumen (dari front matter) */
+  tags: string[];
+  /** Tanggal dokumen (dari front matter) */
+  date: string;
   /** Apakah menyertakan table of contents */
   includeTableOfContents: boolean;
   /** Apakah menyertakan nomor halaman */
@@ -86,6 +90,8 @@ export interface ExportOptions {
   watermark: string;
   /** Custom CSS tambahan */
   customCSS: string;
+  /** Cover image EPUB sebagai data URL (kosong jika tanpa cover) */
+  coverImage: string;
 }
 
 /**
@@ -129,12 +135,7 @@ export interface ExportState {
 /**
  * Data slide untuk presentation export
  */
-export interface SlideData {
-  /** Judul slide */
-  title: string;
-  /** Konten slide */
-  content: string[];
-}
+export type { SlideData } from '@/utils/slideUtils';
 
 /**
  * Hook return type untuk export functionality
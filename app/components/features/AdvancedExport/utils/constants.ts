@@ -14,6 +14,8 @@ export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
   title: '',
   author: '',
   description: '',
+  tags: [],
+  date: '',
   includeTableOfContents: true,
   includePageNumbers: true,
   pageSize: 'A4',
@@ -24,6 +26,7 @@ export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
   headerFooter: true,
   watermark: '',
   customCSS: '',
+  coverImage: '',
 };
 
 /**
@@ -70,7 +73,7 @@ export const EXPORT_FORMATS: ExportFormatOption[] = [
     value: 'pdf',
     icon: FileText,
     label: 'PDF',
-    desc: 'Print to PDF',
+    desc: 'PDF Document',
   },
   {
     value: 'docx',
@@ -81,8 +84,8 @@ export const EXPORT_FORMATS: ExportFormatOption[] = [
   {
     value: 'epub',
     icon: BookOpen,
-    label: 'HTML',
-    desc: 'Web Document',
+    label: 'EPUB',
+    desc: 'E-book',
   },
   {
     value: 'presentation',
@@ -220,8 +223,8 @@ export const ERROR_MESSAGES = {
  * Success messages
  */
 export const SUCCESS_MESSAGES = {
-  PDF_EXPORTED: 'PDF export berhasil dimulai. Pilih "Save as PDF" di dialog print.',
-  RTF_EXPORTED: 'Dokumen berhasil di-export sebagai DOCX (dapat dibuka di Word).',
-  HTML_EXPORTED: 'Dokumen berhasil di-export sebagai HTML (format e-book).',
+  PDF_EXPORTED: 'Dokumen berhasil di-export sebagai PDF.',
+  DOCX_EXPORTED: 'Dokumen berhasil di-export sebagai DOCX.',
+  EPUB_EXPORTED: 'Dokumen berhasil di-export sebagai e-book EPUB.',
   PRESENTATION_EXPORTED: 'Dokumen berhasil di-export sebagai HTML presentation.',
 } as const;
@@ -0,0 +1,913 @@
+/**
+ * @fileoverview Pembuat package DOCX (Office Open XML) dari HTML hasil convertMarkdownToHTML
+ * @author Axel Modra
+ */
+
+import type { ExportOptions, PageSize } from '../types/export.types';
+import { getImageExtension, type LoadedImage, loadImage } from './imageLoader';
+import { convertMathMLToOmml, OMML_NAMESPACE } from './mathmlToOmml';
+import { createZipArchive } from './zipArchive';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const NAMESPACES = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+  m: OMML_NAMESPACE,
+};
+
+const RELATIONSHIP_TYPES = {
+  officeDocument:
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  coreProperties:
+    'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+  footnotes: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes',
+  settings: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings',
+  hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+};
+
+/**
+ * Ukuran halaman dalam twip (1/20 pt)
+ */
+const PAGE_SIZES_TWIPS: Record<PageSize, { width: number; height: number }> = {
+  A4: { width: 11906, height: 16838 },
+  Letter: { width: 12240, height: 15840 },
+  Legal: { width: 12240, height: 20160 },
+};
+
+/** Margin halaman 25mm */
+const PAGE_MARGIN_TWIPS = 1417;
+const LIST_INDENT_TWIPS = 720;
+const EMU_PER_TWIP = 635;
+const EMU_PER_PIXEL = 9525;
+const PT_PER_PX = 0.75;
+
+/** Ukuran heading relatif terhadap ukuran font body */
+const HEADING_SCALES = [2, 1.6, 1.35, 1.15, 1.05, 1];
+const BULLET_CHARACTERS = ['•', '◦', '▪'];
+const ORDERED_FORMATS = ['decimal', 'lowerLetter', 'lowerRoman'];
+const CODE_FONT = 'Courier New';
+
+/** Format image yang bisa ditampilkan Word; format lain dikonversi ke PNG */
+const WORD_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/bmp']);
+
+const BLOCK_TAGS = new Set([
+  'article',
+  'aside',
+  'blockquote',
+  'dd',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'summary',
+  'table',
+  'ul',
+]);
+
+/**
+ * Format karakter yang diwariskan ke run di dalam elemen inline
+ */
+interface RunProps {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  underline?: boolean;
+  code?: boolean;
+  hyperlink?: boolean;
+  highlight?: boolean;
+  superscript?: boolean;
+  subscript?: boolean;
+  font?: string;
+  color?: string;
+}
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  external?: boolean;
+}
+
+interface DocxImage {
+  fileName: string;
+  mediaType: string;
+  data: Uint8Array;
+  widthEmu: number;
+  heightEmu: number;
+}
+
+/**
+ * Part yang punya relationship sendiri (document.xml, footnotes.xml)
+ */
+interface DocxPart {
+  relationships: Relationship[];
+  imageIds: Map<DocxImage, string>;
+}
+
+interface DocxHeading {
+  level: number;
+  text: string;
+  bookmarkId: number;
+  bookmarkName: string;
+}
+
+interface ListNumbering {
+  ordered: boolean;
+  start: number;
+  level: number;
+}
+
+interface ConversionContext {
+  part: DocxPart;
+  images: Map<Element, DocxImage>;
+  headings: Map<Element, DocxHeading>;
+  /** li footnote berdasarkan id, dikonversi saat pertama kali direferensikan */
+  footnoteSources: Map<string, Element>;
+  footnoteIds: Map<string, number>;
+  footnotes: string[];
+  footnotePart: DocxPart;
+  /** Instance numbering; index + 1 adalah numId */
+  numbering: ListNumbering[];
+  counters: { drawing: number };
+  contentWidth: number;
+  /** Style, indentasi dan alignment default untuk paragraph di blok saat ini */
+  paragraphStyle?: string;
+  indent?: number;
+  align?: string;
+}
+
+interface ParagraphProps {
+  style?: string;
+  numbering?: { numId: number; level: number };
+  indent?: number;
+  align?: string;
+  border?: boolean;
+}
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Ukuran font px dari ExportOptions dalam half-point (satuan w:sz)
+ */
+const toHalfPoints = (px: number): number => Math.round(px * PT_PER_PX * 2);
+
+const createPart = (relationships: Relationship[] = []): DocxPart => ({
+  relationships,
+  imageIds: new Map(),
+});
+
+const addRelationship = (part: DocxPart, type: string, target: string, external = false) => {
+  const id = `rId${part.relationships.length + 1}`;
+  part.relationships.push({ id, type, target, external });
+  return id;
+};
+
+const hasContent = (node: Node): boolean => node instanceof Element || !!node.textContent?.trim();
+
+const isDisplayMath = (element: Element): boolean =>
+  element.classList.contains('katex') && !!element.querySelector('math[display="block"]');
+
+const generateRunProperties = (props: RunProps): string => {
+  const style = props.code ? 'CodeChar' : props.hyperlink ? 'Hyperlink' : undefined;
+  const properties = [
+    style && `<w:rStyle w:val="${style}"/>`,
+    props.font &&
+      `<w:rFonts w:ascii="${props.font}" w:hAnsi="${props.font}" w:cs="${props.font}"/>`,
+    props.bold && '<w:b/>',
+    props.italic && '<w:i/>',
+    props.strike && '<w:strike/>',
+    props.color && `<w:color w:val="${props.color}"/>`,
+    props.highlight && '<w:highlight w:val="yellow"/>',
+    props.underline && '<w:u w:val="single"/>',
+    props.superscript && '<w:vertAlign w:val="superscript"/>',
+    props.subscript && '<w:vertAlign w:val="subscript"/>',
+  ].filter(Boolean);
+  return properties.length > 0 ? `<w:rPr>${properties.join('')}</w:rPr>` : '';
+};
+
+const createTextRun = (text: string, props: RunProps): string =>
+  `<w:r>${generateRunProperties(props)}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const createImageRun = (image: DocxImage, alt: string, ctx: ConversionContext): string => {
+  let relationshipId = ctx.part.imageIds.get(image);
+  if (!relationshipId) {
+    relationshipId = addRelationship(ctx.part, RELATIONSHIP_TYPES.image, `media/${image.fileName}`);
+    ctx.part.imageIds.set(image, relationshipId);
+  }
+
+  const id = ++ctx.counters.drawing;
+  const extent = `cx="${image.widthEmu}" cy="${image.heightEmu}"`;
+
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent ${extent}/><wp:docPr id="${id}" name="Picture ${id}" descr="${escapeXml(alt)}"/><wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr><a:graphic><a:graphicData uri="${NAMESPACES.pic}"><pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${image.fileName}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext ${extent}/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+};
+
+/**
+ * Referensi footnote; isi footnote dikonversi saat pertama kali direferensikan
+ */
+const createFootnoteReference = (sourceId: string, ctx: ConversionContext): string => {
+  let id = ctx.footnoteIds.get(sourceId);
+  if (id === undefined) {
+    const source = ctx.footnoteSources.get(sourceId);
+    if (!source) return '';
+
+    id = ctx.footnoteIds.size + 1;
+    ctx.footnoteIds.set(sourceId, id);
+
+    const footnoteContext: ConversionContext = {
+      ...ctx,
+      part: ctx.footnotePart,
+      paragraphStyle: 'FootnoteText',
+      indent: undefined,
+      align: undefined,
+    };
+    const content = convertBlocks(Array.from(source.childNodes), footnoteContext);
+    const reference =
+      '<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r><w:r><w:t xml:space="preserve"> </w:t></w:r>';
+    const paragraphs = content.includes('</w:pPr>')
+      ? content.replace('</w:pPr>', `</w:pPr>${reference}`)
+      : createParagraph(reference, footnoteContext) + content;
+
+    ctx.footnotes.push(`<w:footnote w:id="${id}">${paragraphs}</w:footnote>`);
+  }
+
+  return `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${id}"/></w:r>`;
+};
+
+const convertLink = (link: Element, props: RunProps, ctx: ConversionContext): string => {
+  const href = link.getAttribute('href') ?? '';
+
+  if (link.hasAttribute('data-footnote-ref')) {
+    return createFootnoteReference(decodeURIComponent(href.slice(1)), ctx);
+  }
+  if (link.hasAttribute('data-footnote-backref')) return '';
+
+  const runs = convertInlineNodes(Array.from(link.childNodes), { ...props, hyperlink: true }, ctx);
+  if (!/^(https?:|mailto:)/i.test(href)) return runs;
+
+  const relationshipId = addRelationship(ctx.part, RELATIONSHIP_TYPES.hyperlink, href, true);
+  return `<w:hyperlink r:id="${relationshipId}" w:history="1">${runs}</w:hyperlink>`;
+};
+
+const convertInline = (node: Node, props: RunProps, ctx: ConversionContext): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent ?? '').replace(/\s+/g, ' ');
+    return text ? createTextRun(text, props) : '';
+  }
+  if (!(node instanceof Element)) return '';
+
+  const children = Array.from(node.childNodes);
+  switch (node.localName) {
+    case 'strong':
+    case 'b':
+      return convertInlineNodes(children, { ...props, bold: true }, ctx);
+    case 'em':
+    case 'i':
+      return convertInlineNodes(children, { ...props, italic: true }, ctx);
+    case 'del':
+    case 's':
+      return convertInlineNodes(children, { ...props, strike: true }, ctx);
+    case 'u':
+    case 'ins':
+      return convertInlineNodes(children, { ...props, underline: true }, ctx);
+    case 'mark':
+      return convertInlineNodes(children, { ...props, highlight: true }, ctx);
+    case 'sup':
+      return convertInlineNodes(children, { ...props, superscript: true }, ctx);
+    case 'sub':
+      return convertInlineNodes(children, { ...props, subscript: true }, ctx);
+    case 'code':
+    case 'kbd':
+      return convertInlineNodes(children, { ...props, code: true }, ctx);
+    case 'a':
+      return convertLink(node, props, ctx);
+    case 'br':
+      return '<w:r><w:br/></w:r>';
+    case 'input':
+      return node.getAttribute('type') === 'checkbox'
+        ? createTextRun(node.hasAttribute('checked') ? '☒' : '☐', props)
+        : '';
+    case 'img': {
+      const image = ctx.images.get(node);
+      const alt = node.getAttribute('alt') ?? '';
+      return image
+        ? createImageRun(image, alt, ctx)
+        : createTextRun(`[${alt || 'Image'}]`, { ...props, italic: true });
+    }
+    case 'math':
+      // Word tidak membaca MathML di DOCX, jadi math ditulis sebagai equation OMML
+      return convertMathMLToOmml(node);
+    case 'svg':
+      return '';
+    default:
+      if (node.classList.contains('katex-error')) {
+        const message = node.getAttribute('title');
+        return createTextRun(`${node.textContent ?? ''}${message ? ` (${message})` : ''}`, {
+          ...props,
+          code: true,
+          color: 'DC2626',
+        });
+      }
+      return convertInlineNodes(children, props, ctx);
+  }
+};
+
+const convertInlineNodes = (nodes: Node[], props: RunProps, ctx: ConversionContext): string =>
+  nodes.map((node) => convertInline(node, props, ctx)).join('');
+
+const createParagraph = (
+  runs: string,
+  ctx: ConversionContext,
+  props: ParagraphProps = {}
+): string => {
+  const style = props.style ?? ctx.paragraphStyle;
+  const indent = props.indent ?? (props.numbering ? undefined : ctx.indent);
+  const align = props.align ?? ctx.align;
+
+  const properties = [
+    style && `<w:pStyle w:val="${style}"/>`,
+    props.numbering &&
+      `<w:numPr><w:ilvl w:val="${props.numbering.level}"/><w:numId w:val="${props.numbering.numId}"/></w:numPr>`,
+    props.border &&
+      '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="BFBFBF"/></w:pBdr>',
+    indent && `<w:ind w:left="${indent}"/>`,
+    align && `<w:jc w:val="${align}"/>`,
+  ].filter(Boolean);
+
+  return `<w:p>${properties.length > 0 ? `<w:pPr>${properties.join('')}</w:pPr>` : ''}${runs}</w:p>`;
+};
+
+/**
+ * Alignment CSS (text-align) sebagai nilai w:jc
+ */
+const getAlignment = (element: Element): string | undefined => {
+  const align = element instanceof HTMLElement ? element.style.textAlign : '';
+  if (align === 'center') return 'center';
+  if (align === 'right') return 'right';
+  if (align === 'justify') return 'both';
+  return undefined;
+};
+
+const convertHeading = (heading: Element, props: RunProps, ctx: ConversionContext): string => {
+  const level = Number(heading.localName[1]);
+  const runs = convertInlineNodes(Array.from(heading.childNodes), props, ctx);
+  const bookmark = ctx.headings.get(heading);
+
+  const content = bookmark
+    ? `<w:bookmarkStart w:id="${bookmark.bookmarkId}" w:name="${bookmark.bookmarkName}"/>${runs}<w:bookmarkEnd w:id="${bookmark.bookmarkId}"/>`
+    : runs;
+  return createParagraph(content, ctx, { style: `Heading${level}` });
+};
+
+const convertCodeBlock = (pre: Element, ctx: ConversionContext): string => {
+  const code = (pre.textContent ?? '').replace(/\n$/, '').replace(/\t/g, '    ');
+  const runs = code
+    .split('\n')
+    .map(
+      (line, index) =>
+        `${index > 0 ? '<w:r><w:br/></w:r>' : ''}${line ? createTextRun(line, {}) : ''}`
+    )
+    .join('');
+  return createParagraph(runs, ctx, { style: 'Code', indent: ctx.indent });
+};
+
+/**
+ * List (ul/ol); setiap list punya instance numbering sendiri agar nomor dimulai ulang
+ */
+const convertList = (list: Element, ctx: ConversionContext, level: number): string => {
+  const ordered = list.localName === 'ol';
+  ctx.numbering.push({ ordered, start: Number(list.getAttribute('start')) || 1, level });
+  const numId = ctx.numbering.length;
+
+  return Array.from(list.children)
+    .filter((item) => item.localName === 'li')
+    .map((item) => convertListItem(item, numId, level, ctx))
+    .join('');
+};
+
+const convertListItem = (
+  item: Element,
+  numId: number,
+  level: number,
+  ctx: ConversionContext
+): string => {
+  const continuationIndent = (level + 1) * LIST_INDENT_TWIPS;
+  let xml = '';
+  let inline: Node[] = [];
+  let hasNumberedParagraph = false;
+
+  // Paragraph pertama memakai nomor/bullet, paragraph berikutnya hanya menjorok
+  const flush = () => {
+    if (inline.some(hasContent)) {
+      xml += createParagraph(
+        convertInlineNodes(inline, {}, ctx),
+        ctx,
+        hasNumberedParagraph
+          ? { style: 'ListParagraph', indent: continuationIndent }
+          : { style: 'ListParagraph', numbering: { numId, level } }
+      );
+      hasNumberedParagraph = true;
+    }
+    inline = [];
+  };
+
+  for (const node of Array.from(item.childNodes)) {
+    if (!(node instanceof Element) || !BLOCK_TAGS.has(node.localName)) {
+      inline.push(node);
+      continue;
+    }
+
+    flush();
+    if (node.localName === 'ul' || node.localName === 'ol') {
+      xml += convertList(node, ctx, level + 1);
+    } else if (node.localName === 'p') {
+      inline = Array.from(node.childNodes);
+      flush();
+    } else {
+      xml += convertBlock(node, { ...ctx, indent: continuationIndent }, {});
+    }
+  }
+  flush();
+
+  return hasNumberedParagraph
+    ? xml
+    : createParagraph('', ctx, { style: 'ListParagraph', numbering: { numId, level } }) + xml;
+};
+
+const convertTable = (table: Element, ctx: ConversionContext): string => {
+  const rows = Array.from(table.querySelectorAll('tr'));
+  const columnCount = Math.max(1, ...rows.map((row) => row.children.length));
+  const columnWidth = Math.floor((ctx.contentWidth - (ctx.indent ?? 0)) / columnCount);
+
+  const rowsXml = rows
+    .map((row) => {
+      const isHeaderRow = row.parentElement?.localName === 'thead';
+      const cells = Array.from(row.children)
+        .map((cell) => {
+          const isHeaderCell = cell.localName === 'th';
+          const cellContext: ConversionContext = {
+            ...ctx,
+            paragraphStyle: 'TableText',
+            indent: undefined,
+            align: getAlignment(cell),
+          };
+          const content =
+            convertBlocks(Array.from(cell.childNodes), cellContext, { bold: isHeaderCell }) ||
+            createParagraph('', cellContext);
+          const shading = isHeaderCell
+            ? '<w:shd w:val="clear" w:color="auto" w:fill="F0F0F0"/>'
+            : '';
+          return `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/>${shading}</w:tcPr>${content}</w:tc>`;
+        })
+        .join('');
+      return `<w:tr>${isHeaderRow ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`;
+    })
+    .join('');
+
+  const grid = `<w:gridCol w:w="${columnWidth}"/>`.repeat(columnCount);
+  const indent = ctx.indent ? `<w:tblInd w:w="${ctx.indent}" w:type="dxa"/>` : '';
+
+  // Paragraph kosong setelah tabel memisahkan tabel berurutan dan memberi jarak
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${columnWidth * columnCount}" w:type="dxa"/>${indent}</w:tblPr><w:tblGrid>${grid}</w:tblGrid>${rowsXml}</w:tbl>${createParagraph('', { ...ctx, paragraphStyle: undefined })}`;
+};
+
+const convertBlock = (element: Element, ctx: ConversionContext, props: RunProps): string => {
+  const children = Array.from(element.childNodes);
+
+  switch (element.localName) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return convertHeading(element, props, ctx);
+    case 'p': {
+      const runProps = element.classList.contains('callout-title')
+        ? { ...props, bold: true }
+        : props;
+      return createParagraph(convertInlineNodes(children, runProps, ctx), ctx);
+    }
+    case 'ul':
+    case 'ol':
+      return convertList(element, ctx, 0);
+    case 'pre':
+      return convertCodeBlock(element, ctx);
+    case 'blockquote':
+      return convertBlocks(children, { ...ctx, paragraphStyle: 'Quote' }, props);
+    case 'table':
+      return convertTable(element, ctx);
+    case 'hr':
+      return createParagraph('', ctx, { border: true });
+    case 'dt':
+      return createParagraph(convertInlineNodes(children, { ...props, bold: true }, ctx), ctx);
+    case 'dd':
+      return convertBlocks(
+        children,
+        { ...ctx, indent: (ctx.indent ?? 0) + LIST_INDENT_TWIPS },
+        props
+      );
+    default:
+      if (isDisplayMath(element)) {
+        return createParagraph(convertInline(element, props, ctx), ctx, { align: 'center' });
+      }
+      return convertBlocks(children, ctx, props);
+  }
+};
+
+/**
+ * Konversi node tingkat blok; node inline berurutan digabung menjadi satu paragraph
+ */
+const convertBlocks = (nodes: Node[], ctx: ConversionContext, props: RunProps = {}): string => {
+  let xml = '';
+  let inline: Node[] = [];
+
+  const flush = () => {
+    if (inline.some(hasContent)) {
+      xml += createParagraph(convertInlineNodes(inline, props, ctx), ctx);
+    }
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (node instanceof Element && (BLOCK_TAGS.has(node.localName) || isDisplayMath(node))) {
+      flush();
+      xml += convertBlock(node, ctx, props);
+    } else {
+      inline.push(node);
+    }
+  }
+  flush();
+
+  return xml;
+};
+
+/**
+ * Ukuran image dalam pixel, dikonversi ke PNG jika formatnya tidak didukung Word (SVG, WebP)
+ */
+const prepareImage = async (
+  image: LoadedImage
+): Promise<{ image: LoadedImage; width: number; height: number } | null> => {
+  const url = URL.createObjectURL(new Blob([image.data as BlobPart], { type: image.mediaType }));
+  try {
+    const element = new Image();
+    element.src = url;
+    await element.decode();
+
+    const width = element.naturalWidth || 300;
+    const height = element.naturalHeight || 150;
+    if (WORD_IMAGE_TYPES.has(image.mediaType)) return { image, width, height };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(element, 0, 0, width, height);
+    const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!png) return null;
+
+    return {
+      image: { data: new Uint8Array(await png.arrayBuffer()), mediaType: 'image/png' },
+      width,
+      height,
+    };
+  } catch {
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Muat semua image dokumen; image yang sama (src sama) hanya disimpan sekali
+ * Image yang lebih lebar dari area konten diperkecil
+ */
+const loadDocxImages = async (
+  body: HTMLElement,
+  maxWidthEmu: number
+): Promise<Map<Element, DocxImage>> => {
+  const images = new Map<Element, DocxImage>();
+  const imagesBySrc = new Map<string, DocxImage | null>();
+
+  for (const img of Array.from(body.querySelectorAll('img'))) {
+    const src = img.getAttribute('src') ?? '';
+
+    if (!imagesBySrc.has(src)) {
+      const loaded = src ? await loadImage(src) : null;
+      const prepared = loaded ? await prepareImage(loaded) : null;
+
+      if (prepared) {
+        const widthEmu = prepared.width * EMU_PER_PIXEL;
+        const scale = Math.min(1, maxWidthEmu / widthEmu);
+        const index = Array.from(imagesBySrc.values()).filter(Boolean).length + 1;
+        imagesBySrc.set(src, {
+          fileName: `image${index}.${getImageExtension(prepared.image.mediaType)}`,
+          mediaType: prepared.image.mediaType,
+          data: prepared.image.data,
+          widthEmu: Math.round(widthEmu * scale),
+          heightEmu: Math.round(prepared.height * EMU_PER_PIXEL * scale),
+        });
+      } else {
+        imagesBySrc.set(src, null);
+      }
+    }
+
+    const image = imagesBySrc.get(src);
+    if (image) images.set(img, image);
+  }
+
+  return images;
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const WORD_NAMESPACE_ATTRIBUTES = Object.entries(NAMESPACES)
+  .map(([prefix, uri]) => `xmlns:${prefix}="${uri}"`)
+  .join(' ');
+
+/**
+ * Table of contents sebagai field TOC Word; entry diisi dari heading agar langsung terlihat,
+ * dan Word memperbarui nomor halaman saat dokumen dibuka (updateFields)
+ */
+const generateTableOfContents = (headings: DocxHeading[]): string => {
+  const entries = headings.filter((heading) => heading.level <= 3);
+  if (entries.length === 0) return '';
+
+  const fieldBegin =
+    '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> TOC \\o "1-3" \\h \\z \\u </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+
+  const items = entries
+    .map(
+      (heading, index) =>
+        `<w:p><w:pPr><w:pStyle w:val="TOC${heading.level}"/></w:pPr>${index === 0 ? fieldBegin : ''}<w:hyperlink w:anchor="${heading.bookmarkName}" w:history="1"><w:r><w:t xml:space="preserve">${escapeXml(heading.text)}</w:t></w:r></w:hyperlink></w:p>`
+    )
+    .join('');
+
+  return `<w:p><w:pPr><w:pStyle w:val="TOCHeading"/></w:pPr><w:r><w:t>Table of Contents</w:t></w:r></w:p>${items}<w:p><w:r><w:fldChar w:fldCharType="end"/></w:r></w:p><w:p><w:r><w:br w:type="page"/></w:r></w:p>`;
+};
+
+const generateDocument = (body: string, options: ExportOptions): string => {
+  const pageSize = PAGE_SIZES_TWIPS[options.pageSize] ?? PAGE_SIZES_TWIPS.A4;
+  const isLandscape = options.orientation === 'landscape';
+  const width = isLandscape ? pageSize.height : pageSize.width;
+  const height = isLandscape ? pageSize.width : pageSize.height;
+
+  return `${XML_DECLARATION}
+<w:document ${WORD_NAMESPACE_ATTRIBUTES}><w:body>${body}<w:sectPr><w:pgSz w:w="${width}" w:h="${height}"${
+    isLandscape ? ' w:orient="landscape"' : ''
+  }/><w:pgMar w:top="${PAGE_MARGIN_TWIPS}" w:right="${PAGE_MARGIN_TWIPS}" w:bottom="${PAGE_MARGIN_TWIPS}" w:left="${PAGE_MARGIN_TWIPS}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+};
+
+const generateStyles = (options: ExportOptions): string => {
+  const font = escapeXml(options.fontFamily);
+  const size = toHalfPoints(options.fontSize);
+  const scaled = (scale: number) => Math.round(size * scale);
+  const fontSize = (halfPoints: number) =>
+    `<w:sz w:val="${halfPoints}"/><w:szCs w:val="${halfPoints}"/>`;
+  const codeFont = `<w:rFonts w:ascii="${CODE_FONT}" w:hAnsi="${CODE_FONT}" w:cs="${CODE_FONT}"/>`;
+
+  const headingStyles = HEADING_SCALES.map(
+    (scale, index) =>
+      `<w:style w:type="paragraph" w:styleId="Heading${index + 1}"><w:name w:val="heading ${index + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${index < 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr><w:rPr><w:b/><w:bCs/>${fontSize(scaled(scale))}</w:rPr></w:style>`
+  ).join('');
+
+  const tocStyles = [1, 2, 3]
+    .map(
+      (level) =>
+        `<w:style w:type="paragraph" w:styleId="TOC${level}"><w:name w:val="toc ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/><w:pPr><w:spacing w:after="60"/><w:ind w:left="${(level - 1) * 240}"/></w:pPr></w:style>`
+    )
+    .join('');
+
+  return `${XML_DECLARATION}
+<w:styles xmlns:w="${NAMESPACES.w}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>${fontSize(size)}<w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>
+<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:semiHidden/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+${headingStyles}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="BFBFBF"/></w:pBdr><w:ind w:left="567"/></w:pPr><w:rPr><w:i/><w:iCs/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:top w:val="single" w:sz="4" w:space="4" w:color="DDDDDD"/><w:left w:val="single" w:sz="4" w:space="4" w:color="DDDDDD"/><w:bottom w:val="single" w:sz="4" w:space="4" w:color="DDDDDD"/><w:right w:val="single" w:sz="4" w:space="4" w:color="DDDDDD"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="F8F8F8"/><w:spacing w:before="120" w:after="120" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr>${codeFont}${fontSize(scaled(0.85))}</w:rPr></w:style>
+<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Inline Code"/><w:basedOn w:val="DefaultParagraphFont"/><w:rPr>${codeFont}${fontSize(scaled(0.9))}<w:shd w:val="clear" w:color="auto" w:fill="F1F1F1"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:basedOn w:val="DefaultParagraphFont"/><w:uiPriority w:val="99"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:uiPriority w:val="34"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/><w:basedOn w:val="Normal"/><w:uiPriority w:val="99"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr>${fontSize(scaled(0.8))}</w:rPr></w:style>
+<w:style w:type="character" w:styleId="FootnoteReference"><w:name w:val="footnote reference"/><w:basedOn w:val="DefaultParagraphFont"/><w:uiPriority w:val="99"/><w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:basedOn w:val="TableNormal"/><w:uiPriority w:val="39"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:left w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:right w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="999999"/></w:tblBorders></w:tblPr></w:style>
+<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Heading1"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/><w:qFormat/><w:pPr><w:outlineLvl w:val="9"/></w:pPr></w:style>
+${tocStyles}
+</w:styles>`;
+};
+
+const generateNumbering = (numbering: ListNumbering[]): string => {
+  const generateLevels = (ordered: boolean) =>
+    Array.from({ length: 9 }, (_, level) => {
+      const format = ordered ? ORDERED_FORMATS[level % ORDERED_FORMATS.length] : 'bullet';
+      const text = ordered ? `%${level + 1}.` : BULLET_CHARACTERS[level % BULLET_CHARACTERS.length];
+      const font = ordered ? '' : '<w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/></w:rPr>';
+      return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${(level + 1) * LIST_INDENT_TWIPS}" w:hanging="360"/></w:pPr>${font}</w:lvl>`;
+    }).join('');
+
+  const instances = numbering
+    .map(({ ordered, start, level }, index) => {
+      const override = ordered
+        ? `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride>`
+        : '';
+      return `<w:num w:numId="${index + 1}"><w:abstractNumId w:val="${ordered ? 1 : 0}"/>${override}</w:num>`;
+    })
+    .join('');
+
+  return `${XML_DECLARATION}
+<w:numbering xmlns:w="${NAMESPACES.w}"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${generateLevels(false)}</w:abstractNum><w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${generateLevels(true)}</w:abstractNum>${instances}</w:numbering>`;
+};
+
+const generateFootnotes = (footnotes: string[]): string => {
+  const separator = (type: string, id: number, element: string) =>
+    `<w:footnote w:type="${type}" w:id="${id}"><w:p><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:r><w:${element}/></w:r></w:p></w:footnote>`;
+
+  return `${XML_DECLARATION}
+<w:footnotes ${WORD_NAMESPACE_ATTRIBUTES}>${separator('separator', -1, 'separator')}${separator('continuationSeparator', 0, 'continuationSeparator')}${footnotes.join('')}</w:footnotes>`;
+};
+
+const generateSettings = (updateFields: boolean): string => {
+  return `${XML_DECLARATION}
+<w:settings xmlns:w="${NAMESPACES.w}"><w:zoom w:percent="100"/><w:defaultTabStop w:val="720"/><w:characterSpacingControl w:val="doNotCompress"/>${
+    updateFields ? '<w:updateFields w:val="true"/>' : ''
+  }<w:footnotePr><w:footnote w:id="-1"/><w:footnote w:id="0"/></w:footnotePr><w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat></w:settings>`;
+};
+
+const generateRelationships = (relationships: Relationship[]): string => {
+  const items = relationships
+    .map(
+      (relationship) =>
+        `<Relationship Id="${relationship.id}" Type="${relationship.type}" Target="${escapeXml(relationship.target)}"${
+          relationship.external ? ' TargetMode="External"' : ''
+        }/>`
+    )
+    .join('');
+  return `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items}</Relationships>`;
+};
+
+const generateCoreProperties = (options: ExportOptions, createdAt: Date): string => {
+  const timestamp = createdAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const properties = [
+    `<dc:title>${escapeXml(options.title)}</dc:title>`,
+    options.author && `<dc:creator>${escapeXml(options.author)}</dc:creator>`,
+    options.description && `<dc:description>${escapeXml(options.description)}</dc:description>`,
+    options.tags.length > 0 && `<cp:keywords>${escapeXml(options.tags.join(', '))}</cp:keywords>`,
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created>`,
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified>`,
+  ].filter(Boolean);
+
+  return `${XML_DECLARATION}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">${properties.join('')}</cp:coreProperties>`;
+};
+
+const generateContentTypes = (images: DocxImage[]): string => {
+  const imageTypes = new Map(
+    images.map((image) => [image.fileName.split('.').pop() ?? '', image.mediaType])
+  );
+  const defaults = Array.from(imageTypes)
+    .map(
+      ([extension, mediaType]) => `<Default Extension="${extension}" ContentType="${mediaType}"/>`
+    )
+    .join('');
+  const override = (partName: string, type: string) =>
+    `<Override PartName="${partName}" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.${type}+xml"/>`;
+
+  return `${XML_DECLARATION}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${defaults}${override('/word/document.xml', 'document.main')}${override('/word/styles.xml', 'styles')}${override('/word/numbering.xml', 'numbering')}${override('/word/footnotes.xml', 'footnotes')}${override('/word/settings.xml', 'settings')}<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+};
+
+/**
+ * Buat file .docx dari HTML hasil convertMarkdownToHTML
+ *
+ * @param options - Export options (page size, orientasi, font, table of contents, metadata)
+ * @param htmlContent - Konten HTML dokumen
+ * @returns Blob DOCX yang siap di-download
+ */
+export const createDocxPackage = async (
+  options: ExportOptions,
+  htmlContent: string
+): Promise<Blob> => {
+  const createdAt = new Date();
+  const parsed = new DOMParser().parseFromString(
+    `<!DOCTYPE html><html><body>${htmlContent}</body></html>`,
+    'text/html'
+  );
+  const body = parsed.body;
+
+  // Section footnote GFM dipindah ke footnotes.xml
+  const footnoteSources = new Map<string, Element>();
+  for (const section of Array.from(body.querySelectorAll('section[data-footnotes]'))) {
+    for (const item of Array.from(section.querySelectorAll('li[id]'))) {
+      footnoteSources.set(item.id, item);
+    }
+    section.remove();
+  }
+
+  const headings = new Map<Element, DocxHeading>();
+  Array.from(body.querySelectorAll('h1, h2, h3, h4, h5, h6')).forEach((heading, index) => {
+    headings.set(heading, {
+      level: Number(heading.localName[1]),
+      text: heading.textContent?.trim() ?? '',
+      bookmarkId: index,
+      bookmarkName: `_Toc${index + 1}`,
+    });
+  });
+
+  const pageSize = PAGE_SIZES_TWIPS[options.pageSize] ?? PAGE_SIZES_TWIPS.A4;
+  const pageWidth = options.orientation === 'landscape' ? pageSize.height : pageSize.width;
+  const contentWidth = pageWidth - PAGE_MARGIN_TWIPS * 2;
+  const images = await loadDocxImages(body, contentWidth * EMU_PER_TWIP);
+
+  const documentPart = createPart([
+    { id: 'rId1', type: RELATIONSHIP_TYPES.styles, target: 'styles.xml' },
+    { id: 'rId2', type: RELATIONSHIP_TYPES.numbering, target: 'numbering.xml' },
+    { id: 'rId3', type: RELATIONSHIP_TYPES.footnotes, target: 'footnotes.xml' },
+    { id: 'rId4', type: RELATIONSHIP_TYPES.settings, target: 'settings.xml' },
+  ]);
+  const footnotePart = createPart();
+
+  const ctx: ConversionContext = {
+    part: documentPart,
+    images,
+    headings,
+    footnoteSources,
+    footnoteIds: new Map(),
+    footnotes: [],
+    footnotePart,
+    numbering: [],
+    counters: { drawing: 0 },
+    contentWidth,
+  };
+
+  const content = convertBlocks(Array.from(body.childNodes), ctx);
+  const tableOfContents = options.includeTableOfContents
+    ? generateTableOfContents(Array.from(headings.values()))
+    : '';
+  const media = Array.from(new Set(images.values()));
+
+  return createZipArchive(
+    [
+      { path: '[Content_Types].xml', data: generateContentTypes(media) },
+      {
+        path: '_rels/.rels',
+        data: generateRelationships([
+          { id: 'rId1', type: RELATIONSHIP_TYPES.officeDocument, target: 'word/document.xml' },
+          { id: 'rId2', type: RELATIONSHIP_TYPES.coreProperties, target: 'docProps/core.xml' },
+        ]),
+      },
+      { path: 'docProps/core.xml', data: generateCoreProperties(options, createdAt) },
+      { path: 'word/document.xml', data: generateDocument(tableOfContents + content, options) },
+      {
+        path: 'word/_rels/document.xml.rels',
+        data: generateRelationships(documentPart.relationships),
+      },
+      { path: 'word/styles.xml', data: generateStyles(options) },
+      { path: 'word/numbering.xml', data: generateNumbering(ctx.numbering) },
+      { path: 'word/footnotes.xml', data: generateFootnotes(ctx.footnotes) },
+      ...(footnotePart.relationships.length > 0
+        ? [
+            {
+              path: 'word/_rels/footnotes.xml.rels',
+              data: generateRelationships(footnotePart.relationships),
+            },
+          ]
+        : []),
+      { path: 'word/settings.xml', data: generateSettings(tableOfContents !== '') },
+      ...media.map((image) => ({ path: `word/media/${image.fileName}`, data: image.data })),
+    ],
+    createdAt,
+    DOCX_MIME_TYPE
+  );
+};
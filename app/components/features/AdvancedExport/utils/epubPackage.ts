@@ -0,0 +1,550 @@
+/**
+ * @fileoverview Pembuat container EPUB 3 (mimetype, container.xml, OPF, nav, chapter XHTML)
+ * @author Axel Modra
+ */
+
+import { DIAGRAM_EXPORT_STYLES } from '@/utils/diagramUtils';
+import { MARKDOWN_EXPORT_STYLES, MATH_EXPORT_STYLES } from '@/utils/markdownPlugins';
+import type { ExportOptions } from '../types/export.types';
+import { THEMES } from './constants';
+import { getImageExtension, type LoadedImage, loadImage } from './imageLoader';
+import { createZipArchive, type ZipEntry } from './zipArchive';
+
+const EPUB_MIME_TYPE = 'application/epub+zip';
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+const BOOK_LANGUAGE = 'en';
+
+/**
+ * Chapter hasil pemecahan konten di setiap H1/H2
+ */
+interface EpubChapter {
+  title: string;
+  /** 1 atau 2 untuk chapter yang diawali heading, 0 untuk konten sebelum heading pertama */
+  level: number;
+  fileName: string;
+  nodes: Node[];
+}
+
+/**
+ * Item manifest OPF
+ */
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+}
+
+interface EpubImage extends ManifestItem {
+  data: Uint8Array;
+}
+
+/**
+ * Escape teks untuk XML (tanpa DOM agar aman dipakai di atribut)
+ */
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Serialisasi node HTML sebagai XHTML tanpa xmlns berulang di setiap elemen
+ */
+const serializeNodes = (nodes: Node[]): string => {
+  const serializer = new XMLSerializer();
+  return nodes
+    .map((node) => serializer.serializeToString(node).replaceAll(` xmlns="${XHTML_NAMESPACE}"`, ''))
+    .join('');
+};
+
+const createImageItem = (id: string, image: LoadedImage, properties?: string): EpubImage => {
+  return {
+    id,
+    href: `images/${id}.${getImageExtension(image.mediaType)}`,
+    mediaType: image.mediaType,
+    properties,
+    data: image.data,
+  };
+};
+
+/**
+ * Masukkan semua image ke package dan arahkan src ke file di dalamnya
+ * Image yang tidak bisa dimuat diganti alt text-nya, karena EPUB tidak boleh memuat image remote
+ */
+const embedImages = async (body: HTMLElement): Promise<EpubImage[]> => {
+  const images: EpubImage[] = [];
+  const imagesBySrc = new Map<string, EpubImage | null>();
+
+  for (const img of Array.from(body.querySelectorAll('img'))) {
+    const src = img.getAttribute('src') ?? '';
+
+    if (!imagesBySrc.has(src)) {
+      const loaded = src ? await loadImage(src) : null;
+      const image = loaded ? createImageItem(`image-${images.length + 1}`, loaded) : null;
+      if (image) images.push(image);
+      imagesBySrc.set(src, image);
+    }
+
+    const image = imagesBySrc.get(src);
+    if (image) {
+      img.setAttribute('src', image.href);
+      if (!img.hasAttribute('alt')) img.setAttribute('alt', '');
+    } else {
+      const placeholder = body.ownerDocument.createElement('span');
+      placeholder.className = 'missing-image';
+      placeholder.textContent = img.getAttribute('alt') || 'Image';
+      img.replaceWith(placeholder);
+    }
+  }
+
+  return images;
+};
+
+/**
+ * Pecah konten menjadi chapter di setiap H1/H2 tingkat atas
+ */
+const splitIntoChapters = (body: HTMLElement, bookTitle: string): EpubChapter[] => {
+  const chapters: EpubChapter[] = [];
+
+  for (const node of Array.from(body.childNodes)) {
+    const isChapterHeading = node instanceof Element && /^H[12]$/.test(node.tagName);
+
+    if (isChapterHeading || chapters.length === 0) {
+      chapters.push({
+        title: isChapterHeading
+          ? node.textContent?.trim() || `Chapter ${chapters.length + 1}`
+          : bookTitle,
+        level: isChapterHeading ? Number(node.tagName[1]) : 0,
+        fileName: `chapter-${chapters.length + 1}.xhtml`,
+        nodes: [],
+      });
+    }
+
+    chapters[chapters.length - 1].nodes.push(node);
+  }
+
+  // Konten sebelum heading pertama yang hanya berisi whitespace tidak perlu jadi chapter
+  const [first, ...rest] = chapters;
+  if (first?.level === 0 && rest.length > 0 && !first.nodes.some((n) => n.textContent?.trim())) {
+    return rest;
+  }
+  return chapters;
+};
+
+/**
+ * Link internal (#id) menunjuk ke file chapter tempat target berada
+ */
+const rewriteInternalLinks = (chapters: EpubChapter[]) => {
+  const fileById = new Map<string, string>();
+  for (const chapter of chapters) {
+    for (const node of chapter.nodes) {
+      if (!(node instanceof Element)) continue;
+      if (node.id) fileById.set(node.id, chapter.fileName);
+      for (const element of Array.from(node.querySelectorAll('[id]'))) {
+        fileById.set(element.id, chapter.fileName);
+      }
+    }
+  }
+
+  for (const chapter of chapters) {
+    for (const node of chapter.nodes) {
+      if (!(node instanceof Element)) continue;
+      for (const link of Array.from(node.querySelectorAll('a[href^="#"]'))) {
+        const fileName = fileById.get(
+          decodeURIComponent(link.getAttribute('href')?.slice(1) ?? '')
+        );
+        if (fileName) link.setAttribute('href', `${fileName}${link.getAttribute('href')}`);
+      }
+    }
+  }
+};
+
+/**
+ * Properti manifest untuk chapter yang memuat SVG atau MathML inline
+ */
+const getChapterProperties = (nodes: Node[]): string | undefined => {
+  const elements = nodes.filter((node): node is Element => node instanceof Element);
+  const contains = (tagName: string) =>
+    elements.some(
+      (element) => element.localName === tagName || element.getElementsByTagName(tagName).length > 0
+    );
+
+  const properties = [contains('svg') && 'svg', contains('math') && 'mathml'].filter(Boolean);
+  return properties.length > 0 ? properties.join(' ') : undefined;
+};
+
+const generateXhtmlDocument = (title: string, body: string, bodyClass?: string): string => {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="${XHTML_NAMESPACE}" xmlns:epub="http://www.idpf.org/2007/ops" lang="${BOOK_LANGUAGE}" xml:lang="${BOOK_LANGUAGE}">
+<head>
+    <meta charset="UTF-8"/>
+    <title>${escapeXml(title)}</title>
+    <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body${bodyClass ? ` class="${bodyClass}"` : ''}>
+${body}
+</body>
+</html>`;
+};
+
+/**
+ * Halaman judul dengan title, author dan description dari ExportOptions
+ */
+const generateTitlePage = (options: ExportOptions): string => {
+  return generateXhtmlDocument(
+    options.title,
+    `    <section class="book-header" epub:type="titlepage">
+        <h1 class="book-title">${escapeXml(options.title)}</h1>
+        ${options.author ? `<p class="book-author">${escapeXml(options.author)}</p>` : ''}
+        ${options.description ? `<p class="book-description">${escapeXml(options.description)}</p>` : ''}
+    </section>`
+  );
+};
+
+const generateCoverPage = (options: ExportOptions, cover: EpubImage): string => {
+  return generateXhtmlDocument(
+    options.title,
+    `    <section class="cover" epub:type="cover">
+        <img src="${cover.href}" alt="${escapeXml(options.title)}"/>
+    </section>`,
+    'cover-page'
+  );
+};
+
+/**
+ * Nav document; chapter H2 bersarang di bawah chapter H1 sebelumnya
+ */
+const generateNavDocument = (options: ExportOptions, chapters: EpubChapter[]): string => {
+  const entries: Array<{ chapter: EpubChapter; children: EpubChapter[] }> = [];
+  for (const chapter of chapters) {
+    const parent = entries[entries.length - 1];
+    if (chapter.level === 2 && parent?.chapter.level === 1) {
+      parent.children.push(chapter);
+    } else {
+      entries.push({ chapter, children: [] });
+    }
+  }
+
+  const renderLink = (chapter: EpubChapter) =>
+    `<a href="${chapter.fileName}">${escapeXml(chapter.title)}</a>`;
+
+  const items = entries
+    .map(({ chapter, children }) => {
+      const nested = children.length
+        ? `<ol>${children.map((child) => `<li>${renderLink(child)}</li>`).join('')}</ol>`
+        : '';
+      return `            <li>${renderLink(chapter)}${nested}</li>`;
+    })
+    .join('\n');
+
+  return generateXhtmlDocument(
+    options.title,
+    `    <nav epub:type="toc" id="toc">
+        <h1>Table of Contents</h1>
+        <ol>
+${items}
+        </ol>
+    </nav>`
+  );
+};
+
+/**
+ * Tanggal front matter sebagai W3CDTF (YYYY-MM-DD), atau null jika tidak bisa dibaca
+ */
+const formatPublicationDate = (date: string): string | null => {
+  if (!date.trim()) return null;
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+};
+
+const generatePackageDocument = (
+  options: ExportOptions,
+  manifest: ManifestItem[],
+  spine: Array<{ idref: string; linear?: boolean }>,
+  cover: EpubImage | null,
+  modifiedAt: Date
+): string => {
+  const publicationDate = formatPublicationDate(options.date);
+  const metadata = [
+    `<dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>`,
+    `<dc:title>${escapeXml(options.title)}</dc:title>`,
+    `<dc:language>${BOOK_LANGUAGE}</dc:language>`,
+    options.author && `<dc:creator>${escapeXml(options.author)}</dc:creator>`,
+    options.description && `<dc:description>${escapeXml(options.description)}</dc:description>`,
+    ...options.tags.map((tag) => `<dc:subject>${escapeXml(tag)}</dc:subject>`),
+    publicationDate && `<dc:date>${publicationDate}</dc:date>`,
+    `<meta property="dcterms:modified">${modifiedAt.toISOString().replace(/\.\d{3}Z$/, 'Z')}</meta>`,
+    cover && `<meta name="cover" content="${cover.id}"/>`,
+  ]
+    .filter(Boolean)
+    .join('\n        ');
+
+  const manifestItems = manifest
+    .map(
+      (item) =>
+        `<item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${
+          item.properties ? ` properties="${item.properties}"` : ''
+        }/>`
+    )
+    .join('\n        ');
+
+  const spineItems = spine
+    .map((item) => `<itemref idref="${item.idref}"${item.linear === false ? ' linear="no"' : ''}/>`)
+    .join('\n        ');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${BOOK_LANGUAGE}">
+    <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+        ${metadata}
+    </metadata>
+    <manifest>
+        ${manifestItems}
+    </manifest>
+    <spine>
+        ${spineItems}
+    </spine>
+</package>`;
+};
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+    <rootfiles>
+        <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+    </rootfiles>
+</container>`;
+
+/**
+ * Stylesheet e-book dari theme export yang dipilih
+ */
+const generateEpubStyles = (options: ExportOptions): string => {
+  const theme = THEMES[options.theme] || THEMES.default;
+
+  return `
+        body {
+            font-family: '${options.fontFamily}', Georgia, serif;
+            font-size: ${options.fontSize}px;
+            line-height: 1.6;
+            margin: 0 auto;
+            padding: 0 1em;
+            color: ${theme.primaryColor};
+            background-color: ${theme.backgroundColor};
+        }
+
+        .book-header {
+            text-align: center;
+            margin: 3em 0 2em;
+            padding-bottom: 1em;
+            border-bottom: 2px solid ${theme.accentColor};
+        }
+
+        .book-title {
+            font-size: 2.5em;
+            color: ${theme.accentColor};
+            margin-bottom: 0.5em;
+            font-weight: bold;
+        }
+
+        .book-author {
+            font-size: 1.2em;
+            font-style: italic;
+        }
+
+        .book-description {
+            font-size: 1em;
+            opacity: 0.8;
+            margin-top: 0.5em;
+        }
+
+        .cover-page {
+            margin: 0;
+            padding: 0;
+            text-align: center;
+        }
+
+        .cover img {
+            max-width: 100%;
+            max-height: 100vh;
+            margin: 0 auto;
+        }
+
+        h1, h2, h3, h4, h5, h6 {
+            color: ${theme.accentColor};
+            margin-top: 1.5em;
+            margin-bottom: 0.5em;
+            page-break-after: avoid;
+        }
+
+        h1 { font-size: 2.2em; }
+        h2 { font-size: 1.8em; }
+        h3 { font-size: 1.5em; }
+        h4 { font-size: 1.3em; }
+        h5 { font-size: 1.1em; }
+        h6 { font-size: 1em; }
+
+        p {
+            margin: 1em 0;
+            text-align: justify;
+        }
+
+        blockquote {
+            border-left: 4px solid ${theme.accentColor};
+            margin: 1.5em 0;
+            padding: 0.5em 1.5em;
+            font-style: italic;
+        }
+
+        code {
+            padding: 0.2em 0.4em;
+            border-radius: 3px;
+            font-family: monospace;
+            font-size: 0.9em;
+        }
+
+        pre {
+            padding: 1em;
+            overflow-x: auto;
+            margin: 1.5em 0;
+            border-left: 4px solid ${theme.accentColor};
+            white-space: pre-wrap;
+        }
+
+        pre code {
+            padding: 0;
+        }
+
+        ul, ol {
+            margin: 1em 0;
+            padding-left: 2em;
+        }
+
+        li {
+            margin: 0.5em 0;
+        }
+
+        img {
+            max-width: 100%;
+            height: auto;
+            display: block;
+            margin: 1em auto;
+            page-break-inside: avoid;
+        }
+
+        .missing-image {
+            font-style: italic;
+            opacity: 0.7;
+        }
+
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            margin: 1.5em 0;
+        }
+
+        th, td {
+            border: 1px solid ${theme.accentColor};
+            padding: 0.5em;
+            text-align: left;
+        }
+
+        a {
+            color: ${theme.accentColor};
+        }
+
+        nav#toc ol {
+            list-style: none;
+            padding-left: 1em;
+        }
+    `;
+};
+
+/**
+ * Buat file .epub (EPUB 3) dari HTML hasil convertMarkdownToHTML
+ *
+ * @param options - Export options (title, author, description, theme, cover)
+ * @param htmlContent - Konten HTML dokumen
+ * @returns Blob EPUB yang siap di-download
+ */
+export const createEpubPackage = async (
+  options: ExportOptions,
+  htmlContent: string
+): Promise<Blob> => {
+  const modifiedAt = new Date();
+  const document = new DOMParser().parseFromString(
+    `<!DOCTYPE html><html><body>${htmlContent}</body></html>`,
+    'text/html'
+  );
+
+  const images = await embedImages(document.body);
+  const loadedCover = options.coverImage ? await loadImage(options.coverImage) : null;
+  const cover = loadedCover ? createImageItem('cover-image', loadedCover, 'cover-image') : null;
+
+  const chapters = splitIntoChapters(document.body, options.title);
+  rewriteInternalLinks(chapters);
+
+  const manifest: ManifestItem[] = [
+    { id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' },
+    { id: 'styles', href: 'styles.css', mediaType: 'text/css' },
+    { id: 'title-page', href: 'title.xhtml', mediaType: 'application/xhtml+xml' },
+  ];
+  const spine: Array<{ idref: string; linear?: boolean }> = [];
+  const files: ZipEntry[] = [];
+
+  if (cover) {
+    manifest.push({ id: 'cover', href: 'cover.xhtml', mediaType: 'application/xhtml+xml' });
+    spine.push({ idref: 'cover' });
+    files.push({ path: 'OEBPS/cover.xhtml', data: generateCoverPage(options, cover) });
+  }
+
+  spine.push({ idref: 'title-page' });
+  // Nav selalu ada di manifest; masuk alur baca hanya jika table of contents diminta
+  spine.push({ idref: 'nav', linear: options.includeTableOfContents });
+
+  chapters.forEach((chapter, index) => {
+    const id = `chapter-${index + 1}`;
+    manifest.push({
+      id,
+      href: chapter.fileName,
+      mediaType: 'application/xhtml+xml',
+      properties: getChapterProperties(chapter.nodes),
+    });
+    spine.push({ idref: id });
+    files.push({
+      path: `OEBPS/${chapter.fileName}`,
+      data: generateXhtmlDocument(chapter.title, serializeNodes(chapter.nodes)),
+    });
+  });
+
+  const imageItems = cover ? [cover, ...images] : images;
+  manifest.push(...imageItems);
+
+  const styles = [
+    generateEpubStyles(options),
+    MARKDOWN_EXPORT_STYLES,
+    MATH_EXPORT_STYLES,
+    DIAGRAM_EXPORT_STYLES,
+    options.customCSS,
+  ].join('\n');
+
+  return createZipArchive(
+    [
+      // mimetype wajib menjadi entry pertama dan tidak dikompresi
+      { path: 'mimetype', data: EPUB_MIME_TYPE },
+      { path: 'META-INF/container.xml', data: CONTAINER_XML },
+      {
+        path: 'OEBPS/content.opf',
+        data: generatePackageDocument(options, manifest, spine, cover, modifiedAt),
+      },
+      { path: 'OEBPS/nav.xhtml', data: generateNavDocument(options, chapters) },
+      { path: 'OEBPS/styles.css', data: styles },
+      { path: 'OEBPS/title.xhtml', data: generateTitlePage(options) },
+      ...files,
+      ...imageItems.map((image) => ({ path: `OEBPS/${image.href}`, data: image.data })),
+    ],
+    modifiedAt,
+    EPUB_MIME_TYPE
+  );
+};
@@ -1018,7 +1018,7 @@ const generateEpubHeader = (options: HTMLGeneratorOptions, textColor?: string):
   const descriptionColor = getDescriptionTextColor(isDark);
 
   return `
-    <div class="html-preview-badge">HTML Preview</div>
+    <div class="html-preview-badge">EPUB Preview</div>
     <div class="header" style="
         text-align: center;
         margin-bottom: 3em;
@@ -1182,6 +1182,21 @@ const convertContentToSlides = (htmlContent: string): string => {
   let currentSlide = '';
   let slideNumber = 2; // Start from 2 since title slide is 1
 
+  // Pemisah --- (hr) memecah slide seperti di export presentation
+  if (/<hr\s*\/?>/i.test(htmlContent)) {
+    return htmlContent
+      .split(/<hr\s*\/?>/gi)
+      .filter((part) => part.trim())
+      .map(
+        (part, index) => `
+        <div class="slide">
+            <div class="slide-number">${index + 2}</div>
+            ${part}
+        </div>`
+      )
+      .join('\n');
+  }
+
   // Split by h1, h2 tags to create new slides
   const parts = htmlContent.split(/(<h[12][^>]*>.*?<\/h[12]>)/gi);
 
@@ -1,3 +1,9 @@
+import { DIAGRAM_EXPORT_STYLES } from '@/utils/diagramUtils';
+import {
+  KATEX_STYLESHEET_URL,
+  MARKDOWN_EXPORT_STYLES,
+  MATH_EXPORT_STYLES,
+} from '@/utils/markdownPlugins';
 import type { HTMLGeneratorOptions, ThemeConfig } from '../types/export.types';
 import { THEMES } from './constants';
 
@@ -150,12 +156,17 @@ export const generateStyledHTML = (options: HTMLGeneratorOptions): string => {
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>${escapeHtml(options.title)}</title>
+    ${generateMetaTags(options)}
+    <link rel="stylesheet" href="${KATEX_STYLESHEET_URL}">
     <style>
         ${generateBaseStyles()}
         ${generateThemeStyles(theme, options, true)} /* true = forExport */
         ${generateLayoutStyles()}
         ${generateComponentStyles(theme, true)} /* true = forExport */
         ${generateEmojiStyles()} /* Emoji preservation styles */
+        ${MARKDOWN_EXPORT_STYLES}
+        ${MATH_EXPORT_STYLES}
+        ${DIAGRAM_EXPORT_STYLES}
         ${generatePrintStyles()}
         ${generatePageSizeCSS(options.pageSize, options.orientation)}
         ${options.customCSS}
@@ -172,6 +183,25 @@ export const generateStyledHTML = (options: HTMLGeneratorOptions): string => {
 </html>`;
 };
 
+/**
+ * Generate meta tags dokumen dari metadata (author, description, tags, date)
+ */
+export const generateMetaTags = (options: {
+  author: string;
+  description: string;
+  tags?: string[];
+  date?: string;
+}): string => {
+  const metaTags = [
+    options.author && `<meta name="author" content="${escapeHtml(options.author)}">`,
+    options.description && `<meta name="description" content="${escapeHtml(options.description)}">`,
+    options.tags?.length &&
+      `<meta name="keywords" content="${escapeHtml(options.tags.join(', '))}">`,
+    options.date && `<meta name="date" content="${escapeHtml(options.date)}">`,
+  ];
+  return metaTags.filter(Boolean).join('\n    ');
+};
+
 /**
  * Generate base CSS styles
  */
@@ -544,7 +574,7 @@ const generateHeader = (options: HTMLGeneratorOptions, textColor?: string): stri
             color: ${authorColor};
             opacity: 0.9;
             font-weight: 500;
-        ">by ${escapeHtml(options.author)}</div>
+        ">by ${escapeHtml(options.author)}${options.date ? ` &middot; ${escapeHtml(options.date)}` : ''}</div>
         ${
           options.description
             ? `
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Memuat image dokumen sebagai bytes untuk format export berbasis package (EPUB, DOCX)
+ * @author Axel Modra
+ */
+
+/**
+ * Image yang sudah dimuat beserta MIME type-nya
+ */
+export interface LoadedImage {
+  data: Uint8Array;
+  mediaType: string;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+};
+
+/**
+ * Ekstensi file untuk MIME type image
+ */
+export const getImageExtension = (mediaType: string): string =>
+  IMAGE_EXTENSIONS[mediaType] ?? mediaType.split('/')[1] ?? 'img';
+
+/**
+ * Muat image (data URL atau URL remote) sebagai bytes
+ *
+ * @param src - src image di HTML hasil convertMarkdownToHTML
+ * @returns Image, atau null jika tidak bisa dimuat (mis. diblokir CORS)
+ */
+export const loadImage = async (src: string): Promise<LoadedImage | null> => {
+  try {
+    const response = await fetch(src);
+    if (!response.ok) return null;
+
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/')) return null;
+
+    return { data: new Uint8Array(await blob.arrayBuffer()), mediaType: blob.type };
+  } catch {
+    return null;
+  }
+};
@@ -1,4 +1,8 @@
 export * from './constants';
+export { createDocxPackage } from './docxPackage';
 export { downloadFile, estimateFileSize, formatFileSize, sanitizeFilename } from './downloadFile';
-export { generatePageSizeCSS, generateStyledHTML } from './htmlGenerator';
+export { createEpubPackage } from './epubPackage';
+export { generateMetaTags, generatePageSizeCSS, generateStyledHTML } from './htmlGenerator';
 export { convertMarkdownToHTML, generateTableOfContents } from './markdownConverter';
+export { createPdfDocument } from './pdfDocument';
+export { createZipArchive, type ZipEntry } from './zipArchive';
@@ -1,8 +1,14 @@
 import React from 'react';
 import { renderToStaticMarkup } from 'react-dom/server';
-import ReactMarkdown from 'react-markdown';
-import rehypeHighlight from 'rehype-highlight';
-import remarkGfm from 'remark-gfm';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import { getAttachmentId } from '@/utils/attachmentUtils';
+import { getDiagramKey, isDiagramLanguage } from '@/utils/diagramUtils';
+import {
+  createRehypePlugins,
+  MARKDOWN_REMARK_PLUGINS,
+  MARKDOWN_REMARK_REHYPE_OPTIONS,
+  type MathOutput,
+} from '@/utils/markdownPlugins';
 import type { MarkdownConverterResult } from '../types/export.types';
 
 /**
@@ -17,9 +23,15 @@ export const convertMarkdownToHTML = (
   options: {
     includeMetadata?: boolean;
     sanitize?: boolean;
+    /** Format math: 'mathml' untuk target yang tidak memuat CSS KaTeX (Word, EPUB) */
+    mathOutput?: MathOutput;
+    /** SVG diagram hasil renderMarkdownDiagrams; tanpa ini block diagram tetap sebagai code */
+    diagrams?: Map<string, string>;
+    /** Data URL attachment hasil loadMarkdownAttachments; tanpa ini image tetap memakai path relatif */
+    attachments?: Map<string, string>;
   } = {}
 ): MarkdownConverterResult => {
-  const { includeMetadata = false } = options;
+  const { includeMetadata = false, mathOutput, diagrams, attachments } = options;
 
   if (!markdown || typeof markdown !== 'string') {
     return {
@@ -33,8 +45,16 @@ export const convertMarkdownToHTML = (
     const markdownElement = React.createElement(
       ReactMarkdown,
       {
-        remarkPlugins: [remarkGfm],
-        rehypePlugins: [rehypeHighlight],
+        remarkPlugins: MARKDOWN_REMARK_PLUGINS,
+        rehypePlugins: createRehypePlugins(mathOutput),
+        remarkRehypeOptions: MARKDOWN_REMARK_REHYPE_OPTIONS,
+        components:
+          diagrams || attachments
+            ? {
+                ...(diagrams && createDiagramComponents(diagrams)),
+                ...(attachments && createAttachmentComponents(attachments)),
+              }
+            : undefined,
       },
       markdown
     );
@@ -82,6 +102,51 @@ export const convertMarkdownToHTML = (
   }
 };
 
+/**
+ * Ganti fenced block diagram dengan SVG, atau panel error jika diagram gagal dirender
+ */
+const createDiagramComponents = (diagrams: Map<string, string>): Components => ({
+  pre: ({ children, node: _node, ...props }) => {
+    const codeElement = React.Children.toArray(children).find(React.isValidElement) as
+      | React.ReactElement<{ className?: string; children?: React.ReactNode }>
+      | undefined;
+    const language = codeElement?.props.className?.match(/language-(\w+)/)?.[1];
+
+    if (!codeElement || !isDiagramLanguage(language)) {
+      return React.createElement('pre', props, children);
+    }
+
+    const source = React.Children.toArray(codeElement.props.children).join('');
+    const svg = diagrams.get(getDiagramKey(language, source));
+
+    if (svg) {
+      return React.createElement('figure', {
+        className: 'diagram',
+        // biome-ignore lint/security/noDangerouslySetInnerHtml: SVG sudah disanitasi di renderDiagram
+        dangerouslySetInnerHTML: { __html: svg },
+      });
+    }
+
+    return React.createElement(
+      'div',
+      { className: 'diagram-error' },
+      React.createElement('p', null, 'Failed to render diagram'),
+      React.createElement('pre', null, source.trim())
+    );
+  },
+});
+
+/**
+ * Ganti src attachment dengan data URL agar dokumen hasil export berdiri sendiri
+ */
+const createAttachmentComponents = (attachments: Map<string, string>): Components => ({
+  img: ({ node: _node, src, ...props }) => {
+    const attachmentId = getAttachmentId(typeof src === 'string' ? src : undefined);
+    const dataUrl = attachmentId ? attachments.get(attachmentId) : undefined;
+    return React.createElement('img', { ...props, src: dataUrl ?? src });
+  },
+});
+
 /**
  * Extract headings dari markdown untuk metadata
  */
@@ -0,0 +1,255 @@
+/**
+ * @fileoverview Konversi MathML (output KaTeX) ke Office Math Markup (OMML) untuk DOCX
+ * Word tidak membaca MathML di dokumen, tetapi menampilkan OMML sebagai equation asli
+ * @author Axel Modra
+ */
+
+export const OMML_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/math';
+
+const MATH_FONT = 'Cambria Math';
+
+/** Operator n-ary; script-nya menjadi batas dan elemen berikutnya menjadi operand */
+const NARY_OPERATORS = new Set([
+  '∑',
+  '∏',
+  '∐',
+  '∫',
+  '∬',
+  '∭',
+  '∮',
+  '∯',
+  '∰',
+  '⋃',
+  '⋂',
+  '⋁',
+  '⋀',
+  '⨁',
+  '⨂',
+  '⨀',
+]);
+
+/** Element script yang base-nya bisa berupa operator n-ary */
+const SCRIPT_TAGS = new Set(['msub', 'msup', 'msubsup', 'munder', 'mover', 'munderover']);
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const getChildElements = (element: Element): Element[] => Array.from(element.children);
+
+/**
+ * Style run OMML dari mathvariant; identifier satu huruf default-nya italic
+ */
+const getMathStyle = (element: Element, text: string): string | undefined => {
+  const variant = element.getAttribute('mathvariant');
+  if (variant === 'bold') return 'b';
+  if (variant === 'bold-italic') return 'bi';
+  if (variant === 'italic') return 'i';
+  if (variant === 'normal') return 'p';
+  // mn, mo dan identifier lebih dari satu huruf (sin, log) tegak
+  return element.localName === 'mi' && [...text].length === 1 ? undefined : 'p';
+};
+
+const createMathRun = (text: string, properties = ''): string =>
+  `<m:r>${properties}<w:rPr><w:rFonts w:ascii="${MATH_FONT}" w:hAnsi="${MATH_FONT}"/></w:rPr><m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>`;
+
+const convertToken = (element: Element): string => {
+  const text = element.textContent ?? '';
+  if (!text) return '';
+
+  if (element.localName === 'mtext') {
+    return createMathRun(text, '<m:rPr><m:nor/></m:rPr>');
+  }
+  const style = getMathStyle(element, text);
+  return createMathRun(text, style ? `<m:rPr><m:sty m:val="${style}"/></m:rPr>` : '');
+};
+
+/** Argumen OMML (m:e, m:sub, ...); argumen kosong tetap ditulis supaya struktur valid */
+const wrap = (tag: string, content: string): string =>
+  content ? `<m:${tag}>${content}</m:${tag}>` : `<m:${tag}/>`;
+
+/**
+ * Operator n-ary di dalam base element (mis. ∑ pada munderover)
+ */
+const getNaryOperator = (element: Element): string | null => {
+  if (!SCRIPT_TAGS.has(element.localName)) return null;
+  const base = element.firstElementChild;
+  const text = base?.localName === 'mo' ? (base.textContent ?? '').trim() : '';
+  return NARY_OPERATORS.has(text) ? text : null;
+};
+
+/**
+ * Operator n-ary beserta batasnya; operand diambil dari elemen sesudahnya
+ */
+const convertNary = (element: Element, operator: string, operand: Element | undefined): string => {
+  const [, first, second] = getChildElements(element);
+  const tag = element.localName;
+  const hasSub = tag === 'msub' || tag === 'msubsup' || tag === 'munder' || tag === 'munderover';
+  const hasSup = tag !== 'msub' && tag !== 'munder';
+  const sub = hasSub ? convertElement(first) : '';
+  const sup = hasSup ? convertElement(hasSub ? second : first) : '';
+  const limitLocation = tag.startsWith('mu') || tag === 'mover' ? 'undOvr' : 'subSup';
+
+  const properties = [
+    `<m:chr m:val="${escapeXml(operator)}"/>`,
+    `<m:limLoc m:val="${limitLocation}"/>`,
+    !hasSub && '<m:subHide m:val="1"/>',
+    !hasSup && '<m:supHide m:val="1"/>',
+  ]
+    .filter(Boolean)
+    .join('');
+
+  return `<m:nary><m:naryPr>${properties}</m:naryPr>${wrap('sub', sub)}${wrap('sup', sup)}${wrap(
+    'e',
+    operand ? convertElement(operand) : ''
+  )}</m:nary>`;
+};
+
+/**
+ * Konversi deretan element; operator n-ary memakai element sesudahnya sebagai operand
+ */
+const convertSequence = (elements: Element[]): string => {
+  let xml = '';
+  for (let index = 0; index < elements.length; index++) {
+    const operator = getNaryOperator(elements[index]);
+    if (operator) {
+      xml += convertNary(elements[index], operator, elements[index + 1]);
+      index++;
+    } else {
+      xml += convertElement(elements[index]);
+    }
+  }
+  return xml;
+};
+
+const isFence = (element: Element | undefined): element is Element =>
+  element?.localName === 'mo' && element.getAttribute('fence') === 'true';
+
+/**
+ * mrow; \left( ... \right) menjadi delimiter OMML yang ikut membesar
+ */
+const convertRow = (element: Element): string => {
+  const children = getChildElements(element);
+  const first = children[0];
+  const last = children[children.length - 1];
+
+  if (children.length >= 2 && isFence(first) && isFence(last)) {
+    const begin = first.textContent ?? '';
+    const end = last.textContent ?? '';
+    return `<m:d><m:dPr><m:begChr m:val="${escapeXml(begin)}"/><m:endChr m:val="${escapeXml(
+      end
+    )}"/></m:dPr>${wrap('e', convertSequence(children.slice(1, -1)))}</m:d>`;
+  }
+  return convertSequence(children);
+};
+
+/**
+ * mover: accent (\hat, \vec, \bar) menjadi m:acc, selain itu batas di atas
+ */
+const convertOver = (element: Element): string => {
+  const [base, over] = getChildElements(element);
+  const overText = over?.localName === 'mo' ? (over.textContent ?? '') : '';
+
+  if (overText && element.getAttribute('accent') === 'true') {
+    return `<m:acc><m:accPr><m:chr m:val="${escapeXml(overText)}"/></m:accPr>${wrap(
+      'e',
+      convertElement(base)
+    )}</m:acc>`;
+  }
+  return `<m:limUpp>${wrap('e', convertElement(base))}${wrap('lim', convertElement(over))}</m:limUpp>`;
+};
+
+const convertTable = (element: Element): string => {
+  const rows = getChildElements(element)
+    .filter((row) => row.localName === 'mtr')
+    .map(
+      (row) =>
+        `<m:mr>${getChildElements(row)
+          .map((cell) => wrap('e', convertSequence(getChildElements(cell))))
+          .join('')}</m:mr>`
+    );
+  return rows.length > 0 ? `<m:m>${rows.join('')}</m:m>` : '';
+};
+
+const convertElement = (element: Element | undefined): string => {
+  if (!element) return '';
+
+  const children = getChildElements(element);
+  const [first, second, third] = children;
+
+  switch (element.localName) {
+    case 'mi':
+    case 'mn':
+    case 'mo':
+    case 'mtext':
+    case 'ms':
+      return convertToken(element);
+    case 'mspace':
+      return createMathRun(' ');
+    case 'annotation':
+    case 'annotation-xml':
+      return '';
+    case 'semantics':
+      return convertElement(first);
+    case 'mrow':
+      return convertRow(element);
+    case 'mfrac': {
+      const noBar = /^0(\.0*)?[a-z]*$/.test(element.getAttribute('linethickness') ?? '');
+      return `<m:f>${noBar ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : ''}${wrap(
+        'num',
+        convertElement(first)
+      )}${wrap('den', convertElement(second))}</m:f>`;
+    }
+    case 'msup':
+      return `<m:sSup>${wrap('e', convertElement(first))}${wrap('sup', convertElement(second))}</m:sSup>`;
+    case 'msub':
+      return `<m:sSub>${wrap('e', convertElement(first))}${wrap('sub', convertElement(second))}</m:sSub>`;
+    case 'msubsup':
+      return `<m:sSubSup>${wrap('e', convertElement(first))}${wrap(
+        'sub',
+        convertElement(second)
+      )}${wrap('sup', convertElement(third))}</m:sSubSup>`;
+    case 'munder':
+      return `<m:limLow>${wrap('e', convertElement(first))}${wrap('lim', convertElement(second))}</m:limLow>`;
+    case 'mover':
+      return convertOver(element);
+    case 'munderover':
+      return `<m:limUpp>${wrap(
+        'e',
+        `<m:limLow>${wrap('e', convertElement(first))}${wrap('lim', convertElement(second))}</m:limLow>`
+      )}${wrap('lim', convertElement(third))}</m:limUpp>`;
+    case 'msqrt':
+      return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/>${wrap(
+        'e',
+        convertSequence(children)
+      )}</m:rad>`;
+    case 'mroot':
+      return `<m:rad>${wrap('deg', convertElement(second))}${wrap('e', convertElement(first))}</m:rad>`;
+    case 'mtable':
+      return convertTable(element);
+    case 'menclose':
+      return `<m:borderBox>${wrap('e', convertSequence(children))}</m:borderBox>`;
+    case 'mphantom':
+      return `<m:phant><m:phantPr><m:show m:val="0"/></m:phantPr>${wrap(
+        'e',
+        convertSequence(children)
+      )}</m:phant>`;
+    default:
+      // math, mstyle, mpadded, merror dan element lain: isinya saja
+      return convertSequence(children);
+  }
+};
+
+/**
+ * Konversi element <math> menjadi m:oMath; math display dibungkus m:oMathPara
+ * @param math - Element math hasil KaTeX (output mathml)
+ */
+export const convertMathMLToOmml = (math: Element): string => {
+  const content = convertElement(math);
+  const omml = `<m:oMath>${content}</m:oMath>`;
+  return math.getAttribute('display') === 'block' ? `<m:oMathPara>${omml}</m:oMathPara>` : omml;
+};
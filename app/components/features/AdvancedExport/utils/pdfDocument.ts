@@ -0,0 +1,1140 @@
+/**
+ * @fileoverview Pembuat dokumen PDF dari HTML hasil convertMarkdownToHTML
+ * HTML di-render di iframe tersembunyi selebar area konten halaman; posisi teks, image,
+ * background dan border dibaca dari layout browser lalu dipotong menjadi halaman PDF
+ * @author Axel Modra
+ */
+
+import type { ExportOptions, PageSize } from '../types/export.types';
+import { THEMES } from './constants';
+import { generateStyledHTML } from './htmlGenerator';
+import { loadImage } from './imageLoader';
+import {
+  canEncodeWinAnsi,
+  createPdfFile,
+  encodeWinAnsi,
+  getFontResourceName,
+  getImageResourceName,
+  type PdfDestination,
+  type PdfFontFamily,
+  type PdfFontStyle,
+  type PdfImage,
+  type PdfLink,
+  type PdfOutlineItem,
+  type PdfPage,
+} from './pdfWriter';
+
+/**
+ * Ukuran halaman dalam pt
+ */
+const PAGE_SIZES_PT: Record<PageSize, { width: number; height: number }> = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 },
+  Legal: { width: 612, height: 1008 },
+};
+
+/** Margin halaman 25mm */
+const PAGE_MARGIN_PT = 70.87;
+const PT_PER_PX = 0.75;
+const RUNNING_TEXT_SIZE_PT = 9;
+const WATERMARK_SIZE_PT = 60;
+/** Resolusi raster image, diagram dan teks non-Latin relatif terhadap ukuran tampil */
+const IMAGE_SCALE = 2;
+const TEXT_SCALE = 3;
+
+/**
+ * Font CSS dengan metrik yang sama dengan font standar PDF,
+ * sehingga lebar teks di layout browser cocok dengan teks di PDF
+ */
+const CSS_FONT_STACKS: Record<PdfFontFamily, string> = {
+  Helvetica: 'Arial, Helvetica, "Liberation Sans", sans-serif',
+  Times: '"Times New Roman", Times, "Liberation Serif", serif',
+  Courier: '"Courier New", Courier, "Liberation Mono", monospace',
+};
+
+const HELVETICA: PdfFontStyle = { family: 'Helvetica', bold: false, italic: false };
+const RUNNING_TEXT_COLOR: Rgb = [107, 114, 128];
+const CHECKBOX_BORDER_COLOR: Rgb = [107, 114, 128];
+
+type Rgb = [number, number, number];
+
+/**
+ * Kotak dalam px CSS, relatif terhadap awal konten
+ */
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type LayoutItem =
+  | (Box & { type: 'rect'; color: Rgb })
+  | (Box & {
+      type: 'text';
+      text: string;
+      font: PdfFontStyle;
+      size: number;
+      color: Rgb;
+      baseline: number;
+      underline: boolean;
+      strike: boolean;
+    })
+  | (Box & { type: 'image'; image: number })
+  | (Box & { type: 'bullet'; shape: 'disc' | 'circle' | 'square'; color: Rgb })
+  | (Box & { type: 'checkbox'; checked: boolean; color: Rgb });
+
+interface LayoutLink extends Box {
+  uri?: string;
+  anchor?: string;
+}
+
+interface LayoutHeading extends Box {
+  level: number;
+  title: string;
+}
+
+/**
+ * Marker list item yang menunggu baris pertama li untuk menentukan posisinya
+ */
+interface PendingMarker {
+  item: Element;
+  x: number;
+  text?: string;
+  shape?: 'disc' | 'circle' | 'square';
+  style: CSSStyleDeclaration;
+}
+
+interface LayoutContext {
+  view: Window;
+  range: Range;
+  origin: { x: number; y: number };
+  accentColor: Rgb;
+  items: LayoutItem[];
+  links: LayoutLink[];
+  headings: LayoutHeading[];
+  anchors: Map<string, number>;
+  images: PdfImage[];
+  imagesBySrc: Map<string, number | null>;
+  markers: PendingMarker[];
+}
+
+/**
+ * Teks di header, footer atau watermark; teks di luar WinAnsi di-raster menjadi image
+ */
+interface RunningLabel {
+  text: string;
+  font: PdfFontStyle;
+  size: number;
+  color: Rgb;
+  width: number;
+  image?: { index: number; height: number; descent: number };
+}
+
+interface Word {
+  start: number;
+  end: number;
+  rect: DOMRect;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+const ascentRatios = new Map<string, number>();
+
+const getMeasureContext = (): CanvasRenderingContext2D => {
+  if (!measureContext) {
+    const context = document.createElement('canvas').getContext('2d');
+    if (!context) throw new Error('Canvas tidak tersedia untuk layout PDF');
+    measureContext = context;
+  }
+  return measureContext;
+};
+
+const getCssFont = (font: PdfFontStyle, size: number): string =>
+  `${font.italic ? 'italic ' : ''}${font.bold ? 'bold ' : ''}${size}px ${CSS_FONT_STACKS[font.family]}`;
+
+/**
+ * Lebar teks (px) jika ditulis dengan font standar PDF
+ */
+const measurePdfText = (text: string, font: PdfFontStyle, size: number): number => {
+  const context = getMeasureContext();
+  context.font = getCssFont(font, 100);
+  return (context.measureText(text).width * size) / 100;
+};
+
+/**
+ * Posisi baseline di dalam kotak teks sebagai rasio tinggi kotak
+ */
+const getAscentRatio = (cssFont: string): number => {
+  const cached = ascentRatios.get(cssFont);
+  if (cached !== undefined) return cached;
+
+  const context = getMeasureContext();
+  context.font = cssFont;
+  const metrics = context.measureText('Hg');
+  const ascent = metrics.fontBoundingBoxAscent;
+  const descent = metrics.fontBoundingBoxDescent;
+  const ratio = ascent && descent ? ascent / (ascent + descent) : 0.8;
+  ascentRatios.set(cssFont, ratio);
+  return ratio;
+};
+
+/**
+ * Warna computed style (rgb/rgba) sebagai RGB, dicampur dengan putih jika transparan
+ */
+const parseColor = (value: string): Rgb | null => {
+  const match = value.match(/^rgba?\(([^)]+)\)$/);
+  if (!match) return null;
+
+  const [r, g, b, a = 1] = match[1]
+    .split(/[\s,/]+/)
+    .filter(Boolean)
+    .map(Number);
+  if (!a) return null;
+  const blend = (channel: number) => Math.round(channel * a + 255 * (1 - a));
+  return [blend(r), blend(g), blend(b)];
+};
+
+const hexToRgb = (hex: string): Rgb => {
+  const value = Number.parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+const getPdfFontFamily = (cssFamily: string): PdfFontFamily => {
+  const family = cssFamily.split(',')[0].toLowerCase();
+  if (/mono|courier|consolas|menlo/.test(family)) return 'Courier';
+  if (/sans/.test(family)) return 'Helvetica';
+  if (/times|georgia|serif|math|cambria/.test(family)) return 'Times';
+  return 'Helvetica';
+};
+
+const getPdfFont = (style: CSSStyleDeclaration): PdfFontStyle => ({
+  family: getPdfFontFamily(style.fontFamily),
+  bold: Number.parseInt(style.fontWeight, 10) >= 600 || style.fontWeight === 'bold',
+  italic: style.fontStyle !== 'normal',
+});
+
+/**
+ * Piksel canvas sebagai image RGB, dengan alpha hanya jika ada piksel transparan
+ */
+const canvasToPdfImage = (canvas: HTMLCanvasElement): PdfImage | null => {
+  const context = canvas.getContext('2d');
+  if (!context || !canvas.width || !canvas.height) return null;
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const pixels = canvas.width * canvas.height;
+  const rgb = new Uint8Array(pixels * 3);
+  const alpha = new Uint8Array(pixels);
+  let isOpaque = true;
+
+  for (let i = 0; i < pixels; i++) {
+    rgb[i * 3] = data[i * 4];
+    rgb[i * 3 + 1] = data[i * 4 + 1];
+    rgb[i * 3 + 2] = data[i * 4 + 2];
+    alpha[i] = data[i * 4 + 3];
+    if (alpha[i] !== 255) isOpaque = false;
+  }
+
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    encoding: 'rgb',
+    data: rgb,
+    alpha: isOpaque ? undefined : alpha,
+  };
+};
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const decodeImage = async (blob: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const element = new Image();
+    element.src = url;
+    await element.decode();
+    return element;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Muat image dan raster ulang sesuai ukuran tampil; foto JPEG tetap disimpan sebagai JPEG
+ */
+const loadPdfImage = async (
+  src: string,
+  width: number,
+  height: number
+): Promise<PdfImage | null> => {
+  const loaded = await loadImage(src);
+  if (!loaded) return null;
+
+  try {
+    const element = await decodeImage(
+      new Blob([loaded.data as BlobPart], { type: loaded.mediaType })
+    );
+    const naturalWidth = element.naturalWidth || width;
+    const naturalHeight = element.naturalHeight || height;
+    const scale = Math.min(1, (width * IMAGE_SCALE) / naturalWidth);
+    const canvas = createCanvas(naturalWidth * scale, naturalHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    if (loaded.mediaType === 'image/jpeg') {
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(element, 0, 0, canvas.width, canvas.height);
+      const jpeg = await new Promise<Blob | null>((resolve) =>
+        canvas.toBlob(resolve, 'image/jpeg', 0.92)
+      );
+      if (!jpeg) return null;
+      return {
+        width: canvas.width,
+        height: canvas.height,
+        encoding: 'jpeg',
+        data: new Uint8Array(await jpeg.arrayBuffer()),
+      };
+    }
+
+    context.drawImage(element, 0, 0, canvas.width, canvas.height);
+    return canvasToPdfImage(canvas);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Raster SVG inline (diagram) sesuai ukuran tampil
+ */
+const rasterizeSvg = async (svg: Element, box: Box): Promise<PdfImage | null> => {
+  try {
+    const clone = svg.cloneNode(true) as Element;
+    clone.setAttribute('width', String(box.width));
+    clone.setAttribute('height', String(box.height));
+    const markup = new XMLSerializer().serializeToString(clone);
+    const element = await decodeImage(new Blob([markup], { type: 'image/svg+xml' }));
+
+    const canvas = createCanvas(box.width * IMAGE_SCALE, box.height * IMAGE_SCALE);
+    canvas.getContext('2d')?.drawImage(element, 0, 0, canvas.width, canvas.height);
+    return canvasToPdfImage(canvas);
+  } catch {
+    // SVG dengan foreignObject bisa membuat canvas tainted
+    return null;
+  }
+};
+
+/**
+ * Raster teks yang tidak bisa ditulis dengan font standar (emoji, aksara non-Latin)
+ */
+const rasterizeText = (
+  text: string,
+  cssFont: string,
+  color: Rgb,
+  width: number,
+  height: number,
+  ascent: number
+): PdfImage | null => {
+  const canvas = createCanvas(width * TEXT_SCALE, height * TEXT_SCALE);
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.scale(TEXT_SCALE, TEXT_SCALE);
+  context.font = cssFont;
+  context.fillStyle = `rgb(${color.join(',')})`;
+  context.textBaseline = 'alphabetic';
+  context.fillText(text, 0, ascent);
+  return canvasToPdfImage(canvas);
+};
+
+const addImage = (ctx: LayoutContext, image: PdfImage): number => ctx.images.push(image) - 1;
+
+const toBox = (rect: DOMRect, ctx: LayoutContext): Box => ({
+  x: rect.left - ctx.origin.x,
+  y: rect.top - ctx.origin.y,
+  width: rect.width,
+  height: rect.height,
+});
+
+/**
+ * Garis dekorasi teks; text-decoration diwariskan dari elemen induk
+ */
+const getTextDecorations = (element: Element, ctx: LayoutContext) => {
+  let underline = false;
+  let strike = false;
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const line = ctx.view.getComputedStyle(current).textDecorationLine;
+    underline ||= line.includes('underline');
+    strike ||= line.includes('line-through');
+  }
+  return { underline, strike };
+};
+
+/**
+ * Posisi setiap kata di text node; kata yang terpotong ke beberapa baris diukur per karakter
+ */
+const measureWords = (node: Text, ctx: LayoutContext): Word[] => {
+  const words: Word[] = [];
+  const { range } = ctx;
+
+  for (const match of node.data.matchAll(/\S+/g)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    range.setStart(node, start);
+    range.setEnd(node, end);
+    const rects = range.getClientRects();
+
+    if (rects.length === 1) {
+      words.push({ start, end, rect: rects[0] });
+    } else if (rects.length > 1) {
+      for (let i = start; i < end; ) {
+        const next = i + ((node.data.codePointAt(i) ?? 0) > 0xffff ? 2 : 1);
+        range.setStart(node, i);
+        range.setEnd(node, next);
+        const rect = range.getClientRects()[0];
+        if (rect) words.push({ start: i, end: next, rect });
+        i = next;
+      }
+    }
+  }
+
+  return words.filter(({ rect }) => rect.width > 0 || rect.height > 0);
+};
+
+/**
+ * Ubah marker li yang menunggu menjadi item layout di baris pertama li tersebut
+ */
+const placeMarkers = (node: Node, box: Box, baseline: number, ctx: LayoutContext) => {
+  ctx.markers = ctx.markers.filter((marker) => {
+    if (!marker.item.contains(node)) return true;
+
+    const size = Number.parseFloat(marker.style.fontSize);
+    const color = parseColor(marker.style.color) ?? [0, 0, 0];
+
+    if (marker.text) {
+      const font = getPdfFont(marker.style);
+      const width = measurePdfText(marker.text, font, size);
+      ctx.items.push({
+        type: 'text',
+        text: marker.text,
+        font,
+        size,
+        color,
+        x: marker.x - size * 0.4 - width,
+        y: box.y,
+        width,
+        height: box.height,
+        baseline,
+        underline: false,
+        strike: false,
+      });
+    } else if (marker.shape) {
+      const diameter = size * 0.35;
+      ctx.items.push({
+        type: 'bullet',
+        shape: marker.shape,
+        color,
+        x: marker.x - size * 0.9,
+        y: baseline - size * 0.3 - diameter / 2,
+        width: diameter,
+        height: diameter,
+      });
+    }
+    return false;
+  });
+};
+
+const toAlphabetic = (value: number, upper: boolean): string => {
+  let result = '';
+  for (let n = value; n > 0; n = Math.floor((n - 1) / 26)) {
+    result = String.fromCharCode(97 + ((n - 1) % 26)) + result;
+  }
+  return upper ? result.toUpperCase() : result;
+};
+
+const toRoman = (value: number, upper: boolean): string => {
+  const numerals: [number, string][] = [
+    [1000, 'm'],
+    [900, 'cm'],
+    [500, 'd'],
+    [400, 'cd'],
+    [100, 'c'],
+    [90, 'xc'],
+    [50, 'l'],
+    [40, 'xl'],
+    [10, 'x'],
+    [9, 'ix'],
+    [5, 'v'],
+    [4, 'iv'],
+    [1, 'i'],
+  ];
+  let result = '';
+  let rest = value;
+  for (const [amount, numeral] of numerals) {
+    for (; rest >= amount; rest -= amount) result += numeral;
+  }
+  return upper ? result.toUpperCase() : result;
+};
+
+/**
+ * Marker li sesuai list-style-type (browser tidak mengekspos ::marker di layout)
+ */
+const createMarker = (
+  item: Element,
+  style: CSSStyleDeclaration,
+  box: Box
+): PendingMarker | null => {
+  const list = item.parentElement;
+  const type = style.listStyleType;
+  if (!list || style.display !== 'list-item' || type === 'none') return null;
+
+  if (['disc', 'circle', 'square'].includes(type)) {
+    return { item, x: box.x, shape: type as PendingMarker['shape'], style };
+  }
+
+  const siblings = Array.from(list.children).filter((child) => child.localName === 'li');
+  const start = Number.parseInt(list.getAttribute('start') ?? '1', 10) || 1;
+  const value = start + siblings.indexOf(item);
+  const upper = type.startsWith('upper');
+  const label = /alpha|latin/.test(type)
+    ? toAlphabetic(value, upper)
+    : /roman/.test(type)
+      ? toRoman(value, upper)
+      : String(value);
+
+  return { item, x: box.x, text: `${label}.`, style };
+};
+
+const collectText = (node: Text, ctx: LayoutContext) => {
+  const parent = node.parentElement;
+  if (!parent || !node.data.trim()) return;
+
+  const style = ctx.view.getComputedStyle(parent);
+  if (style.visibility !== 'visible') return;
+
+  const font = getPdfFont(style);
+  const size = Number.parseFloat(style.fontSize);
+  const color = parseColor(style.color) ?? [0, 0, 0];
+  const cssFont = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`;
+  const ascentRatio = getAscentRatio(cssFont);
+  const { underline, strike } = getTextDecorations(parent, ctx);
+  const preservesSpaces = /^pre|break-spaces/.test(style.whiteSpace);
+
+  // Kata di baris yang sama dengan encoding yang sama digabung menjadi satu fragment
+  const fragments: { words: Word[]; encodable: boolean }[] = [];
+  for (const word of measureWords(node, ctx)) {
+    const encodable = canEncodeWinAnsi(node.data.slice(word.start, word.end));
+    const current = fragments[fragments.length - 1];
+    const last = current?.words[current.words.length - 1];
+    const isSameLine =
+      last &&
+      Math.abs(word.rect.top - last.rect.top) < last.rect.height / 2 &&
+      word.rect.left >= last.rect.right - 1;
+
+    if (current && isSameLine && current.encodable === encodable) {
+      current.words.push(word);
+    } else {
+      fragments.push({ words: [word], encodable });
+    }
+  }
+
+  for (const { words, encodable } of fragments) {
+    const first = words[0];
+    const last = words[words.length - 1];
+    const raw = node.data.slice(first.start, last.end);
+    const text = preservesSpaces
+      ? raw.replace(/\t/g, '    ').replace(/[\r\n]/g, '')
+      : raw.replace(/\s+/g, ' ');
+
+    const left = Math.min(...words.map(({ rect }) => rect.left));
+    const right = Math.max(...words.map(({ rect }) => rect.right));
+    const top = Math.min(...words.map(({ rect }) => rect.top));
+    const bottom = Math.max(...words.map(({ rect }) => rect.bottom));
+    const box = toBox(new DOMRect(left, top, right - left, bottom - top), ctx);
+    const baseline = box.y + box.height * ascentRatio;
+
+    placeMarkers(node, box, baseline, ctx);
+
+    if (encodable) {
+      ctx.items.push({
+        type: 'text',
+        text,
+        font,
+        size,
+        color,
+        baseline,
+        underline,
+        strike,
+        ...box,
+      });
+      continue;
+    }
+
+    const image = rasterizeText(
+      text,
+      cssFont,
+      color,
+      box.width,
+      box.height,
+      box.height * ascentRatio
+    );
+    if (image) ctx.items.push({ type: 'image', image: addImage(ctx, image), ...box });
+  }
+};
+
+const collectImage = async (element: Element, box: Box, ctx: LayoutContext) => {
+  if (!box.width || !box.height) return;
+
+  let index: number | null;
+  if (element.localName === 'img') {
+    const src = (element as HTMLImageElement).currentSrc || element.getAttribute('src') || '';
+    const key = `${src}@${Math.round(box.width)}`;
+    if (!ctx.imagesBySrc.has(key)) {
+      const image = src ? await loadPdfImage(src, box.width, box.height) : null;
+      ctx.imagesBySrc.set(key, image ? addImage(ctx, image) : null);
+    }
+    index = ctx.imagesBySrc.get(key) ?? null;
+  } else {
+    const image = await rasterizeSvg(element, box);
+    index = image ? addImage(ctx, image) : null;
+  }
+
+  if (index !== null) {
+    ctx.items.push({ type: 'image', image: index, ...box });
+  }
+};
+
+/**
+ * Background dan border elemen sebagai kotak berwarna (sudut membulat diabaikan)
+ */
+const collectDecorations = (style: CSSStyleDeclaration, box: Box, ctx: LayoutContext) => {
+  const background = parseColor(style.backgroundColor);
+  if (background) ctx.items.push({ type: 'rect', color: background, ...box });
+
+  for (const side of ['Top', 'Right', 'Bottom', 'Left'] as const) {
+    const width = Number.parseFloat(style.getPropertyValue(`border-${side.toLowerCase()}-width`));
+    const borderStyle = style.getPropertyValue(`border-${side.toLowerCase()}-style`);
+    const color = parseColor(style.getPropertyValue(`border-${side.toLowerCase()}-color`));
+    if (!width || !color || borderStyle === 'none' || borderStyle === 'hidden') continue;
+
+    ctx.items.push({
+      type: 'rect',
+      color,
+      x: side === 'Right' ? box.x + box.width - width : box.x,
+      y: side === 'Bottom' ? box.y + box.height - width : box.y,
+      width: side === 'Top' || side === 'Bottom' ? box.width : width,
+      height: side === 'Left' || side === 'Right' ? box.height : width,
+    });
+  }
+};
+
+/**
+ * Kumpulkan item layout dari elemen dan turunannya, dalam urutan gambar dokumen
+ */
+const collectElement = async (element: Element, ctx: LayoutContext): Promise<void> => {
+  const style = ctx.view.getComputedStyle(element);
+  if (style.display === 'none' || element.classList.contains('sr-only')) return;
+
+  const boxes = Array.from(element.getClientRects(), (rect) => toBox(rect, ctx));
+  const [box] = boxes;
+  if (!box) return;
+
+  if (style.visibility === 'visible') {
+    for (const fragment of boxes) collectDecorations(style, fragment, ctx);
+  }
+
+  if (element.id) ctx.anchors.set(element.id, box.y);
+
+  const headingLevel = /^h[1-6]$/.test(element.localName) ? Number(element.localName[1]) : 0;
+  const title = element.textContent?.replace(/\s+/g, ' ').trim();
+  if (headingLevel && title) {
+    ctx.headings.push({ level: headingLevel, title, ...box });
+  }
+
+  const href = element.localName === 'a' ? element.getAttribute('href') : null;
+  if (href?.startsWith('#')) {
+    ctx.links.push(
+      ...boxes.map((fragment) => ({ ...fragment, anchor: decodeURIComponent(href.slice(1)) }))
+    );
+  } else if (href && /^(https?|mailto):/i.test(href)) {
+    ctx.links.push(...boxes.map((fragment) => ({ ...fragment, uri: href })));
+  }
+
+  switch (element.localName) {
+    case 'img':
+    case 'svg':
+      await collectImage(element, box, ctx);
+      return;
+    case 'input':
+      if (element.getAttribute('type') === 'checkbox') {
+        ctx.items.push({
+          type: 'checkbox',
+          checked: (element as HTMLInputElement).checked || element.hasAttribute('checked'),
+          color: ctx.accentColor,
+          ...box,
+        });
+      }
+      return;
+    case 'li': {
+      const marker = createMarker(element, style, box);
+      if (marker) ctx.markers.push(marker);
+      break;
+    }
+  }
+
+  for (const child of Array.from(element.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) {
+      collectText(child as Text, ctx);
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      await collectElement(child as Element, ctx);
+    }
+  }
+};
+
+/**
+ * CSS tambahan agar layout di iframe sesuai area konten halaman dan font standar PDF
+ */
+const generatePdfLayoutStyles = (options: ExportOptions, width: number, height: number): string => {
+  const family: PdfFontFamily = ['Times New Roman', 'Georgia'].includes(options.fontFamily)
+    ? 'Times'
+    : 'Helvetica';
+
+  return `
+        html { overflow: hidden; }
+        html, body { margin: 0 !important; padding: 0 !important; background: transparent !important; }
+        body { width: ${width}px; max-width: none !important; font-family: ${CSS_FONT_STACKS[family]} !important; }
+        .content { margin: 0; padding: 0; }
+        body code, body kbd, body samp, body pre, body pre * { font-family: ${CSS_FONT_STACKS.Courier} !important; }
+        body pre { white-space: pre-wrap !important; overflow-wrap: anywhere; }
+        body img, body svg { max-width: 100%; max-height: ${height}px; }
+  `;
+};
+
+/**
+ * Render HTML di iframe tersembunyi dan tunggu font serta image selesai dimuat
+ */
+const renderInFrame = async (html: string, width: number): Promise<HTMLIFrameElement> => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.tabIndex = -1;
+  frame.style.cssText = `position: fixed; left: -100000px; top: 0; width: ${width}px; height: 1000px; border: 0; opacity: 0; pointer-events: none;`;
+
+  const loaded = new Promise<void>((resolve) => {
+    frame.addEventListener('load', () => resolve(), { once: true });
+  });
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+  await loaded;
+
+  const frameDocument = frame.contentDocument;
+  if (!frameDocument) throw new Error('Gagal menyiapkan layout PDF');
+
+  await frameDocument.fonts.ready;
+  await Promise.all(
+    Array.from(frameDocument.images, (image) => image.decode().catch(() => undefined))
+  );
+  return frame;
+};
+
+/**
+ * Posisi awal setiap halaman (px); baris teks dan image tidak dipotong,
+ * dan heading tidak ditinggalkan sendirian di bawah halaman
+ */
+const paginate = (items: LayoutItem[], headings: LayoutHeading[], pageHeight: number): number[] => {
+  const atoms = items.filter((item) => item.type !== 'rect').sort((a, b) => a.y - b.y);
+  const contentHeight = items.reduce((height, item) => Math.max(height, item.y + item.height), 0);
+  const starts = [0];
+
+  for (let start = 0; start + pageHeight < contentHeight; ) {
+    let cut = start + pageHeight;
+
+    const heading = headings.find(
+      (candidate) =>
+        candidate.y > start &&
+        candidate.y + candidate.height <= cut &&
+        !atoms.some(
+          (atom) => atom.y >= candidate.y + candidate.height - 1 && atom.y + atom.height <= cut
+        )
+    );
+    if (heading) cut = heading.y;
+
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const atom of atoms) {
+        if (atom.y > start && atom.y < cut && atom.y + atom.height > cut) {
+          cut = atom.y;
+          changed = true;
+        }
+      }
+    }
+
+    // Item yang lebih tinggi dari satu halaman tetap dipotong
+    if (cut <= start + 1) cut = start + pageHeight;
+    starts.push(cut);
+    start = cut;
+  }
+
+  return starts;
+};
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const formatColor = (color: Rgb, operator: 'rg' | 'RG'): string =>
+  `${color.map((channel) => formatNumber(channel / 255)).join(' ')} ${operator}`;
+
+/**
+ * Path lingkaran dengan empat kurva Bezier
+ */
+const circlePath = (cx: number, cy: number, r: number): string => {
+  const k = r * 0.5523;
+  const n = formatNumber;
+  return [
+    `${n(cx + r)} ${n(cy)} m`,
+    `${n(cx + r)} ${n(cy + k)} ${n(cx + k)} ${n(cy + r)} ${n(cx)} ${n(cy + r)} c`,
+    `${n(cx - k)} ${n(cy + r)} ${n(cx - r)} ${n(cy + k)} ${n(cx - r)} ${n(cy)} c`,
+    `${n(cx - r)} ${n(cy - k)} ${n(cx - k)} ${n(cy - r)} ${n(cx)} ${n(cy - r)} c`,
+    `${n(cx + k)} ${n(cy - r)} ${n(cx + r)} ${n(cy - k)} ${n(cx + r)} ${n(cy)} c`,
+  ].join(' ');
+};
+
+const createRunningLabel = (
+  text: string,
+  font: PdfFontStyle,
+  size: number,
+  color: Rgb,
+  images: PdfImage[]
+): RunningLabel => {
+  const sizePx = size / PT_PER_PX;
+  const width = measurePdfText(text, font, sizePx) * PT_PER_PX;
+  if (canEncodeWinAnsi(text)) return { text, font, size, color, width };
+
+  const cssFont = getCssFont(font, sizePx);
+  const context = getMeasureContext();
+  context.font = cssFont;
+  const metrics = context.measureText(text);
+  const ascent = metrics.fontBoundingBoxAscent || sizePx * 0.8;
+  const descent = metrics.fontBoundingBoxDescent || sizePx * 0.2;
+  const image = rasterizeText(text, cssFont, color, metrics.width, ascent + descent, ascent);
+  if (!image) return { text, font, size, color, width };
+
+  return {
+    text,
+    font,
+    size,
+    color,
+    width: metrics.width * PT_PER_PX,
+    image: {
+      index: images.push(image) - 1,
+      height: (ascent + descent) * PT_PER_PX,
+      descent: descent * PT_PER_PX,
+    },
+  };
+};
+
+/**
+ * Tulis label dengan baseline di (x, y), opsional diputar (derajat)
+ */
+const drawLabel = (label: RunningLabel, x: number, y: number, rotation = 0): string => {
+  const angle = (rotation * Math.PI) / 180;
+  const [cos, sin] = [Math.cos(angle), Math.sin(angle)].map(formatNumber);
+  const matrix = `${cos} ${sin} ${formatNumber(-Math.sin(angle))} ${cos} ${formatNumber(x)} ${formatNumber(y)} cm`;
+
+  if (label.image) {
+    const { index, height, descent } = label.image;
+    return `q ${matrix} ${formatNumber(label.width)} 0 0 ${formatNumber(height)} 0 ${formatNumber(-descent)} cm /${getImageResourceName(index)} Do Q`;
+  }
+  return `q ${matrix} BT /${getFontResourceName(label.font)} ${label.size} Tf ${formatColor(label.color, 'rg')} 0 0 Td ${encodeWinAnsi(label.text)} Tj ET Q`;
+};
+
+/**
+ * Susun tree outline dari daftar heading berdasarkan level
+ */
+const buildOutline = (
+  headings: LayoutHeading[],
+  getDestination: (y: number) => PdfDestination
+): PdfOutlineItem[] => {
+  const root: PdfOutlineItem[] = [];
+  const stack: { level: number; item: PdfOutlineItem }[] = [];
+
+  for (const heading of headings) {
+    const item = { title: heading.title, destination: getDestination(heading.y), children: [] };
+    while (stack.length && stack[stack.length - 1].level >= heading.level) stack.pop();
+    (stack.length ? stack[stack.length - 1].item.children : root).push(item);
+    stack.push({ level: heading.level, item });
+  }
+
+  return root;
+};
+
+/**
+ * Buat dokumen PDF dengan halaman sesuai ukuran dan orientasi, header/footer,
+ * nomor halaman, outline dari heading dan link yang bisa diklik
+ *
+ * @param options - Export options (metadata, ukuran halaman, font, theme, watermark)
+ * @param htmlContent - HTML hasil convertMarkdownToHTML
+ * @returns Blob application/pdf
+ */
+export const createPdfDocument = async (
+  options: ExportOptions,
+  htmlContent: string
+): Promise<Blob> => {
+  const createdAt = new Date();
+  const theme = THEMES[options.theme] || THEMES.default;
+  const pageSize = PAGE_SIZES_PT[options.pageSize] ?? PAGE_SIZES_PT.A4;
+  const isLandscape = options.orientation === 'landscape';
+  const pageWidth = isLandscape ? pageSize.height : pageSize.width;
+  const pageHeight = isLandscape ? pageSize.width : pageSize.height;
+  const contentWidth = (pageWidth - PAGE_MARGIN_PT * 2) / PT_PER_PX;
+  const contentHeight = (pageHeight - PAGE_MARGIN_PT * 2) / PT_PER_PX;
+
+  // Header, footer dan watermark digambar langsung di halaman PDF
+  const html = generateStyledHTML({
+    ...options,
+    headerFooter: false,
+    watermark: '',
+    htmlContent,
+    themeConfig: theme,
+  }).replace(
+    '</head>',
+    `<style>${generatePdfLayoutStyles(options, contentWidth, contentHeight)}</style>\n</head>`
+  );
+
+  const frame = await renderInFrame(html, contentWidth);
+  try {
+    const view = frame.contentWindow;
+    const frameDocument = frame.contentDocument;
+    if (!view || !frameDocument) throw new Error('Gagal menyiapkan layout PDF');
+
+    const root = frameDocument.querySelector('.content') ?? frameDocument.body;
+    const rootRect = root.getBoundingClientRect();
+    const ctx: LayoutContext = {
+      view,
+      range: frameDocument.createRange(),
+      origin: { x: rootRect.left, y: rootRect.top },
+      accentColor: hexToRgb(theme.accentColor),
+      items: [],
+      links: [],
+      headings: [],
+      anchors: new Map(),
+      images: [],
+      imagesBySrc: new Map(),
+      markers: [],
+    };
+
+    for (const child of Array.from(root.children)) {
+      await collectElement(child, ctx);
+    }
+
+    const pageStarts = paginate(ctx.items, ctx.headings, contentHeight);
+    const toPdfX = (x: number) => PAGE_MARGIN_PT + x * PT_PER_PX;
+    const toPdfY = (y: number, start: number) =>
+      pageHeight - PAGE_MARGIN_PT - (y - start) * PT_PER_PX;
+    const getPageIndex = (y: number) => {
+      let index = 0;
+      while (index < pageStarts.length - 1 && pageStarts[index + 1] <= y + 0.5) index++;
+      return index;
+    };
+    const getDestination = (y: number): PdfDestination => {
+      const pageIndex = getPageIndex(y);
+      return {
+        pageIndex,
+        top: Math.min(pageHeight, toPdfY(y, pageStarts[pageIndex]) + RUNNING_TEXT_SIZE_PT),
+      };
+    };
+
+    const headerLabels = options.headerFooter
+      ? {
+          title: options.title
+            ? createRunningLabel(
+                options.title,
+                HELVETICA,
+                RUNNING_TEXT_SIZE_PT,
+                RUNNING_TEXT_COLOR,
+                ctx.images
+              )
+            : null,
+          author: options.author
+            ? createRunningLabel(
+                options.author,
+                HELVETICA,
+                RUNNING_TEXT_SIZE_PT,
+                RUNNING_TEXT_COLOR,
+                ctx.images
+              )
+            : null,
+        }
+      : null;
+    const watermark = options.watermark
+      ? createRunningLabel(
+          options.watermark,
+          { ...HELVETICA, bold: true },
+          WATERMARK_SIZE_PT,
+          hexToRgb(theme.accentColor).map((channel) =>
+            Math.round(channel * 0.15 + 255 * 0.85)
+          ) as Rgb,
+          ctx.images
+        )
+      : null;
+
+    const renderItem = (item: LayoutItem, start: number): string => {
+      const x = toPdfX(item.x);
+      const bottom = toPdfY(item.y + item.height, start);
+      const width = item.width * PT_PER_PX;
+      const height = item.height * PT_PER_PX;
+      const n = formatNumber;
+
+      switch (item.type) {
+        case 'rect':
+          return `${formatColor(item.color, 'rg')} ${n(x)} ${n(bottom)} ${n(width)} ${n(height)} re f`;
+        case 'image':
+          return `q ${n(width)} 0 0 ${n(height)} ${n(x)} ${n(bottom)} cm /${getImageResourceName(item.image)} Do Q`;
+        case 'bullet': {
+          const color = formatColor(item.color, item.shape === 'circle' ? 'RG' : 'rg');
+          if (item.shape === 'square')
+            return `${color} ${n(x)} ${n(bottom)} ${n(width)} ${n(height)} re f`;
+          const path = circlePath(x + width / 2, bottom + height / 2, width / 2);
+          return item.shape === 'circle' ? `${color} 0.6 w ${path} S` : `${color} ${path} f`;
+        }
+        case 'checkbox': {
+          if (!item.checked) {
+            return `${formatColor(CHECKBOX_BORDER_COLOR, 'RG')} 0.75 w ${n(x)} ${n(bottom)} ${n(width)} ${n(height)} re S`;
+          }
+          const check = `${n(x + width * 0.22)} ${n(bottom + height * 0.52)} m ${n(x + width * 0.42)} ${n(bottom + height * 0.3)} l ${n(x + width * 0.78)} ${n(bottom + height * 0.72)} l S`;
+          return `${formatColor(item.color, 'rg')} ${n(x)} ${n(bottom)} ${n(width)} ${n(height)} re f 1 1 1 RG 1.2 w ${check}`;
+        }
+        case 'text': {
+          const baseline = toPdfY(item.baseline, start);
+          const naturalWidth = measurePdfText(item.text, item.font, item.size);
+          // Skala horizontal menyamakan lebar teks PDF dengan lebar di layout browser
+          const scale = naturalWidth
+            ? Math.min(200, Math.max(50, (item.width / naturalWidth) * 100))
+            : 100;
+          const lineWidth = Math.max(0.5, item.size * 0.06 * PT_PER_PX);
+          const lines = [
+            item.underline && baseline - item.size * 0.12 * PT_PER_PX,
+            item.strike && baseline + item.size * 0.28 * PT_PER_PX,
+          ]
+            .filter((y): y is number => typeof y === 'number')
+            .map((y) => `${n(x)} ${n(y - lineWidth / 2)} ${n(width)} ${n(lineWidth)} re f`);
+
+          return [
+            `BT /${getFontResourceName(item.font)} ${n(item.size * PT_PER_PX)} Tf ${formatColor(item.color, 'rg')} ${n(scale)} Tz ${n(x)} ${n(baseline)} Td ${encodeWinAnsi(item.text)} Tj ET`,
+            ...lines,
+          ].join('\n');
+        }
+      }
+    };
+
+    const pages: PdfPage[] = pageStarts.map((start, pageIndex) => {
+      const end = pageStarts[pageIndex + 1] ?? Number.POSITIVE_INFINITY;
+      const isOnPage = (item: Box) =>
+        (pageIndex === 0 || item.y >= start - 0.5) && item.y < end - 0.5;
+      const intersectsPage = (item: Box) => item.y < end && item.y + item.height > start;
+      const content: string[] = [];
+
+      if (watermark) {
+        content.push(
+          drawLabel(
+            watermark,
+            pageWidth / 2 -
+              (watermark.width / 2) * Math.SQRT1_2 +
+              (WATERMARK_SIZE_PT / 3) * Math.SQRT1_2,
+            pageHeight / 2 - (watermark.width / 2 + WATERMARK_SIZE_PT / 3) * Math.SQRT1_2,
+            45
+          )
+        );
+      }
+
+      // Konten dipotong (clip) di area konten agar background yang terpotong halaman rapi
+      content.push(
+        `q ${formatNumber(PAGE_MARGIN_PT)} ${formatNumber(PAGE_MARGIN_PT)} ${formatNumber(
+          contentWidth * PT_PER_PX
+        )} ${formatNumber(contentHeight * PT_PER_PX)} re W n`
+      );
+      for (const item of ctx.items) {
+        const isVisible =
+          item.type === 'rect' || item.height > contentHeight
+            ? intersectsPage(item)
+            : isOnPage(item);
+        if (isVisible) content.push(renderItem(item, start));
+      }
+      content.push('Q');
+
+      if (headerLabels) {
+        const headerY = pageHeight - PAGE_MARGIN_PT + 24;
+        if (headerLabels.title)
+          content.push(drawLabel(headerLabels.title, PAGE_MARGIN_PT, headerY));
+        if (headerLabels.author) {
+          content.push(
+            drawLabel(
+              headerLabels.author,
+              pageWidth - PAGE_MARGIN_PT - headerLabels.author.width,
+              headerY
+            )
+          );
+        }
+        content.push(
+          `${formatColor(RUNNING_TEXT_COLOR, 'RG')} 0.5 w ${formatNumber(PAGE_MARGIN_PT)} ${formatNumber(
+            headerY - 8
+          )} m ${formatNumber(pageWidth - PAGE_MARGIN_PT)} ${formatNumber(headerY - 8)} l S`
+        );
+      }
+
+      if (options.includePageNumbers) {
+        const pageNumber = createRunningLabel(
+          `${pageIndex + 1} / ${pageStarts.length}`,
+          HELVETICA,
+          RUNNING_TEXT_SIZE_PT,
+          RUNNING_TEXT_COLOR,
+          ctx.images
+        );
+        content.push(
+          drawLabel(pageNumber, pageWidth / 2 - pageNumber.width / 2, PAGE_MARGIN_PT - 30)
+        );
+      }
+
+      const links: PdfLink[] = ctx.links.filter(isOnPage).flatMap((link) => {
+        const destination =
+          link.anchor !== undefined && ctx.anchors.has(link.anchor)
+            ? getDestination(ctx.anchors.get(link.anchor) ?? 0)
+            : undefined;
+        if (!link.uri && !destination) return [];
+
+        return [
+          {
+            rect: [
+              toPdfX(link.x),
+              toPdfY(link.y + link.height, start),
+              toPdfX(link.x + link.width),
+              toPdfY(link.y, start),
+            ],
+            uri: link.uri,
+            destination,
+          },
+        ];
+      });
+
+      return { content: content.join('\n'), links };
+    });
+
+    return await createPdfFile({
+      width: pageWidth,
+      height: pageHeight,
+      pages,
+      images: ctx.images,
+      outline: buildOutline(ctx.headings, getDestination),
+      info: {
+        title: options.title,
+        author: options.author,
+        subject: options.description,
+        keywords: options.tags,
+        createdAt,
+      },
+    });
+  } finally {
+    frame.remove();
+  }
+};
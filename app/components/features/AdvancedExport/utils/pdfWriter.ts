@@ -0,0 +1,364 @@
+/**
+ * @fileoverview Penulis file PDF 1.4 minimal untuk export PDF
+ * Teks memakai 12 font standar PDF (tidak di-embed) dengan WinAnsiEncoding,
+ * content stream dan image dikompresi dengan FlateDecode
+ * @author Axel Modra
+ */
+
+/**
+ * Keluarga font standar PDF
+ */
+export type PdfFontFamily = 'Helvetica' | 'Times' | 'Courier';
+
+export interface PdfFontStyle {
+  family: PdfFontFamily;
+  bold: boolean;
+  italic: boolean;
+}
+
+/**
+ * Image XObject; 'rgb' berisi piksel RGB mentah (opsional dengan alpha per piksel),
+ * 'jpeg' berisi file JPEG apa adanya
+ */
+export interface PdfImage {
+  width: number;
+  height: number;
+  encoding: 'rgb' | 'jpeg';
+  data: Uint8Array;
+  alpha?: Uint8Array;
+}
+
+/**
+ * Posisi tujuan di dokumen; top dalam pt dari bawah halaman
+ */
+export interface PdfDestination {
+  pageIndex: number;
+  top: number;
+}
+
+/**
+ * Area link di halaman: URL eksternal atau tujuan di dalam dokumen
+ */
+export interface PdfLink {
+  /** [x1, y1, x2, y2] dalam pt */
+  rect: [number, number, number, number];
+  uri?: string;
+  destination?: PdfDestination;
+}
+
+export interface PdfPage {
+  /** Operator content stream halaman */
+  content: string;
+  links: PdfLink[];
+}
+
+/**
+ * Item outline (bookmark) beserta turunannya
+ */
+export interface PdfOutlineItem {
+  title: string;
+  destination: PdfDestination;
+  children: PdfOutlineItem[];
+}
+
+export interface PdfInfo {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string[];
+  createdAt: Date;
+}
+
+export interface PdfDocument {
+  /** Ukuran halaman dalam pt */
+  width: number;
+  height: number;
+  pages: PdfPage[];
+  /** Image yang dipakai content stream lewat getImageResourceName(index) */
+  images: PdfImage[];
+  outline: PdfOutlineItem[];
+  info: PdfInfo;
+}
+
+const FONT_FAMILIES: PdfFontFamily[] = ['Helvetica', 'Times', 'Courier'];
+
+/** Nama BaseFont per keluarga: regular, bold, italic, bold italic */
+const FONT_NAMES: Record<PdfFontFamily, string[]> = {
+  Helvetica: ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique'],
+  Times: ['Times-Roman', 'Times-Bold', 'Times-Italic', 'Times-BoldItalic'],
+  Courier: ['Courier', 'Courier-Bold', 'Courier-Oblique', 'Courier-BoldOblique'],
+};
+
+/** Karakter WinAnsiEncoding di range 0x80-0x9F (range lain sama dengan Latin-1) */
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  ƒ: 0x83,
+  '„': 0x84,
+  '…': 0x85,
+  '†': 0x86,
+  '‡': 0x87,
+  ˆ: 0x88,
+  '‰': 0x89,
+  Š: 0x8a,
+  '‹': 0x8b,
+  Œ: 0x8c,
+  Ž: 0x8e,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '˜': 0x98,
+  '™': 0x99,
+  š: 0x9a,
+  '›': 0x9b,
+  œ: 0x9c,
+  ž: 0x9e,
+  Ÿ: 0x9f,
+};
+
+const toWinAnsiCode = (char: string): number | null => {
+  const code = char.charCodeAt(0);
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRA[char] ?? null;
+};
+
+const toHex = (bytes: Iterable<number>): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Nama resource font untuk dipakai operator Tf
+ */
+export const getFontResourceName = (font: PdfFontStyle): string =>
+  `F${FONT_FAMILIES.indexOf(font.family) * 4 + (font.bold ? 1 : 0) + (font.italic ? 2 : 0) + 1}`;
+
+/**
+ * Nama resource image untuk dipakai operator Do
+ */
+export const getImageResourceName = (index: number): string => `Im${index + 1}`;
+
+/**
+ * Apakah teks bisa ditulis dengan font standar (WinAnsiEncoding)
+ */
+export const canEncodeWinAnsi = (text: string): boolean =>
+  Array.from(text).every((char) => toWinAnsiCode(char) !== null);
+
+/**
+ * Teks sebagai hex string WinAnsi untuk operator Tj; karakter di luar encoding menjadi '?'
+ */
+export const encodeWinAnsi = (text: string): string =>
+  `<${toHex(Array.from(text, (char) => toWinAnsiCode(char) ?? 0x3f))}>`;
+
+/**
+ * Text string PDF (UTF-16BE dengan BOM) untuk judul outline dan metadata
+ */
+const encodeTextString = (text: string): string => {
+  const units = Array.from({ length: text.length }, (_, i) => text.charCodeAt(i));
+  return `<feff${units.map((unit) => unit.toString(16).padStart(4, '0')).join('')}>`;
+};
+
+const formatPdfDate = (date: Date): string => {
+  const iso = date.toISOString();
+  return `(D:${iso.slice(0, 19).replace(/[-T:]/g, '')}Z)`;
+};
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Jumlah seluruh turunan item outline (untuk entry /Count, semua item terbuka)
+ */
+const countOutlineItems = (items: PdfOutlineItem[]): number =>
+  items.reduce((count, item) => count + 1 + countOutlineItems(item.children), 0);
+
+/**
+ * Buat file PDF dari halaman yang sudah di-layout
+ *
+ * @param pdf - Halaman, image, outline dan metadata dokumen
+ * @returns Blob application/pdf
+ */
+export const createPdfFile = async (pdf: PdfDocument): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const objects: Uint8Array[][] = [];
+
+  const reserveObject = (): number => objects.push([]);
+  const setObject = (id: number, body: string, stream?: Uint8Array) => {
+    objects[id - 1] = stream
+      ? [
+          encoder.encode(`${id} 0 obj\n${body}\nstream\n`),
+          stream,
+          encoder.encode('\nendstream\nendobj\n'),
+        ]
+      : [encoder.encode(`${id} 0 obj\n${body}\nendobj\n`)];
+  };
+  const addObject = (body: string, stream?: Uint8Array): number => {
+    const id = reserveObject();
+    setObject(id, body, stream);
+    return id;
+  };
+  const addStream = (dictionary: string, data: Uint8Array): number =>
+    addObject(`<< ${dictionary} /Length ${data.length} >>`, data);
+
+  const catalogId = reserveObject();
+  const pagesId = reserveObject();
+  const pageIds = pdf.pages.map(() => reserveObject());
+
+  const fonts = FONT_FAMILIES.flatMap((family) =>
+    FONT_NAMES[family].map((baseFont, index) => {
+      const id = addObject(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`
+      );
+      const name = getFontResourceName({
+        family,
+        bold: index % 2 === 1,
+        italic: index >= 2,
+      });
+      return `/${name} ${id} 0 R`;
+    })
+  );
+
+  const images: string[] = [];
+  for (const [index, image] of pdf.images.entries()) {
+    const size = `/Width ${image.width} /Height ${image.height} /BitsPerComponent 8`;
+    let id: number;
+    if (image.encoding === 'jpeg') {
+      id = addStream(
+        `/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceRGB /Filter /DCTDecode`,
+        image.data
+      );
+    } else {
+      const mask = image.alpha
+        ? addStream(
+            `/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceGray /Filter /FlateDecode`,
+            await deflate(image.alpha)
+          )
+        : null;
+      id = addStream(
+        `/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceRGB /Filter /FlateDecode${
+          mask ? ` /SMask ${mask} 0 R` : ''
+        }`,
+        await deflate(image.data)
+      );
+    }
+    images.push(`/${getImageResourceName(index)} ${id} 0 R`);
+  }
+
+  const resourcesId = addObject(
+    `<< /ProcSet [/PDF /Text /ImageB /ImageC] /Font << ${fonts.join(' ')} >>${
+      images.length ? ` /XObject << ${images.join(' ')} >>` : ''
+    } >>`
+  );
+
+  const formatDestination = (destination: PdfDestination): string =>
+    `[${pageIds[destination.pageIndex]} 0 R /XYZ 0 ${formatNumber(destination.top)} null]`;
+
+  for (const [index, page] of pdf.pages.entries()) {
+    const contentId = addStream(
+      '/Filter /FlateDecode',
+      await deflate(encoder.encode(page.content))
+    );
+
+    const annotations = page.links.map((link) => {
+      const target = link.uri
+        ? `/A << /S /URI /URI <${toHex(
+            encoder.encode(link.uri.replace(/[^\x20-\x7e]/g, (char) => encodeURIComponent(char)))
+          )}> >>`
+        : `/Dest ${link.destination ? formatDestination(link.destination) : '[]'}`;
+      return addObject(
+        `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(formatNumber).join(' ')}] /Border [0 0 0] ${target} >>`
+      );
+    });
+
+    setObject(
+      pageIds[index],
+      `<< /Type /Page /Parent ${pagesId} 0 R /Resources ${resourcesId} 0 R /Contents ${contentId} 0 R${
+        annotations.length ? ` /Annots [${annotations.map((id) => `${id} 0 R`).join(' ')}]` : ''
+      } >>`
+    );
+  }
+
+  setObject(
+    pagesId,
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${
+      pageIds.length
+    } /MediaBox [0 0 ${formatNumber(pdf.width)} ${formatNumber(pdf.height)}] >>`
+  );
+
+  // Outline: id dialokasikan dulu agar /Prev, /Next, /First dan /Last bisa saling merujuk
+  const writeOutlineItems = (items: PdfOutlineItem[], parentId: number): number[] => {
+    const ids = items.map(() => reserveObject());
+    items.forEach((item, index) => {
+      const childIds = writeOutlineItems(item.children, ids[index]);
+      const entries = [
+        `/Title ${encodeTextString(item.title)}`,
+        `/Parent ${parentId} 0 R`,
+        index > 0 && `/Prev ${ids[index - 1]} 0 R`,
+        index < ids.length - 1 && `/Next ${ids[index + 1]} 0 R`,
+        childIds.length && `/First ${childIds[0]} 0 R /Last ${childIds[childIds.length - 1]} 0 R`,
+        childIds.length && `/Count ${countOutlineItems(item.children)}`,
+        `/Dest ${formatDestination(item.destination)}`,
+      ];
+      setObject(ids[index], `<< ${entries.filter(Boolean).join(' ')} >>`);
+    });
+    return ids;
+  };
+
+  let outlinesEntry = '';
+  if (pdf.outline.length) {
+    const outlinesId = reserveObject();
+    const ids = writeOutlineItems(pdf.outline, outlinesId);
+    setObject(
+      outlinesId,
+      `<< /Type /Outlines /First ${ids[0]} 0 R /Last ${ids[ids.length - 1]} 0 R /Count ${countOutlineItems(pdf.outline)} >>`
+    );
+    outlinesEntry = ` /Outlines ${outlinesId} 0 R /PageMode /UseOutlines`;
+  }
+
+  setObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R${outlinesEntry} >>`);
+
+  const { info } = pdf;
+  const infoEntries = [
+    info.title && `/Title ${encodeTextString(info.title)}`,
+    info.author && `/Author ${encodeTextString(info.author)}`,
+    info.subject && `/Subject ${encodeTextString(info.subject)}`,
+    info.keywords.length && `/Keywords ${encodeTextString(info.keywords.join(', '))}`,
+    '/Producer (MarkDown Ultra Editor)',
+    `/CreationDate ${formatPdfDate(info.createdAt)}`,
+  ];
+  const infoId = addObject(`<< ${infoEntries.filter(Boolean).join(' ')} >>`);
+
+  // Header dengan komentar biner agar file dikenali sebagai binary
+  const parts: Uint8Array[] = [
+    new Uint8Array([...encoder.encode('%PDF-1.4\n%'), 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]),
+  ];
+  const offsets: number[] = [];
+  let offset = parts[0].length;
+
+  for (const object of objects) {
+    offsets.push(offset);
+    for (const part of object) {
+      parts.push(part);
+      offset += part.length;
+    }
+  }
+
+  const xref = [
+    `xref\n0 ${objects.length + 1}\n`,
+    '0000000000 65535 f \n',
+    ...offsets.map((value) => `${String(value).padStart(10, '0')} 00000 n \n`),
+    `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n`,
+    `startxref\n${offset}\n%%EOF\n`,
+  ].join('');
+  parts.push(encoder.encode(xref));
+
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+};
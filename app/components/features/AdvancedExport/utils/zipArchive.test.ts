@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { createZipArchive } from './zipArchive';
+
+const decoder = new TextDecoder();
+
+interface ParsedEntry {
+  path: string;
+  data: Uint8Array;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Baca arsip lewat central directory, dan cek setiap header lokal cocok dengannya
+ */
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const endOffset = bytes.length - 22;
+
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  const centralSize = view.getUint32(endOffset + 12, true);
+  const centralOffset = view.getUint32(endOffset + 16, true);
+  expect(view.getUint16(endOffset + 8, true)).toBe(entryCount);
+  expect(centralOffset + centralSize).toBe(endOffset);
+
+  const entries: ParsedEntry[] = [];
+  let position = centralOffset;
+  for (let index = 0; index < entryCount; index++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    const localHeaderOffset = view.getUint32(position + 42, true);
+    const size = view.getUint32(position + 24, true);
+    const entry: ParsedEntry = {
+      path: decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength)),
+      flags: view.getUint16(position + 8, true),
+      method: view.getUint16(position + 10, true),
+      time: view.getUint16(position + 12, true),
+      date: view.getUint16(position + 14, true),
+      crc: view.getUint32(position + 16, true),
+      localHeaderOffset,
+      data: bytes.subarray(
+        localHeaderOffset + 30 + nameLength,
+        localHeaderOffset + 30 + nameLength + size
+      ),
+    };
+    expect(view.getUint32(position + 20, true)).toBe(size);
+
+    // Header lokal mengulang field yang sama
+    expect(view.getUint32(localHeaderOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localHeaderOffset + 6, true)).toBe(entry.flags);
+    expect(view.getUint16(localHeaderOffset + 8, true)).toBe(entry.method);
+    expect(view.getUint16(localHeaderOffset + 10, true)).toBe(entry.time);
+    expect(view.getUint16(localHeaderOffset + 12, true)).toBe(entry.date);
+    expect(view.getUint32(localHeaderOffset + 14, true)).toBe(entry.crc);
+    expect(view.getUint32(localHeaderOffset + 18, true)).toBe(size);
+    expect(view.getUint32(localHeaderOffset + 22, true)).toBe(size);
+    expect(view.getUint16(localHeaderOffset + 26, true)).toBe(nameLength);
+
+    entries.push(entry);
+    position += 46 + nameLength;
+  }
+
+  return { bytes, entries };
+};
+
+describe('createZipArchive', () => {
+  it('writes the standard CRC-32 of each file', async () => {
+    const { entries } = await readZip(
+      createZipArchive([
+        { path: 'check.txt', data: '123456789' },
+        { path: 'hello.txt', data: 'hello' },
+        { path: 'empty.txt', data: '' },
+      ])
+    );
+    expect(entries.map(({ crc }) => crc)).toEqual([0xcbf43926, 0x3610a686, 0]);
+  });
+
+  it('stores files uncompressed with UTF-8 names, in the given order', async () => {
+    const binary = new Uint8Array([0, 255, 10, 13]);
+    const blob = createZipArchive([
+      { path: 'mimetype', data: 'application/epub+zip' },
+      { path: 'OEBPS/bücher/ü.xhtml', data: 'café' },
+      { path: 'image.png', data: binary },
+    ]);
+    const { bytes, entries } = await readZip(blob);
+
+    expect(entries.map(({ path }) => path)).toEqual([
+      'mimetype',
+      'OEBPS/bücher/ü.xhtml',
+      'image.png',
+    ]);
+    expect(entries.every(({ method, flags }) => method === 0 && flags === 0x0800)).toBe(true);
+    expect(decoder.decode(entries[1].data)).toBe('café');
+    expect(entries[1].data.length).toBe(5);
+    expect([...entries[2].data]).toEqual([...binary]);
+
+    // EPUB readers look for the mimetype right after the first local header
+    expect(entries[0].localHeaderOffset).toBe(0);
+    expect(decoder.decode(bytes.subarray(30, 38))).toBe('mimetype');
+    expect(decoder.decode(bytes.subarray(38, 58))).toBe('application/epub+zip');
+  });
+
+  it('records the modification time in MS-DOS format', async () => {
+    const { entries } = await readZip(
+      createZipArchive([{ path: 'a.txt', data: 'a' }], new Date(2024, 4, 17, 13, 45, 31))
+    );
+    expect(entries[0].time).toBe((13 << 11) | (45 << 5) | 15);
+    expect(entries[0].date).toBe((44 << 9) | (5 << 5) | 17);
+  });
+
+  it('clamps dates before 1980, the earliest MS-DOS year', async () => {
+    const { entries } = await readZip(
+      createZipArchive([{ path: 'a.txt', data: 'a' }], new Date(1970, 0, 1))
+    );
+    expect(entries[0].date).toBe((1 << 5) | 1);
+  });
+
+  it('writes an empty archive with only the end record', async () => {
+    const blob = createZipArchive([]);
+    const { bytes, entries } = await readZip(blob);
+    expect(bytes.length).toBe(22);
+    expect(entries).toEqual([]);
+  });
+
+  it('uses the given MIME type', () => {
+    expect(createZipArchive([]).type).toBe('application/zip');
+    expect(createZipArchive([], new Date(), 'application/epub+zip').type).toBe(
+      'application/epub+zip'
+    );
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Penulis arsip ZIP minimal untuk container export (EPUB, DOCX)
+ * File disimpan tanpa kompresi (method STORE), yang valid untuk kedua format
+ * @author Axel Modra
+ */
+
+/**
+ * Satu file di dalam arsip
+ */
+export interface ZipEntry {
+  /** Path di dalam arsip, dengan '/' sebagai pemisah */
+  path: string;
+  /** Isi file; string ditulis sebagai UTF-8 */
+  data: string | Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Waktu dan tanggal dalam format MS-DOS yang dipakai header ZIP
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date:
+    ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+/**
+ * Buat arsip ZIP dari daftar file, dengan urutan sesuai array
+ * (EPUB mensyaratkan file mimetype sebagai entry pertama)
+ *
+ * @param entries - File yang dimasukkan ke arsip
+ * @param modifiedAt - Waktu modifikasi yang dicatat untuk setiap file
+ * @param mimeType - MIME type Blob yang dihasilkan
+ */
+export const createZipArchive = (
+  entries: ZipEntry[],
+  modifiedAt = new Date(),
+  mimeType = 'application/zip'
+): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modifiedAt);
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const checksum = crc32(data);
+
+    const localHeader = new Uint8Array(30 + name.length);
+    const local = new DataView(localHeader.buffer);
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Versi minimal untuk extract
+    local.setUint16(6, 0x0800, true); // Nama file UTF-8
+    local.setUint16(8, 0, true); // STORE
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, checksum, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    localHeader.set(name, 30);
+
+    const centralHeader = new Uint8Array(46 + name.length);
+    const central = new DataView(centralHeader.buffer);
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, checksum, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralHeader.set(name, 46);
+
+    parts.push(localHeader, data);
+    centralDirectory.push(centralHeader);
+    offset += localHeader.length + data.length;
+  }
+
+  const centralSize = centralDirectory.reduce((size, header) => size + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end] as BlobPart[], { type: mimeType });
+};
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Renders the content of a single diff line with word highlights
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import type { DiffColors, DiffLine } from '../types/diff.types';
+
+interface DiffLineContentProps {
+  line: DiffLine;
+  colors: DiffColors;
+}
+
+/**
+ * Line content, with changed words highlighted when word segments are available
+ */
+export const DiffLineContent: React.FC<DiffLineContentProps> = ({ line, colors }) => {
+  if (!line.segments) {
+    // Keep empty lines at full row height
+    return <>{line.content || ' '}</>;
+  }
+
+  const wordColor = line.type === 'insert' ? colors.insertWord : colors.deleteWord;
+  let offset = 0;
+
+  return (
+    <>
+      {line.segments.map((segment) => {
+        const key = offset;
+        offset += segment.text.length;
+
+        if (segment.type === 'equal') {
+          return <span key={key}>{segment.text}</span>;
+        }
+
+        return (
+          <span
+            key={key}
+            className={segment.type === 'delete' ? 'line-through' : undefined}
+            style={{ backgroundColor: wordColor, borderRadius: 2 }}
+          >
+            {segment.text}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+interface CollapsedRowProps {
+  count: number;
+  colors: DiffColors;
+  onExpand: () => void;
+}
+
+/**
+ * Clickable placeholder for hidden unchanged lines
+ */
+export const CollapsedRow: React.FC<CollapsedRowProps> = ({ count, colors, onExpand }) => (
+  <button
+    type="button"
+    onClick={onExpand}
+    className="w-full py-1 text-xs text-center hover:underline"
+    style={{
+      backgroundColor: colors.gutter,
+      color: colors.gutterText,
+      borderTop: `1px solid ${colors.border}`,
+      borderBottom: `1px solid ${colors.border}`,
+    }}
+  >
+    Show {count} unchanged {count === 1 ? 'line' : 'lines'}
+  </button>
+);
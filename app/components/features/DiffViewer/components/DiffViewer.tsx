@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Dialog comparing two texts in side-by-side or inline mode
+ * @author Axel Modra
+ */
+
+import { Columns2, GitCompare, Rows3 } from 'lucide-react';
+import type React from 'react';
+import { useId, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useTheme } from '../../ThemeSelector';
+import { useDiff } from '../hooks/useDiff';
+import type { DiffViewerProps, DiffViewMode } from '../types/diff.types';
+import { getDiffColors } from '../utils/diffColors';
+import { InlineDiff } from './InlineDiff';
+import { SideBySideDiff } from './SideBySideDiff';
+
+/**
+ * Diff viewer dialog with view mode toggle and unchanged-line folding
+ */
+export const DiffViewer: React.FC<DiffViewerProps> = ({
+  isOpen,
+  onClose,
+  original,
+  modified,
+  theme,
+  title = 'Compare',
+}) => {
+  const { currentTheme } = useTheme();
+  const [viewMode, setViewMode] = useState<DiffViewMode>('side-by-side');
+  const [hideUnchanged, setHideUnchanged] = useState(true);
+  const hideUnchangedId = useId();
+
+  const { lines, rows, stats, isIdentical } = useDiff(original.content, modified.content);
+  const colors = getDiffColors(theme || currentTheme);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[1100px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            {title}
+          </DialogTitle>
+          <DialogDescription className="flex flex-wrap items-center gap-2">
+            <span className="truncate">
+              {original.label} → {modified.label}
+            </span>
+            <Badge variant="outline" style={{ color: colors.insertMarker }}>
+              +{stats.additions}
+            </Badge>
+            <Badge variant="outline" style={{ color: colors.deleteMarker }}>
+              -{stats.deletions}
+            </Badge>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={viewMode === 'side-by-side' ? 'default' : 'outline'}
+              onClick={() => setViewMode('side-by-side')}
+            >
+              <Columns2 className="w-4 h-4 mr-1" />
+              Side by side
+            </Button>
+            <Button
+              size="sm"
+              variant={viewMode === 'inline' ? 'default' : 'outline'}
+              onClick={() => setViewMode('inline')}
+            >
+              <Rows3 className="w-4 h-4 mr-1" />
+              Inline
+            </Button>
+          </div>
+          <label
+            htmlFor={hideUnchangedId}
+            className="flex items-center gap-2 text-sm text-muted-foreground"
+          >
+            <Checkbox
+              id={hideUnchangedId}
+              checked={hideUnchanged}
+              onCheckedChange={(value) => setHideUnchanged(!!value)}
+            />
+            Hide unchanged lines
+          </label>
+        </div>
+
+        {viewMode === 'side-by-side' && !isIdentical && (
+          <div className="grid grid-cols-2 text-xs font-medium text-muted-foreground">
+            <span className="truncate">{original.label}</span>
+            <span className="truncate pl-2">{modified.label}</span>
+          </div>
+        )}
+
+        <ScrollArea
+          className="h-[60vh] rounded-md border"
+          style={{ backgroundColor: colors.background }}
+        >
+          {isIdentical ? (
+            <p className="p-4 text-sm text-muted-foreground">No differences found.</p>
+          ) : viewMode === 'side-by-side' ? (
+            <SideBySideDiff rows={rows} colors={colors} hideUnchanged={hideUnchanged} />
+          ) : (
+            <InlineDiff lines={lines} colors={colors} hideUnchanged={hideUnchanged} />
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DiffViewer;
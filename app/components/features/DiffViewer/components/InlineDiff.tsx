@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Unified (inline) diff view
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import type { DiffColors, DiffLine } from '../types/diff.types';
+import { collapseUnchanged, isCollapsedBlock } from '../utils/diffAlgorithm';
+import { CollapsedRow, DiffLineContent } from './DiffSegments';
+
+interface InlineDiffProps {
+  lines: DiffLine[];
+  colors: DiffColors;
+  hideUnchanged: boolean;
+}
+
+const MARKERS: Record<DiffLine['type'], string> = {
+  equal: ' ',
+  insert: '+',
+  delete: '-',
+};
+
+/**
+ * Single column view with old and new line numbers in the gutter
+ */
+export const InlineDiff: React.FC<InlineDiffProps> = ({ lines, colors, hideUnchanged }) => {
+  const [expandedBlocks, setExpandedBlocks] = useState<Set<number>>(new Set());
+
+  const items = useMemo(
+    () => (hideUnchanged ? collapseUnchanged(lines, (line) => line.type === 'equal') : lines),
+    [lines, hideUnchanged]
+  );
+
+  const renderLine = (line: DiffLine, key: string | number) => {
+    const background =
+      line.type === 'insert'
+        ? colors.insertLine
+        : line.type === 'delete'
+          ? colors.deleteLine
+          : undefined;
+    const markerColor =
+      line.type === 'insert'
+        ? colors.insertMarker
+        : line.type === 'delete'
+          ? colors.deleteMarker
+          : colors.gutterText;
+
+    return (
+      <div key={key} className="flex" style={{ backgroundColor: background }}>
+        <span
+          className="w-10 shrink-0 select-none text-right pr-2"
+          style={{ backgroundColor: colors.gutter, color: colors.gutterText }}
+        >
+          {line.oldLineNumber ?? ''}
+        </span>
+        <span
+          className="w-10 shrink-0 select-none text-right pr-2"
+          style={{ backgroundColor: colors.gutter, color: colors.gutterText }}
+        >
+          {line.newLineNumber ?? ''}
+        </span>
+        <span className="w-5 shrink-0 select-none text-center" style={{ color: markerColor }}>
+          {MARKERS[line.type]}
+        </span>
+        <span className="flex-1 whitespace-pre-wrap break-words pr-2">
+          <DiffLineContent line={line} colors={colors} />
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="font-mono text-xs leading-5" style={{ color: colors.text }}>
+      {items.map((item, index) => {
+        if (!isCollapsedBlock(item)) {
+          return renderLine(item, `${item.oldLineNumber ?? ''}:${item.newLineNumber ?? ''}`);
+        }
+
+        if (expandedBlocks.has(item.start)) {
+          return lines
+            .slice(item.start, item.start + item.count)
+            .map((line) => renderLine(line, `${line.oldLineNumber}:${line.newLineNumber}`));
+        }
+
+        return (
+          <CollapsedRow
+            key={`collapsed-${item.start}-${index}`}
+            count={item.count}
+            colors={colors}
+            onExpand={() => setExpandedBlocks((prev) => new Set(prev).add(item.start))}
+          />
+        );
+      })}
+    </div>
+  );
+};
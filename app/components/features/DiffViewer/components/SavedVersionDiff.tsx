@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Compares the editor buffer with the last saved copy of the file
+ * @author Axel Modra
+ */
+
+import { RefreshCw } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DiffViewer } from './DiffViewer';
+
+interface SavedVersionDiffProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fileName: string;
+  currentContent: string;
+  /** Loads the saved content, resolves to null when the file was never saved */
+  loadSavedContent: () => Promise<string | null>;
+}
+
+/**
+ * Loads the saved copy when opened, then shows it against the current buffer
+ */
+export const SavedVersionDiff: React.FC<SavedVersionDiffProps> = ({
+  isOpen,
+  onClose,
+  fileName,
+  currentContent,
+  loadSavedContent,
+}) => {
+  const [savedContent, setSavedContent] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setSavedContent(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    loadSavedContent()
+      .then((content) => {
+        if (!cancelled) setSavedContent(content ?? '');
+      })
+      .catch((error) => {
+        import('@/utils/console').then(({ safeConsole }) => {
+          safeConsole.error('Error loading saved version for diff:', error);
+        });
+        if (!cancelled) setSavedContent('');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, loadSavedContent]);
+
+  if (isOpen && (isLoading || savedContent === null)) {
+    return (
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Loading saved version...</DialogTitle>
+          </DialogHeader>
+          <div className="flex justify-center py-6 text-muted-foreground">
+            <RefreshCw className="w-5 h-5 animate-spin" />
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <DiffViewer
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Changes since last save"
+      original={{ label: `${fileName} (saved)`, content: savedContent ?? '' }}
+      modified={{ label: `${fileName} (current)`, content: currentContent }}
+    />
+  );
+};
+
+export default SavedVersionDiff;
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Side-by-side (split) diff view
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import type { DiffColors, DiffLine, SideBySideRow } from '../types/diff.types';
+import { collapseUnchanged, isCollapsedBlock } from '../utils/diffAlgorithm';
+import { CollapsedRow, DiffLineContent } from './DiffSegments';
+
+interface SideBySideDiffProps {
+  rows: SideBySideRow[];
+  colors: DiffColors;
+  hideUnchanged: boolean;
+}
+
+const isUnchangedRow = (row: SideBySideRow) => row.left?.type === 'equal';
+
+const getRowKey = (row: SideBySideRow) =>
+  `${row.left?.oldLineNumber ?? ''}:${row.right?.newLineNumber ?? ''}`;
+
+/**
+ * Two column view, original on the left and modified on the right
+ */
+export const SideBySideDiff: React.FC<SideBySideDiffProps> = ({ rows, colors, hideUnchanged }) => {
+  const [expandedBlocks, setExpandedBlocks] = useState<Set<number>>(new Set());
+
+  const items = useMemo(
+    () => (hideUnchanged ? collapseUnchanged(rows, isUnchangedRow) : rows),
+    [rows, hideUnchanged]
+  );
+
+  const renderCell = (line: DiffLine | undefined, side: 'left' | 'right') => {
+    const lineNumber = side === 'left' ? line?.oldLineNumber : line?.newLineNumber;
+    const background = !line
+      ? colors.gutter
+      : line.type === 'insert'
+        ? colors.insertLine
+        : line.type === 'delete'
+          ? colors.deleteLine
+          : undefined;
+
+    return (
+      <div
+        className="flex min-w-0"
+        style={{
+          backgroundColor: background,
+          borderLeft: side === 'right' ? `1px solid ${colors.border}` : undefined,
+        }}
+      >
+        <span
+          className="w-10 shrink-0 select-none text-right pr-2"
+          style={{ backgroundColor: colors.gutter, color: colors.gutterText }}
+        >
+          {lineNumber ?? ''}
+        </span>
+        <span className="flex-1 min-w-0 whitespace-pre-wrap break-words px-2">
+          {line && <DiffLineContent line={line} colors={colors} />}
+        </span>
+      </div>
+    );
+  };
+
+  const renderRow = (row: SideBySideRow) => (
+    <div key={getRowKey(row)} className="grid grid-cols-2">
+      {renderCell(row.left, 'left')}
+      {renderCell(row.right, 'right')}
+    </div>
+  );
+
+  return (
+    <div className="font-mono text-xs leading-5" style={{ color: colors.text }}>
+      {items.map((item, index) => {
+        if (!isCollapsedBlock(item)) {
+          return renderRow(item);
+        }
+
+        if (expandedBlocks.has(item.start)) {
+          return rows.slice(item.start, item.start + item.count).map(renderRow);
+        }
+
+        return (
+          <CollapsedRow
+            key={`collapsed-${item.start}-${index}`}
+            count={item.count}
+            colors={colors}
+            onExpand={() => setExpandedBlocks((prev) => new Set(prev).add(item.start))}
+          />
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Hook computing a memoized diff between two texts
+ * @author Axel Modra
+ */
+
+import { useMemo } from 'react';
+import type { DiffLine, DiffStats, SideBySideRow } from '../types/diff.types';
+import { buildSideBySideRows, diffLines, getDiffStats } from '../utils/diffAlgorithm';
+
+export interface UseDiffResult {
+  lines: DiffLine[];
+  rows: SideBySideRow[];
+  stats: DiffStats;
+  isIdentical: boolean;
+}
+
+/**
+ * Compute line diff, side-by-side rows and stats for two texts
+ * @param original - Original text (left side)
+ * @param modified - Modified text (right side)
+ */
+export const useDiff = (original: string, modified: string): UseDiffResult => {
+  const lines = useMemo(() => diffLines(original, modified), [original, modified]);
+  const rows = useMemo(() => buildSideBySideRows(lines), [lines]);
+  const stats = useMemo(() => getDiffStats(lines), [lines]);
+
+  return {
+    lines,
+    rows,
+    stats,
+    isIdentical: stats.additions === 0 && stats.deletions === 0,
+  };
+};
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview DiffViewer main export
+ * @author Axel Modra
+ */
+
+// Re-export components
+export { DiffViewer } from './components/DiffViewer';
+export { InlineDiff } from './components/InlineDiff';
+export { SavedVersionDiff } from './components/SavedVersionDiff';
+export { SideBySideDiff } from './components/SideBySideDiff';
+
+// Re-export hooks
+export { useDiff } from './hooks/useDiff';
+
+// Re-export types
+export type {
+  DiffColors,
+  DiffLine,
+  DiffSegment,
+  DiffSource,
+  DiffStats,
+  DiffViewerProps,
+  DiffViewMode,
+  SideBySideRow,
+} from './types/diff.types';
+
+// Re-export utilities
+export { buildSideBySideRows, diffLines, diffWords, getDiffStats } from './utils/diffAlgorithm';
+export { getDiffColors } from './utils/diffColors';
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Type definitions for the DiffViewer feature
+ * @author Axel Modra
+ */
+
+import type { Theme } from '../../ThemeSelector';
+
+/**
+ * Kind of change for a line or a word segment
+ */
+export type DiffChangeType = 'equal' | 'insert' | 'delete';
+
+/**
+ * Display mode of the diff viewer
+ */
+export type DiffViewMode = 'side-by-side' | 'inline';
+
+/**
+ * Single operation produced by the diff algorithm
+ */
+export interface DiffOperation<T> {
+  type: DiffChangeType;
+  value: T;
+}
+
+/**
+ * Word-level segment inside a changed line
+ */
+export interface DiffSegment {
+  type: DiffChangeType;
+  text: string;
+}
+
+/**
+ * Line-level diff entry
+ */
+export interface DiffLine {
+  type: DiffChangeType;
+  content: string;
+  /** 1-based line number in the original text */
+  oldLineNumber?: number;
+  /** 1-based line number in the modified text */
+  newLineNumber?: number;
+  /** Word-level segments when the line was modified rather than added/removed */
+  segments?: DiffSegment[];
+}
+
+/**
+ * Row of the side-by-side view, either side may be empty
+ */
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Placeholder for a run of unchanged lines hidden from the view
+ */
+export interface CollapsedDiffBlock {
+  type: 'collapsed';
+  /** Index of the first hidden item, used as a stable key */
+  start: number;
+  count: number;
+}
+
+/**
+ * Summary of a diff
+ */
+export interface DiffStats {
+  additions: number;
+  deletions: number;
+  unchanged: number;
+}
+
+/**
+ * One side of a comparison
+ */
+export interface DiffSource {
+  /** Label shown above the side, e.g. a file name or "Saved version" */
+  label: string;
+  content: string;
+}
+
+/**
+ * Props for the DiffViewer dialog
+ */
+export interface DiffViewerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  original: DiffSource;
+  modified: DiffSource;
+  /** Theme used for highlight colors, defaults to the active theme */
+  theme?: Theme;
+  /** Optional title override */
+  title?: string;
+}
+
+/**
+ * Colors used to render a diff, derived from a Theme
+ */
+export interface DiffColors {
+  background: string;
+  text: string;
+  gutter: string;
+  gutterText: string;
+  border: string;
+  insertLine: string;
+  insertWord: string;
+  insertMarker: string;
+  deleteLine: string;
+  deleteWord: string;
+  deleteMarker: string;
+}
@@ -0,0 +1,325 @@
+/**
+ * @fileoverview Line and word diff based on the Myers O(ND) algorithm
+ * @author Axel Modra
+ */
+
+import type {
+  CollapsedDiffBlock,
+  DiffLine,
+  DiffOperation,
+  DiffSegment,
+  DiffStats,
+  SideBySideRow,
+} from '../types/diff.types';
+
+/**
+ * Edit distance above which the middle section is reported as a full replacement.
+ * Keeps very different documents from exhausting memory.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Word tokenizer: runs of letters/digits, runs of whitespace, or single symbols
+ */
+const WORD_TOKEN_REGEX = /[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+
+/**
+ * Myers diff over two sequences. Common prefix and suffix are trimmed first
+ * so typical edits on long documents stay cheap.
+ */
+export const diffSequences = <T>(a: readonly T[], b: readonly T[]): DiffOperation<T>[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const head: DiffOperation<T>[] = a.slice(0, prefix).map((value) => ({ type: 'equal', value }));
+  const tail: DiffOperation<T>[] = a
+    .slice(a.length - suffix)
+    .map((value) => ({ type: 'equal', value }));
+
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+
+  return [...head, ...middle, ...tail];
+};
+
+/**
+ * Core Myers algorithm. Snapshots of the V array are stored per edit step
+ * (only the reachable diagonals) and walked backwards to build the script.
+ */
+const myers = <T>(a: readonly T[], b: readonly T[]): DiffOperation<T>[] => {
+  const n = a.length;
+  const m = b.length;
+
+  if (n === 0) return b.map((value) => ({ type: 'insert', value }));
+  if (m === 0) return a.map((value) => ({ type: 'delete', value }));
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return [
+        ...a.map((value): DiffOperation<T> => ({ type: 'delete', value })),
+        ...b.map((value): DiffOperation<T> => ({ type: 'insert', value })),
+      ];
+    }
+
+    // Snapshot covers diagonals -d-1..d+1, which is all the backtrack needs
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return [];
+};
+
+const backtrack = <T>(a: readonly T[], b: readonly T[], trace: Int32Array[]) => {
+  const operations: DiffOperation<T>[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      operations.push({ type: 'equal', value: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        operations.push({ type: 'insert', value: b[y - 1] });
+      } else {
+        operations.push({ type: 'delete', value: a[x - 1] });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return operations.reverse();
+};
+
+/**
+ * Split a line into word, whitespace and punctuation tokens
+ */
+export const tokenizeWords = (text: string): string[] => text.match(WORD_TOKEN_REGEX) || [];
+
+/**
+ * Word-level diff between two strings, adjacent segments of the same type are merged
+ */
+export const diffWords = (oldText: string, newText: string): DiffSegment[] => {
+  const operations = diffSequences(tokenizeWords(oldText), tokenizeWords(newText));
+  const segments: DiffSegment[] = [];
+
+  for (const operation of operations) {
+    const last = segments[segments.length - 1];
+    if (last && last.type === operation.type) {
+      last.text += operation.value;
+    } else {
+      segments.push({ type: operation.type, text: operation.value });
+    }
+  }
+
+  return segments;
+};
+
+/**
+ * Line-level diff. Deleted and inserted lines that sit in the same change block
+ * are paired up and annotated with word-level segments.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const operations = diffSequences(oldText.split('\n'), newText.split('\n'));
+  const lines: DiffLine[] = [];
+  let oldLineNumber = 1;
+  let newLineNumber = 1;
+  let index = 0;
+
+  while (index < operations.length) {
+    const operation = operations[index];
+
+    if (operation.type === 'equal') {
+      lines.push({
+        type: 'equal',
+        content: operation.value,
+        oldLineNumber: oldLineNumber++,
+        newLineNumber: newLineNumber++,
+      });
+      index++;
+      continue;
+    }
+
+    // Collect a change block: any mix of deletions and insertions between equal lines
+    const deleted: string[] = [];
+    const inserted: string[] = [];
+    while (index < operations.length && operations[index].type !== 'equal') {
+      const change = operations[index];
+      if (change.type === 'delete') deleted.push(change.value);
+      else inserted.push(change.value);
+      index++;
+    }
+
+    const paired = Math.min(deleted.length, inserted.length);
+    const wordDiffs = Array.from({ length: paired }, (_, i) => diffWords(deleted[i], inserted[i]));
+
+    deleted.forEach((content, i) => {
+      lines.push({
+        type: 'delete',
+        content,
+        oldLineNumber: oldLineNumber++,
+        segments: i < paired ? wordDiffs[i].filter((s) => s.type !== 'insert') : undefined,
+      });
+    });
+
+    inserted.forEach((content, i) => {
+      lines.push({
+        type: 'insert',
+        content,
+        newLineNumber: newLineNumber++,
+        segments: i < paired ? wordDiffs[i].filter((s) => s.type !== 'delete') : undefined,
+      });
+    });
+  }
+
+  return lines;
+};
+
+/**
+ * Arrange diff lines into side-by-side rows, pairing deletions with insertions
+ */
+export const buildSideBySideRows = (lines: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.type === 'equal') {
+      rows.push({ left: line, right: line });
+      index++;
+      continue;
+    }
+
+    const deleted: DiffLine[] = [];
+    const inserted: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === 'delete') {
+      deleted.push(lines[index++]);
+    }
+    while (index < lines.length && lines[index].type === 'insert') {
+      inserted.push(lines[index++]);
+    }
+
+    const rowCount = Math.max(deleted.length, inserted.length);
+    for (let i = 0; i < rowCount; i++) {
+      rows.push({ left: deleted[i], right: inserted[i] });
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Count added, removed and unchanged lines
+ */
+export const getDiffStats = (lines: DiffLine[]): DiffStats => {
+  return lines.reduce<DiffStats>(
+    (stats, line) => {
+      if (line.type === 'insert') stats.additions++;
+      else if (line.type === 'delete') stats.deletions++;
+      else stats.unchanged++;
+      return stats;
+    },
+    { additions: 0, deletions: 0, unchanged: 0 }
+  );
+};
+
+/**
+ * Replace long runs of unchanged items with a collapsed marker,
+ * keeping `context` items around every change visible
+ */
+export const collapseUnchanged = <T>(
+  items: T[],
+  isUnchanged: (item: T) => boolean,
+  context = 3
+): (T | CollapsedDiffBlock)[] => {
+  const result: (T | CollapsedDiffBlock)[] = [];
+  let runStart = -1;
+
+  const flushRun = (runEnd: number) => {
+    const isLeading = runStart === 0;
+    const isTrailing = runEnd === items.length;
+    const keepBefore = isLeading ? 0 : context;
+    const keepAfter = isTrailing ? 0 : context;
+    const hiddenCount = runEnd - runStart - keepBefore - keepAfter;
+
+    if (hiddenCount <= 1) {
+      result.push(...items.slice(runStart, runEnd));
+      return;
+    }
+
+    result.push(...items.slice(runStart, runStart + keepBefore));
+    result.push({ type: 'collapsed', start: runStart + keepBefore, count: hiddenCount });
+    result.push(...items.slice(runEnd - keepAfter, runEnd));
+  };
+
+  items.forEach((item, index) => {
+    if (isUnchanged(item)) {
+      if (runStart === -1) runStart = index;
+      return;
+    }
+    if (runStart !== -1) {
+      flushRun(index);
+      runStart = -1;
+    }
+    result.push(item);
+  });
+
+  if (runStart !== -1) {
+    flushRun(items.length);
+  }
+
+  return result;
+};
+
+/**
+ * Type guard for collapsed markers
+ */
+export const isCollapsedBlock = (item: unknown): item is CollapsedDiffBlock =>
+  typeof item === 'object' && item !== null && (item as CollapsedDiffBlock).type === 'collapsed';
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Theme-aware color palette for diff rendering
+ * @author Axel Modra
+ */
+
+import { hexToRgba } from '@/utils/themeUtils';
+import type { Theme } from '../../ThemeSelector';
+import type { DiffColors } from '../types/diff.types';
+
+/** Fallbacks used when no theme is active (e.g. during SSR) */
+const INSERT_FALLBACK = '#16a34a';
+const DELETE_FALLBACK = '#dc2626';
+
+/**
+ * Derive diff colors from a theme. Insertions use the theme accent,
+ * deletions a fixed red so both stay distinguishable on every theme.
+ */
+export const getDiffColors = (theme?: Theme): DiffColors => {
+  const insert = theme?.accent || INSERT_FALLBACK;
+  const text = theme?.text || '#1e293b';
+
+  return {
+    background: theme?.background || '#ffffff',
+    text,
+    gutter: theme?.surface ? hexToRgba(theme.surface, 0.9) : 'rgba(248, 250, 252, 0.9)',
+    gutterText: hexToRgba(text, 0.45),
+    border: hexToRgba(text, 0.12),
+    insertLine: hexToRgba(insert, 0.12),
+    insertWord: hexToRgba(insert, 0.35),
+    insertMarker: insert,
+    deleteLine: hexToRgba(DELETE_FALLBACK, 0.1),
+    deleteWord: hexToRgba(DELETE_FALLBACK, 0.3),
+    deleteMarker: DELETE_FALLBACK,
+  };
+};
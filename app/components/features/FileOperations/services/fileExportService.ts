@@ -3,6 +3,7 @@
  * @author Axel Modra
  */
 
+import { loadMarkdownAttachments } from '@/utils/attachmentUtils';
 import { safeConsole } from '@/utils/console';
 import type {
   ExportConfig,
@@ -68,9 +69,11 @@ export const exportHtml = async (
 ): Promise<ExportResult> => {
   try {
     const title = config.fileName.replace('.md', '');
+    const attachments = await loadMarkdownAttachments(config.content);
     const htmlContent = generateHtmlTemplate({
       title,
       content: config.content,
+      attachments,
     });
 
     const blob = new Blob([htmlContent], {
@@ -3,6 +3,7 @@
  * @author Axel Modra
  */
 
+import { getAttachmentId } from '@/utils/attachmentUtils';
 import type { HtmlTemplateConfig } from '../types/fileOperations.types';
 
 /**
@@ -75,10 +76,10 @@ a:hover {
  * Generate complete HTML document from markdown content
  */
 export const generateHtmlTemplate = (config: HtmlTemplateConfig): string => {
-  const { title, content, customStyles } = config;
+  const { title, content, customStyles, attachments } = config;
 
   // Process markdown content for basic HTML conversion
-  const processedContent = processMarkdownToHtml(content);
+  const processedContent = processMarkdownToHtml(content, attachments);
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -103,7 +104,7 @@ export const generateHtmlTemplate = (config: HtmlTemplateConfig): string => {
  * Basic markdown to HTML conversion
  * Note: This is a simple conversion. For full markdown parsing, consider using a library like marked.js
  */
-const processMarkdownToHtml = (markdown: string): string => {
+const processMarkdownToHtml = (markdown: string, attachments?: Map<string, string>): string => {
   return markdown
     .replace(/\n/g, '<br>')
     .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
@@ -113,6 +114,12 @@ const processMarkdownToHtml = (markdown: string): string => {
     .replace(/^## (.*$)/gim, '<h2>$1</h2>')
     .replace(/^### (.*$)/gim, '<h3>$1</h3>')
     .replace(/^> (.*$)/gim, '<blockquote>$1</blockquote>')
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_match, alt: string, src: string) => {
+      // Attachments are embedded so the exported file is self-contained
+      const attachmentId = getAttachmentId(src);
+      const embeddedSrc = (attachmentId && attachments?.get(attachmentId)) || src;
+      return `<img src="${embeddedSrc}" alt="${alt}">`;
+    })
     .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
 };
 
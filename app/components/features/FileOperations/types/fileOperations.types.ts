@@ -101,6 +101,8 @@ export interface HtmlTemplateConfig {
   content: string;
   /** Custom CSS styles */
   customStyles?: string;
+  /** Data URLs of image attachments referenced by the content, keyed by attachment id */
+  attachments?: Map<string, string>;
 }
 
 /**
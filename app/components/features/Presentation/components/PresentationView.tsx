@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Full-screen slideshow of a markdown document
+ * @author Axel Modra
+ */
+
+import { ChevronLeft, ChevronRight, Maximize2, Minimize2 } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useHighlightJs } from '@/components/editor/PreviewPane';
+import { Button } from '@/components/ui/button';
+import { parseMarkdownToSlides } from '@/utils/slideUtils';
+import { hexToRgba, isDarkTheme } from '@/utils/themeUtils';
+import { useSlideNavigation } from '../hooks/useSlideNavigation';
+import type { PresentationViewProps } from '../types/presentation.types';
+import { SlideFrame } from './SlideFrame';
+
+/**
+ * Toggle fullscreen for the whole presentation window
+ */
+const toggleFullscreen = () => {
+  if (!document.fullscreenElement) {
+    document.documentElement.requestFullscreen();
+  } else {
+    document.exitFullscreen();
+  }
+};
+
+/**
+ * PresentationView component
+ * Slides re-render whenever markdown changes, so edits in the editor show up immediately
+ */
+export const PresentationView: React.FC<PresentationViewProps> = ({
+  markdown,
+  fileName,
+  theme,
+  isWaiting = false,
+}) => {
+  useHighlightJs(isDarkTheme(theme), theme);
+
+  const slides = useMemo(() => parseMarkdownToSlides(markdown), [markdown]);
+  const { currentIndex, next, previous } = useSlideNavigation(slides.length, fileName);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(!!document.fullscreenElement);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'f' && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        event.preventDefault();
+        toggleFullscreen();
+      }
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  const slide = slides[currentIndex];
+  const progress = slides.length > 1 ? (currentIndex / (slides.length - 1)) * 100 : 100;
+  const controlStyle = { color: theme.text };
+
+  return (
+    <div
+      className="fixed inset-0 flex flex-col select-none"
+      style={{ backgroundColor: theme.background, color: theme.text }}
+    >
+      <div className="flex-1 min-h-0">
+        {slide ? (
+          <SlideFrame slide={slide} theme={theme} />
+        ) : (
+          <div className="h-full flex items-center justify-center text-center px-8">
+            <p className="text-xl opacity-70">
+              {isWaiting
+                ? 'Waiting for the editor… Keep the editor open in another window.'
+                : 'No slides yet. Separate slides with a --- line or start them with # headings.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="h-1 w-full" style={{ backgroundColor: hexToRgba(theme.accent, 0.2) }}>
+        <div
+          className="h-full transition-all duration-300"
+          style={{ width: `${progress}%`, backgroundColor: theme.accent }}
+        />
+      </div>
+
+      <div
+        className="flex items-center justify-between px-4 py-2 text-sm opacity-40 hover:opacity-100 transition-opacity"
+        style={{ backgroundColor: theme.surface }}
+      >
+        <span className="truncate">{fileName}</span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={previous}
+            disabled={currentIndex === 0}
+            title="Previous slide (←)"
+            style={controlStyle}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="tabular-nums">
+            {slides.length ? currentIndex + 1 : 0} / {slides.length}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={next}
+            disabled={currentIndex >= slides.length - 1}
+            title="Next slide (→)"
+            style={controlStyle}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleFullscreen}
+            title={isFullscreen ? 'Exit fullscreen (F)' : 'Fullscreen (F)'}
+            style={controlStyle}
+          >
+            {isFullscreen ? <Minimize2 className="h-4 w-4" /> : <Maximize2 className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
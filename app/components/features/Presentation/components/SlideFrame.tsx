@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Single slide rendered with the active theme
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import { useMemo } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { createMarkdownComponents, useAttachmentUrl } from '@/components/editor/PreviewPane';
+import {
+  MARKDOWN_REHYPE_PLUGINS,
+  MARKDOWN_REMARK_PLUGINS,
+  MARKDOWN_REMARK_REHYPE_OPTIONS,
+} from '@/utils/markdownPlugins';
+import { getSlideBackground, type SlideData, type SlideLayout } from '@/utils/slideUtils';
+import { isDarkTheme } from '@/utils/themeUtils';
+import type { Theme } from '../../ThemeSelector';
+
+interface SlideFrameProps {
+  slide: SlideData;
+  theme: Theme;
+}
+
+/**
+ * Container classes per slide layout, matching the exported presentation
+ */
+const LAYOUT_CLASS_NAMES: Record<SlideLayout, string> = {
+  default: 'justify-start',
+  center: 'justify-center text-center',
+  section: 'justify-center text-center',
+  'two-column': 'justify-start',
+};
+
+/**
+ * SlideFrame component
+ */
+export const SlideFrame: React.FC<SlideFrameProps> = ({ slide, theme }) => {
+  // Attachment backgrounds are loaded from attachment storage like preview images
+  const background = useAttachmentUrl(slide.background);
+
+  const markdownComponents = useMemo(
+    () => createMarkdownComponents({ markdown: slide.content, theme }),
+    [slide.content, theme]
+  );
+
+  const isSection = slide.layout === 'section';
+  const isDarkMode = isDarkTheme(theme);
+
+  return (
+    <div
+      className={`h-full w-full overflow-hidden flex flex-col px-[6vw] py-[6vh] ${LAYOUT_CLASS_NAMES[slide.layout]}`}
+      style={{
+        background:
+          slide.background && background.src
+            ? getSlideBackground(slide.background, () => background.src ?? '')
+            : undefined,
+      }}
+    >
+      {slide.title && (
+        <h2
+          className={`font-bold leading-tight mb-[4vh] ${isSection ? 'text-[6vw]' : 'text-[3.5vw]'}`}
+          style={{ color: isSection ? theme.accent : theme.primary }}
+        >
+          {slide.title}
+        </h2>
+      )}
+
+      {slide.content && (
+        <div
+          className={`
+            prose prose-2xl max-w-none text-[2.2vw]
+            ${isDarkMode ? 'prose-invert' : ''}
+            ${slide.layout === 'two-column' ? 'columns-2 gap-[4vw]' : ''}
+            ${slide.layout === 'center' || isSection ? 'mx-auto' : ''}
+          `}
+          style={
+            {
+              '--tw-prose-headings': theme.text,
+              '--tw-prose-body': theme.text,
+              '--tw-prose-links': theme.primary,
+              '--tw-prose-bold': theme.text,
+              '--tw-prose-code': theme.accent,
+              '--tw-prose-pre-bg': theme.surface,
+              '--tw-prose-th-borders': theme.accent,
+              '--tw-prose-td-borders': theme.accent,
+              '--tw-prose-quotes': theme.text,
+              '--tw-prose-quote-borders': theme.primary,
+              '--tw-prose-bullets': theme.accent,
+              '--tw-prose-counters': theme.accent,
+            } as React.CSSProperties
+          }
+        >
+          <ReactMarkdown
+            remarkPlugins={MARKDOWN_REMARK_PLUGINS}
+            rehypePlugins={MARKDOWN_REHYPE_PLUGINS}
+            remarkRehypeOptions={MARKDOWN_REMARK_REHYPE_OPTIONS}
+            components={markdownComponents}
+          >
+            {slide.content}
+          </ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+};
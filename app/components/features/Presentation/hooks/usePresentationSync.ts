@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Hooks syncing the editor document with the presentation window
+ * @author Axel Modra
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PresentationState } from '../types/presentation.types';
+import {
+  createPresentationChannel,
+  isPresentationMessage,
+  openPresentationWindow,
+} from '../utils/presentationUtils';
+
+/**
+ * Editor side: answer windows that ask for the document and broadcast every change after that
+ * @param state - Current document, file name and theme (memoized by the caller)
+ */
+export const usePresentationBroadcast = (state: PresentationState) => {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Nothing is posted until a presentation window has been opened
+  const hasListenerRef = useRef(false);
+
+  useEffect(() => {
+    const channel = createPresentationChannel();
+    if (!channel) return;
+
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent) => {
+      if (isPresentationMessage(event.data) && event.data.type === 'request-state') {
+        hasListenerRef.current = true;
+        channel.postMessage({ type: 'state', state: stateRef.current });
+      }
+    };
+
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (hasListenerRef.current) {
+      channelRef.current?.postMessage({ type: 'state', state });
+    }
+  }, [state]);
+
+  const openPresentation = useCallback(() => {
+    openPresentationWindow();
+  }, []);
+
+  return { openPresentation };
+};
+
+/**
+ * Presentation side: latest document received from the editor, null until an editor answers
+ */
+export const usePresentationReceiver = (): PresentationState | null => {
+  const [state, setState] = useState<PresentationState | null>(null);
+
+  useEffect(() => {
+    const channel = createPresentationChannel();
+    if (!channel) return;
+
+    channel.onmessage = (event: MessageEvent) => {
+      if (isPresentationMessage(event.data) && event.data.type === 'state') {
+        setState(event.data.state);
+      }
+    };
+    channel.postMessage({ type: 'request-state' });
+
+    return () => {
+      channel.close();
+    };
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Hook for keyboard slide navigation with the last slide remembered per file
+ * @author Axel Modra
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { loadLastSlide, saveLastSlide } from '../utils/presentationUtils';
+
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter', 'n'];
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace', 'p'];
+
+export interface UseSlideNavigationResult {
+  /** Index of the shown slide, always within the current slide count */
+  currentIndex: number;
+  goTo: (index: number) => void;
+  next: () => void;
+  previous: () => void;
+}
+
+/**
+ * Navigate slides with the keyboard and remember the last slide of each file
+ * @param slideCount - Number of slides; the index follows when slides are removed while editing
+ * @param fileName - Key for the remembered slide
+ */
+export const useSlideNavigation = (
+  slideCount: number,
+  fileName: string
+): UseSlideNavigationResult => {
+  const [position, setPosition] = useState(() => ({ fileName, index: loadLastSlide(fileName) }));
+
+  // Another file is presented: continue at its remembered slide
+  if (position.fileName !== fileName) {
+    setPosition({ fileName, index: loadLastSlide(fileName) });
+  }
+
+  const lastIndex = Math.max(slideCount - 1, 0);
+  const currentIndex = Math.min(position.index, lastIndex);
+
+  const goTo = useCallback(
+    (index: number) => {
+      setPosition({ fileName, index: Math.min(Math.max(index, 0), lastIndex) });
+    },
+    [fileName, lastIndex]
+  );
+
+  const next = useCallback(() => goTo(currentIndex + 1), [goTo, currentIndex]);
+  const previous = useCallback(() => goTo(currentIndex - 1), [goTo, currentIndex]);
+
+  useEffect(() => {
+    if (slideCount > 0) saveLastSlide(fileName, currentIndex);
+  }, [fileName, currentIndex, slideCount]);
+
+  useEffect(() => {
+    if (typeof document === 'undefined') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      if (NEXT_KEYS.includes(event.key)) {
+        event.preventDefault();
+        next();
+      } else if (PREVIOUS_KEYS.includes(event.key)) {
+        event.preventDefault();
+        previous();
+      } else if (event.key === 'Home') {
+        event.preventDefault();
+        goTo(0);
+      } else if (event.key === 'End') {
+        event.preventDefault();
+        goTo(lastIndex);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [next, previous, goTo, lastIndex]);
+
+  return { currentIndex, goTo, next, previous };
+};
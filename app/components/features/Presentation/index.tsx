@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Presentation main export
+ * @author Axel Modra
+ */
+
+// Re-export components
+export { PresentationView } from './components/PresentationView';
+export { SlideFrame } from './components/SlideFrame';
+
+// Re-export hooks
+export { usePresentationBroadcast, usePresentationReceiver } from './hooks/usePresentationSync';
+export { useSlideNavigation } from './hooks/useSlideNavigation';
+
+// Re-export types
+export type {
+  PresentationMessage,
+  PresentationState,
+  PresentationViewProps,
+} from './types/presentation.types';
+
+// Re-export utilities
+export {
+  loadLastSlide,
+  openPresentationWindow,
+  PRESENTATION_ROUTE,
+  saveLastSlide,
+} from './utils/presentationUtils';
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Type definitions for the Presentation feature
+ * @author Axel Modra
+ */
+
+import type { Theme } from '../../ThemeSelector';
+
+/**
+ * Document state shared by the editor with the presentation window
+ */
+export interface PresentationState {
+  markdown: string;
+  fileName: string;
+  theme: Theme;
+}
+
+/**
+ * Messages exchanged on the presentation channel
+ * - `state`: editor sends the current document (on every change)
+ * - `request-state`: a newly opened presentation window asks for the document
+ */
+export type PresentationMessage =
+  | { type: 'state'; state: PresentationState }
+  | { type: 'request-state' };
+
+/**
+ * Props for PresentationView component
+ */
+export interface PresentationViewProps {
+  markdown: string;
+  /** Key for remembering the last slide */
+  fileName: string;
+  theme: Theme;
+  /** Shown instead of slides while the document is not available yet */
+  isWaiting?: boolean;
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Channel and storage helpers for the live presentation window
+ * @author Axel Modra
+ */
+
+import { getStorageJSON, setStorageJSON } from '@/utils/common';
+import type { PresentationMessage } from '../types/presentation.types';
+
+/** Route of the presentation window */
+export const PRESENTATION_ROUTE = '/present';
+
+/** Window name so repeated "Present" clicks reuse the same window */
+const PRESENTATION_WINDOW_NAME = 'markdown-presentation';
+
+const PRESENTATION_CHANNEL_NAME = 'markdownEditor_presentation';
+
+/** Last slide index per file name */
+const LAST_SLIDE_STORAGE_KEY = 'markdownEditor_presentationSlides';
+
+/** Limit so the map does not grow with every file ever presented */
+const MAX_REMEMBERED_FILES = 50;
+
+/**
+ * Open the presentation channel; null when BroadcastChannel is unavailable (SSR, old browsers)
+ */
+export const createPresentationChannel = (): BroadcastChannel | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  return new BroadcastChannel(PRESENTATION_CHANNEL_NAME);
+};
+
+/**
+ * Type guard for messages received on the presentation channel
+ */
+export const isPresentationMessage = (data: unknown): data is PresentationMessage => {
+  if (!data || typeof data !== 'object') return false;
+  const { type } = data as { type?: unknown };
+  return type === 'state' || type === 'request-state';
+};
+
+/**
+ * Open (or focus) the presentation window
+ * @returns The window, or null when blocked by the browser
+ */
+export const openPresentationWindow = (): Window | null => {
+  if (typeof window === 'undefined') return null;
+  const presentationWindow = window.open(PRESENTATION_ROUTE, PRESENTATION_WINDOW_NAME);
+  presentationWindow?.focus();
+  return presentationWindow;
+};
+
+/**
+ * Load the last shown slide for a file
+ */
+export const loadLastSlide = (fileName: string): number => {
+  const slides = getStorageJSON<Record<string, number>>(LAST_SLIDE_STORAGE_KEY, {});
+  const index = slides?.[fileName];
+  return typeof index === 'number' && index >= 0 ? index : 0;
+};
+
+/**
+ * Remember the shown slide for a file; most recently presented files are kept
+ */
+export const saveLastSlide = (fileName: string, index: number): boolean => {
+  const slides = getStorageJSON<Record<string, number>>(LAST_SLIDE_STORAGE_KEY, {}) ?? {};
+  delete slides[fileName];
+
+  const entries = [...Object.entries(slides), [fileName, index] as const];
+  return setStorageJSON(
+    LAST_SLIDE_STORAGE_KEY,
+    Object.fromEntries(entries.slice(-MAX_REMEMBERED_FILES))
+  );
+};
@@ -6,11 +6,13 @@
 
 import { Search } from 'lucide-react';
 import type React from 'react';
-import { useCallback } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { SearchActions } from './SearchDialog/components/SearchActions';
 import { SearchControls } from './SearchDialog/components/SearchControls';
 import { SearchResults } from './SearchDialog/components/SearchResults';
+import { WorkspaceSearch } from './SearchDialog/components/WorkspaceSearch';
 // Custom hooks dan components
 import { useSearchEngine } from './SearchDialog/hooks/useSearchEngine';
 
@@ -21,18 +23,31 @@ import type { SearchDialogProps } from './SearchDialog/types/search.types';
  * Dialog component for search and replace with clean architecture
  * Uses composition pattern and separation of concerns
  */
-export const SearchDialog: React.FC<SearchDialogProps> = ({ markdown, onReplace, onClose }) => {
+export const SearchDialog: React.FC<SearchDialogProps> = ({
+  markdown,
+  onReplace,
+  onClose,
+  storageService,
+  fileName,
+  onOpenMatch,
+}) => {
+  const [scope, setScope] = useState<'file' | 'workspace'>('file');
+
   // Setup search engine with custom hook
   const {
     searchTerm,
     replaceTerm,
     caseSensitive,
+    useRegex,
+    wholeWord,
     currentMatch,
     matches,
     totalMatches,
     setSearchTerm,
     setReplaceTerm,
     setCaseSensitive,
+    setUseRegex,
+    setWholeWord,
     navigateMatch,
     replaceOne,
     replaceAll,
@@ -60,9 +75,50 @@ export const SearchDialog: React.FC<SearchDialogProps> = ({ markdown, onReplace,
     }
   }, [replaceAll, onReplace, clearSearch]);
 
+  // Konten file yang sedang dibuka diambil dari editor, termasuk perubahan yang belum disimpan
+  const currentFile = useMemo(
+    () => (fileName ? { title: fileName, content: markdown } : undefined),
+    [fileName, markdown]
+  );
+
+  const fileSearch = (
+    <div className="space-y-4">
+      {/* Search Controls */}
+      <SearchControls
+        searchTerm={searchTerm}
+        replaceTerm={replaceTerm}
+        caseSensitive={caseSensitive}
+        useRegex={useRegex}
+        wholeWord={wholeWord}
+        onSearchTermChange={setSearchTerm}
+        onReplaceTermChange={setReplaceTerm}
+        onCaseSensitiveChange={setCaseSensitive}
+        onUseRegexChange={setUseRegex}
+        onWholeWordChange={setWholeWord}
+        matchCount={totalMatches}
+        currentMatch={currentMatch}
+      />
+
+      {/* Search Results Info */}
+      {searchTerm && <SearchResults matches={matches} currentMatch={currentMatch} />}
+
+      {/* Search Actions */}
+      <SearchActions
+        matches={matches}
+        currentMatch={currentMatch}
+        onNavigateMatch={navigateMatch}
+        onReplaceOne={handleReplaceOne}
+        onReplaceAll={handleReplaceAll}
+      />
+    </div>
+  );
+
   return (
     <Dialog open={true} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md search-dialog" data-search-dialog>
+      <DialogContent
+        className={`${scope === 'workspace' ? 'sm:max-w-2xl' : 'sm:max-w-md'} search-dialog`}
+        data-search-dialog
+      >
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Search className="h-4 w-4" />
@@ -70,31 +126,25 @@ export const SearchDialog: React.FC<SearchDialogProps> = ({ markdown, onReplace,
           </DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-4">
-          {/* Search Controls */}
-          <SearchControls
-            searchTerm={searchTerm}
-            replaceTerm={replaceTerm}
-            caseSensitive={caseSensitive}
-            onSearchTermChange={setSearchTerm}
-            onReplaceTermChange={setReplaceTerm}
-            onCaseSensitiveChange={setCaseSensitive}
-            matchCount={totalMatches}
-            currentMatch={currentMatch}
-          />
-
-          {/* Search Results Info */}
-          {searchTerm && <SearchResults matches={matches} currentMatch={currentMatch} />}
-
-          {/* Search Actions */}
-          <SearchActions
-            matches={matches}
-            currentMatch={currentMatch}
-            onNavigateMatch={navigateMatch}
-            onReplaceOne={handleReplaceOne}
-            onReplaceAll={handleReplaceAll}
-          />
-        </div>
+        {storageService && onOpenMatch ? (
+          <Tabs value={scope} onValueChange={(value) => setScope(value as 'file' | 'workspace')}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="file">This file</TabsTrigger>
+              <TabsTrigger value="workspace">All files</TabsTrigger>
+            </TabsList>
+            <TabsContent value="file">{fileSearch}</TabsContent>
+            <TabsContent value="workspace">
+              <WorkspaceSearch
+                storageService={storageService}
+                currentFile={currentFile}
+                onOpenMatch={onOpenMatch}
+                onReplaceCurrent={onReplace}
+              />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          fileSearch
+        )}
       </DialogContent>
     </Dialog>
   );
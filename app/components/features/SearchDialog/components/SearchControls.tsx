@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import type { SearchControlsProps } from '../types/search.types';
+import { SearchOptionToggles } from './SearchOptionToggles';
 
 /**
  * Component for search and replace input controls
@@ -22,16 +23,19 @@ export const SearchControls: React.FC<
   searchTerm,
   replaceTerm,
   caseSensitive,
+  useRegex = false,
+  wholeWord = false,
   onSearchTermChange,
   onReplaceTermChange,
   onCaseSensitiveChange,
+  onUseRegexChange,
+  onWholeWordChange,
   matchCount = 0,
   currentMatch = 0,
 }) => {
   // Generate unique IDs for form elements
   const searchId = useId();
   const replaceId = useId();
-  const caseSensitiveId = useId();
   return (
     <div className="space-y-4">
       {/* Search Input */}
@@ -69,18 +73,14 @@ export const SearchControls: React.FC<
       </div>
 
       {/* Options */}
-      <div className="flex items-center space-x-2">
-        <input
-          type="checkbox"
-          id={caseSensitiveId}
-          checked={caseSensitive}
-          onChange={(e) => onCaseSensitiveChange(e.target.checked)}
-          className="rounded"
-        />
-        <Label htmlFor={caseSensitiveId} className="text-sm">
-          Case sensitive
-        </Label>
-      </div>
+      <SearchOptionToggles
+        options={{ caseSensitive, useRegex, wholeWord }}
+        onOptionsChange={(changes) => {
+          if (changes.caseSensitive !== undefined) onCaseSensitiveChange(changes.caseSensitive);
+          if (changes.useRegex !== undefined) onUseRegexChange?.(changes.useRegex);
+          if (changes.wholeWord !== undefined) onWholeWordChange?.(changes.wholeWord);
+        }}
+      />
     </div>
   );
 };
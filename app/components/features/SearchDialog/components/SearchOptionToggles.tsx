@@ -0,0 +1,47 @@
+/**
+ * @fileoverview SearchOptionToggles - Checkbox untuk opsi pencarian (case, whole word, regex)
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import { useId } from 'react';
+import { Label } from '@/components/ui/label';
+import type { SearchOptions, SearchOptionTogglesProps } from '../types/search.types';
+
+const OPTION_LABELS: { key: keyof SearchOptions; label: string }[] = [
+  { key: 'caseSensitive', label: 'Case sensitive' },
+  { key: 'wholeWord', label: 'Whole word' },
+  { key: 'useRegex', label: 'Regex' },
+];
+
+/**
+ * Component for toggling search options
+ */
+export const SearchOptionToggles: React.FC<SearchOptionTogglesProps> = ({
+  options,
+  onOptionsChange,
+}) => {
+  const baseId = useId();
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+      {OPTION_LABELS.map(({ key, label }) => {
+        const id = `${baseId}-${key}`;
+        return (
+          <div key={key} className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id={id}
+              checked={!!options[key]}
+              onChange={(e) => onOptionsChange({ [key]: e.target.checked })}
+              className="rounded"
+            />
+            <Label htmlFor={id} className="text-sm">
+              {label}
+            </Label>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
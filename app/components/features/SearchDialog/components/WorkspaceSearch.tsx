@@ -0,0 +1,325 @@
+/**
+ * @fileoverview WorkspaceSearch - Pencarian dan replace di semua file dengan hasil berperingkat
+ * @author Axel Modra
+ */
+
+import { FileText, Loader2, Replace, Undo2 } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useId, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { FileData } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
+import { useWorkspaceReplace } from '../hooks/useWorkspaceReplace';
+import { useWorkspaceSearch } from '../hooks/useWorkspaceSearch';
+import type { WorkspaceSearchMatch } from '../types/search.types';
+import { getMatchKey } from '../utils/workspaceSearch';
+import { SearchOptionToggles } from './SearchOptionToggles';
+
+interface WorkspaceSearchProps {
+  /** Storage yang diindeks */
+  storageService: FileStorageService | null;
+  /** File yang sedang dibuka beserta konten editor */
+  currentFile?: { title: string; content: string };
+  /** Callback ketika hasil diklik */
+  onOpenMatch: (file: FileData, match: WorkspaceSearchMatch) => void;
+  /** Callback untuk memperbarui editor ketika file yang sedang dibuka ikut di-replace */
+  onReplaceCurrent?: (newMarkdown: string) => void;
+}
+
+/** Posisi awal file, dipakai saat hanya judul yang cocok */
+const FILE_START: WorkspaceSearchMatch = {
+  index: 0,
+  length: 0,
+  line: 1,
+  column: 0,
+  before: '',
+  text: '',
+  after: '',
+};
+
+/**
+ * Snippet satu match: disorot saat mencari, diff (hapus/tambah) saat replace
+ */
+const MatchSnippet: React.FC<{ match: WorkspaceSearchMatch }> = ({ match }) => (
+  <span className="truncate font-mono">
+    {match.before}
+    {match.replacement === undefined ? (
+      <mark className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-700">
+        {match.text}
+      </mark>
+    ) : (
+      <>
+        <del className="rounded-sm bg-red-100 px-0.5 text-red-800 dark:bg-red-900/40 dark:text-red-300">
+          {match.text}
+        </del>
+        {match.replacement && (
+          <ins className="rounded-sm bg-green-100 px-0.5 text-green-800 no-underline dark:bg-green-900/40 dark:text-green-300">
+            {match.replacement}
+          </ins>
+        )}
+      </>
+    )}
+    {match.after}
+  </span>
+);
+
+/**
+ * Component for searching and replacing across every stored file
+ */
+export const WorkspaceSearch: React.FC<WorkspaceSearchProps> = ({
+  storageService,
+  currentFile,
+  onOpenMatch,
+  onReplaceCurrent,
+}) => {
+  const searchId = useId();
+  const replaceId = useId();
+  const {
+    searchTerm,
+    replaceTerm,
+    isReplaceMode,
+    options,
+    results,
+    totalMatches,
+    fileCount,
+    isIndexing,
+    isError,
+    isStale,
+    setSearchTerm,
+    setReplaceTerm,
+    setIsReplaceMode,
+    updateOptions,
+  } = useWorkspaceSearch(storageService, currentFile);
+  const { lastReplace, isReplacing, replaceInFiles, undoReplace } = useWorkspaceReplace(
+    storageService,
+    currentFile,
+    onReplaceCurrent
+  );
+
+  // Match yang tidak dicentang; semua match tercentang lagi setiap kali pencarian berubah
+  const [excludedKeys, setExcludedKeys] = useState<Set<string>>(new Set());
+  // biome-ignore lint/correctness/useExhaustiveDependencies: Reset when the search changes
+  useEffect(() => {
+    setExcludedKeys(new Set());
+  }, [searchTerm, replaceTerm, options, isReplaceMode]);
+
+  const selectedCount = useMemo(
+    () =>
+      results.reduce(
+        (total, { file, matches }) =>
+          total + matches.filter((match) => !excludedKeys.has(getMatchKey(file, match))).length,
+        0
+      ),
+    [results, excludedKeys]
+  );
+
+  const setMatchesSelected = (keys: string[], selected: boolean) => {
+    setExcludedKeys((previous) => {
+      const next = new Set(previous);
+      for (const key of keys) {
+        if (selected) next.delete(key);
+        else next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleReplace = async () => {
+    try {
+      await replaceInFiles(results, excludedKeys);
+    } catch {
+      // Error toast is raised by useWorkspaceReplace
+    }
+  };
+
+  const handleUndo = async () => {
+    try {
+      await undoReplace();
+    } catch {
+      // Error toast is raised by useWorkspaceReplace
+    }
+  };
+
+  const renderStatus = () => {
+    if (isIndexing) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Indexing files...
+        </div>
+      );
+    }
+    if (isError) {
+      return <div className="text-sm text-destructive">Could not load files for searching.</div>;
+    }
+    if (!searchTerm.trim()) {
+      return (
+        <div className="text-sm text-muted-foreground italic">
+          Search across {fileCount} file{fileCount !== 1 ? 's' : ''}
+        </div>
+      );
+    }
+    if (results.length === 0) {
+      return <div className="text-sm text-muted-foreground italic">No matches found</div>;
+    }
+    return (
+      <div className="text-sm text-muted-foreground">
+        {totalMatches} match{totalMatches !== 1 ? 'es' : ''} in {results.length} file
+        {results.length !== 1 ? 's' : ''}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor={searchId} className="text-sm font-medium">
+            Search all files
+          </Label>
+          <Button
+            variant={isReplaceMode ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setIsReplaceMode(!isReplaceMode)}
+            aria-pressed={isReplaceMode}
+            className="h-7 px-2 text-xs"
+          >
+            <Replace className="mr-1 h-3 w-3" />
+            Replace
+          </Button>
+        </div>
+        <Input
+          id={searchId}
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Enter search term..."
+          autoFocus
+        />
+      </div>
+
+      {isReplaceMode && (
+        <div className="space-y-2">
+          <Label htmlFor={replaceId} className="text-sm font-medium">
+            Replace with
+          </Label>
+          <Input
+            id={replaceId}
+            value={replaceTerm}
+            onChange={(e) => setReplaceTerm(e.target.value)}
+            placeholder={
+              options.useRegex ? 'Replacement, $1 for groups...' : 'Enter replacement...'
+            }
+          />
+        </div>
+      )}
+
+      <SearchOptionToggles options={options} onOptionsChange={updateOptions} />
+
+      {renderStatus()}
+
+      {results.length > 0 && (
+        <ScrollArea className={`h-[50vh] pr-3 ${isStale ? 'opacity-60' : ''}`}>
+          <ul className="space-y-3">
+            {results.map(({ file, matches, totalMatches: fileMatches, titleMatch }) => {
+              const matchKeys = matches.map((match) => getMatchKey(file, match));
+              const selectedInFile = matchKeys.filter((key) => !excludedKeys.has(key)).length;
+
+              return (
+                <li key={file.id ?? file.title} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    {isReplaceMode && matches.length > 0 && (
+                      <Checkbox
+                        checked={
+                          selectedInFile === matches.length
+                            ? true
+                            : selectedInFile > 0
+                              ? 'indeterminate'
+                              : false
+                        }
+                        onCheckedChange={(checked) => setMatchesSelected(matchKeys, !!checked)}
+                        aria-label={`Replace all matches in ${file.title}`}
+                      />
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => onOpenMatch(file, matches[0] ?? FILE_START)}
+                      className="flex flex-1 min-w-0 items-center gap-2 rounded-md px-1 py-0.5 text-left text-sm font-medium hover:bg-muted"
+                    >
+                      <FileText className="h-4 w-4 flex-shrink-0" />
+                      <span className={`truncate flex-1 ${titleMatch ? 'text-primary' : ''}`}>
+                        {file.title}
+                      </span>
+                      <Badge variant="secondary" className="px-2 py-0 text-xs">
+                        {isReplaceMode ? `${selectedInFile}/${fileMatches}` : fileMatches}
+                      </Badge>
+                    </button>
+                  </div>
+
+                  <ul>
+                    {matches.map((match, index) => (
+                      <li key={match.index} className="flex items-center gap-2">
+                        {isReplaceMode && (
+                          <Checkbox
+                            checked={!excludedKeys.has(matchKeys[index])}
+                            onCheckedChange={(checked) =>
+                              setMatchesSelected([matchKeys[index]], !!checked)
+                            }
+                            aria-label={`Replace match on line ${match.line}`}
+                            className="ml-4"
+                          />
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => onOpenMatch(file, match)}
+                          className="flex flex-1 min-w-0 gap-2 rounded-md px-1 py-0.5 text-left text-xs hover:bg-muted"
+                        >
+                          <span className="w-10 flex-shrink-0 text-right font-mono text-muted-foreground">
+                            {match.line}
+                          </span>
+                          <MatchSnippet match={match} />
+                        </button>
+                      </li>
+                    ))}
+                    {fileMatches > matches.length && (
+                      <li className="px-1 pl-12 text-xs text-muted-foreground italic">
+                        {fileMatches - matches.length} more match
+                        {fileMatches - matches.length !== 1 ? 'es' : ''} not shown
+                      </li>
+                    )}
+                  </ul>
+                </li>
+              );
+            })}
+          </ul>
+        </ScrollArea>
+      )}
+
+      {(isReplaceMode || lastReplace) && (
+        <div className="flex items-center justify-end gap-2">
+          {lastReplace && (
+            <Button variant="outline" size="sm" onClick={handleUndo} disabled={isReplacing}>
+              <Undo2 className="mr-1 h-4 w-4" />
+              Undo replace in {lastReplace.length} file{lastReplace.length !== 1 ? 's' : ''}
+            </Button>
+          )}
+          {isReplaceMode && (
+            <Button
+              size="sm"
+              onClick={handleReplace}
+              disabled={isReplacing || isStale || selectedCount === 0}
+            >
+              {isReplacing
+                ? 'Replacing...'
+                : `Replace ${selectedCount} match${selectedCount !== 1 ? 'es' : ''}`}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
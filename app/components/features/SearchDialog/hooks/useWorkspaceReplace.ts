@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Custom hook untuk replace di banyak file sekaligus (dengan undo satu langkah)
+ * @author Axel Modra
+ */
+
+import { useAuth } from '@clerk/react-router';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import { useToast } from '@/hooks/core/useToast';
+import { batchInvalidateQueries, queryKeys } from '@/lib/queryClient';
+import type { FileData } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
+import { safeConsole } from '@/utils/console';
+import { parseFileOperationError } from '@/utils/fileOperationErrors';
+import type { WorkspaceReplaceChange, WorkspaceSearchResult } from '../types/search.types';
+import { applyReplacements, getMatchKey } from '../utils/workspaceSearch';
+
+/**
+ * Salin file dengan konten baru; versi dinaikkan oleh storage saat disimpan
+ */
+const withContent = (file: FileData, content: string): FileData => ({ ...file, content });
+
+const pluralizeFiles = (count: number) => `${count} file${count === 1 ? '' : 's'}`;
+
+/**
+ * Custom hook untuk replace workspace
+ * @param storageService - Storage tempat file disimpan
+ * @param currentFile - File yang sedang dibuka; editor ikut diperbarui jika file ini berubah
+ * @param onReplaceCurrent - Callback untuk memperbarui konten editor
+ */
+export const useWorkspaceReplace = (
+  storageService: FileStorageService | null | undefined,
+  currentFile?: { title: string },
+  onReplaceCurrent?: (newMarkdown: string) => void
+) => {
+  const { userId } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const owner = userId || 'anonymous';
+
+  const [lastReplace, setLastReplace] = useState<WorkspaceReplaceChange[] | null>(null);
+
+  const { mutateAsync, isPending } = useMutation({
+    mutationFn: async (files: FileData[]) => {
+      if (!storageService) {
+        throw new Error('Storage service not initialized');
+      }
+      return storageService.batchSave(files);
+    },
+    onSuccess: () => {
+      batchInvalidateQueries.fileOperations(owner);
+      queryClient.invalidateQueries({ queryKey: queryKeys.files.searchIndex(owner) });
+    },
+    onError: (error: unknown) => {
+      safeConsole.error('Error replacing across files:', error);
+      toast({
+        title: 'Replace Failed',
+        description: parseFileOperationError(error).userMessage,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const syncCurrentFile = useCallback(
+    (file: FileData, content: string) => {
+      if (currentFile && file.title === currentFile.title) {
+        onReplaceCurrent?.(content);
+      }
+    },
+    [currentFile, onReplaceCurrent]
+  );
+
+  /**
+   * Ganti semua match yang dicentang di semua file dalam satu operasi simpan
+   */
+  const replaceInFiles = useCallback(
+    async (results: WorkspaceSearchResult[], excludedKeys: Set<string>) => {
+      const changes = results.flatMap<WorkspaceReplaceChange>(({ file, matches }) => {
+        const selected = matches.filter((match) => !excludedKeys.has(getMatchKey(file, match)));
+        const originalContent = file.content || '';
+        const result = applyReplacements(originalContent, selected);
+        return result.success && result.newMarkdown !== originalContent
+          ? [{ file, originalContent, result }]
+          : [];
+      });
+      if (changes.length === 0) return;
+
+      await mutateAsync(changes.map(({ file, result }) => withContent(file, result.newMarkdown)));
+
+      for (const { file, result } of changes) {
+        syncCurrentFile(file, result.newMarkdown);
+      }
+      setLastReplace(changes);
+
+      const count = changes.reduce((total, { result }) => total + result.replacementCount, 0);
+      toast({
+        title: 'Replace Complete',
+        description: `Replaced ${count} match${count === 1 ? '' : 'es'} in ${changes.length} file${
+          changes.length === 1 ? '' : 's'
+        }.`,
+      });
+    },
+    [mutateAsync, syncCurrentFile, toast]
+  );
+
+  /**
+   * Kembalikan file dari replace terakhir dalam satu operasi simpan.
+   * File yang sudah diedit setelah replace dilewati supaya editan itu tidak tertimpa.
+   */
+  const undoReplace = useCallback(async () => {
+    if (!lastReplace || !storageService) return;
+
+    const currentFiles = await Promise.all(
+      lastReplace.map(({ file }) => storageService.load(file.id || file.title).catch(() => null))
+    );
+    const restorable = lastReplace.flatMap((change, index) => {
+      const current = currentFiles[index];
+      return current && current.content === change.result.newMarkdown
+        ? [{ ...change, file: current }]
+        : [];
+    });
+    const skipped = lastReplace.filter(
+      (change) => !restorable.some(({ file }) => file.id === change.file.id)
+    );
+
+    if (restorable.length > 0) {
+      await mutateAsync(
+        restorable.map(({ file, originalContent }) => withContent(file, originalContent))
+      );
+
+      for (const { file, originalContent } of restorable) {
+        syncCurrentFile(file, originalContent);
+      }
+    }
+    setLastReplace(null);
+
+    if (skipped.length > 0) {
+      toast({
+        title: restorable.length > 0 ? 'Replace Partially Undone' : 'Undo Skipped',
+        description: `Restored ${pluralizeFiles(restorable.length)}. Skipped ${pluralizeFiles(
+          skipped.length
+        )} edited after the replace: ${skipped.map(({ file }) => file.title).join(', ')}.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Replace Undone',
+      description: `Restored ${pluralizeFiles(restorable.length)}.`,
+    });
+  }, [lastReplace, storageService, mutateAsync, syncCurrentFile, toast]);
+
+  return {
+    lastReplace,
+    isReplacing: isPending,
+    replaceInFiles,
+    undoReplace,
+  };
+};
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Custom hook untuk pencarian di semua file (workspace)
+ * @author Axel Modra
+ */
+
+import { useAuth } from '@clerk/react-router';
+import { useQuery } from '@tanstack/react-query';
+import { useCallback, useDeferredValue, useMemo, useState } from 'react';
+import { queryKeys } from '@/lib/queryClient';
+import type { FileData } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
+import { safeConsole } from '@/utils/console';
+import type { SearchOptions } from '../types/search.types';
+import { searchWorkspace } from '../utils/workspaceSearch';
+
+/**
+ * Custom hook untuk pencarian workspace
+ * @param storageService - Storage yang diindeks (lokal atau cloud)
+ * @param currentFile - File yang sedang dibuka; kontennya diambil dari editor (belum tentu tersimpan)
+ */
+export const useWorkspaceSearch = (
+  storageService: FileStorageService | null | undefined,
+  currentFile?: { title: string; content: string }
+) => {
+  const { userId } = useAuth();
+  const owner = userId || 'anonymous';
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [replaceTerm, setReplaceTerm] = useState('');
+  const [isReplaceMode, setIsReplaceMode] = useState(false);
+  const [options, setOptions] = useState<SearchOptions>({
+    caseSensitive: false,
+    useRegex: false,
+    wholeWord: false,
+  });
+
+  // Index selalu dimuat ulang saat dialog dibuka supaya hasil tidak basi
+  const {
+    data: indexedFiles = [],
+    isLoading: isIndexing,
+    isError,
+  } = useQuery<FileData[]>({
+    queryKey: queryKeys.files.searchIndex(owner),
+    queryFn: async () => {
+      if (!storageService) return [];
+
+      try {
+        return await storageService.listWithContent();
+      } catch (error) {
+        safeConsole.error('Error building search index:', error);
+        throw error;
+      }
+    },
+    enabled: !!storageService,
+    staleTime: 0,
+  });
+
+  const files = useMemo(() => {
+    if (!currentFile) return indexedFiles;
+    return indexedFiles.map((file) =>
+      file.title === currentFile.title ? { ...file, content: currentFile.content } : file
+    );
+  }, [indexedFiles, currentFile]);
+
+  // Term ditunda supaya mengetik tetap responsif pada workspace besar
+  const deferredTerm = useDeferredValue(searchTerm);
+  const deferredReplaceTerm = useDeferredValue(replaceTerm);
+
+  const results = useMemo(
+    () =>
+      searchWorkspace(
+        files,
+        deferredTerm,
+        options,
+        isReplaceMode ? deferredReplaceTerm : undefined
+      ),
+    [files, deferredTerm, options, isReplaceMode, deferredReplaceTerm]
+  );
+
+  const totalMatches = useMemo(
+    () => results.reduce((total, result) => total + result.totalMatches, 0),
+    [results]
+  );
+
+  const updateOptions = useCallback((changes: Partial<SearchOptions>) => {
+    setOptions((previous) => ({ ...previous, ...changes }));
+  }, []);
+
+  return {
+    searchTerm,
+    replaceTerm,
+    isReplaceMode,
+    options,
+    results,
+    totalMatches,
+    fileCount: indexedFiles.length,
+    isIndexing,
+    isError,
+    isStale: deferredTerm !== searchTerm || deferredReplaceTerm !== replaceTerm,
+    setSearchTerm,
+    setReplaceTerm,
+    setIsReplaceMode,
+    updateOptions,
+  };
+};
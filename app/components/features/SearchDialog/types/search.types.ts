@@ -3,6 +3,9 @@
  * @author Axel Modra
  */
 
+import type { FileData } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
+
 /**
  * Props untuk komponen SearchDialog utama
  */
@@ -13,6 +16,12 @@ export interface SearchDialogProps {
   onReplace: (newMarkdown: string) => void;
   /** Callback ketika dialog ditutup */
   onClose: () => void;
+  /** Storage untuk pencarian di semua file; tab "All files" hanya muncul jika diberikan */
+  storageService?: FileStorageService | null;
+  /** Judul file yang sedang dibuka (kontennya diambil dari editor, bukan storage) */
+  fileName?: string;
+  /** Callback untuk membuka file pada posisi match */
+  onOpenMatch?: (file: FileData, match: WorkspaceSearchMatch) => void;
 }
 
 /**
@@ -25,12 +34,30 @@ export interface SearchControlsProps {
   replaceTerm: string;
   /** Case sensitive flag */
   caseSensitive: boolean;
+  /** Regex flag */
+  useRegex?: boolean;
+  /** Whole word flag */
+  wholeWord?: boolean;
   /** Callback untuk update search term */
   onSearchTermChange: (term: string) => void;
   /** Callback untuk update replace term */
   onReplaceTermChange: (term: string) => void;
   /** Callback untuk toggle case sensitivity */
   onCaseSensitiveChange: (caseSensitive: boolean) => void;
+  /** Callback untuk toggle regex */
+  onUseRegexChange?: (useRegex: boolean) => void;
+  /** Callback untuk toggle whole word */
+  onWholeWordChange?: (wholeWord: boolean) => void;
+}
+
+/**
+ * Props untuk SearchOptionToggles component
+ */
+export interface SearchOptionTogglesProps {
+  /** Search options aktif */
+  options: SearchOptions;
+  /** Callback ketika salah satu opsi berubah */
+  onOptionsChange: (options: Partial<SearchOptions>) => void;
 }
 
 /**
@@ -109,6 +136,56 @@ export interface ReplaceResult {
   success: boolean;
 }
 
+/**
+ * Match di satu file hasil pencarian workspace
+ */
+export interface WorkspaceSearchMatch {
+  /** Index dalam konten file */
+  index: number;
+  /** Panjang match */
+  length: number;
+  /** Nomor baris (mulai dari 1) */
+  line: number;
+  /** Kolom dalam baris (mulai dari 0) */
+  column: number;
+  /** Potongan teks sebelum match */
+  before: string;
+  /** Teks yang cocok */
+  text: string;
+  /** Potongan teks setelah match */
+  after: string;
+  /** Teks pengganti (hanya diisi saat mode replace) */
+  replacement?: string;
+}
+
+/**
+ * Hasil pencarian workspace untuk satu file
+ */
+export interface WorkspaceSearchResult {
+  /** File yang cocok */
+  file: FileData;
+  /** Match yang ditampilkan (dibatasi per file) */
+  matches: WorkspaceSearchMatch[];
+  /** Total match di file ini */
+  totalMatches: number;
+  /** Judul file ikut cocok */
+  titleMatch: boolean;
+  /** Skor untuk pengurutan hasil */
+  score: number;
+}
+
+/**
+ * Perubahan satu file hasil replace workspace
+ */
+export interface WorkspaceReplaceChange {
+  /** File yang diubah */
+  file: FileData;
+  /** Konten sebelum replace (untuk undo) */
+  originalContent: string;
+  /** Hasil replace pada konten file */
+  result: ReplaceResult;
+}
+
 /**
  * Navigation direction
  */
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import type { FileData } from '@/lib/supabase';
+import {
+  applyReplacements,
+  createSearchRegex,
+  expandReplacement,
+  findContentMatches,
+  getMatchKey,
+  MAX_MATCHES_PER_FILE,
+  searchWorkspace,
+} from './workspaceSearch';
+
+const file = (title: string, content: string, updatedAt?: string): FileData => ({
+  id: `id-${title}`,
+  title,
+  content,
+  updatedAt,
+});
+
+const replaceAll = (content: string, searchTerm: string, replaceTerm: string, useRegex = false) => {
+  const [result] = searchWorkspace(
+    [file('a.md', content)],
+    searchTerm,
+    { caseSensitive: true, useRegex },
+    replaceTerm
+  );
+  return applyReplacements(content, result?.matches ?? []).newMarkdown;
+};
+
+describe('findContentMatches', () => {
+  it('reports offsets, lines and columns across lines', () => {
+    const content = 'foo\nbar foo\n\nfoo';
+    const { matches } = findContentMatches(content, /foo/g);
+
+    expect(matches.map(({ index, line, column }) => ({ index, line, column }))).toEqual([
+      { index: 0, line: 1, column: 0 },
+      { index: 8, line: 2, column: 4 },
+      { index: 13, line: 4, column: 0 },
+    ]);
+    for (const match of matches) {
+      expect(content.slice(match.index, match.index + match.length)).toBe('foo');
+    }
+  });
+
+  it('skips empty matches', () => {
+    expect(findContentMatches('a\nb', /^/g).totalMatches).toBe(0);
+    expect(findContentMatches('axxb', /x*/g).matches.map(({ index }) => index)).toEqual([1]);
+  });
+
+  it('keeps at most maxMatches matches but counts all of them', () => {
+    const { matches, totalMatches } = findContentMatches('a a a', /a/g, 2);
+    expect(matches).toHaveLength(2);
+    expect(totalMatches).toBe(3);
+  });
+
+  it('counts matches in headings', () => {
+    expect(findContentMatches('# foo\nfoo', /foo/g).headingMatches).toBe(1);
+  });
+
+  it('cuts long lines around the match for the snippet', () => {
+    const [match] = findContentMatches(`${'x'.repeat(50)}foo${'y'.repeat(100)}`, /foo/g).matches;
+    expect(match.before).toBe(`…${'x'.repeat(40)}`);
+    expect(match.text).toBe('foo');
+    expect(match.after).toBe(`${'y'.repeat(80)}…`);
+  });
+});
+
+describe('createSearchRegex', () => {
+  it('matches whole words only when asked', () => {
+    const regex = createSearchRegex('cat', { caseSensitive: false, wholeWord: true });
+    expect(findContentMatches('Cat concat cat', regex).totalMatches).toBe(2);
+  });
+
+  it('searches for invalid regular expressions literally', () => {
+    const regex = createSearchRegex('f(o', { caseSensitive: true, useRegex: true });
+    expect(findContentMatches('f(o fo', regex).matches.map(({ index }) => index)).toEqual([0]);
+  });
+});
+
+describe('expandReplacement', () => {
+  it('expands patterns like String.prototype.replace', () => {
+    const regex = /(\w+)@(?<domain>\w+)/;
+    const text = 'user@example';
+    const match = regex.exec(text) as RegExpExecArray;
+
+    for (const replaceTerm of ['$2-$1', '$&!', '$$1', '$<domain>', '$12', '$9', '$0', '$<none>']) {
+      expect(expandReplacement(replaceTerm, match)).toBe(text.replace(regex, replaceTerm));
+    }
+  });
+});
+
+describe('searchWorkspace', () => {
+  it('returns nothing for an empty search term', () => {
+    expect(searchWorkspace([file('a.md', 'foo')], '  ', { caseSensitive: false })).toEqual([]);
+  });
+
+  it('includes files whose title matches', () => {
+    const [result] = searchWorkspace([file('foo.md', 'nothing here')], 'foo', {
+      caseSensitive: false,
+    });
+    expect(result).toMatchObject({ titleMatch: true, totalMatches: 0, matches: [] });
+  });
+
+  it('ranks title matches first, then more matches, then newer files', () => {
+    const results = searchWorkspace(
+      [
+        file('old.md', 'foo', '2024-01-01'),
+        file('new.md', 'foo', '2024-06-01'),
+        file('many.md', 'foo foo foo'),
+        file('foo.md', ''),
+      ],
+      'foo',
+      { caseSensitive: false }
+    );
+    expect(results.map((result) => result.file.title)).toEqual([
+      'foo.md',
+      'many.md',
+      'new.md',
+      'old.md',
+    ]);
+  });
+
+  it('keeps every match when replacing', () => {
+    const content = 'a '.repeat(MAX_MATCHES_PER_FILE + 10);
+    const options = { caseSensitive: true };
+    expect(searchWorkspace([file('x.md', content)], 'a', options)[0].matches).toHaveLength(
+      MAX_MATCHES_PER_FILE
+    );
+    expect(searchWorkspace([file('x.md', content)], 'a', options, 'b')[0].matches).toHaveLength(
+      MAX_MATCHES_PER_FILE + 10
+    );
+  });
+});
+
+describe('applyReplacements', () => {
+  it('replaces at the match offsets on every line', () => {
+    const content = 'föö 🎉 foo\nfoo\n\n# foo bar foo';
+    expect(replaceAll(content, 'foo', 'longer')).toBe(content.replaceAll('foo', 'longer'));
+    expect(replaceAll(content, 'foo', '')).toBe(content.replaceAll('foo', ''));
+  });
+
+  it('expands regex replacements per match', () => {
+    const content = 'a@b\nc@d e@f';
+    expect(replaceAll(content, '(\\w)@(\\w)', '$2@$1', true)).toBe('b@a\nd@c f@e');
+  });
+
+  it('applies only the given matches, in any order', () => {
+    const content = 'foo foo foo';
+    const [result] = searchWorkspace([file('a.md', content)], 'foo', { caseSensitive: true }, 'x');
+    const [first, , third] = result.matches;
+
+    expect(applyReplacements(content, [third, first])).toEqual({
+      newMarkdown: 'x foo x',
+      replacementCount: 2,
+      success: true,
+    });
+  });
+
+  it('reports no success without replacements', () => {
+    const [match] = findContentMatches('foo', /foo/g).matches;
+    expect(applyReplacements('foo', [match])).toEqual({
+      newMarkdown: 'foo',
+      replacementCount: 0,
+      success: false,
+    });
+  });
+});
+
+describe('getMatchKey', () => {
+  it('keys matches by file id and offset, falling back to the title', () => {
+    const [match] = findContentMatches('foo', /foo/g).matches;
+    expect(getMatchKey(file('a.md', 'foo'), match)).toBe('id-a.md:0');
+    expect(getMatchKey({ title: 'b.md', content: 'foo' }, match)).toBe('b.md:0');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Pencarian full-text di semua file (ranking, snippet, nomor baris)
+ * @author Axel Modra
+ */
+
+import type { FileData } from '@/lib/supabase';
+import { createSafeRegex } from '@/utils/common';
+import type {
+  ReplaceResult,
+  SearchOptions,
+  WorkspaceSearchMatch,
+  WorkspaceSearchResult,
+} from '../types/search.types';
+
+/**
+ * Batas match yang disimpan per file (total tetap dihitung semua)
+ */
+export const MAX_MATCHES_PER_FILE = 50;
+
+/**
+ * Panjang konteks snippet sebelum dan sesudah match
+ */
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 80;
+
+const HEADING_PATTERN = /^#{1,6}\s/;
+
+/**
+ * Buat regex pencarian dari term dan opsi; regex tidak valid di-escape oleh createSafeRegex
+ */
+export const createSearchRegex = (searchTerm: string, options: SearchOptions): RegExp =>
+  createSafeRegex(searchTerm, options.caseSensitive ? 'g' : 'gi', {
+    shouldEscape: !options.useRegex,
+    wholeWord: options.wholeWord,
+  });
+
+/**
+ * Ekspansi pola pengganti regex ($&, $1..$99, $<nama>, $$) untuk satu match
+ */
+export const expandReplacement = (replaceTerm: string, match: RegExpExecArray): string =>
+  replaceTerm.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+
+    // "$12" dengan satu grup berarti grup 1 diikuti "2", sama seperti String.replace
+    const group = Number(ref);
+    if (group > 0 && group < match.length) return match[group] ?? '';
+    const shortGroup = Number(ref[0]);
+    if (ref.length === 2 && shortGroup > 0 && shortGroup < match.length) {
+      return `${match[shortGroup] ?? ''}${ref[1]}`;
+    }
+    return token;
+  });
+
+/**
+ * Potong teks baris di sekitar match untuk snippet
+ */
+const buildSnippet = (lineText: string, column: number, length: number) => {
+  const beforeStart = Math.max(0, column - SNIPPET_BEFORE);
+  const afterEnd = Math.min(lineText.length, column + length + SNIPPET_AFTER);
+
+  return {
+    before: `${beforeStart > 0 ? '…' : ''}${lineText.slice(beforeStart, column).trimStart()}`,
+    text: lineText.slice(column, column + length),
+    after: `${lineText.slice(column + length, afterEnd).trimEnd()}${
+      afterEnd < lineText.length ? '…' : ''
+    }`,
+  };
+};
+
+/**
+ * Cari semua match di satu konten, per baris supaya nomor baris dan snippet langsung tersedia
+ */
+export const findContentMatches = (
+  content: string,
+  regex: RegExp,
+  maxMatches = MAX_MATCHES_PER_FILE,
+  replace?: { replaceTerm: string; useRegex?: boolean }
+): { matches: WorkspaceSearchMatch[]; totalMatches: number; headingMatches: number } => {
+  const matches: WorkspaceSearchMatch[] = [];
+  let totalMatches = 0;
+  let headingMatches = 0;
+  let lineStart = 0;
+
+  content.split('\n').forEach((lineText, lineIndex) => {
+    regex.lastIndex = 0;
+    let match = regex.exec(lineText);
+
+    while (match !== null) {
+      // Match kosong (mis. regex "^") tidak berguna dan bisa membuat loop tanpa akhir
+      if (match[0].length === 0) {
+        regex.lastIndex += 1;
+      } else {
+        totalMatches += 1;
+        if (HEADING_PATTERN.test(lineText)) headingMatches += 1;
+        if (matches.length < maxMatches) {
+          matches.push({
+            index: lineStart + match.index,
+            length: match[0].length,
+            line: lineIndex + 1,
+            column: match.index,
+            ...buildSnippet(lineText, match.index, match[0].length),
+            ...(replace && {
+              replacement: replace.useRegex
+                ? expandReplacement(replace.replaceTerm, match)
+                : replace.replaceTerm,
+            }),
+          });
+        }
+      }
+      if (regex.lastIndex > lineText.length) break;
+      match = regex.exec(lineText);
+    }
+
+    lineStart += lineText.length + 1;
+  });
+
+  return { matches, totalMatches, headingMatches };
+};
+
+/**
+ * Skor hasil: judul yang cocok paling berat, lalu match di heading, lalu jumlah match
+ */
+const scoreResult = (titleMatch: boolean, totalMatches: number, headingMatches: number) =>
+  (titleMatch ? 50 : 0) + Math.min(headingMatches, 5) * 5 + Math.log2(1 + totalMatches) * 10;
+
+/**
+ * Cari term di judul dan konten semua file, diurutkan berdasarkan skor lalu tanggal update.
+ * Dengan replaceTerm semua match disimpan (tanpa batas) beserta teks penggantinya.
+ */
+export const searchWorkspace = (
+  files: FileData[],
+  searchTerm: string,
+  options: SearchOptions,
+  replaceTerm?: string
+): WorkspaceSearchResult[] => {
+  if (!searchTerm.trim()) return [];
+
+  const regex = createSearchRegex(searchTerm, options);
+  const replace =
+    replaceTerm === undefined ? undefined : { replaceTerm, useRegex: options.useRegex };
+  const results: WorkspaceSearchResult[] = [];
+
+  for (const file of files) {
+    const titleMatch = findContentMatches(file.title, regex, 0).totalMatches > 0;
+    const { matches, totalMatches, headingMatches } = findContentMatches(
+      file.content || '',
+      regex,
+      replace ? Number.POSITIVE_INFINITY : MAX_MATCHES_PER_FILE,
+      replace
+    );
+
+    if (!titleMatch && totalMatches === 0) continue;
+
+    results.push({
+      file,
+      matches,
+      totalMatches,
+      titleMatch,
+      score: scoreResult(titleMatch, totalMatches, headingMatches),
+    });
+  }
+
+  return results.sort(
+    (a, b) =>
+      b.score - a.score ||
+      new Date(b.file.updatedAt || 0).getTime() - new Date(a.file.updatedAt || 0).getTime()
+  );
+};
+
+/**
+ * Terapkan teks pengganti dari match yang dipilih ke konten file
+ */
+export const applyReplacements = (
+  content: string,
+  matches: WorkspaceSearchMatch[]
+): ReplaceResult => {
+  const replacements = matches
+    .filter((match) => match.replacement !== undefined)
+    .sort((a, b) => a.index - b.index);
+
+  let newMarkdown = '';
+  let cursor = 0;
+  for (const match of replacements) {
+    newMarkdown += content.slice(cursor, match.index) + match.replacement;
+    cursor = match.index + match.length;
+  }
+  newMarkdown += content.slice(cursor);
+
+  return {
+    newMarkdown,
+    replacementCount: replacements.length,
+    success: replacements.length > 0,
+  };
+};
+
+/**
+ * Kunci unik match untuk menyimpan pilihan (centang) per match
+ */
+export const getMatchKey = (file: FileData, match: WorkspaceSearchMatch): string =>
+  `${file.id ?? file.title}:${match.index}`;
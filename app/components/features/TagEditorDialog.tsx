@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Dialog for editing the tags of one file or a selection of files
+ * @author Axel Modra
+ */
+
+import { Plus, Tag, X } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useId, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { hasTag, parseTagInput, type TagChanges } from '@/utils/tagUtils';
+
+interface TagEditorDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  title: string;
+  description: string;
+  /** Tags every edited file has */
+  tags: string[];
+  /** Tags only some of the edited files have (bulk editing) */
+  partialTags?: string[];
+  /** Known tags offered while typing */
+  suggestions?: string[];
+  /** Resolves when the tags were saved; a rejection keeps the dialog open */
+  onSubmit: (changes: TagChanges) => Promise<unknown>;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Edits tags as chips. Removing a chip removes the tag from every edited file,
+ * adding one adds it to every file, and partial tags are left alone unless touched.
+ */
+export const TagEditorDialog: React.FC<TagEditorDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  title,
+  description,
+  tags,
+  partialTags = [],
+  suggestions = [],
+  onSubmit,
+}) => {
+  const inputId = useId();
+  const [sharedDraft, setSharedDraft] = useState<string[]>(tags);
+  const [partialDraft, setPartialDraft] = useState<string[]>(partialTags);
+  const [input, setInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the draft each time the dialog opens
+  // biome-ignore lint/correctness/useExhaustiveDependencies: Only reset when the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setSharedDraft(tags);
+    setPartialDraft(partialTags);
+    setInput('');
+  }, [isOpen]);
+
+  const visibleSuggestions = useMemo(() => {
+    const query = input.trim().replace(/^#/, '').toLowerCase();
+    return suggestions
+      .filter((tag) => !hasTag(sharedDraft, tag))
+      .filter((tag) => !query || tag.toLowerCase().includes(query))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [suggestions, sharedDraft, input]);
+
+  const addTags = (newTags: string[]) => {
+    if (newTags.length === 0) return;
+    setSharedDraft((previous) => [...previous, ...newTags.filter((tag) => !hasTag(previous, tag))]);
+    setPartialDraft((previous) => previous.filter((tag) => !hasTag(newTags, tag)));
+  };
+
+  const commitInput = () => {
+    addTags(parseTagInput(input));
+    setInput('');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === ',' || (event.key === 'Enter' && input.trim())) {
+      event.preventDefault();
+      commitInput();
+    } else if (event.key === 'Backspace' && !input && sharedDraft.length > 0) {
+      setSharedDraft((previous) => previous.slice(0, -1));
+    }
+  };
+
+  const getChanges = (): TagChanges => {
+    const pending = parseTagInput(input);
+    const finalTags = [...sharedDraft, ...pending.filter((tag) => !hasTag(sharedDraft, tag))];
+    return {
+      add: finalTags.filter((tag) => !hasTag(tags, tag)),
+      remove: [...tags, ...partialTags].filter(
+        (tag) => !hasTag(finalTags, tag) && !hasTag(partialDraft, tag)
+      ),
+    };
+  };
+
+  const changes = isOpen ? getChanges() : { add: [], remove: [] };
+  const hasChanges = changes.add.length > 0 || changes.remove.length > 0;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!hasChanges) {
+      onOpenChange(false);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(changes);
+      onOpenChange(false);
+    } catch {
+      // Error toast is raised by the caller's hook
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Tag className="h-5 w-5" />
+              {title}
+            </DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor={inputId}>Tags</Label>
+            <div className="flex flex-wrap gap-1.5 min-h-[28px]">
+              {sharedDraft.map((tag) => (
+                <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+                  {tag}
+                  <button
+                    type="button"
+                    onClick={() => setSharedDraft((previous) => previous.filter((t) => t !== tag))}
+                    className="rounded-sm opacity-60 hover:opacity-100"
+                    aria-label={`Remove tag ${tag}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {partialDraft.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant="outline"
+                  className="gap-1 pr-1 border-dashed"
+                  title="Only some of the selected files have this tag"
+                >
+                  {tag}
+                  <button
+                    type="button"
+                    onClick={() => addTags([tag])}
+                    className="rounded-sm opacity-60 hover:opacity-100"
+                    aria-label={`Add tag ${tag} to all files`}
+                  >
+                    <Plus className="h-3 w-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPartialDraft((previous) => previous.filter((t) => t !== tag))}
+                    className="rounded-sm opacity-60 hover:opacity-100"
+                    aria-label={`Remove tag ${tag}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {sharedDraft.length === 0 && partialDraft.length === 0 && (
+                <span className="text-sm text-muted-foreground">No tags yet.</span>
+              )}
+            </div>
+            <Input
+              id={inputId}
+              value={input}
+              onChange={(event) => setInput(event.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Add tags, separated by commas"
+              autoFocus
+            />
+          </div>
+
+          {visibleSuggestions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-xs text-muted-foreground">Suggestions:</span>
+              {visibleSuggestions.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => {
+                    addTags([tag]);
+                    setInput('');
+                  }}
+                  className="rounded-full border px-2 py-0.5 text-xs hover:bg-muted"
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Tags'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TagEditorDialog;
@@ -5,7 +5,7 @@
  * @author Axel Modra
  */
 
-import { Eye, Focus, Keyboard, Type } from 'lucide-react';
+import { ArrowDownUp, Eye, Focus, Keyboard, Type } from 'lucide-react';
 import type React from 'react';
 import { memo } from 'react';
 import { Button } from '@/components/ui/button';
@@ -27,6 +27,8 @@ export const WritingModeButtons: React.FC<WritingModeButtonsProps> = memo(
     onVimModeToggle,
     zenMode,
     onZenModeToggle,
+    scrollSync = false,
+    onScrollSyncToggle,
     size = 'md',
     orientation = 'horizontal',
     className = '',
@@ -151,6 +153,27 @@ export const WritingModeButtons: React.FC<WritingModeButtonsProps> = memo(
           )}
         </Button>
 
+        {/* Scroll Sync Button - hanya tampil jika parent mendukung scroll sync */}
+        {onScrollSyncToggle && (
+          <Button
+            variant={scrollSync ? 'default' : 'ghost'}
+            size="sm"
+            onClick={onScrollSyncToggle}
+            className={`${buttonClasses} flex-shrink-0 writing-mode-button ${scrollSync ? 'active' : ''}`}
+            aria-label={A11Y.labels.toggleScrollSync}
+            aria-pressed={scrollSync}
+            title={WRITING_MODES.scrollSync.description}
+            data-state={scrollSync ? 'on' : 'off'}
+          >
+            <ArrowDownUp className={`${iconSize} ${orientation !== 'vertical' ? 'mr-1' : ''}`} />
+            {orientation === 'grid' ? (
+              WRITING_MODES.scrollSync.label
+            ) : (
+              <span className="hidden sm:inline">{WRITING_MODES.scrollSync.label}</span>
+            )}
+          </Button>
+        )}
+
         {/* Zen Mode Button - Special handling for full width on mobile */}
         {orientation === 'grid' ? (
           <div className="col-span-2">
@@ -34,6 +34,8 @@ export const WritingSettings: React.FC<WritingSettingsProps> = memo(
     onVimModeToggle,
     zenMode,
     onZenModeToggle,
+    scrollSync,
+    onScrollSyncToggle,
     className = '',
     children,
     forceMobileLayout = false,
@@ -85,6 +87,8 @@ export const WritingSettings: React.FC<WritingSettingsProps> = memo(
                 onVimModeToggle={onVimModeToggle}
                 zenMode={zenMode}
                 onZenModeToggle={onZenModeToggle}
+                scrollSync={scrollSync}
+                onScrollSyncToggle={onScrollSyncToggle}
                 size="md"
                 orientation="grid"
               />
@@ -115,6 +119,8 @@ export const WritingSettings: React.FC<WritingSettingsProps> = memo(
                 onVimModeToggle={onVimModeToggle}
                 zenMode={zenMode}
                 onZenModeToggle={onZenModeToggle}
+                scrollSync={scrollSync}
+                onScrollSyncToggle={onScrollSyncToggle}
                 size="sm"
                 orientation="horizontal"
               />
@@ -144,6 +150,8 @@ export const WritingSettings: React.FC<WritingSettingsProps> = memo(
                 onVimModeToggle={onVimModeToggle}
                 zenMode={zenMode}
                 onZenModeToggle={onZenModeToggle}
+                scrollSync={scrollSync}
+                onScrollSyncToggle={onScrollSyncToggle}
                 size="md"
                 orientation="horizontal"
               />
@@ -166,6 +174,7 @@ export const WritingSettings: React.FC<WritingSettingsProps> = memo(
       prevProps.wordWrap === nextProps.wordWrap &&
       prevProps.vimMode === nextProps.vimMode &&
       prevProps.zenMode === nextProps.zenMode &&
+      prevProps.scrollSync === nextProps.scrollSync &&
       prevProps.onFontSizeChange === nextProps.onFontSizeChange &&
       prevProps.onLineHeightChange === nextProps.onLineHeightChange &&
       prevProps.onFocusModeToggle === nextProps.onFocusModeToggle &&
@@ -173,6 +182,7 @@ export const WritingSettings: React.FC<WritingSettingsProps> = memo(
       prevProps.onWordWrapToggle === nextProps.onWordWrapToggle &&
       prevProps.onVimModeToggle === nextProps.onVimModeToggle &&
       prevProps.onZenModeToggle === nextProps.onZenModeToggle &&
+      prevProps.onScrollSyncToggle === nextProps.onScrollSyncToggle &&
       prevProps.className === nextProps.className
     );
   }
@@ -82,6 +82,13 @@ export const WRITING_MODES: Record<string, WritingModeConfig> = {
     description: 'Zen mode for distraction-free writing',
     defaultActive: false,
   },
+  scrollSync: {
+    id: 'scrollSync',
+    label: 'Sync',
+    iconName: 'ArrowDownUp',
+    description: 'Keep editor and preview scrolled to the same block',
+    defaultActive: true,
+  },
 } as const;
 
 /**
@@ -205,6 +212,7 @@ export const A11Y = {
     toggleWordWrap: 'Toggle word wrap',
     toggleVim: 'Toggle Vim mode',
     toggleZen: 'Toggle zen mode',
+    toggleScrollSync: 'Toggle scroll sync',
   },
 } as const;
 
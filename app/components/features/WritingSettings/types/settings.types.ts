@@ -10,7 +10,7 @@ import type { ReactNode } from 'react';
 /**
  * Tipe untuk mode writing yang tersedia
  */
-export type WritingMode = 'focus' | 'typewriter' | 'wordWrap' | 'vim' | 'zen';
+export type WritingMode = 'focus' | 'typewriter' | 'wordWrap' | 'vim' | 'zen' | 'scrollSync';
 
 /**
  * Tipe untuk breakpoint responsif
@@ -72,6 +72,10 @@ export interface WritingSettingsProps {
   zenMode: boolean;
   /** Callback untuk toggle zen mode */
   onZenModeToggle: () => void;
+  /** Status sinkronisasi scroll editor dan preview */
+  scrollSync?: boolean;
+  /** Callback untuk toggle scroll sync; tombol hanya tampil jika diisi */
+  onScrollSyncToggle?: () => void;
   /** Custom className untuk styling */
   className?: string;
   /** Custom children untuk extensibility */
@@ -140,6 +144,10 @@ export interface WritingModeButtonsProps {
   zenMode: boolean;
   /** Callback untuk toggle zen mode */
   onZenModeToggle: () => void;
+  /** Status sinkronisasi scroll editor dan preview */
+  scrollSync?: boolean;
+  /** Callback untuk toggle scroll sync; tombol hanya tampil jika diisi */
+  onScrollSyncToggle?: () => void;
   /** Ukuran buttons */
   size?: ControlSize;
   /** Layout orientation */
@@ -5,7 +5,9 @@
 
 // Re-export feature components
 export { AdvancedExport } from './AdvancedExport';
+export { DiffViewer } from './DiffViewer';
 export { FileOperations } from './FileOperations';
+export { PresentationView } from './Presentation';
 export { SearchDialog } from './SearchDialog';
 export { ThemeSelector } from './ThemeSelector';
 export { WritingSettings } from './WritingSettings';
@@ -14,12 +14,15 @@ interface ClientOnlyFilesTableProps {
   onDelete: (file: FileData) => void;
   onDuplicate: (file: FileData) => void;
   onExport: (file: FileData) => void;
+  onShowHistory?: (file: FileData) => void;
+  onEditTags?: (file: FileData) => void;
   formatDate: (date: string) => string;
   formatFileSize: (bytes: number) => string;
   isLoading?: boolean;
   onTableReady?: (table: ReturnType<typeof useReactTable<FileData>>) => void;
   rowSelection: Record<string, boolean>;
   setRowSelection: React.Dispatch<React.SetStateAction<Record<string, boolean>>>;
+  getDragFileIds?: (file: FileData) => string[];
 }
 
 /**
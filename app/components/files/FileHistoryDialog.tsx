@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Revision history dialog for a stored file
+ * @author Axel Modra
+ */
+
+import { History, RefreshCw, RotateCcw } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useFileRevisions } from '@/hooks/files/useFileRevisions';
+import type { FileData, FileRevision } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
+
+interface FileHistoryDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  file: FileData | null;
+  storageService: FileStorageService | null;
+  formatDate: (date: string) => string;
+  formatFileSize: (bytes: number) => string;
+}
+
+/**
+ * Lists every saved revision of a file with a content preview and one-click restore
+ */
+export const FileHistoryDialog: React.FC<FileHistoryDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  file,
+  storageService,
+  formatDate,
+  formatFileSize,
+}) => {
+  const { revisions, isLoadingRevisions, loadRevision, restoreRevision, isRestoring } =
+    useFileRevisions(isOpen ? storageService : null, file);
+
+  const [selectedRevision, setSelectedRevision] = useState<FileRevision | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+
+  // Reset the preview whenever the dialog is opened for another file
+  useEffect(() => {
+    if (!isOpen) {
+      setSelectedRevision(null);
+    }
+  }, [isOpen]);
+
+  const latestVersion = revisions[0]?.version;
+
+  const handleSelectRevision = async (revision: FileRevision) => {
+    setIsLoadingPreview(true);
+    const loaded = await loadRevision(revision.id);
+    setSelectedRevision(loaded);
+    setIsLoadingPreview(false);
+  };
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return;
+
+    try {
+      await restoreRevision(selectedRevision.id);
+      setSelectedRevision(null);
+    } catch {
+      // Error toast is raised by useFileRevisions
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            {file
+              ? `Every save of "${file.title}" is kept. Restoring a version saves it as a new revision.`
+              : 'No file selected.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-4">
+          <ScrollArea className="h-[360px] rounded-md border">
+            {isLoadingRevisions ? (
+              <div className="flex items-center justify-center h-[340px] text-muted-foreground">
+                <RefreshCw className="w-5 h-5 animate-spin" />
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">No revisions saved yet.</p>
+            ) : (
+              <ul className="p-1">
+                {revisions.map((revision) => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => handleSelectRevision(revision)}
+                      className={`w-full text-left rounded-md px-3 py-2 text-sm transition-colors hover:bg-muted ${
+                        selectedRevision?.id === revision.id ? 'bg-muted' : ''
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">v{revision.version}</span>
+                        {revision.version === latestVersion && (
+                          <Badge variant="secondary" className="text-xs">
+                            Current
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        <span className="truncate">{formatDate(revision.createdAt)}</span>
+                        <span>{formatFileSize(revision.fileSize)}</span>
+                      </div>
+                      {revision.restoredFromVersion !== undefined && (
+                        <span className="text-xs text-muted-foreground">
+                          Restored from v{revision.restoredFromVersion}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+
+          <ScrollArea className="h-[360px] rounded-md border bg-muted/30">
+            {isLoadingPreview ? (
+              <div className="flex items-center justify-center h-[340px] text-muted-foreground">
+                <RefreshCw className="w-5 h-5 animate-spin" />
+              </div>
+            ) : selectedRevision ? (
+              <pre className="p-4 text-xs whitespace-pre-wrap break-words font-mono">
+                {selectedRevision.content}
+              </pre>
+            ) : (
+              <p className="p-4 text-sm text-muted-foreground">
+                Select a revision to preview its content.
+              </p>
+            )}
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            onClick={handleRestore}
+            disabled={
+              !selectedRevision || isRestoring || selectedRevision.version === latestVersion
+            }
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            {isRestoring ? 'Restoring...' : 'Restore this version'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FileHistoryDialog;
@@ -12,29 +12,51 @@ import {
   Cloud,
   Download,
   FileText,
+  FolderPlus,
   HardDrive,
   Plus,
   RefreshCw,
+  Trash2,
 } from 'lucide-react';
-import React, { useEffect, useMemo, useRef } from 'react';
-import { useNavigate } from 'react-router';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router';
 import { AuthButtons } from '@/components/auth/AuthButtons';
 import { PageLoader } from '@/components/shared/PageLoader';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ConfirmationDialog } from '@/components/ui/ConfirmationDialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DiffViewer } from '@/components/features/DiffViewer';
+import { TagEditorDialog } from '@/components/features/TagEditorDialog';
+import { useToast } from '@/hooks/core/useToast';
 import { useFileStorage } from '@/hooks/files';
 import { useFileActions } from '@/hooks/files/useFileActions';
 import { useFileSelection } from '@/hooks/files/useFileSelection';
 import { useFilesUIState, type ViewMode } from '@/hooks/files/useFilesUIState';
+import { useFolders } from '@/hooks/files/useFolders';
+import { useTags } from '@/hooks/files/useTags';
 import { useResponsiveDetection } from '@/hooks/ui/useResponsive';
 
-import type { FileData } from '@/lib/supabase';
+import type { FileData, FolderData } from '@/lib/supabase';
 import { formatBytes, formatRelativeDate } from '@/utils/common';
+import { parseFileOperationError } from '@/utils/fileOperationErrors';
+import {
+  type FolderDragItems,
+  getChildFolders,
+  getFolderBreadcrumbs,
+  getFolderFiles,
+  setFileDragData,
+} from '@/utils/folderUtils';
+import { getSharedTags, hasTag, matchesTagFilter } from '@/utils/tagUtils';
 import { ClientOnlyFilesTable } from './ClientOnlyFilesTable';
+import { FileHistoryDialog } from './FileHistoryDialog';
 import { FilesTableToolbar } from './FilesTableToolbar';
+import { FolderBreadcrumbs } from './FolderBreadcrumbs';
+import { FolderCard } from './FolderCard';
+import { FolderNameDialog } from './FolderNameDialog';
 import { FileDropdownMenu } from './shared/FileDropdownMenu';
+import { TagSidebar } from './TagSidebar';
+import { TrashDialog } from './TrashDialog';
 
 /**
  * Files manager component
@@ -44,6 +66,7 @@ export const FilesManager: React.FC = () => {
   const { isSignedIn: _isSignedIn } = useAuth();
   const responsive = useResponsiveDetection();
   const {
+    storageService,
     files,
     isLoadingFiles,
     storageInfo,
@@ -61,6 +84,10 @@ export const FilesManager: React.FC = () => {
     setViewMode,
     searchQuery,
     setSearchQuery,
+    selectedTags,
+    setSelectedTags,
+    tagFilterMode,
+    setTagFilterMode,
     sortBy,
     setSortBy,
     sortDirection,
@@ -97,7 +124,37 @@ export const FilesManager: React.FC = () => {
     rowSelection,
     tableInstance,
   });
-  const { selectedRowCount } = selectionState;
+  const { selectedFiles, selectedRowCount } = selectionState;
+  const [historyFile, setHistoryFile] = useState<FileData | null>(null);
+  const [comparedFiles, setComparedFiles] = useState<[FileData, FileData] | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [folderDialog, setFolderDialog] = useState<
+    { mode: 'create' } | { mode: 'rename'; folder: FolderData } | null
+  >(null);
+  const [folderToDelete, setFolderToDelete] = useState<FolderData | null>(null);
+  const [tagEditorFiles, setTagEditorFiles] = useState<FileData[] | null>(null);
+  const { tagCounts, updateTags, renameTag, deleteTag } = useTags(storageService, files);
+  // Search and tag filters look through every folder
+  const isFiltering = !!searchQuery || selectedTags.length > 0;
+
+  // Current folder lives in the URL (?folder=) so breadcrumbs work with browser history
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { folders, createFolder, renameFolder, moveFolder, deleteFolder, moveFiles } =
+    useFolders(storageService);
+  const requestedFolderId = searchParams.get('folder');
+  const currentFolderId =
+    requestedFolderId && folders.some((folder) => folder.id === requestedFolderId)
+      ? requestedFolderId
+      : null;
+  const breadcrumbs = useMemo(
+    () => getFolderBreadcrumbs(folders, currentFolderId),
+    [folders, currentFolderId]
+  );
+  const childFolders = useMemo(
+    () => (isFiltering ? [] : getChildFolders(folders, currentFolderId)),
+    [folders, currentFolderId, isFiltering]
+  );
+  const { toast } = useToast();
   const previousFilesCountRef = useRef(files.length);
 
   // Reset row selection when files are deleted (files count decreases)
@@ -139,10 +196,12 @@ export const FilesManager: React.FC = () => {
 
   // Filter and sort files
   const filteredAndSortedFiles = React.useMemo(() => {
-    const filtered = files.filter(
+    const folderFiles = isFiltering ? files : getFolderFiles(files, folders, currentFolderId);
+    const filtered = folderFiles.filter(
       (file) =>
-        file.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        file.tags?.some((tag) => tag.toLowerCase().includes(searchQuery.toLowerCase()))
+        matchesTagFilter(file.tags, selectedTags, tagFilterMode) &&
+        (file.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+          file.tags?.some((tag) => tag.toLowerCase().includes(searchQuery.toLowerCase())))
     );
 
     // Sort files
@@ -168,7 +227,84 @@ export const FilesManager: React.FC = () => {
     });
 
     return filtered;
-  }, [files, searchQuery, sortBy, sortDirection]);
+  }, [
+    files,
+    folders,
+    currentFolderId,
+    isFiltering,
+    searchQuery,
+    selectedTags,
+    tagFilterMode,
+    sortBy,
+    sortDirection,
+  ]);
+
+  const navigateToFolder = (folderId: string | null) => {
+    setSearchParams(folderId ? { folder: folderId } : {});
+  };
+
+  // Dragging a selected file moves the whole selection
+  const getDragFileIds = (file: FileData): string[] => {
+    const selectedIds = selectedFiles.flatMap((selected) => (selected.id ? [selected.id] : []));
+    if (file.id && selectedIds.includes(file.id)) return selectedIds;
+    return file.id ? [file.id] : [];
+  };
+
+  const handleDropItems = async (items: FolderDragItems, targetFolderId: string | null) => {
+    try {
+      if (items.folderId) {
+        await moveFolder(items.folderId, targetFolderId);
+      }
+      if (items.fileIds.length > 0) {
+        await moveFiles(items.fileIds, targetFolderId);
+      }
+    } catch {
+      // Error toast is raised by useFolders
+    }
+  };
+
+  const handleConfirmDeleteFolder = async () => {
+    if (!folderToDelete) return;
+
+    try {
+      await deleteFolder(folderToDelete.id);
+    } catch {
+      // Error toast is raised by useFolders
+    }
+  };
+
+  const handleToggleTag = (tag: string) => {
+    setSelectedTags((previous) =>
+      hasTag(previous, tag)
+        ? previous.filter((selected) => selected.toLowerCase() !== tag.toLowerCase())
+        : [...previous, tag]
+    );
+  };
+
+  // Keep the tag filter pointing at the renamed tag
+  const handleRenameTag = async (from: string, to: string) => {
+    await renameTag(from, to);
+    setSelectedTags((previous) =>
+      previous.map((selected) => (selected.toLowerCase() === from.toLowerCase() ? to : selected))
+    );
+  };
+
+  const handleDeleteTag = async (tag: string) => {
+    await deleteTag(tag);
+    setSelectedTags((previous) =>
+      previous.filter((selected) => selected.toLowerCase() !== tag.toLowerCase())
+    );
+  };
+
+  const tagEditorTags = useMemo(
+    () => (tagEditorFiles ? getSharedTags(tagEditorFiles) : { shared: [], partial: [] }),
+    [tagEditorFiles]
+  );
+
+  const getFolderSummary = (folderId: string) => ({
+    fileCount: getFolderFiles(files, folders, folderId).length,
+    folderCount: getChildFolders(folders, folderId).length,
+  });
 
   // Handle bulk delete from table
   const handleBulkDeleteFromTable = () => {
@@ -181,6 +317,33 @@ export const FilesManager: React.FC = () => {
     handleBulkDelete(selectedFiles, deleteFile);
   };
 
+  // Compare the two selected files. File lists don't carry content, so load both first.
+  const handleCompareSelected = async () => {
+    if (!storageService || selectedFiles.length !== 2) return;
+
+    try {
+      const loaded = await Promise.all(
+        selectedFiles.map((file) => storageService.load(file.id || file.title))
+      );
+      const [original, modified] = loaded;
+
+      if (!original || !modified) {
+        throw new Error('File not found');
+      }
+
+      setComparedFiles([original, modified]);
+    } catch (error) {
+      import('@/utils/console').then(({ safeConsole }) => {
+        safeConsole.error('Error loading files for comparison:', error);
+      });
+      toast({
+        title: 'Compare Failed',
+        description: parseFileOperationError(error).userMessage,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleExportAll = async () => {
     try {
       await exportAllFiles();
@@ -280,6 +443,15 @@ export const FilesManager: React.FC = () => {
                 </div>
 
                 <div className="flex items-center justify-end sm:justify-start gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsTrashOpen(true)}
+                    className="flex items-center gap-2 w-full sm:w-auto"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Trash
+                  </Button>
                   {files.length > 0 && (
                     <Button
                       variant="outline"
@@ -298,90 +470,164 @@ export const FilesManager: React.FC = () => {
           </Card>
         )}
 
-        {/* Files Toolbar - Always show for all view modes */}
-        {!isLoadingFiles && filteredAndSortedFiles.length > 0 && (
-          <div className="mt-4">
-            <FilesTableToolbar
-              table={tableInstance}
-              viewMode={viewMode}
-              onViewModeChange={setViewMode}
-              searchQuery={searchQuery}
-              onSearchChange={setSearchQuery}
-              sortBy={sortBy}
-              onSortByChange={setSortBy}
-              sortDirection={sortDirection}
-              onSortDirectionChange={setSortDirection}
-              onNewFile={() => navigate('/?new=true')}
-              onExportAll={handleExportAll}
-              onDeleteSelected={handleBulkDeleteFromTable}
-              isLoading={isLoadingFiles}
-              totalFiles={filteredAndSortedFiles.length}
-              selectedRowCount={selectedRowCount}
-            />
-          </div>
-        )}
+        <div className="flex gap-6">
+          {/* Tag sidebar */}
+          {(tagCounts.length > 0 || selectedTags.length > 0) && (
+            <aside className="hidden lg:block w-56 flex-shrink-0">
+              <TagSidebar
+                tagCounts={tagCounts}
+                selectedTags={selectedTags}
+                onToggleTag={handleToggleTag}
+                onClearTags={() => setSelectedTags([])}
+                onRenameTag={handleRenameTag}
+                onDeleteTag={handleDeleteTag}
+              />
+            </aside>
+          )}
 
-        {/* Files display - Added proper spacing from toolbar */}
-        <div className="mt-6 files-container">
-          {isLoadingFiles ? (
-            <div className="text-center py-12">
-              <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-4 text-muted-foreground" />
-              <p className="text-muted-foreground">Loading files...</p>
-            </div>
-          ) : filteredAndSortedFiles.length === 0 ? (
-            <div className="text-center py-12">
-              <FileText className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-              <h3 className="text-lg font-medium mb-2">
-                {searchQuery ? 'No files found' : 'No files yet'}
-              </h3>
-              <p className="text-muted-foreground mb-4">
-                {searchQuery
-                  ? 'Try adjusting your search terms'
-                  : 'Create your first markdown file to get started'}
-              </p>
-              <Button onClick={() => navigate('/?new=true')}>
-                <Plus className="w-4 h-4 mr-2" />
-                Create New File
+          <div className="flex-1 min-w-0">
+            {/* Folder path and folder actions */}
+            <div className="flex items-center justify-between gap-3">
+              <FolderBreadcrumbs
+                breadcrumbs={breadcrumbs}
+                onNavigate={navigateToFolder}
+                onDropItems={handleDropItems}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setFolderDialog({ mode: 'create' })}
+                className="flex items-center gap-2 flex-shrink-0"
+              >
+                <FolderPlus className="w-4 h-4" />
+                <span className="hidden xs:inline">New Folder</span>
               </Button>
             </div>
-          ) : viewMode === 'table' ? (
-            <ClientOnlyFilesTable
-              key={tableKey}
-              files={filteredAndSortedFiles}
-              onTableReady={handleTableReady}
-              rowSelection={rowSelection}
-              setRowSelection={setRowSelection}
-              onOpen={handleOpenFile}
-              onDelete={handleDeleteFile}
-              onDuplicate={handleDuplicateFile}
-              onExport={handleExportFile}
-              formatDate={formatDate}
-              formatFileSize={formatFileSize}
-              isLoading={isLoadingFiles}
-            />
-          ) : (
-            <div
-              className={
-                viewMode === 'grid'
-                  ? 'grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-3 sm:gap-4 mt-2'
-                  : 'space-y-2 sm:space-y-3 mt-2'
-              }
-            >
-              {filteredAndSortedFiles.map((file) => (
-                <FileCard
-                  key={file.id || file.title}
-                  file={file}
-                  viewMode={viewMode}
-                  onOpen={() => handleOpenFile(file)}
-                  onDelete={() => handleDeleteFile(file)}
-                  onDuplicate={() => handleDuplicateFile(file)}
-                  onExport={() => handleExportFile(file)}
+
+            {/* Files Toolbar - Always show for all view modes */}
+            {!isLoadingFiles &&
+              (filteredAndSortedFiles.length > 0 || childFolders.length > 0 || isFiltering) && (
+                <div className="mt-4">
+                  <FilesTableToolbar
+                    table={tableInstance}
+                    viewMode={viewMode}
+                    onViewModeChange={setViewMode}
+                    searchQuery={searchQuery}
+                    onSearchChange={setSearchQuery}
+                    sortBy={sortBy}
+                    onSortByChange={setSortBy}
+                    sortDirection={sortDirection}
+                    onSortDirectionChange={setSortDirection}
+                    onNewFile={() => navigate('/?new=true')}
+                    onExportAll={handleExportAll}
+                    onDeleteSelected={handleBulkDeleteFromTable}
+                    onCompareSelected={handleCompareSelected}
+                    onTagSelected={() => setTagEditorFiles(selectedFiles)}
+                    tagCounts={tagCounts}
+                    selectedTags={selectedTags}
+                    onSelectedTagsChange={setSelectedTags}
+                    tagFilterMode={tagFilterMode}
+                    onTagFilterModeChange={setTagFilterMode}
+                    isLoading={isLoadingFiles}
+                    totalFiles={filteredAndSortedFiles.length}
+                    selectedRowCount={selectedRowCount}
+                  />
+                </div>
+              )}
+
+            {/* Folders in the current folder */}
+            {!isLoadingFiles && childFolders.length > 0 && (
+              <div className="mt-6 grid grid-cols-1 xs:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
+                {childFolders.map((folder) => (
+                  <FolderCard
+                    key={folder.id}
+                    folder={folder}
+                    viewMode={viewMode}
+                    {...getFolderSummary(folder.id)}
+                    onOpen={() => navigateToFolder(folder.id)}
+                    onRename={() => setFolderDialog({ mode: 'rename', folder })}
+                    onDelete={() => setFolderToDelete(folder)}
+                    onDropItems={handleDropItems}
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* Files display - Added proper spacing from toolbar */}
+            <div className="mt-6 files-container">
+              {isLoadingFiles ? (
+                <div className="text-center py-12">
+                  <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-muted-foreground">Loading files...</p>
+                </div>
+              ) : filteredAndSortedFiles.length === 0 ? (
+                childFolders.length > 0 ? null : (
+                  <div className="text-center py-12">
+                    <FileText className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                    <h3 className="text-lg font-medium mb-2">
+                      {isFiltering
+                        ? 'No files found'
+                        : currentFolderId
+                          ? 'This folder is empty'
+                          : 'No files yet'}
+                    </h3>
+                    <p className="text-muted-foreground mb-4">
+                      {isFiltering
+                        ? 'Try adjusting your search terms or tag filters'
+                        : 'Create your first markdown file to get started'}
+                    </p>
+                    <Button onClick={() => navigate('/?new=true')}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Create New File
+                    </Button>
+                  </div>
+                )
+              ) : viewMode === 'table' ? (
+                <ClientOnlyFilesTable
+                  key={tableKey}
+                  files={filteredAndSortedFiles}
+                  onTableReady={handleTableReady}
+                  rowSelection={rowSelection}
+                  setRowSelection={setRowSelection}
+                  onOpen={handleOpenFile}
+                  onDelete={handleDeleteFile}
+                  onDuplicate={handleDuplicateFile}
+                  onExport={handleExportFile}
+                  onShowHistory={setHistoryFile}
+                  onEditTags={(file) => setTagEditorFiles([file])}
                   formatDate={formatDate}
                   formatFileSize={formatFileSize}
+                  isLoading={isLoadingFiles}
+                  getDragFileIds={getDragFileIds}
                 />
-              ))}
+              ) : (
+                <div
+                  className={
+                    viewMode === 'grid'
+                      ? 'grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-3 sm:gap-4 mt-2'
+                      : 'space-y-2 sm:space-y-3 mt-2'
+                  }
+                >
+                  {filteredAndSortedFiles.map((file) => (
+                    <FileCard
+                      key={file.id || file.title}
+                      file={file}
+                      viewMode={viewMode}
+                      onOpen={() => handleOpenFile(file)}
+                      onDelete={() => handleDeleteFile(file)}
+                      onDuplicate={() => handleDuplicateFile(file)}
+                      onExport={() => handleExportFile(file)}
+                      onShowHistory={() => setHistoryFile(file)}
+                      onEditTags={() => setTagEditorFiles([file])}
+                      onDragStart={(e) => setFileDragData(e.dataTransfer, getDragFileIds(file))}
+                      formatDate={formatDate}
+                      formatFileSize={formatFileSize}
+                    />
+                  ))}
+                </div>
+              )}
             </div>
-          )}
+          </div>
         </div>
       </div>
 
@@ -389,22 +635,109 @@ export const FilesManager: React.FC = () => {
       <ConfirmationDialog
         isOpen={isDeleteConfirmOpen}
         onOpenChange={setIsDeleteConfirmOpen}
-        title="Are you sure?"
+        title="Move to Trash?"
         description={
           deleteType === 'single' && fileToDelete
-            ? `This will permanently delete the file "${fileToDelete.title}". This action cannot be undone.`
+            ? `"${fileToDelete.title}" will be moved to the Trash. You can restore it from there until it is purged.`
             : deleteType === 'bulk' && filesToDelete
-              ? `This will permanently delete ${filesToDelete.length} file${
+              ? `${filesToDelete.length} file${
                   filesToDelete.length > 1 ? 's' : ''
-                }. This action cannot be undone.\n\nFiles: ${filesToDelete
+                } will be moved to the Trash. You can restore them from there until they are purged.\n\nFiles: ${filesToDelete
                   .map((f) => f.title)
                   .join(', ')}`
-              : 'This action cannot be undone.'
+              : 'Deleted files are moved to the Trash.'
         }
         onConfirm={() => handleConfirmDelete(deleteFile, tableInstance)}
-        confirmText="Delete"
+        confirmText="Move to Trash"
         cancelText="Cancel"
       />
+
+      <FolderNameDialog
+        isOpen={folderDialog !== null}
+        onOpenChange={(open) => {
+          if (!open) setFolderDialog(null);
+        }}
+        title={folderDialog?.mode === 'rename' ? 'Rename Folder' : 'New Folder'}
+        description={
+          folderDialog?.mode === 'rename'
+            ? `Rename "${folderDialog.folder.name}".`
+            : `Create a folder in ${breadcrumbs[breadcrumbs.length - 1]?.name ?? 'All files'}.`
+        }
+        initialName={folderDialog?.mode === 'rename' ? folderDialog.folder.name : ''}
+        confirmText={folderDialog?.mode === 'rename' ? 'Rename' : 'Create'}
+        onSubmit={(name) =>
+          folderDialog?.mode === 'rename'
+            ? renameFolder(folderDialog.folder.id, name)
+            : createFolder(name, currentFolderId)
+        }
+      />
+
+      <ConfirmationDialog
+        isOpen={folderToDelete !== null}
+        onOpenChange={(open) => {
+          if (!open) setFolderToDelete(null);
+        }}
+        title="Delete folder?"
+        description={
+          folderToDelete
+            ? `"${folderToDelete.name}" will be deleted. Its files and subfolders move up to the parent folder.`
+            : ''
+        }
+        onConfirm={handleConfirmDeleteFolder}
+        confirmText="Delete folder"
+        cancelText="Cancel"
+      />
+
+      <TagEditorDialog
+        isOpen={tagEditorFiles !== null}
+        onOpenChange={(open) => {
+          if (!open) setTagEditorFiles(null);
+        }}
+        title="Edit Tags"
+        description={
+          tagEditorFiles?.length === 1
+            ? `Tags for "${tagEditorFiles[0].title}".`
+            : `Add or remove tags on ${tagEditorFiles?.length ?? 0} selected files.`
+        }
+        tags={tagEditorTags.shared}
+        partialTags={tagEditorTags.partial}
+        suggestions={tagCounts.map(({ tag }) => tag)}
+        onSubmit={(changes) =>
+          updateTags(
+            (tagEditorFiles ?? []).flatMap((file) => (file.id ? [file.id] : [])),
+            changes
+          )
+        }
+      />
+
+      <TrashDialog
+        isOpen={isTrashOpen}
+        onOpenChange={setIsTrashOpen}
+        storageService={storageService}
+        formatDate={formatDate}
+        formatFileSize={formatFileSize}
+      />
+
+      <FileHistoryDialog
+        isOpen={historyFile !== null}
+        onOpenChange={(open) => {
+          if (!open) setHistoryFile(null);
+        }}
+        file={historyFile}
+        storageService={storageService}
+        formatDate={formatDate}
+        formatFileSize={formatFileSize}
+      />
+
+      {comparedFiles && (
+        <DiffViewer
+          isOpen
+          onClose={() => setComparedFiles(null)}
+          title="Compare files"
+          original={{ label: comparedFiles[0].title, content: comparedFiles[0].content }}
+          modified={{ label: comparedFiles[1].title, content: comparedFiles[1].content }}
+        />
+      )}
     </div>
   );
 };
@@ -419,6 +752,9 @@ interface FileCardProps {
   onDelete: () => void;
   onDuplicate: () => void;
   onExport: () => void;
+  onShowHistory: () => void;
+  onEditTags: () => void;
+  onDragStart: (event: React.DragEvent) => void;
   formatDate: (date: string) => string;
   formatFileSize: (bytes: number) => string;
 }
@@ -430,12 +766,19 @@ const FileCard: React.FC<FileCardProps> = ({
   onDelete,
   onDuplicate,
   onExport,
+  onShowHistory,
+  onEditTags,
+  onDragStart,
   formatDate,
   formatFileSize,
 }) => {
   if (viewMode === 'list') {
     return (
-      <Card className="hover:shadow-md transition-shadow cursor-pointer">
+      <Card
+        className="hover:shadow-md transition-shadow cursor-pointer"
+        draggable={!!file.id}
+        onDragStart={onDragStart}
+      >
         <CardContent className="p-3 sm:p-5 file-card-list-container">
           <div className="flex items-center justify-between gap-3 relative">
             <button
@@ -477,6 +820,8 @@ const FileCard: React.FC<FileCardProps> = ({
               onDelete={onDelete}
               onDuplicate={onDuplicate}
               onExport={onExport}
+              onShowHistory={onShowHistory}
+              onEditTags={onEditTags}
             />
           </div>
         </CardContent>
@@ -488,6 +833,8 @@ const FileCard: React.FC<FileCardProps> = ({
     <Card
       className="hover:shadow-md transition-shadow cursor-pointer h-full flex flex-col"
       onClick={onOpen}
+      draggable={!!file.id}
+      onDragStart={onDragStart}
     >
       <CardHeader className="pb-2 p-3 sm:p-6 sm:pb-2">
         <div className="flex items-start justify-between">
@@ -499,6 +846,8 @@ const FileCard: React.FC<FileCardProps> = ({
             onDelete={onDelete}
             onDuplicate={onDuplicate}
             onExport={onExport}
+            onShowHistory={onShowHistory}
+            onEditTags={onEditTags}
             stopPropagationOnTrigger={true}
           />
         </div>
@@ -28,6 +28,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import type { FileData } from '@/lib/supabase';
+import { setFileDragData } from '@/utils/folderUtils';
 
 /**
  * Props interface for FilesTable
@@ -38,12 +39,16 @@ interface FilesTableProps {
   onDelete: (file: FileData) => void;
   onDuplicate: (file: FileData) => void;
   onExport: (file: FileData) => void;
+  onShowHistory?: (file: FileData) => void;
+  onEditTags?: (file: FileData) => void;
   formatDate: (date: string) => string;
   formatFileSize: (bytes: number) => string;
   isLoading?: boolean;
   onTableReady?: (table: ReturnType<typeof useReactTable<FileData>>) => void;
   rowSelection: Record<string, boolean>;
   setRowSelection: React.Dispatch<React.SetStateAction<Record<string, boolean>>>;
+  /** Files moved when a row is dragged onto a folder; rows are draggable when set */
+  getDragFileIds?: (file: FileData) => string[];
 }
 
 /**
@@ -60,12 +65,15 @@ export const FilesTable: React.FC<FilesTableProps> = ({
   onDelete,
   onDuplicate,
   onExport,
+  onShowHistory,
+  onEditTags,
   formatDate,
   formatFileSize,
   isLoading = false,
   onTableReady,
   rowSelection,
   setRowSelection,
+  getDragFileIds,
 }) => {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
@@ -171,6 +179,8 @@ export const FilesTable: React.FC<FilesTableProps> = ({
               onDelete={() => onDelete(file)}
               onDuplicate={() => onDuplicate(file)}
               onExport={() => onExport(file)}
+              onShowHistory={onShowHistory ? () => onShowHistory(file) : undefined}
+              onEditTags={onEditTags ? () => onEditTags(file) : undefined}
             />
           );
         },
@@ -179,7 +189,7 @@ export const FilesTable: React.FC<FilesTableProps> = ({
         size: 60,
       },
     ],
-    [onOpen, onDelete, onDuplicate, onExport, formatDate, formatFileSize]
+    [onOpen, onDelete, onDuplicate, onExport, onShowHistory, onEditTags, formatDate, formatFileSize]
   );
 
   const table = useReactTable({
@@ -269,6 +279,12 @@ export const FilesTable: React.FC<FilesTableProps> = ({
                 table.getRowModel().rows.map((row) => (
                   <TableRow
                     key={row.id}
+                    draggable={!!getDragFileIds && !!row.original.id}
+                    onDragStart={(e) => {
+                      if (getDragFileIds) {
+                        setFileDragData(e.dataTransfer, getDragFileIds(row.original));
+                      }
+                    }}
                     data-state={row.getIsSelected() && 'selected'}
                     className={`hover:bg-muted/50 transition-colors cursor-pointer ${
                       row.getIsSelected() ? 'bg-muted/30 border-l-2 border-l-primary' : ''
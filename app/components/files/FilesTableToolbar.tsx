@@ -4,10 +4,32 @@
  */
 
 import type { Table } from '@tanstack/react-table';
-import { Download, Grid3X3, List, Plus, Search, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import {
+  Download,
+  GitCompare,
+  Grid3X3,
+  List,
+  Plus,
+  Search,
+  SlidersHorizontal,
+  Tag,
+  Tags,
+  Trash2,
+  X,
+} from 'lucide-react';
 import type React from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import {
   Select,
@@ -19,6 +41,7 @@ import {
 import { Separator } from '@/components/ui/separator';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import type { FileData } from '@/lib/supabase';
+import { hasTag, type TagCount, type TagFilterMode } from '@/utils/tagUtils';
 
 /**
  * View mode type
@@ -47,6 +70,13 @@ interface FilesTableToolbarProps {
   onNewFile: () => void;
   onExportAll: () => void;
   onDeleteSelected?: () => void;
+  onCompareSelected?: () => void;
+  onTagSelected?: () => void;
+  tagCounts?: TagCount[];
+  selectedTags?: string[];
+  onSelectedTagsChange?: (tags: string[]) => void;
+  tagFilterMode?: TagFilterMode;
+  onTagFilterModeChange?: (mode: TagFilterMode) => void;
   isLoading?: boolean;
   totalFiles?: number;
   selectedRowCount?: number;
@@ -68,11 +98,19 @@ export const FilesTableToolbar: React.FC<FilesTableToolbarProps> = ({
   onNewFile,
   onExportAll,
   onDeleteSelected,
+  onCompareSelected,
+  onTagSelected,
+  tagCounts = [],
+  selectedTags = [],
+  onSelectedTagsChange,
+  tagFilterMode = 'and',
+  onTagFilterModeChange,
   isLoading = false,
   totalFiles = 0,
   selectedRowCount = 0,
 }) => {
   const hasSelection = selectedRowCount > 0;
+  const columnFilterCount = table?.getState().columnFilters.length || 0;
 
   const clearSearch = () => {
     onSearchChange('');
@@ -81,8 +119,24 @@ export const FilesTableToolbar: React.FC<FilesTableToolbarProps> = ({
   const clearFilters = () => {
     table?.resetColumnFilters();
     onSearchChange('');
+    onSelectedTagsChange?.([]);
+  };
+
+  const toggleTag = (tag: string) => {
+    onSelectedTagsChange?.(
+      hasTag(selectedTags, tag)
+        ? selectedTags.filter((selected) => selected.toLowerCase() !== tag.toLowerCase())
+        : [...selectedTags, tag]
+    );
   };
 
+  const activeFilters = [
+    searchQuery && `Search: "${searchQuery}"`,
+    selectedTags.length > 0 &&
+      `Tags: ${selectedTags.join(tagFilterMode === 'and' ? ' + ' : ' / ')}`,
+    columnFilterCount > 0 && `${columnFilterCount} filter(s)`,
+  ].filter(Boolean);
+
   return (
     <div className="flex flex-col gap-4">
       {/* Top row - Search and primary actions */}
@@ -110,14 +164,63 @@ export const FilesTableToolbar: React.FC<FilesTableToolbarProps> = ({
             )}
           </div>
 
+          {/* Tag filter */}
+          {onSelectedTagsChange && tagCounts.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant={selectedTags.length > 0 ? 'secondary' : 'outline'}
+                  size="sm"
+                  disabled={isLoading}
+                  className="w-fit"
+                >
+                  <Tags className="mr-2 h-4 w-4" />
+                  Tags
+                  {selectedTags.length > 0 && (
+                    <Badge variant="outline" className="ml-2 h-5 px-1.5 text-xs">
+                      {selectedTags.length}
+                    </Badge>
+                  )}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-56 max-h-80 overflow-y-auto">
+                {onTagFilterModeChange && (
+                  <>
+                    <DropdownMenuLabel className="text-xs">Match</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                      value={tagFilterMode}
+                      onValueChange={(value) => onTagFilterModeChange(value as TagFilterMode)}
+                    >
+                      <DropdownMenuRadioItem value="and" onSelect={(e) => e.preventDefault()}>
+                        All selected tags (AND)
+                      </DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="or" onSelect={(e) => e.preventDefault()}>
+                        Any selected tag (OR)
+                      </DropdownMenuRadioItem>
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                  </>
+                )}
+                {tagCounts.map(({ tag, count }) => (
+                  <DropdownMenuCheckboxItem
+                    key={tag}
+                    checked={hasTag(selectedTags, tag)}
+                    onCheckedChange={() => toggleTag(tag)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    <span className="truncate flex-1">{tag}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">{count}</span>
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
           {/* Active filters indicator */}
-          {(searchQuery || (table?.getState().columnFilters.length || 0) > 0) && (
+          {activeFilters.length > 0 && (
             <div className="flex items-center space-x-2 flex-wrap">
               <Badge variant="secondary" className="text-xs">
-                {searchQuery && `Search: "${searchQuery}"`}
-                {searchQuery && (table?.getState().columnFilters.length || 0) > 0 && ', '}
-                {(table?.getState().columnFilters.length || 0) > 0 &&
-                  `${table?.getState().columnFilters.length || 0} filter(s)`}
+                {activeFilters.join(', ')}
               </Badge>
               <Button variant="ghost" size="sm" onClick={clearFilters} className="h-6 px-2 text-xs">
                 Clear
@@ -227,6 +330,32 @@ export const FilesTableToolbar: React.FC<FilesTableToolbarProps> = ({
                 {selectedRowCount} selected
               </Badge>
 
+              {onCompareSelected && selectedRowCount === 2 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onCompareSelected}
+                  disabled={isLoading}
+                  className="w-full sm:w-auto"
+                >
+                  <GitCompare className="mr-2 h-4 w-4" />
+                  Compare
+                </Button>
+              )}
+
+              {onTagSelected && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onTagSelected}
+                  disabled={isLoading}
+                  className="w-full sm:w-auto"
+                >
+                  <Tag className="mr-2 h-4 w-4" />
+                  Tag
+                </Button>
+              )}
+
               {onDeleteSelected && (
                 <Button
                   variant="destructive"
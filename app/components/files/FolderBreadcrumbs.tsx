@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Breadcrumb navigation for the current folder; every crumb accepts dropped files
+ * @author Axel Modra
+ */
+
+import { ChevronRight, Home } from 'lucide-react';
+import type React from 'react';
+import { useFolderDropTarget } from '@/hooks/files/useFolderDropTarget';
+import type { FolderData } from '@/lib/supabase';
+import type { FolderDragItems } from '@/utils/folderUtils';
+
+interface FolderBreadcrumbsProps {
+  /** Folders from the root down to the current folder */
+  breadcrumbs: FolderData[];
+  onNavigate: (folderId: string | null) => void;
+  onDropItems: (items: FolderDragItems, targetFolderId: string | null) => void;
+}
+
+interface BreadcrumbItemProps {
+  folderId: string | null;
+  label: string;
+  isCurrent: boolean;
+  onNavigate: (folderId: string | null) => void;
+  onDropItems: (items: FolderDragItems, targetFolderId: string | null) => void;
+}
+
+const BreadcrumbItem: React.FC<BreadcrumbItemProps> = ({
+  folderId,
+  label,
+  isCurrent,
+  onNavigate,
+  onDropItems,
+}) => {
+  const { isDragOver, dropTargetProps } = useFolderDropTarget(folderId, onDropItems);
+
+  return (
+    <button
+      type="button"
+      {...dropTargetProps}
+      onClick={() => onNavigate(folderId)}
+      disabled={isCurrent}
+      aria-current={isCurrent ? 'page' : undefined}
+      className={`flex items-center gap-1 rounded px-1.5 py-0.5 truncate max-w-[200px] transition-colors ${
+        isCurrent ? 'font-medium text-foreground' : 'text-muted-foreground hover:text-foreground'
+      } ${isDragOver ? 'bg-primary/10 ring-1 ring-primary' : ''}`}
+    >
+      {folderId === null && <Home className="w-3.5 h-3.5 flex-shrink-0" />}
+      <span className="truncate">{label}</span>
+    </button>
+  );
+};
+
+export const FolderBreadcrumbs: React.FC<FolderBreadcrumbsProps> = ({
+  breadcrumbs,
+  onNavigate,
+  onDropItems,
+}) => (
+  <nav aria-label="Folder path" className="flex items-center flex-wrap gap-0.5 text-sm min-w-0">
+    <BreadcrumbItem
+      folderId={null}
+      label="All files"
+      isCurrent={breadcrumbs.length === 0}
+      onNavigate={onNavigate}
+      onDropItems={onDropItems}
+    />
+    {breadcrumbs.map((folder, index) => (
+      <span key={folder.id} className="flex items-center gap-0.5 min-w-0">
+        <ChevronRight className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+        <BreadcrumbItem
+          folderId={folder.id}
+          label={folder.name}
+          isCurrent={index === breadcrumbs.length - 1}
+          onNavigate={onNavigate}
+          onDropItems={onDropItems}
+        />
+      </span>
+    ))}
+  </nav>
+);
+
+export default FolderBreadcrumbs;
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Folder card for the file manager; drag it onto another folder or drop files on it
+ * @author Axel Modra
+ */
+
+import { Edit, Folder, FolderOpen, MoreVertical, Trash2 } from 'lucide-react';
+import type React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { ViewMode } from '@/hooks/files/useFilesUIState';
+import { useFolderDropTarget } from '@/hooks/files/useFolderDropTarget';
+import type { FolderData } from '@/lib/supabase';
+import { type FolderDragItems, setFolderDragData } from '@/utils/folderUtils';
+
+interface FolderCardProps {
+  folder: FolderData;
+  viewMode: ViewMode;
+  fileCount: number;
+  folderCount: number;
+  onOpen: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+  onDropItems: (items: FolderDragItems, targetFolderId: string | null) => void;
+}
+
+export const FolderCard: React.FC<FolderCardProps> = ({
+  folder,
+  viewMode,
+  fileCount,
+  folderCount,
+  onOpen,
+  onRename,
+  onDelete,
+  onDropItems,
+}) => {
+  const { isDragOver, dropTargetProps } = useFolderDropTarget(folder.id, onDropItems);
+
+  const summary = [
+    folderCount > 0 && `${folderCount} folder${folderCount === 1 ? '' : 's'}`,
+    `${fileCount} file${fileCount === 1 ? '' : 's'}`,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+  const handleMenuItemClick = (e: React.MouseEvent, action: () => void) => {
+    e.stopPropagation();
+    action();
+  };
+
+  return (
+    <Card
+      draggable
+      onDragStart={(e) => setFolderDragData(e.dataTransfer, folder.id)}
+      {...dropTargetProps}
+      className={`hover:shadow-md transition-shadow ${
+        isDragOver ? 'ring-2 ring-primary bg-primary/5' : ''
+      }`}
+    >
+      <CardContent
+        className={`flex items-center justify-between gap-3 ${
+          viewMode === 'list' ? 'p-3 sm:p-5' : 'p-3 sm:p-4'
+        }`}
+      >
+        <button
+          type="button"
+          className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0 text-left"
+          onClick={onOpen}
+        >
+          {isDragOver ? (
+            <FolderOpen className="w-5 h-5 text-primary flex-shrink-0" />
+          ) : (
+            <Folder className="w-5 h-5 text-primary flex-shrink-0" />
+          )}
+          <div className="min-w-0">
+            <h3 className="font-medium truncate text-sm sm:text-base">{folder.name}</h3>
+            <p className="text-xs text-muted-foreground truncate">{summary}</p>
+          </div>
+        </button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 flex-shrink-0"
+              aria-label={`Folder actions for ${folder.name}`}
+            >
+              <MoreVertical className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="min-w-[140px]">
+            <DropdownMenuItem onClick={(e) => handleMenuItemClick(e, onOpen)}>
+              <FolderOpen className="mr-2 h-4 w-4" />
+              Open
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={(e) => handleMenuItemClick(e, onRename)}>
+              <Edit className="mr-2 h-4 w-4" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={(e) => handleMenuItemClick(e, onDelete)}
+              className="text-destructive"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FolderCard;
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Dialog for naming a new folder or renaming an existing one
+ * @author Axel Modra
+ */
+
+import { FolderPlus } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useId, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface FolderNameDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  title: string;
+  description: string;
+  initialName?: string;
+  confirmText: string;
+  /** Resolves when the folder was saved; a rejection keeps the dialog open */
+  onSubmit: (name: string) => Promise<unknown>;
+}
+
+export const FolderNameDialog: React.FC<FolderNameDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  title,
+  description,
+  initialName = '',
+  confirmText,
+  onSubmit,
+}) => {
+  const inputId = useId();
+  const [name, setName] = useState(initialName);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setName(initialName);
+  }, [isOpen, initialName]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(name);
+      onOpenChange(false);
+    } catch {
+      // Error toast is raised by useFolders
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FolderPlus className="h-5 w-5" />
+              {title}
+            </DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor={inputId}>Folder name</Label>
+            <Input
+              id={inputId}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Project docs"
+              autoFocus
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isSaving}>
+              {isSaving ? 'Saving...' : confirmText}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FolderNameDialog;
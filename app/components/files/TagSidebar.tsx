@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Tag sidebar for the file manager with counts, filtering, rename and delete
+ * @author Axel Modra
+ */
+
+import { Check, Edit, MoreVertical, Tag, Tags, Trash2, X } from 'lucide-react';
+import type React from 'react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ConfirmationDialog } from '@/components/ui/ConfirmationDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { hasTag, type TagCount } from '@/utils/tagUtils';
+
+interface TagSidebarProps {
+  tagCounts: TagCount[];
+  selectedTags: string[];
+  onToggleTag: (tag: string) => void;
+  onClearTags: () => void;
+  /** Resolves when the tag was renamed; a rejection keeps the rename input open */
+  onRenameTag: (from: string, to: string) => Promise<unknown>;
+  onDeleteTag: (tag: string) => Promise<unknown>;
+}
+
+export const TagSidebar: React.FC<TagSidebarProps> = ({
+  tagCounts,
+  selectedTags,
+  onToggleTag,
+  onClearTags,
+  onRenameTag,
+  onDeleteTag,
+}) => {
+  const [renamingTag, setRenamingTag] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [tagToDelete, setTagToDelete] = useState<TagCount | null>(null);
+
+  const startRename = (tag: string) => {
+    setRenamingTag(tag);
+    setRenameValue(tag);
+  };
+
+  const handleRenameSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!renamingTag) return;
+
+    const newName = renameValue.trim();
+    if (!newName || newName === renamingTag) {
+      setRenamingTag(null);
+      return;
+    }
+
+    try {
+      await onRenameTag(renamingTag, newName);
+      setRenamingTag(null);
+    } catch {
+      // Error toast is raised by useTags
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!tagToDelete) return;
+
+    try {
+      await onDeleteTag(tagToDelete.tag);
+    } catch {
+      // Error toast is raised by useTags
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-3">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="flex items-center gap-2 text-sm font-semibold">
+            <Tags className="w-4 h-4" />
+            Tags
+          </h2>
+          {selectedTags.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={onClearTags} className="h-6 px-2 text-xs">
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {tagCounts.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No tags yet. Add tags from a file's menu or the editor header.
+          </p>
+        ) : (
+          <ul className="space-y-0.5">
+            {tagCounts.map(({ tag, count }) => {
+              const isSelected = hasTag(selectedTags, tag);
+
+              if (renamingTag === tag) {
+                return (
+                  <li key={tag}>
+                    <form onSubmit={handleRenameSubmit} className="flex items-center gap-1">
+                      <Input
+                        value={renameValue}
+                        onChange={(event) => setRenameValue(event.target.value)}
+                        onKeyDown={(event) => {
+                          if (event.key === 'Escape') setRenamingTag(null);
+                        }}
+                        className="h-7 text-sm"
+                        aria-label={`Rename tag ${tag}`}
+                        autoFocus
+                      />
+                      <Button type="submit" variant="ghost" size="sm" className="h-7 w-7 p-0">
+                        <Check className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => setRenamingTag(null)}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </form>
+                  </li>
+                );
+              }
+
+              return (
+                <li key={tag} className="group flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => onToggleTag(tag)}
+                    aria-pressed={isSelected}
+                    className={`flex flex-1 min-w-0 items-center gap-2 rounded-md px-2 py-1 text-sm text-left transition-colors ${
+                      isSelected ? 'bg-primary/10 text-primary font-medium' : 'hover:bg-muted'
+                    }`}
+                  >
+                    <Tag className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate flex-1">{tag}</span>
+                    <span className="text-xs text-muted-foreground">{count}</span>
+                  </button>
+
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                        aria-label={`Actions for tag ${tag}`}
+                      >
+                        <MoreVertical className="w-3 h-3" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="min-w-[140px]">
+                      <DropdownMenuItem onClick={() => startRename(tag)}>
+                        <Edit className="mr-2 h-4 w-4" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => setTagToDelete({ tag, count })}
+                        className="text-destructive"
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <ConfirmationDialog
+        isOpen={tagToDelete !== null}
+        onOpenChange={(open) => {
+          if (!open) setTagToDelete(null);
+        }}
+        title="Delete tag?"
+        description={
+          tagToDelete
+            ? `"${tagToDelete.tag}" will be removed from ${tagToDelete.count} file${
+                tagToDelete.count === 1 ? '' : 's'
+              }. The files themselves are kept.`
+            : ''
+        }
+        onConfirm={handleConfirmDelete}
+        confirmText="Delete tag"
+        cancelText="Cancel"
+      />
+    </Card>
+  );
+};
+
+export default TagSidebar;
@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Trash dialog for deleted files
+ * @author Axel Modra
+ */
+
+import { RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useId, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ConfirmationDialog } from '@/components/ui/ConfirmationDialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTrash } from '@/hooks/files/useTrash';
+import type { FileData } from '@/lib/supabase';
+import { type FileStorageService, TRASH_RETENTION } from '@/services/fileStorage';
+
+interface TrashDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  storageService: FileStorageService | null;
+  formatDate: (date: string) => string;
+  formatFileSize: (bytes: number) => string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days left before a trashed file is purged automatically
+ */
+const getDaysUntilPurge = (file: FileData, retentionDays: number): number => {
+  if (!file.deletedAt) return 0;
+  const purgeAt = new Date(file.deletedAt).getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+};
+
+/**
+ * Lists deleted files with restore, delete forever and the automatic purge period
+ */
+export const TrashDialog: React.FC<TrashDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  storageService,
+  formatDate,
+  formatFileSize,
+}) => {
+  const {
+    trashedFiles,
+    isLoadingTrash,
+    restoreFiles,
+    isRestoring,
+    deleteForever,
+    isDeletingForever,
+    retentionDays,
+    setRetentionDays,
+  } = useTrash(isOpen ? storageService : null);
+
+  const idPrefix = useId();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isDeleteForeverConfirmOpen, setIsDeleteForeverConfirmOpen] = useState(false);
+
+  // Drop the selection whenever the dialog closes or the listed files change
+  useEffect(() => {
+    if (!isOpen) {
+      setSelectedIds(new Set());
+      return;
+    }
+    setSelectedIds((previous) => {
+      const listedIds = new Set(trashedFiles.map((file) => file.id));
+      return new Set([...previous].filter((id) => listedIds.has(id)));
+    });
+  }, [isOpen, trashedFiles]);
+
+  const allSelected = trashedFiles.length > 0 && selectedIds.size === trashedFiles.length;
+  const isBusy = isRestoring || isDeletingForever;
+
+  const toggleFile = (fileId: string) => {
+    setSelectedIds((previous) => {
+      const next = new Set(previous);
+      if (next.has(fileId)) {
+        next.delete(fileId);
+      } else {
+        next.add(fileId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(
+      allSelected ? new Set() : new Set(trashedFiles.flatMap((file) => (file.id ? [file.id] : [])))
+    );
+  };
+
+  const handleRestore = async () => {
+    try {
+      await restoreFiles([...selectedIds]);
+      setSelectedIds(new Set());
+    } catch {
+      // Error toast is raised by useTrash
+    }
+  };
+
+  const handleDeleteForever = async () => {
+    try {
+      await deleteForever([...selectedIds]);
+      setSelectedIds(new Set());
+    } catch {
+      // Error toast is raised by useTrash
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5" />
+              Trash
+            </DialogTitle>
+            <DialogDescription>
+              Deleted files can be restored until they are purged automatically.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`${idPrefix}-select-all`}
+                checked={allSelected}
+                onCheckedChange={toggleAll}
+                disabled={trashedFiles.length === 0}
+              />
+              <label htmlFor={`${idPrefix}-select-all`}>
+                {selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all'}
+              </label>
+            </div>
+
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <span>Delete after</span>
+              <Select
+                value={String(retentionDays)}
+                onValueChange={(value) => setRetentionDays(Number(value))}
+              >
+                <SelectTrigger className="w-28 h-8" aria-label="Trash retention period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRASH_RETENTION.OPTIONS_DAYS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days} days
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <ScrollArea className="h-[320px] rounded-md border">
+            {isLoadingTrash ? (
+              <div className="flex items-center justify-center h-[300px] text-muted-foreground">
+                <RefreshCw className="w-5 h-5 animate-spin" />
+              </div>
+            ) : trashedFiles.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">Trash is empty.</p>
+            ) : (
+              <ul className="p-1">
+                {trashedFiles.map((file) => {
+                  const fileId = file.id || file.title;
+                  const daysLeft = getDaysUntilPurge(file, retentionDays);
+
+                  return (
+                    <li key={fileId}>
+                      <div className="flex items-center gap-3 rounded-md px-3 py-2 text-sm hover:bg-muted">
+                        <Checkbox
+                          id={`${idPrefix}-${fileId}`}
+                          checked={selectedIds.has(fileId)}
+                          onCheckedChange={() => toggleFile(fileId)}
+                        />
+                        <label
+                          htmlFor={`${idPrefix}-${fileId}`}
+                          className="min-w-0 flex-1 cursor-pointer"
+                        >
+                          <div className="font-medium truncate">{file.title}</div>
+                          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                            <span className="truncate">
+                              Deleted {file.deletedAt ? formatDate(file.deletedAt) : 'recently'}
+                            </span>
+                            <span>{formatFileSize(file.fileSize || 0)}</span>
+                          </div>
+                        </label>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {daysLeft > 0 ? `${daysLeft}d left` : 'Purging soon'}
+                        </span>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </ScrollArea>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => setIsDeleteForeverConfirmOpen(true)}
+              disabled={selectedIds.size === 0 || isBusy}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              {isDeletingForever ? 'Deleting...' : 'Delete forever'}
+            </Button>
+            <Button onClick={handleRestore} disabled={selectedIds.size === 0 || isBusy}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {isRestoring ? 'Restoring...' : 'Restore'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        isOpen={isDeleteForeverConfirmOpen}
+        onOpenChange={setIsDeleteForeverConfirmOpen}
+        title="Delete forever?"
+        description={`This will permanently delete ${selectedIds.size} file${
+          selectedIds.size === 1 ? '' : 's'
+        } and their version history. This action cannot be undone.`}
+        onConfirm={handleDeleteForever}
+        confirmText="Delete forever"
+        cancelText="Cancel"
+      />
+    </>
+  );
+};
+
+export default TrashDialog;
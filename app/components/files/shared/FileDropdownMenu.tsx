@@ -1,4 +1,4 @@
-import { Copy, Download, Edit, MoreVertical, Trash2 } from 'lucide-react';
+import { Copy, Download, Edit, History, MoreVertical, Tag, Trash2 } from 'lucide-react';
 import type React from 'react';
 import { Button } from '@/components/ui/button';
 import {
@@ -23,6 +23,8 @@ export interface FileDropdownMenuProps {
   onDelete: () => void;
   onDuplicate: () => void;
   onExport: () => void;
+  onShowHistory?: () => void;
+  onEditTags?: () => void;
   positioning?: DropdownPositioning;
   className?: string;
   stopPropagationOnTrigger?: boolean;
@@ -35,6 +37,8 @@ export const FileDropdownMenu: React.FC<FileDropdownMenuProps> = ({
   onDelete,
   onDuplicate,
   onExport,
+  onShowHistory,
+  onEditTags,
   positioning,
   className = '',
   stopPropagationOnTrigger = false,
@@ -106,6 +110,20 @@ export const FileDropdownMenu: React.FC<FileDropdownMenuProps> = ({
           Export
         </DropdownMenuItem>
 
+        {onShowHistory && (
+          <DropdownMenuItem onClick={(e) => handleMenuItemClick(e, onShowHistory)}>
+            <History className="mr-2 h-4 w-4" />
+            History
+          </DropdownMenuItem>
+        )}
+
+        {onEditTags && (
+          <DropdownMenuItem onClick={(e) => handleMenuItemClick(e, onEditTags)}>
+            <Tag className="mr-2 h-4 w-4" />
+            Edit tags
+          </DropdownMenuItem>
+        )}
+
         <DropdownMenuSeparator />
 
         <DropdownMenuItem
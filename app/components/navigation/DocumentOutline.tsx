@@ -2,8 +2,8 @@ import type React from 'react';
 import { useMemo } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useKeyboardNavigation, useOutlineNavigation, useScrollSpy } from '@/hooks/navigation';
-import type { DocumentOutlineProps } from '@/types/outline';
-import { parseMarkdownHeadings } from '@/utils/headingUtils';
+import type { DocumentOutlineProps, HeadingItem } from '@/types/outline';
+import { parseMarkdownHeadings, scrollToLineInEditor } from '@/utils/headingUtils';
 import { isOutlineEmpty } from '@/utils/outlineUtils';
 import { EmptyOutline } from './outline/EmptyOutline';
 // Sub-components
@@ -46,6 +46,12 @@ export const DocumentOutline: React.FC<DocumentOutlineProps> = ({ markdown, them
     offset: 120,
   });
 
+  // Reveal in editor: pilih baris heading di source dan scroll editor ke sana
+  const handleRevealInEditor = (item: HeadingItem) => {
+    setActiveHeading(item.id);
+    scrollToLineInEditor(item.lineNumber, { behavior: 'smooth' });
+  };
+
   // Early return untuk empty state
   if (isOutlineEmpty(outline)) {
     return <EmptyOutline theme={theme} />;
@@ -72,6 +78,7 @@ export const DocumentOutline: React.FC<DocumentOutlineProps> = ({ markdown, them
                   isActive={isItemActive}
                   theme={theme}
                   onClick={handleHeadingClick}
+                  onReveal={handleRevealInEditor}
                 />
               );
             })}
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Folder tree untuk sidebar editor: buka file dan pindahkan file/folder via drag-and-drop
+ * @author Axel Modra
+ */
+
+import { ChevronDown, ChevronRight, FileText, Folder, FolderOpen } from 'lucide-react';
+import type React from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useFolderDropTarget } from '@/hooks/files/useFolderDropTarget';
+import { useFolders } from '@/hooks/files/useFolders';
+import type { FileData } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
+import {
+  buildFolderTree,
+  type FolderDragItems,
+  type FolderTreeNode,
+  getFolderBreadcrumbs,
+  setFileDragData,
+  setFolderDragData,
+} from '@/utils/folderUtils';
+
+export interface FolderTreeProps {
+  files: FileData[];
+  storageService: FileStorageService | null;
+  /** Judul file yang sedang dibuka di editor */
+  activeFileName?: string;
+  onOpenFile: (file: FileData) => void;
+}
+
+type DropItemsHandler = (items: FolderDragItems, targetFolderId: string | null) => void;
+
+const INDENT_PX = 12;
+
+interface FileLeafProps {
+  file: FileData;
+  depth: number;
+  isActive: boolean;
+  onOpenFile: (file: FileData) => void;
+}
+
+const FileLeaf: React.FC<FileLeafProps> = ({ file, depth, isActive, onOpenFile }) => (
+  <button
+    type="button"
+    draggable={!!file.id}
+    onDragStart={(e) => file.id && setFileDragData(e.dataTransfer, [file.id])}
+    onClick={() => onOpenFile(file)}
+    className={`flex w-full items-center gap-1.5 rounded px-2 py-1 text-left text-sm transition-colors ${
+      isActive
+        ? 'bg-primary/10 text-primary font-medium'
+        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+    }`}
+    style={{ paddingLeft: 8 + depth * INDENT_PX + 14 }}
+    title={file.title}
+    aria-current={isActive ? 'page' : undefined}
+  >
+    <FileText className="h-3.5 w-3.5 flex-shrink-0 opacity-70" />
+    <span className="truncate">{file.title}</span>
+  </button>
+);
+
+interface FolderNodeProps {
+  node: FolderTreeNode;
+  depth: number;
+  expandedIds: Set<string>;
+  activeFileName?: string;
+  onToggle: (folderId: string) => void;
+  onOpenFile: (file: FileData) => void;
+  onDropItems: DropItemsHandler;
+}
+
+const FolderNode: React.FC<FolderNodeProps> = ({
+  node,
+  depth,
+  expandedIds,
+  activeFileName,
+  onToggle,
+  onOpenFile,
+  onDropItems,
+}) => {
+  const { folder, children, files } = node;
+  const { isDragOver, dropTargetProps } = useFolderDropTarget(folder.id, onDropItems);
+  const isExpanded = expandedIds.has(folder.id);
+  const isEmpty = children.length === 0 && files.length === 0;
+
+  return (
+    <li>
+      <button
+        type="button"
+        draggable
+        onDragStart={(e) => setFolderDragData(e.dataTransfer, folder.id)}
+        {...dropTargetProps}
+        onClick={() => onToggle(folder.id)}
+        className={`flex w-full items-center gap-1 rounded px-2 py-1 text-left text-sm text-gray-700 dark:text-gray-300 transition-colors ${
+          isDragOver
+            ? 'bg-primary/10 ring-1 ring-primary'
+            : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+        }`}
+        style={{ paddingLeft: 8 + depth * INDENT_PX }}
+        title={folder.name}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-3 w-3 flex-shrink-0 opacity-60" />
+        ) : (
+          <ChevronRight className="h-3 w-3 flex-shrink-0 opacity-60" />
+        )}
+        {isExpanded || isDragOver ? (
+          <FolderOpen className="h-3.5 w-3.5 flex-shrink-0 text-primary" />
+        ) : (
+          <Folder className="h-3.5 w-3.5 flex-shrink-0 text-primary" />
+        )}
+        <span className="truncate">{folder.name}</span>
+      </button>
+
+      {isExpanded && (
+        <ul>
+          {children.map((child) => (
+            <FolderNode
+              key={child.folder.id}
+              node={child}
+              depth={depth + 1}
+              expandedIds={expandedIds}
+              activeFileName={activeFileName}
+              onToggle={onToggle}
+              onOpenFile={onOpenFile}
+              onDropItems={onDropItems}
+            />
+          ))}
+          {files.map((file) => (
+            <li key={file.id || file.title}>
+              <FileLeaf
+                file={file}
+                depth={depth + 1}
+                isActive={file.title === activeFileName}
+                onOpenFile={onOpenFile}
+              />
+            </li>
+          ))}
+          {isEmpty && (
+            <li
+              className="px-2 py-1 text-xs italic text-gray-500"
+              style={{ paddingLeft: 8 + (depth + 1) * INDENT_PX + 14 }}
+            >
+              Empty folder
+            </li>
+          )}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Tree folder dan file tersimpan
+ * Folder yang berisi file aktif otomatis dibuka; area kosong di bawah tree adalah root
+ */
+export const FolderTree: React.FC<FolderTreeProps> = ({
+  files,
+  storageService,
+  activeFileName,
+  onOpenFile,
+}) => {
+  const { folders, moveFolder, moveFiles } = useFolders(storageService);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  const { nodes, rootFiles } = useMemo(() => buildFolderTree(folders, files), [folders, files]);
+
+  // Buka seluruh folder induk dari file yang sedang aktif
+  const activeFolderId = files.find((file) => file.title === activeFileName)?.folderId ?? null;
+  useEffect(() => {
+    if (!activeFolderId) return;
+    const ancestors = getFolderBreadcrumbs(folders, activeFolderId);
+    if (ancestors.length === 0) return;
+
+    setExpandedIds((previous) => {
+      if (ancestors.every((folder) => previous.has(folder.id))) return previous;
+      const next = new Set(previous);
+      for (const folder of ancestors) next.add(folder.id);
+      return next;
+    });
+  }, [activeFolderId, folders]);
+
+  const handleToggle = useCallback((folderId: string) => {
+    setExpandedIds((previous) => {
+      const next = new Set(previous);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleDropItems = useCallback(
+    async (items: FolderDragItems, targetFolderId: string | null) => {
+      try {
+        if (items.folderId) {
+          await moveFolder(items.folderId, targetFolderId);
+        }
+        if (items.fileIds.length > 0) {
+          await moveFiles(items.fileIds, targetFolderId);
+        }
+        if (targetFolderId) {
+          setExpandedIds((previous) => new Set(previous).add(targetFolderId));
+        }
+      } catch {
+        // Error toast ditampilkan oleh useFolders
+      }
+    },
+    [moveFolder, moveFiles]
+  );
+
+  const { isDragOver: isRootDragOver, dropTargetProps: rootDropTargetProps } = useFolderDropTarget(
+    null,
+    handleDropItems
+  );
+
+  if (nodes.length === 0 && rootFiles.length === 0) {
+    return <p className="p-3 text-xs text-gray-500 dark:text-gray-400">No saved files yet.</p>;
+  }
+
+  return (
+    <ScrollArea className="h-full">
+      <div
+        {...rootDropTargetProps}
+        className={`min-h-full p-1 ${isRootDragOver ? 'bg-primary/5' : ''}`}
+      >
+        <ul>
+          {nodes.map((node) => (
+            <FolderNode
+              key={node.folder.id}
+              node={node}
+              depth={0}
+              expandedIds={expandedIds}
+              activeFileName={activeFileName}
+              onToggle={handleToggle}
+              onOpenFile={onOpenFile}
+              onDropItems={handleDropItems}
+            />
+          ))}
+          {rootFiles.map((file) => (
+            <li key={file.id || file.title}>
+              <FileLeaf
+                file={file}
+                depth={0}
+                isActive={file.title === activeFileName}
+                onOpenFile={onOpenFile}
+              />
+            </li>
+          ))}
+        </ul>
+      </div>
+    </ScrollArea>
+  );
+};
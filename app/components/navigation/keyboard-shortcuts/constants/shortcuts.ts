@@ -222,6 +222,30 @@ export const DEFAULT_SHORTCUTS: ShortcutCategory[] = [
         description: 'Outdent',
         enabled: true,
       },
+      {
+        keys: ['Ctrl', 'D'],
+        macKeys: ['⌘', 'D'],
+        description: 'Add next occurrence to selection',
+        enabled: true,
+      },
+      {
+        keys: ['Alt', 'Click'],
+        macKeys: ['⌥', 'Click'],
+        description: 'Add or remove cursor',
+        enabled: true,
+      },
+      {
+        keys: ['Alt', 'Shift', 'Drag'],
+        macKeys: ['⌥', '⇧', 'Drag'],
+        description: 'Column (box) selection',
+        enabled: true,
+      },
+      {
+        keys: ['Esc'],
+        macKeys: ['Esc'],
+        description: 'Back to a single cursor',
+        enabled: true,
+      },
     ],
   },
   {
@@ -2,7 +2,7 @@
  * Individual outline item component
  */
 
-import { Hash } from 'lucide-react';
+import { Hash, TextCursorInput } from 'lucide-react';
 import type React from 'react';
 import type { OutlineItemProps } from '@/types/outline';
 import { getOutlineItemA11yProps, getOutlineItemStyles } from '@/utils/outlineUtils';
@@ -10,7 +10,13 @@ import { getOutlineItemA11yProps, getOutlineItemStyles } from '@/utils/outlineUt
 /**
  * Individual outline item dengan styling dan interactions
  */
-export const OutlineItem: React.FC<OutlineItemProps> = ({ item, isActive, theme, onClick }) => {
+export const OutlineItem: React.FC<OutlineItemProps> = ({
+  item,
+  isActive,
+  theme,
+  onClick,
+  onReveal,
+}) => {
   const { className, style } = getOutlineItemStyles(item, isActive, theme);
   const a11yProps = getOutlineItemA11yProps(item, isActive);
 
@@ -26,30 +32,43 @@ export const OutlineItem: React.FC<OutlineItemProps> = ({ item, isActive, theme,
   };
 
   return (
-    <button
-      type="button"
-      className={className}
-      style={style}
-      onClick={handleClick}
-      onKeyDown={handleKeyDown}
-      {...a11yProps}
-    >
-      <Hash
-        className="h-3 w-3 mr-2 opacity-50 flex-shrink-0 mt-0.5"
-        style={{ color: isActive ? theme?.primary || '#3b82f6' : undefined }}
-        aria-hidden="true"
-      />
-      <span
-        className="break-words leading-tight flex-1"
-        style={{
-          wordBreak: 'break-word',
-          overflowWrap: 'break-word',
-          hyphens: 'auto',
-          lineHeight: '1.3',
-        }}
+    <div className="group relative">
+      <button
+        type="button"
+        className={`${className} ${onReveal ? 'pr-8' : ''}`}
+        style={style}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        {...a11yProps}
       >
-        {item.text}
-      </span>
-    </button>
+        <Hash
+          className="h-3 w-3 mr-2 opacity-50 flex-shrink-0 mt-0.5"
+          style={{ color: isActive ? theme?.primary || '#3b82f6' : undefined }}
+          aria-hidden="true"
+        />
+        <span
+          className="break-words leading-tight flex-1"
+          style={{
+            wordBreak: 'break-word',
+            overflowWrap: 'break-word',
+            hyphens: 'auto',
+            lineHeight: '1.3',
+          }}
+        >
+          {item.text}
+        </span>
+      </button>
+      {onReveal && (
+        <button
+          type="button"
+          className="absolute right-1 top-1/2 -translate-y-1/2 p-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-muted transition-opacity"
+          onClick={() => onReveal(item)}
+          aria-label={`Reveal ${item.text} in editor`}
+          title="Reveal in editor"
+        >
+          <TextCursorInput className="h-3 w-3" aria-hidden="true" />
+        </button>
+      )}
+    </div>
   );
 };
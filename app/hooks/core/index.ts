@@ -12,6 +12,7 @@ export type {
   UseToastOptions,
   UseToastReturn,
 } from './useToast';
+export type { UndoRedoSnapshot } from './useUndoRedo';
 // Core functionality hooks
 export { toast, useToast } from './useToast';
 export { useUndoRedo } from './useUndoRedo';
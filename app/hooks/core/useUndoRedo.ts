@@ -5,6 +5,15 @@ interface HistoryState {
   timestamp: number;
 }
 
+/**
+ * Complete history of one document, used to park it while another one is edited
+ */
+export interface UndoRedoSnapshot {
+  history: HistoryState[];
+  currentIndex: number;
+  currentValue: string;
+}
+
 interface UseUndoRedoOptions {
   maxHistorySize?: number;
   debounceMs?: number;
@@ -18,6 +27,8 @@ interface UseUndoRedoReturn {
   canUndo: boolean;
   canRedo: boolean;
   clearHistory: (newValue?: string) => void;
+  getSnapshot: () => UndoRedoSnapshot;
+  restoreSnapshot: (snapshot: UndoRedoSnapshot) => void;
 }
 
 export const useUndoRedo = (
@@ -182,6 +193,41 @@ export const useUndoRedo = (
     [state.currentValue]
   );
 
+  // Snapshot of the whole history - a pending (debounced) change is committed first
+  const getSnapshot = useCallback((): UndoRedoSnapshot => {
+    if (debounceTimer.current) {
+      clearTimeout(debounceTimer.current);
+      debounceTimer.current = null;
+    }
+
+    const { history, currentIndex, currentValue } = state;
+    if (history[currentIndex]?.value === currentValue) {
+      return { history, currentIndex, currentValue };
+    }
+
+    const committedHistory = [
+      ...history.slice(0, currentIndex + 1),
+      { value: currentValue, timestamp: Date.now() },
+    ].slice(-maxHistorySize);
+
+    return {
+      history: committedHistory,
+      currentIndex: committedHistory.length - 1,
+      currentValue,
+    };
+  }, [state, maxHistorySize]);
+
+  // Restore a snapshot - atomic operation
+  const restoreSnapshot = useCallback((snapshot: UndoRedoSnapshot) => {
+    if (debounceTimer.current) {
+      clearTimeout(debounceTimer.current);
+      debounceTimer.current = null;
+    }
+
+    setState(snapshot);
+    lastHistoryValue.current = snapshot.currentValue;
+  }, []);
+
   // Can undo/redo flags - derived from state
   const canUndo = state.currentIndex > 0;
   const canRedo = state.currentIndex < state.history.length - 1;
@@ -194,5 +240,7 @@ export const useUndoRedo = (
     canUndo,
     canRedo,
     clearHistory,
+    getSnapshot,
+    restoreSnapshot,
   };
 };
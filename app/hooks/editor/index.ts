@@ -4,7 +4,15 @@
  */
 
 // Editor hooks
+export { usePaneScrollSync } from './usePaneScrollSync';
+export { useScrollSync } from './useScrollSync';
 export { useVimMode } from './useVimMode';
 
 // Vim utilities
 export * from './vim/vimCommands';
+export * from './vim/exCommands';
+export * from './vim/vimKeyParser';
+export * from './vim/vimMotions';
+export * from './vim/vimOperators';
+export * from './vim/vimRegisters';
+export * from './vim/vimTextObjects';
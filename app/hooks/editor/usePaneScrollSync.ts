@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Locked scrolling between the two panes of the split editor
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import { useEffect } from 'react';
+import { addMultipleEventListeners } from '@/utils/common';
+
+/**
+ * Delay before a pane scrolled by the sync may drive the other pane again
+ */
+const SYNC_RELEASE_DELAY = 100;
+
+export interface UsePaneScrollSyncOptions {
+  /** Locked scrolling enabled (editor split and the option turned on) */
+  enabled: boolean;
+  /** Wrapper containing the first pane's textarea */
+  firstRef: React.RefObject<HTMLElement>;
+  /** Wrapper containing the second pane's textarea */
+  secondRef: React.RefObject<HTMLElement>;
+}
+
+/**
+ * Scrolling one pane scrolls the other by the same distance, so the offset between them
+ * is kept: two regions of one document stay apart, two documents move together
+ */
+export const usePaneScrollSync = ({
+  enabled,
+  firstRef,
+  secondRef,
+}: UsePaneScrollSyncOptions): void => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const first = firstRef.current?.querySelector('textarea');
+    const second = secondRef.current?.querySelector('textarea');
+    if (!first || !second) return;
+
+    const lastScrollTop = new Map<HTMLElement, number>([
+      [first, first.scrollTop],
+      [second, second.scrollTop],
+    ]);
+    let drivenPane: HTMLElement | null = null;
+    let releaseTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const createScrollHandler = (source: HTMLElement, target: HTMLElement) => () => {
+      const delta = source.scrollTop - (lastScrollTop.get(source) ?? source.scrollTop);
+      lastScrollTop.set(source, source.scrollTop);
+
+      // Ignore scroll events caused by the sync from the other pane
+      if (drivenPane === source || delta === 0) return;
+
+      const targetMax = target.scrollHeight - target.clientHeight;
+      drivenPane = target;
+      target.scrollTop = Math.min(Math.max(target.scrollTop + delta, 0), Math.max(targetMax, 0));
+
+      clearTimeout(releaseTimer);
+      releaseTimer = setTimeout(() => {
+        drivenPane = null;
+      }, SYNC_RELEASE_DELAY);
+    };
+
+    const removeFirstListener = addMultipleEventListeners(first, [
+      { type: 'scroll', listener: createScrollHandler(first, second) },
+    ]);
+    const removeSecondListener = addMultipleEventListeners(second, [
+      { type: 'scroll', listener: createScrollHandler(second, first) },
+    ]);
+
+    return () => {
+      removeFirstListener();
+      removeSecondListener();
+      clearTimeout(releaseTimer);
+    };
+  }, [enabled, firstRef, secondRef]);
+};
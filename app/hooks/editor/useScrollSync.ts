@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Hook sinkronisasi scroll dua arah antara EditorPane dan PreviewPane
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import { useEffect, useRef } from 'react';
+import { addMultipleEventListeners } from '@/utils/common';
+import {
+  buildScrollSyncMap,
+  mapScrollPosition,
+  measureTextareaLines,
+  type ScrollSyncPoint,
+} from '@/utils/scrollSyncUtils';
+
+/**
+ * Jeda sebelum pane yang digerakkan secara programatik boleh menggerakkan pane lain lagi
+ */
+const SYNC_RELEASE_DELAY = 100;
+
+export interface UseScrollSyncOptions {
+  /** Sinkronisasi aktif (setting scrollSync dan preview terlihat) */
+  enabled: boolean;
+  /** Wrapper yang memuat textarea editor */
+  editorRef: React.RefObject<HTMLElement>;
+  /** Wrapper yang memuat container scroll preview ([data-preview-pane]) */
+  previewRef: React.RefObject<HTMLElement>;
+  /** Konten markdown; setiap perubahan membuat peta scroll dibangun ulang */
+  markdown: string;
+}
+
+/**
+ * Scroll editor menggerakkan preview ke block yang sama dan sebaliknya
+ * Peta scroll dibangun malas saat scroll dan di-invalidate ketika konten atau ukuran berubah
+ * (gambar selesai dimuat, diagram dirender, pane di-resize)
+ */
+export const useScrollSync = ({
+  enabled,
+  editorRef,
+  previewRef,
+  markdown,
+}: UseScrollSyncOptions): void => {
+  const mapRef = useRef<{ key: string; points: ScrollSyncPoint[] } | null>(null);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: markdown hanya pemicu invalidasi peta
+  useEffect(() => {
+    mapRef.current = null;
+  }, [markdown]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const textarea = editorRef.current?.querySelector('textarea');
+    const preview = previewRef.current?.querySelector<HTMLElement>('[data-preview-pane]');
+    if (!textarea || !preview) return;
+
+    let drivenPane: HTMLElement | null = null;
+    let releaseTimer: ReturnType<typeof setTimeout> | undefined;
+    let frame = 0;
+
+    const getPoints = (): ScrollSyncPoint[] => {
+      const key = `${textarea.clientWidth}:${textarea.scrollHeight}:${preview.clientWidth}:${preview.scrollHeight}`;
+      if (mapRef.current?.key !== key) {
+        mapRef.current = {
+          key,
+          points: buildScrollSyncMap(
+            measureTextareaLines(textarea),
+            textarea.scrollHeight,
+            preview
+          ),
+        };
+      }
+      return mapRef.current.points;
+    };
+
+    const syncScroll = (source: HTMLElement, target: HTMLElement, from: keyof ScrollSyncPoint) => {
+      const sourceMax = source.scrollHeight - source.clientHeight;
+      const targetMax = target.scrollHeight - target.clientHeight;
+      if (targetMax <= 0) return;
+
+      // Ujung bawah selalu dipetakan ke ujung bawah agar akhir dokumen terlihat di kedua pane
+      const position =
+        sourceMax > 0 && source.scrollTop >= sourceMax - 1
+          ? targetMax
+          : mapScrollPosition(getPoints(), source.scrollTop, from);
+
+      drivenPane = target;
+      target.scrollTop = Math.min(Math.max(position, 0), targetMax);
+
+      clearTimeout(releaseTimer);
+      releaseTimer = setTimeout(() => {
+        drivenPane = null;
+      }, SYNC_RELEASE_DELAY);
+    };
+
+    const createScrollHandler =
+      (source: HTMLElement, target: HTMLElement, from: keyof ScrollSyncPoint) => () => {
+        // Abaikan event scroll yang dipicu oleh sinkronisasi dari pane lain
+        if (drivenPane === source) return;
+
+        cancelAnimationFrame(frame);
+        frame = requestAnimationFrame(() => syncScroll(source, target, from));
+      };
+
+    const resizeObserver = new ResizeObserver(() => {
+      mapRef.current = null;
+    });
+    resizeObserver.observe(textarea);
+    resizeObserver.observe(preview);
+
+    const removeEditorListener = addMultipleEventListeners(textarea, [
+      { type: 'scroll', listener: createScrollHandler(textarea, preview, 'editor') },
+    ]);
+    const removePreviewListener = addMultipleEventListeners(preview, [
+      { type: 'scroll', listener: createScrollHandler(preview, textarea, 'preview') },
+    ]);
+
+    // Samakan posisi preview saat sync diaktifkan atau preview dibuka
+    frame = requestAnimationFrame(() => syncScroll(textarea, preview, 'editor'));
+
+    return () => {
+      removeEditorListener();
+      removePreviewListener();
+      resizeObserver.disconnect();
+      cancelAnimationFrame(frame);
+      clearTimeout(releaseTimer);
+    };
+  }, [enabled, editorRef, previewRef]);
+};
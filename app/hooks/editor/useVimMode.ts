@@ -4,10 +4,82 @@
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { UseVimModeOptions, UseVimModeReturn, VimContext, VimMode } from '@/types/vim';
+import type {
+  UseVimModeOptions,
+  UseVimModeReturn,
+  VimBufferState,
+  VimCommandMessage,
+  VimContext,
+  VimExCommand,
+  VimExecutionResult,
+  VimMode,
+  VimParsedCommand,
+  VimSubstitutionMatch,
+  VimVisualState,
+} from '@/types/vim';
 
-import { applyCursorStyle, isValidVimCommand, parseVimCommand } from '@/utils/vimUtils';
+import {
+  applyCursorStyle,
+  getInsertedText,
+  getLineNumber,
+  getLineStartOffset,
+  moveToLine,
+  parseVimCommand,
+  scrollToLine,
+  setVimCursor,
+} from '@/utils/vimUtils';
+import {
+  applySubstitution,
+  convertVimReplacement,
+  createSubstitutionRegex,
+  findSubstitutionMatches,
+  parseExCommand,
+  resolveLineAddress,
+  SET_OPTION_NAMES,
+} from './vim/exCommands';
 import { vimCommandRegistry } from './vim/vimCommands';
+import { parseVimKeys, withCount } from './vim/vimKeyParser';
+import { clampToLine } from './vim/vimMotions';
+import { executeVimCommand, type VimSession } from './vim/vimOperators';
+import { vimRegisters } from './vim/vimRegisters';
+
+/**
+ * State substitusi interaktif (:s///c)
+ */
+interface PendingSubstitution {
+  value: string;
+  matches: VimSubstitutionMatch[];
+  position: number;
+  delta: number;
+  regex: RegExp;
+  replacement: string;
+  count: number;
+  lines: Set<number>;
+}
+
+/**
+ * Perubahan terakhir untuk . (termasuk teks yang diketik setelah c, o, i, ...)
+ */
+interface VimLastChange {
+  command: VimParsedCommand;
+  insertedText?: string;
+}
+
+const MAX_COMMAND_HISTORY = 50;
+
+/**
+ * Key modifier yang tidak membentuk command sendiri
+ */
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'CapsLock']);
+
+/**
+ * Pecah string command menjadi key: 'Escape' dan '<C-r>' satu key, 'dw' dua key
+ */
+const splitVimKeys = (command: string): string[] =>
+  /^(<[^>]+>|[A-Z][a-zA-Z]+)$/.test(command) ? [command] : Array.from(command);
+
+const formatSubstitutionResult = (count: number, lines: number): string =>
+  `${count} substitution${count === 1 ? '' : 's'} on ${lines} line${lines === 1 ? '' : 's'}`;
 
 export const useVimMode = (
   textareaRef: React.RefObject<HTMLTextAreaElement>,
@@ -15,24 +87,72 @@ export const useVimMode = (
   onChange: (value: string) => void,
   options: UseVimModeOptions
 ): UseVimModeReturn => {
-  const { enabled, onModeChange, cursorConfig, commandTimeout = 1000 } = options;
+  const {
+    enabled,
+    onModeChange,
+    cursorConfig,
+    commandTimeout = 1000,
+    exCommands,
+    onUndo,
+    onRedo,
+  } = options;
 
   const [mode, setMode] = useState<VimMode>('normal');
-  const commandBuffer = useRef<string>('');
   const commandTimeoutRef = useRef<NodeJS.Timeout>();
 
+  // Operator-pending state, seleksi visual, register dan dot-repeat
+  const keyBuffer = useRef<string[]>([]);
+  const [pendingKeys, setPendingKeys] = useState('');
+  const visualState = useRef<VimVisualState | null>(null);
+  const cursorRef = useRef(0);
+  const sessionRef = useRef<VimSession>({
+    registers: vimRegisters,
+    lastCharSearch: null,
+    preferredColumn: null,
+  });
+  const lastChange = useRef<VimLastChange | null>(null);
+  const insertBaseValue = useRef<string | null>(null);
+
+  // Ex-command line state
+  const [commandLine, setCommandLine] = useState('');
+  const [commandMessage, setCommandMessage] = useState<VimCommandMessage | null>(null);
+  const [confirmPrompt, setConfirmPrompt] = useState<string | null>(null);
+  const commandLineRef = useRef('');
+  const commandHistory = useRef<string[]>([]);
+  const historyIndex = useRef(-1);
+  const lastSearchPattern = useRef('');
+  const pendingSubstitution = useRef<PendingSubstitution | null>(null);
+
+  // Simpan options ex-command di ref supaya handler selalu memakai nilai terbaru
+  const exCommandsRef = useRef(exCommands);
+  exCommandsRef.current = exCommands;
+  const historyRef = useRef({ onUndo, onRedo });
+  historyRef.current = { onUndo, onRedo };
+
+  const updateCommandLine = useCallback((value: string) => {
+    commandLineRef.current = value;
+    setCommandLine(value);
+  }, []);
+
   // Mode change handler dengan cursor styling
   const changeMode = useCallback(
     (newMode: VimMode) => {
       setMode(newMode);
       onModeChange?.(newMode);
 
+      // Command line baru selalu dimulai kosong
+      if (newMode === 'command') {
+        updateCommandLine('');
+        setCommandMessage(null);
+        historyIndex.current = -1;
+      }
+
       // Apply cursor style menggunakan utility
       if (textareaRef.current) {
         applyCursorStyle(textareaRef.current, newMode, cursorConfig);
       }
     },
-    [textareaRef, onModeChange, cursorConfig]
+    [textareaRef, onModeChange, cursorConfig, updateCommandLine]
   );
 
   /**
@@ -70,43 +190,245 @@ export const useVimMode = (
   }, [enabled, changeMode]);
 
   const enterVisualMode = useCallback(() => {
-    if (enabled) changeMode('visual');
-  }, [enabled, changeMode]);
+    if (!enabled) return;
+
+    const cursor = textareaRef.current?.selectionStart ?? 0;
+    visualState.current = { anchor: cursor, linewise: false };
+    cursorRef.current = cursor;
+    changeMode('visual');
+  }, [enabled, textareaRef, changeMode]);
 
   const enterCommandMode = useCallback(() => {
     if (enabled) changeMode('command');
   }, [enabled, changeMode]);
 
   /**
-   * Execute vim command menggunakan command registry
+   * Jalankan command dari registry dengan repeat count
+   */
+  const runRegistryCommand = useCallback(
+    (key: string, count: number) => {
+      const vimCommand = vimCommandRegistry.getCommand(key, mode);
+      const context = createVimContext();
+      if (!vimCommand || !context) return;
+
+      for (let i = 0; i < count; i++) {
+        vimCommand.execute(context);
+      }
+    },
+    [mode, createVimContext]
+  );
+
+  /**
+   * Snapshot buffer untuk executor. Cursor visual mode disimpan di ref karena
+   * selectionStart textarea adalah awal seleksi, bukan posisi cursor.
+   */
+  const readBufferState = useCallback((): VimBufferState | null => {
+    const textarea = textareaRef.current;
+    if (!textarea) return null;
+
+    if (mode === 'visual' && !visualState.current) {
+      visualState.current = { anchor: textarea.selectionStart, linewise: false };
+      cursorRef.current = Math.max(textarea.selectionStart, textarea.selectionEnd - 1);
+    }
+
+    const visual = mode === 'visual' ? visualState.current : null;
+    return {
+      value: textarea.value,
+      cursor: visual ? cursorRef.current : textarea.selectionStart,
+      mode,
+      visual,
+    };
+  }, [mode, textareaRef]);
+
+  /**
+   * Terapkan hasil executor: teks, mode, cursor/seleksi dan undo/redo
+   */
+  const applyExecutionResult = useCallback(
+    (result: VimExecutionResult) => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+
+      if (result.history) {
+        const { onUndo: undo, onRedo: redo } = historyRef.current;
+        (result.history === 'undo' ? undo : redo)?.();
+        return;
+      }
+
+      const nextMode = result.mode ?? mode;
+      if (nextMode !== 'visual') {
+        visualState.current = null;
+      } else if (result.visual !== undefined) {
+        visualState.current = result.visual;
+      }
+      cursorRef.current = result.cursor;
+
+      const valueChanged = result.value !== undefined && result.value !== textarea.value;
+      if (result.value !== undefined && valueChanged) {
+        onChange(result.value);
+      }
+      if (nextMode !== mode) {
+        changeMode(nextMode);
+      }
+
+      // Tunggu render ulang textarea sebelum memindahkan cursor jika teks berubah
+      const showCursor = () => setVimCursor(textarea, result.cursor, nextMode, visualState.current);
+      if (valueChanged) {
+        setTimeout(showCursor, 0);
+      } else {
+        showCursor();
+      }
+    },
+    [mode, textareaRef, onChange, changeMode]
+  );
+
+  /**
+   * Ulangi perubahan terakhir (.), termasuk teks yang diketik di insert mode
+   */
+  const repeatLastChange = useCallback(
+    (count?: number) => {
+      const change = lastChange.current;
+      const state = readBufferState();
+      if (!change || !state || state.mode !== 'normal') return;
+
+      const command = count ? withCount(change.command, count) : change.command;
+      const result = executeVimCommand(state, command, sessionRef.current);
+      if (!result) return;
+
+      if (result.mode !== 'insert') {
+        applyExecutionResult(result);
+        return;
+      }
+
+      const text = change.insertedText ?? '';
+      const base = result.value ?? state.value;
+      const value = base.slice(0, result.cursor) + text + base.slice(result.cursor);
+      applyExecutionResult({
+        value,
+        cursor: clampToLine(value, Math.max(0, result.cursor + text.length - 1)),
+        mode: 'normal',
+        visual: null,
+        isChange: true,
+      });
+    },
+    [readBufferState, applyExecutionResult]
+  );
+
+  /**
+   * Jalankan command hasil parsing key sequence
+   */
+  const runParsedCommand = useCallback(
+    (command: VimParsedCommand) => {
+      if (command.kind === 'registry') {
+        runRegistryCommand(command.key, command.count);
+        return;
+      }
+
+      if (command.kind === 'action' && command.action === '.') {
+        repeatLastChange(command.hasCount ? command.count : undefined);
+        return;
+      }
+
+      const state = readBufferState();
+      if (!state) return;
+
+      const result = executeVimCommand(state, command, sessionRef.current);
+      if (!result) return;
+
+      // Simpan perubahan normal mode untuk dot-repeat
+      if (result.isChange && state.mode === 'normal') {
+        lastChange.current = { command };
+        insertBaseValue.current = result.mode === 'insert' ? (result.value ?? state.value) : null;
+      }
+
+      applyExecutionResult(result);
+    },
+    [runRegistryCommand, repeatLastChange, readBufferState, applyExecutionResult]
+  );
+
+  const resetKeyBuffer = useCallback(() => {
+    keyBuffer.current = [];
+    setPendingKeys('');
+    if (commandTimeoutRef.current) {
+      clearTimeout(commandTimeoutRef.current);
+      commandTimeoutRef.current = undefined;
+    }
+  }, []);
+
+  /**
+   * Tambahkan key ke buffer operator-pending dan jalankan command jika lengkap
+   */
+  const processKey = useCallback(
+    (key: string) => {
+      // Escape membatalkan command yang belum selesai
+      if (key === 'Escape' && keyBuffer.current.length > 0) {
+        resetKeyBuffer();
+        return;
+      }
+
+      const keys = [...keyBuffer.current, key];
+      const result = parseVimKeys(keys, mode);
+
+      if (result.status === 'pending') {
+        if (commandTimeoutRef.current) clearTimeout(commandTimeoutRef.current);
+        keyBuffer.current = keys;
+        setPendingKeys(keys.join(''));
+        commandTimeoutRef.current = setTimeout(resetKeyBuffer, commandTimeout);
+        return;
+      }
+
+      resetKeyBuffer();
+      if (result.status === 'complete') {
+        runParsedCommand(result.command);
+      }
+    },
+    [mode, commandTimeout, resetKeyBuffer, runParsedCommand]
+  );
+
+  /**
+   * Execute vim command: registry lebih dulu, selain itu diproses sebagai
+   * key sequence (mis. 'dw', '3j', 'ci"')
    */
   const executeCommand = useCallback(
     (command: string) => {
       if (!enabled) return;
 
-      const context = createVimContext();
-      if (!context) return;
-
-      // Parse command dengan repeat count
       const { count, action } = parseVimCommand(command);
+      if (vimCommandRegistry.getCommand(action, mode)) {
+        runRegistryCommand(action, count);
+        return;
+      }
 
-      // Get command dari registry
-      const vimCommand = vimCommandRegistry.getCommand(action, mode);
-
-      if (vimCommand) {
-        // Execute command dengan repeat count
-        for (let i = 0; i < count; i++) {
-          vimCommand.execute(context);
-        }
-      } else if (isValidVimCommand(action)) {
+      resetKeyBuffer();
+      const result = parseVimKeys(splitVimKeys(command), mode);
+      if (result.status === 'complete') {
+        runParsedCommand(result.command);
+      } else {
         import('@/utils/console').then(({ safeConsole }) => {
-          safeConsole.warn(`Vim command '${action}' not implemented for mode '${mode}'`);
+          safeConsole.warn(`Vim command '${command}' not implemented for mode '${mode}'`);
         });
       }
     },
-    [enabled, mode, createVimContext]
+    [enabled, mode, runRegistryCommand, resetKeyBuffer, runParsedCommand]
   );
 
+  /**
+   * Keluar dari insert mode: simpan teks untuk dot-repeat dan mundurkan cursor
+   */
+  const exitInsertMode = useCallback(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    if (insertBaseValue.current !== null && lastChange.current) {
+      lastChange.current.insertedText = getInsertedText(insertBaseValue.current, textarea.value);
+    }
+    insertBaseValue.current = null;
+
+    const pos = textarea.selectionStart;
+    const cursor = Math.max(getLineStartOffset(textarea.value, pos), pos - 1);
+    executeCommand('Escape');
+    setVimCursor(textarea, cursor, 'normal', null);
+  }, [textareaRef, executeCommand]);
+
   /**
    * Get available commands untuk current mode
    */
@@ -114,6 +436,354 @@ export const useVimMode = (
     return vimCommandRegistry.getCommands(mode);
   }, [mode]);
 
+  const showError = useCallback((text: string) => {
+    setCommandMessage(text ? { text, type: 'error' } : null);
+  }, []);
+
+  const showInfo = useCallback((text: string) => {
+    setCommandMessage({ text, type: 'info' });
+  }, []);
+
+  const selectRange = useCallback(
+    (start: number, end: number, line: number) => {
+      setTimeout(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        textarea.setSelectionRange(start, end);
+        scrollToLine(textarea, line);
+      }, 0);
+    },
+    [textareaRef]
+  );
+
+  /**
+   * Akhiri substitusi interaktif dan laporkan hasilnya
+   */
+  const finishSubstitution = useCallback(() => {
+    const pending = pendingSubstitution.current;
+    pendingSubstitution.current = null;
+    setConfirmPrompt(null);
+    changeMode('normal');
+
+    if (pending) {
+      showInfo(formatSubstitutionResult(pending.count, pending.lines.size));
+    }
+  }, [changeMode, showInfo]);
+
+  /**
+   * Ganti match aktif pada substitusi interaktif
+   */
+  const replacePendingMatch = useCallback((pending: PendingSubstitution) => {
+    const match = pending.matches[pending.position];
+    const shifted = { ...match, index: match.index + pending.delta };
+    const result = applySubstitution(pending.value, shifted, pending.regex, pending.replacement);
+
+    if (result.value !== pending.value) {
+      pending.value = result.value;
+      pending.delta += result.delta;
+      pending.count++;
+      pending.lines.add(match.line);
+    }
+  }, []);
+
+  /**
+   * Tampilkan prompt untuk match berikutnya atau selesai jika habis
+   */
+  const promptNextMatch = useCallback(
+    (pending: PendingSubstitution) => {
+      const match = pending.matches[pending.position];
+      if (!match) {
+        finishSubstitution();
+        return;
+      }
+
+      const start = match.index + pending.delta;
+      selectRange(start, start + match.length, match.line);
+    },
+    [finishSubstitution, selectRange]
+  );
+
+  /**
+   * Handle jawaban y/n/a/q/l pada substitusi interaktif
+   */
+  const handleConfirmKey = useCallback(
+    (key: string) => {
+      const pending = pendingSubstitution.current;
+      if (!pending) return;
+
+      const valueBefore = pending.value;
+
+      switch (key) {
+        case 'y':
+          replacePendingMatch(pending);
+          pending.position++;
+          break;
+        case 'n':
+          pending.position++;
+          break;
+        case 'a':
+          while (pending.position < pending.matches.length) {
+            replacePendingMatch(pending);
+            pending.position++;
+          }
+          break;
+        case 'l':
+          replacePendingMatch(pending);
+          pending.position = pending.matches.length;
+          break;
+        case 'q':
+        case 'Escape':
+          pending.position = pending.matches.length;
+          break;
+        default:
+          return;
+      }
+
+      if (pending.value !== valueBefore) {
+        onChange(pending.value);
+      }
+      promptNextMatch(pending);
+    },
+    [onChange, replacePendingMatch, promptNextMatch]
+  );
+
+  /**
+   * Jalankan :s, langsung atau interaktif dengan flag c
+   */
+  const runSubstitution = useCallback(
+    (textarea: HTMLTextAreaElement, command: Extract<VimExCommand, { type: 'substitute' }>) => {
+      const pattern = command.pattern || lastSearchPattern.current;
+      if (!pattern) {
+        changeMode('normal');
+        showError('E35: No previous regular expression');
+        return;
+      }
+      lastSearchPattern.current = pattern;
+
+      const value = textarea.value;
+      const regex = createSubstitutionRegex(pattern, command.ignoreCase);
+      const matches = findSubstitutionMatches(
+        value,
+        regex,
+        command.range,
+        command.global,
+        getLineNumber(textarea)
+      );
+
+      if (matches.length === 0) {
+        changeMode('normal');
+        showError(`E486: Pattern not found: ${pattern}`);
+        return;
+      }
+
+      const pending: PendingSubstitution = {
+        value,
+        matches,
+        position: 0,
+        delta: 0,
+        regex,
+        replacement: convertVimReplacement(command.replacement),
+        count: 0,
+        lines: new Set(),
+      };
+
+      if (command.confirm) {
+        pendingSubstitution.current = pending;
+        setConfirmPrompt(`replace with ${command.replacement} (y/n/a/q/l)?`);
+        promptNextMatch(pending);
+        return;
+      }
+
+      // Terapkan dari belakang supaya index match sebelumnya tetap valid
+      let newValue = value;
+      for (let i = matches.length - 1; i >= 0; i--) {
+        newValue = applySubstitution(newValue, matches[i], regex, pending.replacement).value;
+      }
+
+      const lastLine = matches[matches.length - 1].line;
+      const lines = new Set(matches.map((match) => match.line));
+      onChange(newValue);
+      setTimeout(() => {
+        moveToLine(textarea, lastLine);
+        scrollToLine(textarea, lastLine);
+      }, 0);
+      changeMode('normal');
+      showInfo(formatSubstitutionResult(matches.length, lines.size));
+    },
+    [onChange, changeMode, showError, showInfo, promptNextMatch]
+  );
+
+  /**
+   * Execute ex-command dari command line (tanpa ':')
+   */
+  const executeExCommand = useCallback(
+    (input: string) => {
+      const textarea = textareaRef.current;
+      if (!enabled || !textarea) return;
+
+      const command = parseExCommand(input);
+      const ex = exCommandsRef.current;
+
+      if (command.type === 'substitute') {
+        runSubstitution(textarea, command);
+        return;
+      }
+
+      changeMode('normal');
+
+      switch (command.type) {
+        case 'write': {
+          if (!ex?.onWrite) {
+            showError('E32: No file name');
+            return;
+          }
+
+          const value = textarea.value;
+          const writeError = `E212: Can't open file for writing: ${ex.fileName || 'untitled'}`;
+          Promise.resolve(ex.onWrite())
+            .then((isWritten) => {
+              // :wq hanya keluar setelah buffer benar-benar tersimpan
+              if (!isWritten) {
+                showError(writeError);
+                return;
+              }
+              const lineCount = value.split('\n').length;
+              const bytes = new Blob([value]).size;
+              showInfo(`"${ex.fileName || 'untitled'}" ${lineCount}L, ${bytes}B written`);
+              if (command.quit) ex.onQuit?.();
+            })
+            .catch((error) => {
+              showError(writeError);
+              import('@/utils/console').then(({ safeConsole }) => {
+                safeConsole.error('Vim :w failed:', error);
+              });
+            });
+          break;
+        }
+
+        case 'quit':
+          if (ex?.isModified && !command.force) {
+            showError('E37: No write since last change (add ! to override)');
+            return;
+          }
+          ex?.onQuit?.();
+          break;
+
+        case 'edit':
+          if (!ex?.onEdit) {
+            showError('E492: Not an editor command: edit');
+            return;
+          }
+          if (ex.isModified && !command.force) {
+            showError('E37: No write since last change (add ! to override)');
+            return;
+          }
+          Promise.resolve(ex.onEdit(command.fileName))
+            .then(() => showInfo(`"${command.fileName}"`))
+            .catch(() => showError(`E484: Can't open file ${command.fileName}`));
+          break;
+
+        case 'goto': {
+          const totalLines = textarea.value.split('\n').length;
+          const line = resolveLineAddress(command.line, getLineNumber(textarea), totalLines);
+          moveToLine(textarea, line);
+          scrollToLine(textarea, line);
+          break;
+        }
+
+        case 'set': {
+          const settings = ex?.settings;
+          if (!settings || !ex?.onSettingsChange) {
+            showError(`E518: Unknown option: ${SET_OPTION_NAMES[command.option]}`);
+            return;
+          }
+
+          const current = settings[command.option];
+          if (command.value === 'query') {
+            showInfo(`  ${current ? '' : 'no'}${SET_OPTION_NAMES[command.option]}`);
+            return;
+          }
+
+          const next = command.value === 'toggle' ? !current : command.value;
+          ex.onSettingsChange({ [command.option]: next });
+          break;
+        }
+
+        case 'nohlsearch': {
+          // Hapus highlight dari match terakhir tanpa memindahkan cursor
+          const cursor = textarea.selectionEnd;
+          textarea.setSelectionRange(cursor, cursor);
+          setCommandMessage(null);
+          break;
+        }
+
+        case 'error':
+          showError(command.message);
+          break;
+      }
+    },
+    [enabled, textareaRef, changeMode, runSubstitution, showError, showInfo]
+  );
+
+  /**
+   * Handle input keyboard pada command line
+   */
+  const handleCommandLineKey = useCallback(
+    (key: string) => {
+      if (pendingSubstitution.current) {
+        handleConfirmKey(key);
+        return;
+      }
+
+      const history = commandHistory.current;
+
+      switch (key) {
+        case 'Escape':
+          updateCommandLine('');
+          executeCommand('Escape');
+          break;
+
+        case 'Enter': {
+          const input = commandLineRef.current;
+          if (input.trim()) {
+            commandHistory.current = [input, ...history.filter((item) => item !== input)].slice(
+              0,
+              MAX_COMMAND_HISTORY
+            );
+          }
+          updateCommandLine('');
+          executeExCommand(input);
+          break;
+        }
+
+        case 'Backspace':
+          if (!commandLineRef.current) {
+            executeCommand('Escape');
+          } else {
+            updateCommandLine(commandLineRef.current.slice(0, -1));
+          }
+          break;
+
+        case 'ArrowUp':
+        case 'ArrowDown': {
+          const nextIndex =
+            key === 'ArrowUp'
+              ? Math.min(historyIndex.current + 1, history.length - 1)
+              : Math.max(historyIndex.current - 1, -1);
+          historyIndex.current = nextIndex;
+          updateCommandLine(nextIndex === -1 ? '' : history[nextIndex]);
+          break;
+        }
+
+        default:
+          if (key.length === 1) {
+            updateCommandLine(commandLineRef.current + key);
+          }
+      }
+    },
+    [handleConfirmKey, updateCommandLine, executeCommand, executeExCommand]
+  );
+
   // Cleanup timeouts on unmount
   useEffect(() => {
     return () => {
@@ -124,7 +794,7 @@ export const useVimMode = (
   }, []);
 
   /**
-   * Enhanced key handler menggunakan command registry
+   * Key handler: normal/visual lewat key parser, command line lewat ex-command
    */
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -132,60 +802,35 @@ export const useVimMode = (
 
       switch (mode) {
         case 'normal':
+        case 'visual':
+          if (MODIFIER_KEYS.has(e.key)) return;
           e.preventDefault();
 
-          // Handle multi-key commands (seperti dd)
-          if (commandBuffer.current === 'd' && e.key === 'd') {
-            executeCommand('dd');
-            commandBuffer.current = '';
-
-            // Clear timeout
-            if (commandTimeoutRef.current) {
-              clearTimeout(commandTimeoutRef.current);
-              commandTimeoutRef.current = undefined;
-            }
-          } else if (e.key === 'd') {
-            commandBuffer.current = 'd';
-
-            // Set timeout untuk clear command buffer
-            commandTimeoutRef.current = setTimeout(() => {
-              commandBuffer.current = '';
-              commandTimeoutRef.current = undefined;
-            }, commandTimeout);
-          } else {
-            // Clear command buffer dan execute single command
-            commandBuffer.current = '';
-            if (commandTimeoutRef.current) {
-              clearTimeout(commandTimeoutRef.current);
-              commandTimeoutRef.current = undefined;
-            }
-            executeCommand(e.key);
+          if (e.ctrlKey || e.metaKey || e.altKey) {
+            if (e.ctrlKey && e.key === 'r') processKey('<C-r>');
+            return;
           }
+          processKey(e.key);
           break;
 
         case 'insert':
           if (e.key === 'Escape') {
             e.preventDefault();
-            executeCommand('Escape');
+            exitInsertMode();
           }
           // Allow normal typing in insert mode
           break;
 
-        case 'visual':
-          e.preventDefault();
-          executeCommand(e.key);
-          break;
-
         case 'command':
-          if (e.key === 'Escape') {
-            e.preventDefault();
-            executeCommand('Escape');
-          }
-          // Handle command mode input
+          // Biarkan shortcut dengan modifier (Ctrl+S, dll) tetap berjalan
+          if (e.ctrlKey || e.metaKey || e.altKey) break;
+
+          e.preventDefault();
+          handleCommandLineKey(e.key);
           break;
       }
     },
-    [enabled, mode, executeCommand, commandTimeout]
+    [enabled, mode, processKey, exitInsertMode, handleCommandLineKey]
   );
 
   // Initialize vim mode
@@ -207,5 +852,10 @@ export const useVimMode = (
     enterCommandMode,
     executeCommand,
     getAvailableCommands,
+    commandLine,
+    commandMessage,
+    confirmPrompt,
+    executeExCommand,
+    pendingKeys,
   };
 };
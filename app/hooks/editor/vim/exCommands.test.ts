@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applySubstitution,
+  convertVimReplacement,
+  createSubstitutionRegex,
+  findSubstitutionMatches,
+  parseExCommand,
+} from './exCommands';
+
+/**
+ * Jalankan :s seperti useVimMode: cari semua match lalu terapkan dari belakang
+ */
+const substitute = (value: string, input: string, currentLine = 1): string => {
+  const command = parseExCommand(input);
+  if (command.type !== 'substitute') throw new Error(`Not a substitute command: ${input}`);
+
+  const regex = createSubstitutionRegex(command.pattern, command.ignoreCase);
+  const replacement = convertVimReplacement(command.replacement);
+  const matches = findSubstitutionMatches(value, regex, command.range, command.global, currentLine);
+
+  let result = value;
+  for (let i = matches.length - 1; i >= 0; i--) {
+    result = applySubstitution(result, matches[i], regex, replacement).value;
+  }
+  return result;
+};
+
+describe('applySubstitution', () => {
+  it('replaces line starts across the document', () => {
+    expect(substitute('abc\ndef', '%s/^/> /')).toBe('> abc\n> def');
+  });
+
+  it('keeps a leading blank line intact', () => {
+    expect(substitute('\nabc\ndef', '%s/^/> /')).toBe('> \n> abc\n> def');
+  });
+
+  it('replaces a match at the very start of the document', () => {
+    expect(substitute('\nabc', 's/^/x/')).toBe('x\nabc');
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Ex-command parser dan helper substitusi
+ * Mengubah input command line (tanpa ':') menjadi VimExCommand
+ */
+
+import type {
+  VimExCommand,
+  VimExSettings,
+  VimLineAddress,
+  VimLineRange,
+  VimSubstitutionMatch,
+} from '@/types/vim';
+import { createSafeRegex } from '@/utils/common';
+
+/**
+ * Nama option :set yang didukung beserta alias pendeknya
+ */
+const SET_OPTION_ALIASES: Record<string, keyof VimExSettings> = {
+  nu: 'lineNumbers',
+  number: 'lineNumbers',
+  wrap: 'wordWrap',
+};
+
+/**
+ * Nama option vim untuk ditampilkan pada :set option?
+ */
+export const SET_OPTION_NAMES: Record<keyof VimExSettings, string> = {
+  lineNumbers: 'number',
+  wordWrap: 'wrap',
+};
+
+const LINE_ADDRESS_PATTERN = '\\d+|[.$]';
+const SUBSTITUTE_REGEX = new RegExp(
+  `^(%|(?:${LINE_ADDRESS_PATTERN})(?:,(?:${LINE_ADDRESS_PATTERN}))?)?\\s*s(?:ubstitute)?([^\\w\\s\\\\"|])(.*)$`
+);
+
+const parseLineAddress = (address: string): VimLineAddress => {
+  if (address === '.') return 'current';
+  if (address === '$') return 'last';
+  return Number.parseInt(address, 10);
+};
+
+const parseLineRange = (range: string | undefined): VimLineRange => {
+  if (!range) return { start: 'current', end: 'current' };
+  if (range === '%') return { start: 1, end: 'last' };
+
+  const [start, end = start] = range.split(',');
+  return { start: parseLineAddress(start), end: parseLineAddress(end) };
+};
+
+/**
+ * Split "pattern/replacement/flags" pada delimiter yang tidak di-escape.
+ * Delimiter yang di-escape dikembalikan sebagai karakter biasa.
+ */
+const splitSubstituteParts = (body: string, delimiter: string): string[] => {
+  const parts: string[] = [''];
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+
+    if (char === '\\' && i + 1 < body.length) {
+      const next = body[i + 1];
+      parts[parts.length - 1] += next === delimiter ? next : `${char}${next}`;
+      i++;
+    } else if (char === delimiter && parts.length < 3) {
+      parts.push('');
+    } else {
+      parts[parts.length - 1] += char;
+    }
+  }
+
+  return parts;
+};
+
+const parseSubstitute = (
+  range: string | undefined,
+  delimiter: string,
+  body: string
+): VimExCommand => {
+  const [pattern, replacement = '', flags = ''] = splitSubstituteParts(body, delimiter);
+  const invalidFlag = flags.trim().replace(/[gciI]/g, '');
+
+  if (invalidFlag) {
+    return { type: 'error', message: `E488: Trailing characters: ${invalidFlag}` };
+  }
+
+  return {
+    type: 'substitute',
+    range: parseLineRange(range),
+    pattern,
+    replacement,
+    global: flags.includes('g'),
+    confirm: flags.includes('c'),
+    ignoreCase: flags.includes('i') && !flags.includes('I'),
+  };
+};
+
+const parseSetOption = (argument: string): VimExCommand => {
+  const match = argument.match(/^(no|inv)?([a-z]+)([!?])?$/);
+  const option = match ? SET_OPTION_ALIASES[match[2]] : undefined;
+
+  if (!match || !option) {
+    return { type: 'error', message: `E518: Unknown option: ${argument}` };
+  }
+
+  const [, prefix, , suffix] = match;
+  const value =
+    suffix === '?' ? 'query' : prefix === 'inv' || suffix === '!' ? 'toggle' : prefix !== 'no';
+
+  return { type: 'set', option, value };
+};
+
+/**
+ * Parse input command line menjadi ex-command
+ */
+export const parseExCommand = (input: string): VimExCommand => {
+  const command = input.trim();
+
+  if (!command) {
+    return { type: 'error', message: '' };
+  }
+
+  if (new RegExp(`^(?:${LINE_ADDRESS_PATTERN})$`).test(command)) {
+    return { type: 'goto', line: parseLineAddress(command) };
+  }
+
+  const substitute = command.match(SUBSTITUTE_REGEX);
+  if (substitute) {
+    const [, range, delimiter, body] = substitute;
+    return parseSubstitute(range, delimiter, body);
+  }
+
+  const match = command.match(/^([a-zA-Z]+)(!?)\s*(.*)$/);
+  if (!match) {
+    return { type: 'error', message: `E492: Not an editor command: ${command}` };
+  }
+
+  const [, name, bang, argument] = match;
+  const force = bang === '!';
+
+  switch (name) {
+    case 'w':
+    case 'write':
+      return { type: 'write', quit: false };
+    case 'wq':
+    case 'x':
+    case 'xit':
+      return { type: 'write', quit: true };
+    case 'q':
+    case 'quit':
+      return { type: 'quit', force };
+    case 'e':
+    case 'edit':
+      if (!argument) {
+        return { type: 'error', message: 'E32: No file name' };
+      }
+      return { type: 'edit', fileName: argument, force };
+    case 'se':
+    case 'set':
+      if (!argument) {
+        return { type: 'error', message: 'E471: Argument required' };
+      }
+      return parseSetOption(argument);
+    case 'noh':
+    case 'nohl':
+    case 'nohlsearch':
+      return { type: 'nohlsearch' };
+    default:
+      return { type: 'error', message: `E492: Not an editor command: ${command}` };
+  }
+};
+
+/**
+ * Resolve alamat baris menjadi nomor baris 1-based yang valid
+ */
+export const resolveLineAddress = (
+  address: VimLineAddress,
+  currentLine: number,
+  totalLines: number
+): number => {
+  const line = address === 'current' ? currentLine : address === 'last' ? totalLines : address;
+  return Math.min(Math.max(1, line), totalLines);
+};
+
+/**
+ * Konversi replacement vim ke format String.replace:
+ * \1..\9 -> $1..$9, & -> $&, \& -> &, \n / \r -> newline, \t -> tab
+ */
+export const convertVimReplacement = (replacement: string): string => {
+  let result = '';
+
+  for (let i = 0; i < replacement.length; i++) {
+    const char = replacement[i];
+
+    if (char === '\\' && i + 1 < replacement.length) {
+      const next = replacement[++i];
+      if (/\d/.test(next)) result += `$${next}`;
+      else if (next === 'n' || next === 'r') result += '\n';
+      else if (next === 't') result += '\t';
+      else if (next === '$') result += '$$';
+      else result += next;
+    } else if (char === '&') {
+      result += '$&';
+    } else if (char === '$') {
+      result += '$$';
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Buat regex untuk :s dengan createSafeRegex
+ */
+export const createSubstitutionRegex = (pattern: string, ignoreCase: boolean): RegExp =>
+  createSafeRegex(pattern, ignoreCase ? 'gi' : 'g', { shouldEscape: false });
+
+/**
+ * Cari semua match substitusi dalam range. Tanpa flag g hanya match pertama per baris.
+ */
+export const findSubstitutionMatches = (
+  value: string,
+  regex: RegExp,
+  range: VimLineRange,
+  global: boolean,
+  currentLine: number
+): VimSubstitutionMatch[] => {
+  const lines = value.split('\n');
+  let start = resolveLineAddress(range.start, currentLine, lines.length);
+  let end = resolveLineAddress(range.end, currentLine, lines.length);
+  if (start > end) [start, end] = [end, start];
+
+  const matches: VimSubstitutionMatch[] = [];
+  let lineOffset = 0;
+
+  for (let i = 0; i < end; i++) {
+    const line = lines[i];
+
+    if (i + 1 >= start) {
+      regex.lastIndex = 0;
+      let match = regex.exec(line);
+
+      while (match !== null) {
+        matches.push({ index: lineOffset + match.index, length: match[0].length, line: i + 1 });
+        if (!global) break;
+        // Hindari infinite loop pada match kosong (mis. ^ atau $)
+        if (match[0] === '') regex.lastIndex++;
+        match = regex.exec(line);
+      }
+    }
+
+    lineOffset += line.length + 1;
+  }
+
+  return matches;
+};
+
+/**
+ * Terapkan satu substitusi. Regex dijalankan per baris (sticky) supaya ^ dan $
+ * tetap bermakna awal/akhir baris seperti di vim.
+ */
+export const applySubstitution = (
+  value: string,
+  match: VimSubstitutionMatch,
+  regex: RegExp,
+  replacement: string
+): { value: string; delta: number } => {
+  // lastIndexOf dengan posisi -1 tetap mencari dari index 0, jadi match di awal dokumen ditangani terpisah
+  const lineStart = match.index === 0 ? 0 : value.lastIndexOf('\n', match.index - 1) + 1;
+  const nextBreak = value.indexOf('\n', match.index + match.length);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const line = value.slice(lineStart, lineEnd);
+
+  const sticky = new RegExp(regex.source, `${regex.flags.replace('g', '')}y`);
+  sticky.lastIndex = match.index - lineStart;
+  if (!sticky.test(line)) {
+    return { value, delta: 0 };
+  }
+
+  sticky.lastIndex = match.index - lineStart;
+  const replacedLine = line.replace(sticky, replacement);
+  const newValue = value.slice(0, lineStart) + replacedLine + value.slice(lineEnd);
+
+  return { value: newValue, delta: newValue.length - value.length };
+};
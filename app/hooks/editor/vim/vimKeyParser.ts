@@ -0,0 +1,294 @@
+/**
+ * Vim key sequence parser
+ * Grammar: ["x] [count] (operator [count] (motion | text object | operator) | motion | action)
+ */
+
+import type {
+  VimMode,
+  VimOperator,
+  VimOperatorTarget,
+  VimParsedCommand,
+  VimParseResult,
+} from '@/types/vim';
+import { CHAR_MOTIONS, MOTION_ALIASES, VIM_MOTIONS } from './vimMotions';
+import { VIM_REGISTER_PATTERN } from './vimRegisters';
+import { isTextObject } from './vimTextObjects';
+import { vimCommandRegistry } from './vimCommands';
+
+const PENDING: VimParseResult = { status: 'pending' };
+const INVALID: VimParseResult = { status: 'invalid' };
+
+const MAX_COUNT = 9999;
+
+const OPERATOR_KEYS: Record<string, VimOperator> = {
+  d: 'd',
+  c: 'c',
+  y: 'y',
+  '>': '>',
+  '<': '<',
+};
+
+const G_OPERATOR_KEYS: Record<string, VimOperator> = {
+  '~': 'g~',
+  u: 'gu',
+  U: 'gU',
+};
+
+/**
+ * Shorthand normal mode yang setara dengan operator + target
+ */
+const NORMAL_SHORTHANDS: Record<string, { operator: VimOperator; target: VimOperatorTarget }> = {
+  x: { operator: 'd', target: { type: 'motion', motion: 'l' } },
+  X: { operator: 'd', target: { type: 'motion', motion: 'h' } },
+  D: { operator: 'd', target: { type: 'motion', motion: '$' } },
+  C: { operator: 'c', target: { type: 'motion', motion: '$' } },
+  s: { operator: 'c', target: { type: 'motion', motion: 'l' } },
+  S: { operator: 'c', target: { type: 'line' } },
+  Y: { operator: 'y', target: { type: 'line' } },
+};
+
+/**
+ * Shorthand visual mode yang bekerja pada seleksi
+ */
+const VISUAL_SHORTHANDS: Record<string, VimOperator> = {
+  x: 'd',
+  s: 'c',
+  '~': 'g~',
+  u: 'gu',
+  U: 'gU',
+};
+
+const NORMAL_ACTIONS = new Set([
+  'p',
+  'P',
+  'J',
+  '~',
+  'i',
+  'a',
+  'I',
+  'A',
+  'o',
+  'O',
+  'v',
+  'V',
+  'u',
+  '<C-r>',
+  '.',
+]);
+
+const VISUAL_ACTIONS = new Set(['p', 'P', 'J', 'o', 'v', 'V', 'Escape']);
+
+const ACTIONS_WITH_CHAR = new Set(['r']);
+
+type MotionParse =
+  | { status: 'pending' }
+  | { status: 'invalid' }
+  | { status: 'complete'; motion: string; char?: string };
+
+/**
+ * Baca count; angka pertama tidak boleh 0 karena 0 adalah motion
+ */
+const readCount = (keys: string[], start: number): { count?: number; next: number } => {
+  let digits = '';
+  let i = start;
+
+  while (i < keys.length && /^\d$/.test(keys[i]) && !(digits === '' && keys[i] === '0')) {
+    digits += keys[i];
+    i++;
+  }
+
+  return {
+    count: digits ? Math.min(Number.parseInt(digits, 10), MAX_COUNT) : undefined,
+    next: i,
+  };
+};
+
+const parseMotion = (keys: string[], index: number): MotionParse => {
+  const key = keys[index];
+
+  if (key === 'g') {
+    if (index + 1 >= keys.length) return { status: 'pending' };
+    return keys[index + 1] === 'g' ? { status: 'complete', motion: 'gg' } : { status: 'invalid' };
+  }
+
+  if (CHAR_MOTIONS.has(key)) {
+    if (index + 1 >= keys.length) return { status: 'pending' };
+    const char = keys[index + 1];
+    return char.length === 1 ? { status: 'complete', motion: key, char } : { status: 'invalid' };
+  }
+
+  if (VIM_MOTIONS[key] || MOTION_ALIASES[key]) {
+    return { status: 'complete', motion: key };
+  }
+
+  return { status: 'invalid' };
+};
+
+const parseOperatorTarget = (
+  keys: string[],
+  start: number,
+  base: { operator: VimOperator; count: number; hasCount: boolean; register?: string }
+): VimParseResult => {
+  const { count: targetCount, next } = readCount(keys, start);
+  if (next >= keys.length) return PENDING;
+
+  const command = {
+    kind: 'operator' as const,
+    operator: base.operator,
+    register: base.register,
+    count: base.count * (targetCount ?? 1),
+    hasCount: base.hasCount || targetCount !== undefined,
+  };
+  const key = keys[next];
+  const operatorKey = base.operator.length === 2 ? base.operator[1] : base.operator;
+
+  // Operator ganda bekerja per baris: dd, yy, >>, gUU, gUgU
+  if (key === operatorKey) {
+    return { status: 'complete', command: { ...command, target: { type: 'line' } } };
+  }
+  if (base.operator.length === 2 && key === 'g') {
+    if (next + 1 >= keys.length) return PENDING;
+    if (keys[next + 1] === operatorKey) {
+      return { status: 'complete', command: { ...command, target: { type: 'line' } } };
+    }
+  }
+
+  if (key === 'i' || key === 'a') {
+    if (next + 1 >= keys.length) return PENDING;
+    const object = `${key}${keys[next + 1]}`;
+    return isTextObject(object)
+      ? { status: 'complete', command: { ...command, target: { type: 'textObject', object } } }
+      : INVALID;
+  }
+
+  const motion = parseMotion(keys, next);
+  if (motion.status !== 'complete') return motion;
+
+  return {
+    status: 'complete',
+    command: { ...command, target: { type: 'motion', motion: motion.motion, char: motion.char } },
+  };
+};
+
+/**
+ * Parse key sequence normal/visual mode menjadi command
+ */
+export const parseVimKeys = (keys: string[], mode: VimMode): VimParseResult => {
+  const isVisual = mode === 'visual';
+  let index = 0;
+  let register: string | undefined;
+
+  if (keys[0] === '"') {
+    if (keys.length < 2) return PENDING;
+    if (!VIM_REGISTER_PATTERN.test(keys[1])) return INVALID;
+    register = keys[1];
+    index = 2;
+  }
+
+  const { count: parsedCount, next } = readCount(keys, index);
+  if (next >= keys.length) return PENDING;
+
+  const count = parsedCount ?? 1;
+  const hasCount = parsedCount !== undefined;
+  const key = keys[next];
+
+  // Operator (d, c, y, >, <, g~, gu, gU)
+  let operator: VimOperator | undefined = OPERATOR_KEYS[key];
+  let operatorLength = 1;
+  if (key === 'g') {
+    if (next + 1 >= keys.length) return PENDING;
+    operator = G_OPERATOR_KEYS[keys[next + 1]];
+    operatorLength = 2;
+  }
+
+  if (operator) {
+    if (isVisual) {
+      return {
+        status: 'complete',
+        command: {
+          kind: 'operator',
+          operator,
+          register,
+          count,
+          hasCount,
+          target: { type: 'selection' },
+        },
+      };
+    }
+    return parseOperatorTarget(keys, next + operatorLength, {
+      operator,
+      count,
+      hasCount,
+      register,
+    });
+  }
+
+  // Shorthand (x, D, C, Y, ... atau x, s, ~ di visual)
+  if (isVisual && VISUAL_SHORTHANDS[key]) {
+    return {
+      status: 'complete',
+      command: {
+        kind: 'operator',
+        operator: VISUAL_SHORTHANDS[key],
+        register,
+        count,
+        hasCount,
+        target: { type: 'selection' },
+      },
+    };
+  }
+  if (!isVisual && NORMAL_SHORTHANDS[key]) {
+    return {
+      status: 'complete',
+      command: { kind: 'operator', register, count, hasCount, ...NORMAL_SHORTHANDS[key] },
+    };
+  }
+
+  // Text object di visual mode memperluas seleksi
+  if (isVisual && (key === 'i' || key === 'a')) {
+    if (next + 1 >= keys.length) return PENDING;
+    const object = `${key}${keys[next + 1]}`;
+    return isTextObject(object)
+      ? {
+          status: 'complete',
+          command: { kind: 'action', action: 'select', char: object, count, hasCount },
+        }
+      : INVALID;
+  }
+
+  const motion = parseMotion(keys, next);
+  if (motion.status === 'pending') return PENDING;
+  if (motion.status === 'complete') {
+    return {
+      status: 'complete',
+      command: { kind: 'motion', motion: motion.motion, char: motion.char, count, hasCount },
+    };
+  }
+
+  if (ACTIONS_WITH_CHAR.has(key)) {
+    if (next + 1 >= keys.length) return PENDING;
+    const char = keys[next + 1];
+    if (char.length !== 1 && char !== 'Enter') return INVALID;
+    return { status: 'complete', command: { kind: 'action', action: key, char, count, hasCount } };
+  }
+
+  if ((isVisual ? VISUAL_ACTIONS : NORMAL_ACTIONS).has(key)) {
+    return {
+      status: 'complete',
+      command: { kind: 'action', action: key, register, count, hasCount },
+    };
+  }
+
+  // Fallback ke command registry (command custom dan mode switch seperti :)
+  if (keys.length === next + 1 && vimCommandRegistry.getCommand(key, mode)) {
+    return { status: 'complete', command: { kind: 'registry', key, count } };
+  }
+
+  return INVALID;
+};
+
+/**
+ * Ganti count command (untuk . dengan count baru)
+ */
+export const withCount = (command: VimParsedCommand, count: number): VimParsedCommand =>
+  command.kind === 'registry' ? { ...command, count } : { ...command, count, hasCount: true };
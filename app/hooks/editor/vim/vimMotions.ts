@@ -0,0 +1,366 @@
+/**
+ * Vim motions
+ * Setiap motion menghitung posisi tujuan dari cursor tanpa menyentuh textarea,
+ * sehingga bisa dipakai untuk gerakan cursor maupun range operator
+ */
+
+import type { VimCharSearch, VimMotionResult } from '@/types/vim';
+import {
+  getCharClass,
+  getFirstNonBlankOffset,
+  getLineEndOffset,
+  getLineIndexAt,
+  getLineOffsetByIndex,
+  getLineStartOffset,
+} from '@/utils/vimUtils';
+
+/**
+ * Input untuk perhitungan motion
+ */
+export interface VimMotionContext {
+  value: string;
+  cursor: number;
+  count: number;
+  hasCount: boolean;
+  /** Karakter target untuk f/F/t/T */
+  char?: string;
+  /** Motion dipakai oleh operator (d, c, y, ...) */
+  operatorPending: boolean;
+  /** Pencarian f/F/t/T terakhir untuk ; dan , */
+  lastCharSearch: VimCharSearch | null;
+  /** Kolom yang diingat untuk j/k */
+  preferredColumn: number | null;
+}
+
+type VimMotion = (context: VimMotionContext) => VimMotionResult | null;
+
+const BRACKET_PAIRS: Record<string, string> = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+  ')': '(',
+  ']': '[',
+  '}': '{',
+};
+
+/**
+ * Motion yang membutuhkan satu karakter tambahan
+ */
+export const CHAR_MOTIONS = new Set(['f', 'F', 't', 'T']);
+
+const isEmptyLineAt = (value: string, pos: number): boolean =>
+  value[pos] === '\n' && (pos === 0 || value[pos - 1] === '\n');
+
+const countLines = (value: string): number => value.split('\n').length;
+
+const repeatMotion = (count: number, start: number, step: (pos: number) => number): number => {
+  let pos = start;
+  for (let i = 0; i < count; i++) {
+    const next = step(pos);
+    if (next === pos) break;
+    pos = next;
+  }
+  return pos;
+};
+
+/**
+ * Awal word berikutnya (w, W). Baris kosong dihitung sebagai word.
+ */
+export const findNextWordStart = (value: string, pos: number, bigWord = false): number => {
+  const length = value.length;
+  if (pos >= length) return length;
+
+  let i = pos;
+  const charClass = getCharClass(value[i], bigWord);
+  if (charClass !== 0) {
+    while (i < length && getCharClass(value[i], bigWord) === charClass) i++;
+  }
+
+  while (i < length && getCharClass(value[i], bigWord) === 0) {
+    if (i > pos && isEmptyLineAt(value, i)) return i;
+    i++;
+  }
+
+  return i;
+};
+
+/**
+ * Akhir word berikutnya (e, E)
+ */
+export const findNextWordEnd = (value: string, pos: number, bigWord = false): number => {
+  const length = value.length;
+  let i = pos + 1;
+
+  while (i < length && getCharClass(value[i], bigWord) === 0) i++;
+  if (i >= length) return Math.max(0, length - 1);
+
+  const charClass = getCharClass(value[i], bigWord);
+  while (i + 1 < length && getCharClass(value[i + 1], bigWord) === charClass) i++;
+
+  return i;
+};
+
+/**
+ * Awal word sebelumnya (b, B)
+ */
+export const findPrevWordStart = (value: string, pos: number, bigWord = false): number => {
+  let i = pos - 1;
+
+  while (i > 0 && getCharClass(value[i], bigWord) === 0) {
+    if (isEmptyLineAt(value, i)) return i;
+    i--;
+  }
+  if (i <= 0) return 0;
+
+  const charClass = getCharClass(value[i], bigWord);
+  while (i > 0 && getCharClass(value[i - 1], bigWord) === charClass) i--;
+
+  return i;
+};
+
+/**
+ * Posisi bracket pasangan dari bracket di posisi pos, -1 jika tidak ada
+ */
+export const findMatchingBracket = (value: string, pos: number): number => {
+  const bracket = value[pos];
+  const match = BRACKET_PAIRS[bracket];
+  if (!match) return -1;
+
+  const step = '([{'.includes(bracket) ? 1 : -1;
+  let depth = 0;
+
+  for (let i = pos; i >= 0 && i < value.length; i += step) {
+    if (value[i] === bracket) {
+      depth++;
+    } else if (value[i] === match) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Posisi terakhir yang valid untuk cursor normal mode pada baris
+ */
+export const clampToLine = (value: string, pos: number): number => {
+  const lineStart = getLineStartOffset(value, pos);
+  const lineEnd = getLineEndOffset(value, pos);
+  return Math.max(lineStart, Math.min(pos, lineEnd - 1));
+};
+
+const moveVertical = (context: VimMotionContext, delta: number): VimMotionResult | null => {
+  const { value, cursor, preferredColumn } = context;
+  const line = getLineIndexAt(value, cursor);
+  const target = Math.min(Math.max(0, line + delta), countLines(value) - 1);
+  if (target === line) return null;
+
+  const column = preferredColumn ?? cursor - getLineStartOffset(value, cursor);
+  const targetStart = getLineOffsetByIndex(value, target);
+  const targetEnd = getLineEndOffset(value, targetStart);
+
+  return {
+    position: targetStart + Math.min(column, Math.max(0, targetEnd - targetStart - 1)),
+    linewise: true,
+  };
+};
+
+const moveToLineFirstNonBlank = (value: string, lineIndex: number): VimMotionResult => {
+  const line = Math.min(Math.max(0, lineIndex), countLines(value) - 1);
+  return {
+    position: getFirstNonBlankOffset(value, getLineOffsetByIndex(value, line)),
+    linewise: true,
+  };
+};
+
+const findCharInLine = (
+  context: VimMotionContext,
+  search: VimCharSearch,
+  isRepeat: boolean
+): VimMotionResult | null => {
+  const { value, cursor, count } = context;
+  const { motion, char } = search;
+  const lineStart = getLineStartOffset(value, cursor);
+  const lineEnd = getLineEndOffset(value, cursor);
+  const forward = motion === 'f' || motion === 't';
+  // ; setelah t/T tidak boleh berhenti di karakter yang sama
+  const skip = isRepeat && (motion === 't' || motion === 'T') ? 1 : 0;
+
+  let found = cursor;
+  let from = forward ? cursor + 1 + skip : cursor - 1 - skip;
+
+  for (let i = 0; i < count; i++) {
+    if (forward) {
+      const index = value.indexOf(char, from);
+      if (index === -1 || index >= lineEnd) return null;
+      found = index;
+      from = index + 1;
+    } else {
+      if (from < lineStart) return null;
+      const index = value.lastIndexOf(char, from);
+      if (index < lineStart) return null;
+      found = index;
+      from = index - 1;
+    }
+  }
+
+  switch (motion) {
+    case 'f':
+      return { position: found, inclusive: true };
+    case 't':
+      return { position: found - 1, inclusive: true };
+    case 'F':
+      return { position: found };
+    case 'T':
+      return { position: found + 1 };
+  }
+};
+
+const REVERSED_CHAR_SEARCH: Record<VimCharSearch['motion'], VimCharSearch['motion']> = {
+  f: 'F',
+  F: 'f',
+  t: 'T',
+  T: 't',
+};
+
+const moveByParagraph = (context: VimMotionContext, forward: boolean): VimMotionResult => {
+  const { value, cursor, count } = context;
+  const lines = value.split('\n');
+  const isBlank = (index: number) => lines[index].length === 0;
+  let line = getLineIndexAt(value, cursor);
+
+  for (let i = 0; i < count; i++) {
+    if (forward) {
+      while (line < lines.length - 1 && isBlank(line)) line++;
+      while (line < lines.length - 1 && !isBlank(line)) line++;
+    } else {
+      while (line > 0 && isBlank(line)) line--;
+      while (line > 0 && !isBlank(line)) line--;
+    }
+  }
+
+  if (forward && line === lines.length - 1 && !isBlank(line)) {
+    return { position: value.length };
+  }
+  return { position: getLineOffsetByIndex(value, line) };
+};
+
+/**
+ * Tabel motion berdasarkan key
+ */
+export const VIM_MOTIONS: Record<string, VimMotion> = {
+  h: ({ value, cursor, count }) => {
+    const position = Math.max(getLineStartOffset(value, cursor), cursor - count);
+    return position === cursor ? null : { position };
+  },
+  l: ({ value, cursor, count, operatorPending }) => {
+    const lineStart = getLineStartOffset(value, cursor);
+    const lineEnd = getLineEndOffset(value, cursor);
+    const limit = operatorPending ? lineEnd : Math.max(lineStart, lineEnd - 1);
+    const position = Math.min(limit, cursor + count);
+    return position === cursor ? null : { position };
+  },
+  j: (context) => moveVertical(context, context.count),
+  k: (context) => moveVertical(context, -context.count),
+  '+': ({ value, cursor, count }) =>
+    moveToLineFirstNonBlank(value, getLineIndexAt(value, cursor) + count),
+  '-': ({ value, cursor, count }) =>
+    moveToLineFirstNonBlank(value, getLineIndexAt(value, cursor) - count),
+  w: ({ value, cursor, count }) => ({
+    position: repeatMotion(count, cursor, (pos) => findNextWordStart(value, pos)),
+  }),
+  W: ({ value, cursor, count }) => ({
+    position: repeatMotion(count, cursor, (pos) => findNextWordStart(value, pos, true)),
+  }),
+  b: ({ value, cursor, count }) => ({
+    position: repeatMotion(count, cursor, (pos) => findPrevWordStart(value, pos)),
+  }),
+  B: ({ value, cursor, count }) => ({
+    position: repeatMotion(count, cursor, (pos) => findPrevWordStart(value, pos, true)),
+  }),
+  e: ({ value, cursor, count }) => ({
+    position: repeatMotion(count, cursor, (pos) => findNextWordEnd(value, pos)),
+    inclusive: true,
+  }),
+  E: ({ value, cursor, count }) => ({
+    position: repeatMotion(count, cursor, (pos) => findNextWordEnd(value, pos, true)),
+    inclusive: true,
+  }),
+  '0': ({ value, cursor }) => ({ position: getLineStartOffset(value, cursor) }),
+  '^': ({ value, cursor }) => ({
+    position: getFirstNonBlankOffset(value, getLineStartOffset(value, cursor)),
+  }),
+  $: ({ value, cursor, count }) => {
+    const line = getLineIndexAt(value, cursor) + count - 1;
+    const lineStart = getLineOffsetByIndex(value, Math.min(line, countLines(value) - 1));
+    const lineEnd = getLineEndOffset(value, lineStart);
+    return lineEnd > lineStart
+      ? { position: lineEnd - 1, inclusive: true }
+      : { position: lineStart };
+  },
+  gg: ({ value, count, hasCount }) => moveToLineFirstNonBlank(value, hasCount ? count - 1 : 0),
+  G: ({ value, count, hasCount }) =>
+    moveToLineFirstNonBlank(value, hasCount ? count - 1 : countLines(value) - 1),
+  f: (context) =>
+    context.char ? findCharInLine(context, { motion: 'f', char: context.char }, false) : null,
+  F: (context) =>
+    context.char ? findCharInLine(context, { motion: 'F', char: context.char }, false) : null,
+  t: (context) =>
+    context.char ? findCharInLine(context, { motion: 't', char: context.char }, false) : null,
+  T: (context) =>
+    context.char ? findCharInLine(context, { motion: 'T', char: context.char }, false) : null,
+  ';': (context) =>
+    context.lastCharSearch ? findCharInLine(context, context.lastCharSearch, true) : null,
+  ',': (context) => {
+    const search = context.lastCharSearch;
+    if (!search) return null;
+    return findCharInLine(
+      context,
+      { ...search, motion: REVERSED_CHAR_SEARCH[search.motion] },
+      true
+    );
+  },
+  '%': ({ value, cursor, count, hasCount }) => {
+    // {count}% lompat ke persentase file
+    if (hasCount) {
+      return moveToLineFirstNonBlank(value, Math.ceil((count * countLines(value)) / 100) - 1);
+    }
+
+    const lineEnd = getLineEndOffset(value, cursor);
+    let start = cursor;
+    while (start < lineEnd && !BRACKET_PAIRS[value[start]]) start++;
+    if (start >= lineEnd) return null;
+
+    const match = findMatchingBracket(value, start);
+    return match === -1 ? null : { position: match, inclusive: true };
+  },
+  '}': (context) => moveByParagraph(context, true),
+  '{': (context) => moveByParagraph(context, false),
+};
+
+/**
+ * Alias key untuk motion (arrow keys, spasi, backspace, enter)
+ */
+export const MOTION_ALIASES: Record<string, string> = {
+  ArrowLeft: 'h',
+  ArrowRight: 'l',
+  ArrowDown: 'j',
+  ArrowUp: 'k',
+  Backspace: 'h',
+  ' ': 'l',
+  Enter: '+',
+  Home: '0',
+  End: '$',
+};
+
+/**
+ * Hitung motion berdasarkan key, null jika motion gagal
+ */
+export const resolveMotion = (
+  motion: string,
+  context: VimMotionContext
+): VimMotionResult | null => {
+  const handler = VIM_MOTIONS[MOTION_ALIASES[motion] ?? motion];
+  return handler ? handler(context) : null;
+};
@@ -0,0 +1,550 @@
+/**
+ * Vim operator dan action executor
+ * Menjalankan command hasil parsing terhadap snapshot buffer dan mengembalikan
+ * teks, cursor dan mode baru tanpa menyentuh textarea
+ */
+
+import type {
+  VimBufferState,
+  VimCharSearch,
+  VimExecutionResult,
+  VimMotionResult,
+  VimOperator,
+  VimParsedCommand,
+  VimTextRange,
+  VimVisualState,
+} from '@/types/vim';
+import {
+  getFirstNonBlankOffset,
+  getLineEndOffset,
+  getLineIndexAt,
+  getLineOffsetByIndex,
+  getLineStartOffset,
+} from '@/utils/vimUtils';
+import { CHAR_MOTIONS, clampToLine, resolveMotion } from './vimMotions';
+import type { VimRegisterStore } from './vimRegisters';
+import { selectTextObject } from './vimTextObjects';
+
+/**
+ * State yang bertahan antar command (register, pencarian karakter, kolom j/k)
+ */
+export interface VimSession {
+  registers: VimRegisterStore;
+  lastCharSearch: VimCharSearch | null;
+  preferredColumn: number | null;
+}
+
+type ParsedCommand<K extends VimParsedCommand['kind']> = Extract<VimParsedCommand, { kind: K }>;
+
+const SHIFT_WIDTH = '  ';
+
+const toggleCase = (text: string): string =>
+  Array.from(text, (char) => {
+    const upper = char.toUpperCase();
+    return char === upper ? char.toLowerCase() : upper;
+  }).join('');
+
+const CASE_TRANSFORMS: Partial<Record<VimOperator, (text: string) => string>> = {
+  'g~': toggleCase,
+  gu: (text) => text.toLowerCase(),
+  gU: (text) => text.toUpperCase(),
+};
+
+/**
+ * Posisi cursor normal mode: tidak boleh berada di newline kecuali baris kosong
+ */
+const normalCursor = (value: string, pos: number): number =>
+  clampToLine(value, Math.max(0, Math.min(pos, value.length)));
+
+const expandToLines = (value: string, start: number, end: number): VimTextRange => ({
+  start: getLineStartOffset(value, start),
+  end: getLineEndOffset(value, end),
+  linewise: true,
+});
+
+/**
+ * Range seleksi visual, charwise termasuk karakter di bawah cursor
+ */
+export const getVisualRange = (
+  value: string,
+  cursor: number,
+  visual: VimVisualState
+): VimTextRange => {
+  const start = Math.min(visual.anchor, cursor);
+  const end = Math.max(visual.anchor, cursor);
+  if (visual.linewise) return expandToLines(value, start, end);
+  return { start, end: Math.min(value.length, end + 1) };
+};
+
+const motionToRange = (value: string, cursor: number, motion: VimMotionResult): VimTextRange => {
+  const start = Math.min(cursor, motion.position);
+  let end = Math.max(cursor, motion.position);
+
+  if (motion.linewise) return expandToLines(value, start, end);
+
+  if (motion.inclusive) {
+    if (end < value.length && value[end] !== '\n') end++;
+  } else if (end - 1 > start && value[end - 1] === '\n') {
+    // Motion exclusive yang berakhir di awal baris berhenti di akhir baris sebelumnya
+    end--;
+  }
+
+  return { start, end };
+};
+
+const runMotion = (
+  state: VimBufferState,
+  session: VimSession,
+  motion: string,
+  options: { char?: string; count: number; hasCount: boolean; operatorPending: boolean }
+): VimMotionResult | null => {
+  const result = resolveMotion(motion, {
+    value: state.value,
+    cursor: state.cursor,
+    count: options.count,
+    hasCount: options.hasCount,
+    char: options.char,
+    operatorPending: options.operatorPending,
+    lastCharSearch: session.lastCharSearch,
+    preferredColumn: session.preferredColumn,
+  });
+
+  if (CHAR_MOTIONS.has(motion) && options.char) {
+    session.lastCharSearch = { motion: motion as VimCharSearch['motion'], char: options.char };
+  }
+
+  // j/k mengingat kolom awal, $ mengingat "akhir baris"
+  if (motion === 'j' || motion === 'k' || motion === 'ArrowDown' || motion === 'ArrowUp') {
+    session.preferredColumn ??= state.cursor - getLineStartOffset(state.value, state.cursor);
+  } else {
+    session.preferredColumn = motion === '$' || motion === 'End' ? Number.MAX_SAFE_INTEGER : null;
+  }
+
+  return result;
+};
+
+/**
+ * Range untuk cw/cW: seperti ce, tapi tetap di word saat cursor di akhir word
+ */
+const changeWordRange = (
+  value: string,
+  cursor: number,
+  count: number,
+  bigWord: boolean
+): VimTextRange => {
+  const isWordChar = (pos: number) => {
+    const char = value[pos];
+    if (char === undefined || /\s/.test(char)) return false;
+    return bigWord || /[\p{L}\p{N}_]/u.test(char) === /[\p{L}\p{N}_]/u.test(value[cursor]);
+  };
+
+  let end = cursor;
+  for (let i = 0; i < count; i++) {
+    if (i > 0) {
+      end++;
+      while (end < value.length && /\s/.test(value[end])) end++;
+    }
+    while (end + 1 < value.length && isWordChar(end + 1)) end++;
+  }
+
+  return { start: cursor, end: Math.min(value.length, end + 1) };
+};
+
+const resolveOperatorRange = (
+  state: VimBufferState,
+  command: ParsedCommand<'operator'>,
+  session: VimSession
+): VimTextRange | null => {
+  const { value, cursor, visual } = state;
+  const { target, count } = command;
+
+  switch (target.type) {
+    case 'selection':
+      return visual ? getVisualRange(value, cursor, visual) : null;
+
+    case 'line': {
+      const lastLine = getLineIndexAt(value, cursor) + count - 1;
+      return expandToLines(value, cursor, getLineOffsetByIndex(value, lastLine));
+    }
+
+    case 'textObject':
+      return selectTextObject(value, cursor, target.object, count);
+
+    case 'motion': {
+      const isChangeWord =
+        command.operator === 'c' &&
+        (target.motion === 'w' || target.motion === 'W') &&
+        value[cursor] !== undefined &&
+        !/\s/.test(value[cursor]);
+      if (isChangeWord) {
+        return changeWordRange(value, cursor, count, target.motion === 'W');
+      }
+
+      const motion = runMotion(state, session, target.motion, {
+        char: target.char,
+        count,
+        hasCount: command.hasCount,
+        operatorPending: true,
+      });
+      return motion ? motionToRange(value, cursor, motion) : null;
+    }
+  }
+};
+
+const shiftLines = (text: string, operator: '>' | '<', times: number): string =>
+  text
+    .split('\n')
+    .map((line) => {
+      if (operator === '>') return line ? SHIFT_WIDTH.repeat(times) + line : line;
+      let result = line;
+      for (let i = 0; i < times; i++) result = result.replace(/^(\t| {1,2})/, '');
+      return result;
+    })
+    .join('\n');
+
+/**
+ * Terapkan operator pada range
+ */
+export const applyOperator = (
+  state: VimBufferState,
+  operator: VimOperator,
+  range: VimTextRange,
+  session: VimSession,
+  options: { register?: string; count?: number } = {}
+): VimExecutionResult => {
+  const { value, cursor } = state;
+  const { start, end } = range;
+  const linewise = !!range.linewise;
+  const text = value.slice(start, end);
+  const exitVisual = state.mode === 'visual' ? { mode: 'normal' as const, visual: null } : {};
+
+  switch (operator) {
+    case 'y': {
+      session.registers.yank({ text, linewise }, options.register);
+      const keepCursor = linewise && cursor >= start && cursor <= getLineEndOffset(value, start);
+      return { ...exitVisual, cursor: keepCursor && !state.visual ? cursor : start };
+    }
+
+    case 'd': {
+      session.registers.delete({ text, linewise }, options.register);
+      if (!linewise) {
+        const newValue = value.slice(0, start) + value.slice(end);
+        return {
+          ...exitVisual,
+          value: newValue,
+          cursor: normalCursor(newValue, start),
+          isChange: true,
+        };
+      }
+
+      // Hapus newline setelah blok, atau sebelumnya jika blok ada di akhir teks
+      const removeStart = end < value.length || start === 0 ? start : start - 1;
+      const removeEnd = end < value.length ? end + 1 : end;
+      const newValue = value.slice(0, removeStart) + value.slice(removeEnd);
+      const lineStart = getLineStartOffset(newValue, Math.min(removeStart, newValue.length));
+      return {
+        ...exitVisual,
+        value: newValue,
+        cursor: getFirstNonBlankOffset(newValue, lineStart),
+        isChange: true,
+      };
+    }
+
+    case 'c': {
+      session.registers.delete({ text, linewise }, options.register);
+      // Change per baris mempertahankan indentasi baris pertama
+      const indent = linewise ? (text.match(/^[ \t]*/)?.[0] ?? '') : '';
+      const newValue = value.slice(0, start) + indent + value.slice(end);
+      return {
+        value: newValue,
+        cursor: start + indent.length,
+        mode: 'insert',
+        visual: null,
+        isChange: true,
+      };
+    }
+
+    case '>':
+    case '<': {
+      const lines = expandToLines(value, start, Math.max(start, end - (linewise ? 0 : 1)));
+      const times = state.visual ? (options.count ?? 1) : 1;
+      const shifted = shiftLines(value.slice(lines.start, lines.end), operator, times);
+      const newValue = value.slice(0, lines.start) + shifted + value.slice(lines.end);
+      return {
+        ...exitVisual,
+        value: newValue,
+        cursor: getFirstNonBlankOffset(newValue, lines.start),
+        isChange: true,
+      };
+    }
+
+    default: {
+      const transform = CASE_TRANSFORMS[operator];
+      const newValue = transform
+        ? value.slice(0, start) + transform(text) + value.slice(end)
+        : value;
+      return {
+        ...exitVisual,
+        value: newValue,
+        cursor: normalCursor(newValue, start),
+        isChange: true,
+      };
+    }
+  }
+};
+
+const paste = (
+  state: VimBufferState,
+  command: ParsedCommand<'action'>,
+  session: VimSession
+): VimExecutionResult | null => {
+  const { value, cursor, visual } = state;
+  const entry = session.registers.get(command.register);
+  if (!entry) return null;
+
+  const count = command.count;
+  const text = entry.linewise
+    ? Array.from({ length: count }, () => entry.text).join('\n')
+    : entry.text.repeat(count);
+
+  // Visual: ganti seleksi, teks lama masuk ke unnamed register
+  if (visual) {
+    const range = getVisualRange(value, cursor, visual);
+    const replacement = entry.linewise && !range.linewise ? `\n${text}\n` : text;
+    session.registers.delete({
+      text: value.slice(range.start, range.end),
+      linewise: !!range.linewise,
+    });
+    const newValue = value.slice(0, range.start) + replacement + value.slice(range.end);
+    return {
+      value: newValue,
+      cursor: normalCursor(newValue, range.start + (entry.linewise && !range.linewise ? 1 : 0)),
+      mode: 'normal',
+      visual: null,
+      isChange: true,
+    };
+  }
+
+  if (entry.linewise) {
+    if (command.action === 'P') {
+      const insertAt = getLineStartOffset(value, cursor);
+      const newValue = `${value.slice(0, insertAt)}${text}\n${value.slice(insertAt)}`;
+      return {
+        value: newValue,
+        cursor: getFirstNonBlankOffset(newValue, insertAt),
+        isChange: true,
+      };
+    }
+
+    const lineEnd = getLineEndOffset(value, cursor);
+    const newValue = `${value.slice(0, lineEnd)}\n${text}${value.slice(lineEnd)}`;
+    return {
+      value: newValue,
+      cursor: getFirstNonBlankOffset(newValue, lineEnd + 1),
+      isChange: true,
+    };
+  }
+
+  const lineEnd = getLineEndOffset(value, cursor);
+  const insertAt = command.action === 'P' || cursor >= lineEnd ? cursor : cursor + 1;
+  const newValue = value.slice(0, insertAt) + text + value.slice(insertAt);
+  return {
+    value: newValue,
+    cursor: normalCursor(newValue, insertAt + Math.max(0, text.length - 1)),
+    isChange: true,
+  };
+};
+
+/**
+ * Gabungkan baris (J): whitespace awal baris berikutnya diganti satu spasi
+ */
+const joinLines = (
+  value: string,
+  lineStart: number,
+  lineCount: number
+): VimExecutionResult | null => {
+  let result = value;
+  let cursor = -1;
+
+  for (let i = 1; i < lineCount; i++) {
+    const lineEnd = getLineEndOffset(result, lineStart);
+    if (lineEnd >= result.length) break;
+
+    let next = lineEnd + 1;
+    while (next < result.length && /[ \t]/.test(result[next])) next++;
+
+    const current = result.slice(lineStart, lineEnd);
+    const nextIsEmpty = next >= result.length || result[next] === '\n';
+    const separator =
+      !current || /[ \t]$/.test(current) || nextIsEmpty || result[next] === ')' ? '' : ' ';
+
+    result = result.slice(0, lineEnd) + separator + result.slice(next);
+    cursor = lineEnd;
+  }
+
+  return cursor === -1
+    ? null
+    : { value: result, cursor: normalCursor(result, cursor), isChange: true };
+};
+
+const replaceChars = (
+  state: VimBufferState,
+  char: string,
+  count: number
+): VimExecutionResult | null => {
+  const { value, cursor, visual } = state;
+  const replacement = char === 'Enter' ? '\n' : char;
+
+  if (visual) {
+    const range = getVisualRange(value, cursor, visual);
+    const replaced = value.slice(range.start, range.end).replace(/[^\n]/g, replacement);
+    const newValue = value.slice(0, range.start) + replaced + value.slice(range.end);
+    return { value: newValue, cursor: range.start, mode: 'normal', visual: null, isChange: true };
+  }
+
+  if (cursor + count > getLineEndOffset(value, cursor)) return null;
+
+  // r<Enter> mengganti karakter dengan satu line break
+  const text = char === 'Enter' ? '\n' : replacement.repeat(count);
+  const newValue = value.slice(0, cursor) + text + value.slice(cursor + count);
+  return {
+    value: newValue,
+    cursor: char === 'Enter' ? cursor + 1 : cursor + count - 1,
+    isChange: true,
+  };
+};
+
+const executeAction = (
+  state: VimBufferState,
+  command: ParsedCommand<'action'>,
+  session: VimSession
+): VimExecutionResult | null => {
+  const { value, cursor, visual } = state;
+  const { action, count } = command;
+  const lineStart = getLineStartOffset(value, cursor);
+  const lineEnd = getLineEndOffset(value, cursor);
+
+  switch (action) {
+    case 'p':
+    case 'P':
+      return paste(state, command, session);
+
+    case 'J': {
+      if (visual) {
+        const range = getVisualRange(value, cursor, visual);
+        const lines = getLineIndexAt(value, range.end) - getLineIndexAt(value, range.start) + 1;
+        const result = joinLines(value, getLineStartOffset(value, range.start), Math.max(2, lines));
+        return result ? { ...result, mode: 'normal', visual: null } : null;
+      }
+      return joinLines(value, lineStart, Math.max(2, count));
+    }
+
+    case 'r':
+      return command.char ? replaceChars(state, command.char, count) : null;
+
+    case '~': {
+      const end = Math.min(lineEnd, cursor + count);
+      if (end === cursor) return null;
+      const newValue =
+        value.slice(0, cursor) + toggleCase(value.slice(cursor, end)) + value.slice(end);
+      return { value: newValue, cursor: normalCursor(newValue, end), isChange: true };
+    }
+
+    case 'i':
+      return { cursor, mode: 'insert', isChange: true };
+    case 'a':
+      return { cursor: Math.min(lineEnd, cursor + 1), mode: 'insert', isChange: true };
+    case 'I':
+      return { cursor: getFirstNonBlankOffset(value, lineStart), mode: 'insert', isChange: true };
+    case 'A':
+      return { cursor: lineEnd, mode: 'insert', isChange: true };
+    case 'o':
+      return {
+        value: `${value.slice(0, lineEnd)}\n${value.slice(lineEnd)}`,
+        cursor: lineEnd + 1,
+        mode: 'insert',
+        isChange: true,
+      };
+    case 'O':
+      return {
+        value: `${value.slice(0, lineStart)}\n${value.slice(lineStart)}`,
+        cursor: lineStart,
+        mode: 'insert',
+        isChange: true,
+      };
+
+    case 'v':
+    case 'V': {
+      const linewise = action === 'V';
+      if (visual && visual.linewise === linewise) {
+        return { cursor: normalCursor(value, cursor), mode: 'normal', visual: null };
+      }
+      return { cursor, mode: 'visual', visual: { anchor: visual?.anchor ?? cursor, linewise } };
+    }
+
+    case 'Escape':
+      return { cursor: normalCursor(value, cursor), mode: 'normal', visual: null };
+
+    case 'select': {
+      const range = command.char ? selectTextObject(value, cursor, command.char, count) : null;
+      if (!range || !visual || range.end <= range.start) return null;
+      return {
+        cursor: range.end - 1,
+        visual: { anchor: range.start, linewise: visual.linewise || !!range.linewise },
+      };
+    }
+
+    case 'u':
+      return { cursor, history: 'undo' };
+    case '<C-r>':
+      return { cursor, history: 'redo' };
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Jalankan command normal/visual mode terhadap buffer.
+ * Mengembalikan null jika command gagal (mis. motion tidak menemukan target).
+ */
+export const executeVimCommand = (
+  state: VimBufferState,
+  command: VimParsedCommand,
+  session: VimSession
+): VimExecutionResult | null => {
+  switch (command.kind) {
+    case 'motion': {
+      const motion = runMotion(state, session, command.motion, {
+        char: command.char,
+        count: command.count,
+        hasCount: command.hasCount,
+        operatorPending: false,
+      });
+      if (!motion) return null;
+
+      if (state.visual) {
+        return { cursor: Math.min(motion.position, Math.max(0, state.value.length - 1)) };
+      }
+      return { cursor: normalCursor(state.value, motion.position) };
+    }
+
+    case 'operator': {
+      const range = resolveOperatorRange(state, command, session);
+      if (!range) return null;
+      return applyOperator(state, command.operator, range, session, {
+        register: command.register,
+        count: command.count,
+      });
+    }
+
+    case 'action':
+      if (state.visual && command.action === 'o') {
+        return { cursor: state.visual.anchor, visual: { ...state.visual, anchor: state.cursor } };
+      }
+      return executeAction(state, command, session);
+
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,100 @@
+/**
+ * Vim register store
+ * Unnamed ("), yank (0), delete (1-9, -), named (a-z, A-Z untuk append),
+ * clipboard (+, *) dan black hole (_)
+ */
+
+import type { VimRegister } from '@/types/vim';
+
+/**
+ * Nama register yang valid setelah prefix "
+ */
+export const VIM_REGISTER_PATTERN = /^[a-zA-Z0-9"\-_+*]$/;
+
+const UNNAMED_REGISTER = '"';
+const BLACK_HOLE_REGISTER = '_';
+const CLIPBOARD_REGISTERS = new Set(['+', '*']);
+
+/**
+ * Register store implementation
+ */
+export class VimRegisterStore {
+  private registers = new Map<string, VimRegister>();
+
+  get(name: string = UNNAMED_REGISTER): VimRegister | undefined {
+    return this.registers.get(name.toLowerCase());
+  }
+
+  /**
+   * Simpan hasil yank (y). Tanpa nama register juga mengisi register 0.
+   */
+  yank(entry: VimRegister, name?: string): void {
+    if (name === BLACK_HOLE_REGISTER) return;
+
+    if (name && name !== UNNAMED_REGISTER) {
+      this.write(name, entry);
+    } else {
+      this.registers.set('0', entry);
+      this.registers.set(UNNAMED_REGISTER, entry);
+    }
+  }
+
+  /**
+   * Simpan hasil delete/change (d, c, x). Tanpa nama register, delete
+   * multi-baris digeser ke 1-9 dan delete kecil masuk ke register -.
+   */
+  delete(entry: VimRegister, name?: string): void {
+    if (name === BLACK_HOLE_REGISTER) return;
+
+    if (name && name !== UNNAMED_REGISTER) {
+      this.write(name, entry);
+      return;
+    }
+
+    if (entry.linewise || entry.text.includes('\n')) {
+      for (let i = 9; i > 1; i--) {
+        const previous = this.registers.get(String(i - 1));
+        if (previous) this.registers.set(String(i), previous);
+      }
+      this.registers.set('1', entry);
+    } else {
+      this.registers.set('-', entry);
+    }
+    this.registers.set(UNNAMED_REGISTER, entry);
+  }
+
+  clear(): void {
+    this.registers.clear();
+  }
+
+  /**
+   * Tulis ke register bernama. Huruf kapital menambahkan ke register yang ada.
+   */
+  private write(name: string, entry: VimRegister): void {
+    const key = name.toLowerCase();
+    const existing = this.registers.get(key);
+    const value =
+      existing && name !== key
+        ? {
+            text: `${existing.text}${existing.linewise || entry.linewise ? '\n' : ''}${entry.text}`,
+            linewise: existing.linewise || entry.linewise,
+          }
+        : entry;
+
+    this.registers.set(key, value);
+    this.registers.set(UNNAMED_REGISTER, value);
+
+    if (CLIPBOARD_REGISTERS.has(key) && typeof navigator !== 'undefined') {
+      navigator.clipboard?.writeText(value.text).catch((error) => {
+        import('@/utils/console').then(({ safeConsole }) => {
+          safeConsole.warn('Failed to write vim register to clipboard:', error);
+        });
+      });
+    }
+  }
+}
+
+/**
+ * Global register store instance (dibagi antar editor seperti di vim)
+ */
+export const vimRegisters = new VimRegisterStore();
@@ -0,0 +1,220 @@
+/**
+ * Vim text objects
+ * iw/aw, iW/aW, quotes, brackets dan paragraph untuk operator dan visual mode
+ */
+
+import type { VimTextRange } from '@/types/vim';
+import {
+  getCharClass,
+  getLineEndOffset,
+  getLineIndexAt,
+  getLineStartOffset,
+} from '@/utils/vimUtils';
+import { findMatchingBracket } from './vimMotions';
+
+const BRACKET_OBJECTS: Record<string, [string, string]> = {
+  '(': ['(', ')'],
+  ')': ['(', ')'],
+  b: ['(', ')'],
+  '[': ['[', ']'],
+  ']': ['[', ']'],
+  '{': ['{', '}'],
+  '}': ['{', '}'],
+  B: ['{', '}'],
+  '<': ['<', '>'],
+  '>': ['<', '>'],
+};
+
+const QUOTE_OBJECTS = new Set(['"', "'", '`']);
+
+const isBlankChar = (char: string | undefined): boolean => char === ' ' || char === '\t';
+
+/**
+ * Cek apakah key (mis. 'iw', 'a(') adalah text object yang didukung
+ */
+export const isTextObject = (object: string): boolean => {
+  if (object.length !== 2 || (object[0] !== 'i' && object[0] !== 'a')) return false;
+  const type = object[1];
+  return (
+    type === 'w' ||
+    type === 'W' ||
+    type === 'p' ||
+    QUOTE_OBJECTS.has(type) ||
+    !!BRACKET_OBJECTS[type]
+  );
+};
+
+const selectWord = (
+  value: string,
+  cursor: number,
+  around: boolean,
+  bigWord: boolean
+): VimTextRange | null => {
+  const lineStart = getLineStartOffset(value, cursor);
+  const lineEnd = getLineEndOffset(value, cursor);
+  if (lineStart === lineEnd) return null;
+
+  const classOf = (pos: number) =>
+    isBlankChar(value[pos]) ? 0 : getCharClass(value[pos], bigWord);
+  const pos = Math.min(cursor, lineEnd - 1);
+  const charClass = classOf(pos);
+
+  let start = pos;
+  let end = pos + 1;
+  while (start > lineStart && classOf(start - 1) === charClass) start--;
+  while (end < lineEnd && classOf(end) === charClass) end++;
+
+  if (!around) return { start, end };
+
+  // Di whitespace: aw = whitespace + word berikutnya
+  if (charClass === 0) {
+    const nextClass = classOf(end);
+    while (end < lineEnd && classOf(end) === nextClass) end++;
+    return { start, end };
+  }
+
+  // Di word: ambil whitespace setelahnya, atau sebelumnya jika tidak ada
+  let aroundEnd = end;
+  while (aroundEnd < lineEnd && isBlankChar(value[aroundEnd])) aroundEnd++;
+  if (aroundEnd > end) return { start, end: aroundEnd };
+
+  let aroundStart = start;
+  while (aroundStart > lineStart && isBlankChar(value[aroundStart - 1])) aroundStart--;
+  return { start: aroundStart === lineStart ? start : aroundStart, end };
+};
+
+const selectQuoted = (
+  value: string,
+  cursor: number,
+  quote: string,
+  around: boolean
+): VimTextRange | null => {
+  const lineStart = getLineStartOffset(value, cursor);
+  const lineEnd = getLineEndOffset(value, cursor);
+
+  const quotes: number[] = [];
+  for (let i = lineStart; i < lineEnd; i++) {
+    if (value[i] === quote && value[i - 1] !== '\\') quotes.push(i);
+  }
+
+  // Pasangan yang memuat cursor, atau pasangan pertama setelah cursor
+  let open = -1;
+  let close = -1;
+  for (let i = 0; i + 1 < quotes.length; i += 2) {
+    if ((quotes[i] <= cursor && cursor <= quotes[i + 1]) || quotes[i] > cursor) {
+      open = quotes[i];
+      close = quotes[i + 1];
+      break;
+    }
+  }
+  if (open === -1) return null;
+
+  if (!around) return { start: open + 1, end: close };
+
+  let start = open;
+  let end = close + 1;
+  while (end < lineEnd && isBlankChar(value[end])) end++;
+  if (end === close + 1) {
+    while (start > lineStart && isBlankChar(value[start - 1])) start--;
+  }
+  return { start, end };
+};
+
+const selectBracketed = (
+  value: string,
+  cursor: number,
+  [open, close]: [string, string],
+  around: boolean,
+  count: number
+): VimTextRange | null => {
+  let start = -1;
+  let depth = 0;
+  let remaining = count;
+
+  for (let i = Math.min(cursor, value.length - 1); i >= 0; i--) {
+    const char = value[i];
+    if (char === close && i !== cursor) {
+      depth++;
+    } else if (char === open) {
+      if (depth > 0) {
+        depth--;
+      } else if (--remaining === 0) {
+        start = i;
+        break;
+      }
+    }
+  }
+  if (start === -1) return null;
+
+  const end = open === '<' ? value.indexOf(close, start) : findMatchingBracket(value, start);
+  if (end === -1 || end < cursor) return null;
+
+  if (around) return { start, end: end + 1 };
+
+  // Blok multi-baris: jangan ikutkan newline setelah pembuka dan indentasi penutup
+  let innerStart = start + 1;
+  let innerEnd = end;
+  if (value[innerStart] === '\n') {
+    innerStart++;
+    const lastBreak = value.lastIndexOf('\n', end - 1);
+    if (lastBreak >= innerStart - 1 && value.slice(lastBreak + 1, end).trim() === '') {
+      innerEnd = Math.max(innerStart, lastBreak + 1);
+    }
+  }
+  return { start: innerStart, end: innerEnd };
+};
+
+const selectParagraph = (
+  value: string,
+  cursor: number,
+  around: boolean,
+  count: number
+): VimTextRange => {
+  const lines = value.split('\n');
+  const isBlank = (index: number) => lines[index].trim() === '';
+  const blank = isBlank(getLineIndexAt(value, cursor));
+
+  let first = getLineIndexAt(value, cursor);
+  let last = first;
+  while (first > 0 && isBlank(first - 1) === blank) first--;
+  while (last < lines.length - 1 && isBlank(last + 1) === blank) last++;
+
+  // Count tambahan dan "a" memperluas ke blok berikutnya
+  const extraBlocks = count - 1 + (around ? 1 : 0);
+  for (let i = 0; i < extraBlocks && last < lines.length - 1; i++) {
+    const nextBlank = isBlank(last + 1);
+    while (last < lines.length - 1 && isBlank(last + 1) === nextBlank) last++;
+  }
+
+  // ap di paragraf terakhir tanpa baris kosong setelahnya: ambil baris kosong sebelumnya
+  if (around && !blank && extraBlocks === 1 && !isBlank(last)) {
+    while (first > 0 && isBlank(first - 1)) first--;
+  }
+
+  let start = 0;
+  for (let i = 0; i < first; i++) start += lines[i].length + 1;
+  let end = start;
+  for (let i = first; i <= last; i++) end += lines[i].length + 1;
+
+  return { start, end: end - 1, linewise: true };
+};
+
+/**
+ * Hitung range text object di posisi cursor, null jika tidak ditemukan
+ */
+export const selectTextObject = (
+  value: string,
+  cursor: number,
+  object: string,
+  count = 1
+): VimTextRange | null => {
+  if (!isTextObject(object)) return null;
+
+  const around = object[0] === 'a';
+  const type = object[1];
+
+  if (type === 'w' || type === 'W') return selectWord(value, cursor, around, type === 'W');
+  if (type === 'p') return selectParagraph(value, cursor, around, count);
+  if (QUOTE_OBJECTS.has(type)) return selectQuoted(value, cursor, type, around);
+  return selectBracketed(value, cursor, BRACKET_OBJECTS[type], around, count);
+};
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Revision history hook for a single stored file
+ * @author Axel Modra
+ */
+
+import { useAuth } from '@clerk/react-router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { useToast } from '@/hooks/core/useToast';
+import { batchInvalidateQueries, queryKeys } from '@/lib/queryClient';
+import type { FileData, FileRevision } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
+import { safeConsole } from '@/utils/console';
+import { parseFileOperationError } from '@/utils/fileOperationErrors';
+
+export interface UseFileRevisionsReturn {
+  revisions: FileRevision[];
+  isLoadingRevisions: boolean;
+  loadRevision: (revisionId: string) => Promise<FileRevision | null>;
+  restoreRevision: (revisionId: string) => Promise<FileData>;
+  isRestoring: boolean;
+  refreshRevisions: () => void;
+}
+
+/**
+ * List, preview and restore revisions of a file.
+ * Restoring saves the old content as a new revision instead of rewriting history.
+ */
+export const useFileRevisions = (
+  storageService: FileStorageService | null,
+  file: FileData | null
+): UseFileRevisionsReturn => {
+  const { userId } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const owner = userId || 'anonymous';
+  const identifier = file ? file.id || file.title : '';
+
+  const {
+    data: revisions = [],
+    isLoading: isLoadingRevisions,
+    refetch: refreshRevisions,
+  } = useQuery<FileRevision[]>({
+    queryKey: queryKeys.files.revisions(owner, identifier),
+    queryFn: async () => {
+      if (!storageService || !identifier) return [];
+
+      try {
+        return await storageService.listRevisions(identifier);
+      } catch (error) {
+        safeConsole.error('Error fetching file revisions:', error);
+        toast({
+          title: 'Error Loading History',
+          description: parseFileOperationError(error).userMessage,
+          variant: 'destructive',
+        });
+        return [];
+      }
+    },
+    enabled: !!storageService && !!identifier,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  const loadRevision = useCallback(
+    async (revisionId: string): Promise<FileRevision | null> => {
+      if (!storageService || !identifier) return null;
+
+      try {
+        return await storageService.loadRevision(identifier, revisionId);
+      } catch (error) {
+        safeConsole.error('Error loading file revision:', error);
+        toast({
+          title: 'Load Failed',
+          description: parseFileOperationError(error).userMessage,
+          variant: 'destructive',
+        });
+        return null;
+      }
+    },
+    [storageService, identifier, toast]
+  );
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      if (!storageService || !identifier) {
+        throw new Error('Storage service not initialized');
+      }
+      return await storageService.restoreRevision(identifier, revisionId);
+    },
+    onSuccess: (restoredFile) => {
+      // Drop the cached file content so the editor loads the restored version
+      queryClient.removeQueries({ queryKey: ['file', owner, identifier] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.files.revisions(owner, identifier) });
+      batchInvalidateQueries.fileOperations(owner);
+
+      toast({
+        title: 'Revision Restored',
+        description: `${restoredFile.title || file?.title} was restored as a new revision.`,
+      });
+    },
+    onError: (error: unknown) => {
+      safeConsole.error('Error restoring file revision:', error);
+      toast({
+        title: 'Restore Failed',
+        description: parseFileOperationError(error).userMessage,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    revisions,
+    isLoadingRevisions,
+    loadRevision,
+    restoreRevision: restoreMutation.mutateAsync,
+    isRestoring: restoreMutation.isPending,
+    refreshRevisions,
+  };
+};
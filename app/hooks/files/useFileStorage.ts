@@ -9,9 +9,11 @@ import {
   queryKeys,
 } from '@/lib/queryClient';
 import { createClerkSupabaseClient, type FileData } from '@/lib/supabase';
+import { attachmentStorage } from '@/services/attachmentStorage';
 import {
   createFileStorageService,
   type FileStorageService,
+  getTrashRetentionDays,
   type StorageInfo,
 } from '@/services/fileStorage';
 import { safeConsole } from '@/utils/console';
@@ -161,6 +163,8 @@ export const useFileStorage = (): UseFileStorageReturn => {
         });
 
         setStorageService(service);
+        // Pasted and dropped images go to the same place as the files
+        attachmentStorage.configure(supabaseClient, currentUserId);
 
         // Invalidate all related queries when service changes
         queryClient.invalidateQueries({
@@ -175,6 +179,20 @@ export const useFileStorage = (): UseFileStorageReturn => {
           (service as { cleanupLocalStorage: () => void }).cleanupLocalStorage();
         }
 
+        // Purge files that have been in the Trash longer than the retention period
+        service
+          .purgeTrash(getTrashRetentionDays())
+          .then((purgedCount) => {
+            if (purgedCount > 0) {
+              queryClient.invalidateQueries({
+                queryKey: queryKeys.files.trash(userId || 'anonymous'),
+              });
+            }
+          })
+          .catch((purgeError) => {
+            safeConsole.error('Error purging trash:', purgeError);
+          });
+
         await new Promise((resolve) => setTimeout(resolve, 300));
 
         setIsAuthenticationComplete(true);
@@ -187,6 +205,7 @@ export const useFileStorage = (): UseFileStorageReturn => {
         if (!isSignedIn) {
           const fallbackService = createFileStorageService(null, null);
           setStorageService(fallbackService);
+          attachmentStorage.configure(null, null);
         }
         setIsInitialized(true);
       }
@@ -353,6 +372,7 @@ export const useFileStorage = (): UseFileStorageReturn => {
     },
     onSettled: () => {
       batchInvalidateQueries.fileOperations(userId || 'anonymous');
+      queryClient.invalidateQueries({ queryKey: queryKeys.files.trash(userId || 'anonymous') });
     },
   });
 
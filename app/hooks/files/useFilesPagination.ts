@@ -15,6 +15,8 @@ interface UseFilesPaginationOptions {
   limit?: number;
   includeContent?: boolean;
   enabled?: boolean;
+  /** Only list files in this folder (null = root folder, undefined = every folder) */
+  folderId?: string | null;
 }
 
 interface UseFilesPaginationReturn {
@@ -43,7 +45,7 @@ interface UseFilesPaginationReturn {
 export const useFilesPagination = (
   options: UseFilesPaginationOptions = {}
 ): UseFilesPaginationReturn => {
-  const { limit = 20, includeContent = false, enabled = true } = options;
+  const { limit = 20, includeContent = false, enabled = true, folderId } = options;
   const { userId } = useAuth();
   const { storageService, isInitialized } = useFileStorage();
 
@@ -57,7 +59,10 @@ export const useFilesPagination = (
     fetchNextPage,
     refetch,
   } = useInfiniteQuery({
-    queryKey: queryKeys.files.list(`${userId || 'anonymous'}_paginated`),
+    queryKey: [
+      ...queryKeys.files.list(`${userId || 'anonymous'}_paginated`),
+      folderId === undefined ? 'all' : (folderId ?? 'root'),
+    ],
     initialPageParam: undefined as string | undefined,
     queryFn: async ({ pageParam }: { pageParam?: string }) => {
       if (!storageService) {
@@ -68,6 +73,7 @@ export const useFilesPagination = (
         limit,
         cursor: pageParam,
         includeContent,
+        folderId,
       };
 
       safeConsole.log('Fetching paginated files:', paginationOptions);
@@ -129,7 +135,7 @@ export const useFilesPagination = (
  * Hook for simple paginated file listing (page-based instead of infinite scroll)
  */
 export const useFilesPaginationSimple = (page = 1, options: UseFilesPaginationOptions = {}) => {
-  const { limit = 20, includeContent = false, enabled = true } = options;
+  const { limit = 20, includeContent = false, enabled = true, folderId } = options;
   const { userId } = useAuth();
   const { storageService, isInitialized } = useFileStorage();
 
@@ -138,7 +144,11 @@ export const useFilesPaginationSimple = (page = 1, options: UseFilesPaginationOp
   const cursor = page > 1 ? `page_${page}` : undefined;
 
   const { data, isLoading, isError, error, refetch } = useInfiniteQuery({
-    queryKey: [...queryKeys.files.list(`${userId || 'anonymous'}_simple`), page],
+    queryKey: [
+      ...queryKeys.files.list(`${userId || 'anonymous'}_simple`),
+      folderId === undefined ? 'all' : (folderId ?? 'root'),
+      page,
+    ],
     initialPageParam: undefined,
     queryFn: async () => {
       if (!storageService) {
@@ -149,6 +159,7 @@ export const useFilesPaginationSimple = (page = 1, options: UseFilesPaginationOp
         limit,
         cursor,
         includeContent,
+        folderId,
       };
 
       return await storageService.listPaginated(paginationOptions);
@@ -1,6 +1,7 @@
 import type { Table } from '@tanstack/react-table';
 import { useState } from 'react';
 import type { FileData } from '@/lib/supabase';
+import type { TagFilterMode } from '@/utils/tagUtils';
 
 export type ViewMode = 'grid' | 'list' | 'table';
 
@@ -14,6 +15,11 @@ export interface FilesUIState {
   searchQuery: string;
   setSearchQuery: (query: string) => void;
 
+  selectedTags: string[];
+  setSelectedTags: React.Dispatch<React.SetStateAction<string[]>>;
+  tagFilterMode: TagFilterMode;
+  setTagFilterMode: (mode: TagFilterMode) => void;
+
   sortBy: SortOption;
   setSortBy: (sort: SortOption) => void;
   sortDirection: SortDirection;
@@ -31,6 +37,8 @@ export interface FilesUIState {
 export const useFilesUIState = (): FilesUIState => {
   const [viewMode, setViewMode] = useState<ViewMode>('table');
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagFilterMode, setTagFilterMode] = useState<TagFilterMode>('and');
   const [sortBy, setSortBy] = useState<SortOption>('date');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [rowSelection, setRowSelection] = useState<Record<string, boolean>>({});
@@ -45,6 +53,11 @@ export const useFilesUIState = (): FilesUIState => {
     searchQuery,
     setSearchQuery,
 
+    selectedTags,
+    setSelectedTags,
+    tagFilterMode,
+    setTagFilterMode,
+
     sortBy,
     setSortBy,
     sortDirection,
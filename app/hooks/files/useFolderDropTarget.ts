@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Hook untuk menjadikan folder (kartu, breadcrumb, node tree) target drop file dan folder
+ * @author Axel Modra
+ */
+
+import type React from 'react';
+import { useCallback, useRef, useState } from 'react';
+import { type FolderDragItems, getFolderDragData, hasFolderDragData } from '@/utils/folderUtils';
+
+export interface FolderDropTargetProps {
+  onDragEnter: (event: React.DragEvent) => void;
+  onDragOver: (event: React.DragEvent) => void;
+  onDragLeave: (event: React.DragEvent) => void;
+  onDrop: (event: React.DragEvent) => void;
+}
+
+/**
+ * Props drop untuk satu folder tujuan (null = root)
+ * isDragOver dipakai untuk highlight selama item di-drag di atas target
+ */
+export const useFolderDropTarget = (
+  folderId: string | null,
+  onDropItems: (items: FolderDragItems, targetFolderId: string | null) => void
+): { isDragOver: boolean; dropTargetProps: FolderDropTargetProps } => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  // dragenter/dragleave juga terpicu saat melewati child element
+  const depthRef = useRef(0);
+
+  const onDragEnter = useCallback((event: React.DragEvent) => {
+    if (!hasFolderDragData(event.dataTransfer)) return;
+    depthRef.current += 1;
+    setIsDragOver(true);
+  }, []);
+
+  const onDragOver = useCallback((event: React.DragEvent) => {
+    if (!hasFolderDragData(event.dataTransfer)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+  }, []);
+
+  const onDragLeave = useCallback((event: React.DragEvent) => {
+    if (!hasFolderDragData(event.dataTransfer)) return;
+    depthRef.current = Math.max(0, depthRef.current - 1);
+    if (depthRef.current === 0) setIsDragOver(false);
+  }, []);
+
+  const onDrop = useCallback(
+    (event: React.DragEvent) => {
+      if (!hasFolderDragData(event.dataTransfer)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      depthRef.current = 0;
+      setIsDragOver(false);
+
+      const items = getFolderDragData(event.dataTransfer);
+      if (items.folderId === folderId) return;
+      if (items.fileIds.length > 0 || items.folderId) {
+        onDropItems(items, folderId);
+      }
+    },
+    [folderId, onDropItems]
+  );
+
+  return {
+    isDragOver,
+    dropTargetProps: { onDragEnter, onDragOver, onDragLeave, onDrop },
+  };
+};
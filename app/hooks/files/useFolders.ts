@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Folder hook for organizing stored files into nested folders
+ * @author Axel Modra
+ */
+
+import { useAuth } from '@clerk/react-router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { useToast } from '@/hooks/core/useToast';
+import { batchInvalidateQueries, queryKeys } from '@/lib/queryClient';
+import type { FolderData } from '@/lib/supabase';
+import type { FileStorageService } from '@/services/fileStorage';
+import { safeConsole } from '@/utils/console';
+import { parseFileOperationError } from '@/utils/fileOperationErrors';
+
+export interface UseFoldersReturn {
+  folders: FolderData[];
+  isLoadingFolders: boolean;
+  createFolder: (name: string, parentId: string | null) => Promise<FolderData>;
+  renameFolder: (folderId: string, name: string) => Promise<FolderData>;
+  moveFolder: (folderId: string, parentId: string | null) => Promise<FolderData>;
+  deleteFolder: (folderId: string) => Promise<void>;
+  moveFiles: (fileIds: string[], folderId: string | null) => Promise<void>;
+  refreshFolders: () => void;
+}
+
+/**
+ * List folders and create, rename, move or delete them.
+ * Every change refreshes both the folder list and the files list.
+ */
+export const useFolders = (storageService: FileStorageService | null): UseFoldersReturn => {
+  const { userId } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const owner = userId || 'anonymous';
+
+  const {
+    data: folders = [],
+    isLoading: isLoadingFolders,
+    refetch: refreshFolders,
+  } = useQuery<FolderData[]>({
+    queryKey: queryKeys.files.folders(owner),
+    queryFn: async () => {
+      if (!storageService) return [];
+
+      try {
+        return await storageService.listFolders();
+      } catch (error) {
+        safeConsole.error('Error fetching folders:', error);
+        toast({
+          title: 'Error Loading Folders',
+          description: parseFileOperationError(error).userMessage,
+          variant: 'destructive',
+        });
+        return [];
+      }
+    },
+    enabled: !!storageService,
+    refetchOnWindowFocus: false,
+  });
+
+  const invalidateFolders = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.files.folders(owner) });
+    batchInvalidateQueries.fileOperations(owner);
+  }, [queryClient, owner]);
+
+  const showError = useCallback(
+    (title: string, error: unknown) => {
+      safeConsole.error(`${title}:`, error);
+      toast({
+        title,
+        // Folder validation errors are already written for the user
+        description:
+          error instanceof Error ? error.message : parseFileOperationError(error).userMessage,
+        variant: 'destructive',
+      });
+    },
+    [toast]
+  );
+
+  const requireService = useCallback(() => {
+    if (!storageService) {
+      throw new Error('Storage service not initialized');
+    }
+    return storageService;
+  }, [storageService]);
+
+  const createMutation = useMutation({
+    mutationFn: ({ name, parentId }: { name: string; parentId: string | null }) =>
+      requireService().createFolder(name, parentId),
+    onSuccess: invalidateFolders,
+    onError: (error: unknown) => showError('Create Folder Failed', error),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: ({ folderId, name }: { folderId: string; name: string }) =>
+      requireService().renameFolder(folderId, name),
+    onSuccess: invalidateFolders,
+    onError: (error: unknown) => showError('Rename Folder Failed', error),
+  });
+
+  const moveFolderMutation = useMutation({
+    mutationFn: ({ folderId, parentId }: { folderId: string; parentId: string | null }) =>
+      requireService().moveFolder(folderId, parentId),
+    onSuccess: invalidateFolders,
+    onError: (error: unknown) => showError('Move Folder Failed', error),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (folderId: string) => requireService().deleteFolder(folderId),
+    onSuccess: invalidateFolders,
+    onError: (error: unknown) => showError('Delete Folder Failed', error),
+  });
+
+  const moveFilesMutation = useMutation({
+    mutationFn: ({ fileIds, folderId }: { fileIds: string[]; folderId: string | null }) =>
+      requireService().moveFilesToFolder(fileIds, folderId),
+    onSuccess: invalidateFolders,
+    onError: (error: unknown) => showError('Move Failed', error),
+  });
+
+  const { mutateAsync: createAsync } = createMutation;
+  const { mutateAsync: renameAsync } = renameMutation;
+  const { mutateAsync: moveFolderAsync } = moveFolderMutation;
+  const { mutateAsync: moveFilesAsync } = moveFilesMutation;
+
+  const createFolder = useCallback(
+    (name: string, parentId: string | null) => createAsync({ name, parentId }),
+    [createAsync]
+  );
+  const renameFolder = useCallback(
+    (folderId: string, name: string) => renameAsync({ folderId, name }),
+    [renameAsync]
+  );
+  const moveFolder = useCallback(
+    (folderId: string, parentId: string | null) => moveFolderAsync({ folderId, parentId }),
+    [moveFolderAsync]
+  );
+  const moveFiles = useCallback(
+    (fileIds: string[], folderId: string | null) => moveFilesAsync({ fileIds, folderId }),
+    [moveFilesAsync]
+  );
+
+  return {
+    folders,
+    isLoadingFolders,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder: deleteMutation.mutateAsync,
+    moveFiles,
+    refreshFolders,
+  };
+};
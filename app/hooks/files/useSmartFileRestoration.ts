@@ -11,6 +11,7 @@ import { useFileStorage } from '@/hooks/files/useFileStorage';
 import { useImmediateFileLoading } from '@/hooks/files/useImmediateFileLoading';
 import { useLastOpenedFile } from '@/hooks/files/useLastOpenedFile';
 import { safeConsole } from '@/utils/console';
+import { fileContextManager, type OpenTabsContext } from '@/utils/fileContext';
 
 /**
  * File restoration states
@@ -38,6 +39,8 @@ export interface FileRestorationResult {
   hasActiveFile: boolean;
   /** Active file name for display */
   activeFileName: string | null;
+  /** Editor tabs that were open before the reload */
+  openTabs: OpenTabsContext | null;
 }
 
 /**
@@ -96,6 +99,8 @@ export const useSmartFileRestoration = (
   const [state, setState] = useState<RestorationState>(getInitialState);
   const [error, setError] = useState<string | null>(null);
   const [fileData, setFileData] = useState<FileRestorationResult['fileData']>(null);
+  // Read once: the editor keeps the tabs up to date from here on
+  const [openTabs] = useState(() => fileContextManager.getOpenTabs());
 
   // Flag to prevent multiple restoration attempts
   const restorationAttemptedRef = useRef(false);
@@ -196,7 +201,6 @@ export const useSmartFileRestoration = (
 
         if (clearInvalidContext) {
           // Clear invalid file context
-          const { fileContextManager } = await import('@/utils/fileContext');
           fileContextManager.clearActiveFile();
           safeConsole.dev('Cleared invalid file context');
         }
@@ -291,6 +295,7 @@ export const useSmartFileRestoration = (
     fileData,
     hasActiveFile: !!activeFile?.fileId,
     activeFileName: activeFile?.fileName || null,
+    openTabs,
     restoreFile,
     clearRestoration,
   };
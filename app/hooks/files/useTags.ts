@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Tag hook for adding, removing, renaming and deleting file tags
+ * @author Axel Modra
+ */
+
+import { useAuth } from '@clerk/react-router';
+import { useMutation } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+import { useToast } from '@/hooks/core/useToast';
+import { batchInvalidateQueries } from '@/lib/queryClient';
+import type { FileData } from '@/lib/supabase';
+import type { FileStorageService, FileTagsUpdate } from '@/services/fileStorage';
+import { safeConsole } from '@/utils/console';
+import { parseFileOperationError } from '@/utils/fileOperationErrors';
+import {
+  applyTagChanges,
+  getTagCounts,
+  hasTag,
+  normalizeTag,
+  renameTagInList,
+  type TagChanges,
+  type TagCount,
+} from '@/utils/tagUtils';
+
+export interface UseTagsReturn {
+  tagCounts: TagCount[];
+  updateTags: (fileIds: string[], changes: TagChanges) => Promise<void>;
+  renameTag: (from: string, to: string) => Promise<void>;
+  deleteTag: (tag: string) => Promise<void>;
+  isUpdatingTags: boolean;
+}
+
+const isSameTagList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((tag, index) => tag === b[index]);
+
+/**
+ * Tag counts across the given files plus bulk tag changes.
+ * Only files whose tags actually change are written.
+ */
+export const useTags = (
+  storageService: FileStorageService | null,
+  files: FileData[]
+): UseTagsReturn => {
+  const { userId } = useAuth();
+  const { toast } = useToast();
+
+  const owner = userId || 'anonymous';
+  const tagCounts = useMemo(() => getTagCounts(files), [files]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: FileTagsUpdate[]) => {
+      if (!storageService) {
+        throw new Error('Storage service not initialized');
+      }
+      await storageService.updateFileTags(updates);
+    },
+    onSuccess: () => {
+      batchInvalidateQueries.fileOperations(owner);
+    },
+    onError: (error: unknown) => {
+      safeConsole.error('Error updating tags:', error);
+      toast({
+        title: 'Update Tags Failed',
+        description: parseFileOperationError(error).userMessage,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const { mutateAsync } = updateMutation;
+
+  // Build updates for files whose tags change and save them in one go
+  const saveTagUpdates = useCallback(
+    async (getTags: (file: FileData) => string[] | null) => {
+      const updates = files.flatMap((file) => {
+        const tags = file.id ? getTags(file) : null;
+        return file.id && tags && !isSameTagList(tags, file.tags ?? [])
+          ? [{ fileId: file.id, tags }]
+          : [];
+      });
+      await mutateAsync(updates);
+      return updates.length;
+    },
+    [files, mutateAsync]
+  );
+
+  const updateTags = useCallback(
+    async (fileIds: string[], changes: TagChanges) => {
+      const ids = new Set(fileIds);
+      await saveTagUpdates((file) =>
+        file.id && ids.has(file.id) ? applyTagChanges(file.tags, changes) : null
+      );
+    },
+    [saveTagUpdates]
+  );
+
+  const renameTag = useCallback(
+    async (from: string, to: string) => {
+      const newTag = normalizeTag(to);
+      if (!newTag) {
+        throw new Error('Tag name is required');
+      }
+
+      const count = await saveTagUpdates((file) =>
+        hasTag(file.tags, from) ? renameTagInList(file.tags, from, newTag) : null
+      );
+      toast({
+        title: 'Tag Renamed',
+        description: `"${from}" renamed to "${newTag}" in ${count} file${count === 1 ? '' : 's'}.`,
+      });
+    },
+    [saveTagUpdates, toast]
+  );
+
+  const deleteTag = useCallback(
+    async (tag: string) => {
+      const count = await saveTagUpdates((file) =>
+        hasTag(file.tags, tag) ? applyTagChanges(file.tags, { add: [], remove: [tag] }) : null
+      );
+      toast({
+        title: 'Tag Deleted',
+        description: `"${tag}" removed from ${count} file${count === 1 ? '' : 's'}.`,
+      });
+    },
+    [saveTagUpdates, toast]
+  );
+
+  return {
+    tagCounts,
+    updateTags,
+    renameTag,
+    deleteTag,
+    isUpdatingTags: updateMutation.isPending,
+  };
+};
@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Trash hook for soft-deleted files (restore, delete forever, retention)
+ * @author Axel Modra
+ */
+
+import { useAuth } from '@clerk/react-router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+import { useToast } from '@/hooks/core/useToast';
+import { batchInvalidateQueries, queryKeys } from '@/lib/queryClient';
+import type { FileData } from '@/lib/supabase';
+import {
+  type FileStorageService,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+} from '@/services/fileStorage';
+import { safeConsole } from '@/utils/console';
+import { parseFileOperationError } from '@/utils/fileOperationErrors';
+
+export interface UseTrashReturn {
+  trashedFiles: FileData[];
+  isLoadingTrash: boolean;
+  restoreFiles: (fileIds: string[]) => Promise<FileData[]>;
+  isRestoring: boolean;
+  deleteForever: (fileIds: string[]) => Promise<void>;
+  isDeletingForever: boolean;
+  retentionDays: number;
+  setRetentionDays: (days: number) => void;
+  refreshTrash: () => void;
+}
+
+const pluralizeFiles = (count: number) => `${count} file${count === 1 ? '' : 's'}`;
+
+/**
+ * List trashed files, restore them or delete them forever.
+ * Changing the retention period purges files that are already past it.
+ */
+export const useTrash = (storageService: FileStorageService | null): UseTrashReturn => {
+  const { userId } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const owner = userId || 'anonymous';
+  const [retentionDays, setRetentionDaysState] = useState(getTrashRetentionDays);
+
+  const {
+    data: trashedFiles = [],
+    isLoading: isLoadingTrash,
+    refetch: refreshTrash,
+  } = useQuery<FileData[]>({
+    queryKey: queryKeys.files.trash(owner),
+    queryFn: async () => {
+      if (!storageService) return [];
+
+      try {
+        return await storageService.listTrash();
+      } catch (error) {
+        safeConsole.error('Error fetching trash:', error);
+        toast({
+          title: 'Error Loading Trash',
+          description: parseFileOperationError(error).userMessage,
+          variant: 'destructive',
+        });
+        return [];
+      }
+    },
+    enabled: !!storageService,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  const invalidateTrash = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.files.trash(owner) });
+    batchInvalidateQueries.fileOperations(owner);
+  }, [queryClient, owner]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (fileIds: string[]) => {
+      if (!storageService) {
+        throw new Error('Storage service not initialized');
+      }
+      return await storageService.restoreFromTrash(fileIds);
+    },
+    onSuccess: (restoredFiles) => {
+      invalidateTrash();
+
+      const renamedCount = restoredFiles.filter((file) =>
+        / \(restored( \d+)?\)$/.test(file.title)
+      ).length;
+      toast({
+        title: 'Files Restored',
+        description:
+          renamedCount > 0
+            ? `${pluralizeFiles(restoredFiles.length)} restored. ${pluralizeFiles(renamedCount)} renamed because the title is already in use.`
+            : `${pluralizeFiles(restoredFiles.length)} restored.`,
+      });
+    },
+    onError: (error: unknown) => {
+      safeConsole.error('Error restoring files from trash:', error);
+      toast({
+        title: 'Restore Failed',
+        description: parseFileOperationError(error).userMessage,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteForeverMutation = useMutation({
+    mutationFn: async (fileIds: string[]) => {
+      if (!storageService) {
+        throw new Error('Storage service not initialized');
+      }
+      await storageService.deleteForever(fileIds);
+    },
+    onSuccess: (_result, fileIds) => {
+      invalidateTrash();
+      toast({
+        title: 'Deleted Forever',
+        description: `${pluralizeFiles(fileIds.length)} permanently deleted.`,
+      });
+    },
+    onError: (error: unknown) => {
+      safeConsole.error('Error permanently deleting files:', error);
+      toast({
+        title: 'Delete Failed',
+        description: parseFileOperationError(error).userMessage,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const setRetentionDays = useCallback(
+    (days: number) => {
+      setTrashRetentionDays(days);
+      setRetentionDaysState(days);
+
+      storageService
+        ?.purgeTrash(days)
+        .then((purgedCount) => {
+          if (purgedCount > 0) invalidateTrash();
+        })
+        .catch((error) => {
+          safeConsole.error('Error purging trash:', error);
+        });
+    },
+    [storageService, invalidateTrash]
+  );
+
+  return {
+    trashedFiles,
+    isLoadingTrash,
+    restoreFiles: restoreMutation.mutateAsync,
+    isRestoring: restoreMutation.isPending,
+    deleteForever: deleteForeverMutation.mutateAsync,
+    isDeletingForever: deleteForeverMutation.isPending,
+    retentionDays,
+    setRetentionDays,
+    refreshTrash,
+  };
+};
@@ -182,6 +182,11 @@ export const queryKeys = {
     list: (userId: string) => [...queryKeys.files.lists(), userId] as const,
     details: () => [...queryKeys.files.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.files.details(), id] as const,
+    revisions: (userId: string, fileId: string) =>
+      [...queryKeys.files.all, 'revisions', userId, fileId] as const,
+    trash: (userId: string) => [...queryKeys.files.all, 'trash', userId] as const,
+    folders: (userId: string) => [...queryKeys.files.all, 'folders', userId] as const,
+    searchIndex: (userId: string) => [...queryKeys.files.all, 'searchIndex', userId] as const,
   },
 
   // Storage queries
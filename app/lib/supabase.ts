@@ -30,6 +30,7 @@ export interface Database {
           version: number;
           is_deleted: boolean;
           deleted_at: string | null;
+          folder_id: string | null;
         };
         Insert: {
           id?: string;
@@ -45,6 +46,7 @@ export interface Database {
           version?: number;
           is_deleted?: boolean;
           deleted_at?: string | null;
+          folder_id?: string | null;
         };
         Update: {
           id?: string;
@@ -60,6 +62,68 @@ export interface Database {
           version?: number;
           is_deleted?: boolean;
           deleted_at?: string | null;
+          folder_id?: string | null;
+        };
+      };
+      file_revisions: {
+        Row: {
+          id: string;
+          file_id: string;
+          user_id: string;
+          version: number;
+          title: string;
+          content: string;
+          file_size: number;
+          restored_from_version: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          file_id: string;
+          user_id: string;
+          version: number;
+          title: string;
+          content: string;
+          file_size?: number;
+          restored_from_version?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          file_id?: string;
+          user_id?: string;
+          version?: number;
+          title?: string;
+          content?: string;
+          file_size?: number;
+          restored_from_version?: number | null;
+          created_at?: string;
+        };
+      };
+      user_folders: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          parent_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          parent_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          parent_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
         };
       };
       user_preferences: {
@@ -271,6 +335,10 @@ export interface FileData {
   updatedAt?: string;
   fileSize?: number;
   version?: number;
+  /** When the file was moved to the Trash (set for trashed files only) */
+  deletedAt?: string;
+  /** Folder containing the file; null for the root folder */
+  folderId?: string | null;
 }
 
 /**
@@ -290,6 +358,8 @@ export const dbRowToFileData = (
     updatedAt: row.updated_at,
     fileSize: row.file_size,
     version: row.version,
+    deletedAt: row.deleted_at ?? undefined,
+    folderId: row.folder_id ?? null,
   };
 };
 
@@ -308,6 +378,66 @@ export const fileDataToDbInsert = (
     tags: fileData.tags || [],
     is_template: fileData.isTemplate || false,
     file_size: fileData.content.length,
-    version: 1,
+    version: fileData.version || 1,
+    // Only write the folder when it is known, so saves from the editor keep the current folder
+    ...(fileData.folderId !== undefined && { folder_id: fileData.folderId }),
+  };
+};
+
+/**
+ * Folder interface - folders nest through parentId (null for top-level folders)
+ */
+export interface FolderData {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Convert database folder row to FolderData interface
+ */
+export const dbRowToFolderData = (
+  row: Database['public']['Tables']['user_folders']['Row']
+): FolderData => {
+  return {
+    id: row.id,
+    name: row.name,
+    parentId: row.parent_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+};
+
+/**
+ * Revision snapshot interface - one entry per save of a file
+ */
+export interface FileRevision {
+  id: string;
+  fileId: string;
+  version: number;
+  title: string;
+  content: string;
+  fileSize: number;
+  createdAt: string;
+  restoredFromVersion?: number;
+}
+
+/**
+ * Convert database revision row to FileRevision interface
+ */
+export const dbRowToFileRevision = (
+  row: Database['public']['Tables']['file_revisions']['Row']
+): FileRevision => {
+  return {
+    id: row.id,
+    fileId: row.file_id,
+    version: row.version,
+    title: row.title,
+    content: row.content,
+    fileSize: row.file_size,
+    createdAt: row.created_at,
+    restoredFromVersion: row.restored_from_version ?? undefined,
   };
 };
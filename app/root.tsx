@@ -10,6 +10,7 @@ import { FileContextProvider } from '@/contexts/FileContextProvider';
 import { fixRedirectLoop } from '@/utils/auth/redirects';
 import type { Route } from './+types/root';
 
+import 'katex/dist/katex.min.css';
 import './tailwind.css';
 import './styles/dropdown-improvements.css';
 import './styles/transitions.css';
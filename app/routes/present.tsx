@@ -0,0 +1,44 @@
+import type { MetaFunction } from 'react-router';
+import { PresentationView, usePresentationReceiver } from '@/components/features/Presentation';
+import { useTheme } from '@/components/features/ThemeSelector';
+import SecureErrorBoundary from '@/components/shared/SecureErrorBoundary';
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: 'Present - MarkDown Ultra Editor' },
+    {
+      name: 'description',
+      content: 'Live slideshow of the document open in the markdown editor',
+    },
+    { name: 'viewport', content: 'width=device-width, initial-scale=1' },
+    { name: 'robots', content: 'noindex' },
+  ];
+};
+
+/**
+ * Presentation window content, synced live with the editor window
+ */
+function LivePresentation() {
+  const presentation = usePresentationReceiver();
+  const { currentTheme } = useTheme();
+
+  return (
+    <PresentationView
+      markdown={presentation?.markdown ?? ''}
+      fileName={presentation?.fileName ?? ''}
+      theme={presentation?.theme ?? currentTheme}
+      isWaiting={!presentation}
+    />
+  );
+}
+
+/**
+ * Main presentation route component
+ */
+export default function PresentRoute() {
+  return (
+    <SecureErrorBoundary>
+      <LivePresentation />
+    </SecureErrorBoundary>
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Image attachment storage: IndexedDB locally, a Supabase storage bucket for signed-in users
+ * @author Axel Modra
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase';
+import { safeConsole } from '@/utils/console';
+import { formatFileSize } from '@/utils/simpleCompression';
+
+const DB_NAME = 'markdownEditor_attachments';
+const DB_VERSION = 1;
+const STORE_NAME = 'attachments';
+
+/** Supabase storage bucket; objects are stored under the user's id */
+const BUCKET_NAME = 'attachments';
+
+/** Largest image that can be attached */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export interface AttachmentData {
+  /** Unique id, ending with the image's file extension */
+  id: string;
+  /** Original file name */
+  name: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+interface StoredAttachment extends AttachmentData {
+  blob: Blob;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry when opening failed
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const createAttachmentId = (mimeType: string): string => {
+  const extension = mimeType.split('/')[1]?.replace('+xml', '').replace('jpeg', 'jpg') || 'img';
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}.${extension}`;
+};
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Stores pasted and dropped images. Signed-in users keep them in the storage bucket
+ * (with a local copy as cache); otherwise they only live in this browser's IndexedDB.
+ */
+class AttachmentStorage {
+  private supabaseClient: SupabaseClient<Database> | null = null;
+  private userId: string | null = null;
+  private objectUrls = new Map<string, string>();
+
+  /**
+   * Use the cloud bucket for the signed-in user, or local storage only when both are null
+   */
+  configure(supabaseClient: SupabaseClient<Database> | null, userId: string | null): void {
+    this.supabaseClient = supabaseClient;
+    this.userId = userId;
+  }
+
+  get isAuthenticated(): boolean {
+    return !!(this.supabaseClient && this.userId);
+  }
+
+  private getCloudPath(id: string): string {
+    return `${this.userId}/${id}`;
+  }
+
+  async save(file: Blob, name: string): Promise<AttachmentData> {
+    if (!file.type.startsWith('image/')) {
+      throw new Error('Only images can be attached');
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(
+        `Images larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)} can't be attached`
+      );
+    }
+
+    const attachment: AttachmentData = {
+      id: createAttachmentId(file.type),
+      name,
+      mimeType: file.type,
+      size: file.size,
+      createdAt: new Date().toISOString(),
+    };
+
+    if (this.supabaseClient && this.userId) {
+      const { error } = await this.supabaseClient.storage
+        .from(BUCKET_NAME)
+        .upload(this.getCloudPath(attachment.id), file, { contentType: file.type });
+      if (error) throw error;
+    }
+
+    try {
+      await runRequest('readwrite', (store) => store.put({ ...attachment, blob: file }));
+    } catch (error) {
+      // Only a cache once the image is in the cloud
+      if (!this.isAuthenticated) throw error;
+      safeConsole.warn('Failed to cache attachment locally:', error);
+    }
+
+    return attachment;
+  }
+
+  async load(id: string): Promise<Blob | null> {
+    try {
+      const local = await runRequest<StoredAttachment | undefined>('readonly', (store) =>
+        store.get(id)
+      );
+      if (local) return local.blob;
+    } catch (error) {
+      safeConsole.warn('Failed to read local attachment:', error);
+    }
+
+    if (!this.supabaseClient || !this.userId) return null;
+
+    const { data, error } = await this.supabaseClient.storage
+      .from(BUCKET_NAME)
+      .download(this.getCloudPath(id));
+    if (error || !data) {
+      safeConsole.warn('Failed to download attachment:', error);
+      return null;
+    }
+
+    runRequest('readwrite', (store) =>
+      store.put({
+        id,
+        name: id,
+        mimeType: data.type,
+        size: data.size,
+        createdAt: new Date().toISOString(),
+        blob: data,
+      })
+    ).catch((cacheError) => {
+      safeConsole.warn('Failed to cache attachment locally:', cacheError);
+    });
+
+    return data;
+  }
+
+  /**
+   * URL for showing the attachment in this page; kept for the rest of the session
+   */
+  async getObjectUrl(id: string): Promise<string | null> {
+    const cached = this.objectUrls.get(id);
+    if (cached) return cached;
+
+    const blob = await this.load(id);
+    if (!blob) return null;
+
+    const url = URL.createObjectURL(blob);
+    this.objectUrls.set(id, url);
+    return url;
+  }
+
+  /**
+   * Data URL for embedding the attachment in exported documents
+   */
+  async getDataUrl(id: string): Promise<string | null> {
+    const blob = await this.load(id);
+    return blob ? readAsDataUrl(blob) : null;
+  }
+}
+
+export const attachmentStorage = new AttachmentStorage();
@@ -8,26 +8,77 @@ import {
   getStorageItem,
   getStorageJSON,
   removeStorageItem,
+  setStorageItem,
   setStorageJSON,
 } from '@/components/editor/MarkdownEditor/utils/storageUtils';
 import {
   type Database,
   dbRowToFileData,
+  dbRowToFileRevision,
+  dbRowToFolderData,
   type FileData,
+  type FileRevision,
+  type FolderData,
   fileDataToDbInsert,
   handleSupabaseError,
 } from '@/lib/supabase';
 import { safeConsole } from '@/utils/console';
+import { assertValidFolderMove, getChildFolders, validateFolderName } from '@/utils/folderUtils';
 import { compressContent, decompressContent, formatFileSize } from '@/utils/simpleCompression';
+import { applyFrontMatterTagChanges } from '@/utils/tagUtils';
 
 // Storage keys for localStorage
 const STORAGE_KEYS = {
   FILES_LIST: 'markdownEditor_filesList',
   FILE_PREFIX: 'markdownEditor_file_',
+  REVISION_PREFIX: 'markdownEditor_revisions_',
   LAST_SYNC: 'markdownEditor_lastSync',
   USER_PREFERENCES: 'markdownEditor_userPrefs',
+  TRASH_LIST: 'markdownEditor_trashList',
+  FOLDERS_LIST: 'markdownEditor_foldersList',
+  TRASH_RETENTION_DAYS: 'markdownEditor_trashRetentionDays',
 } as const;
 
+/**
+ * How long deleted files stay in the Trash before they are purged
+ */
+export const TRASH_RETENTION = {
+  DEFAULT_DAYS: 30,
+  OPTIONS_DAYS: [7, 14, 30, 60, 90],
+} as const;
+
+/**
+ * Read the configured Trash retention period in days
+ */
+export const getTrashRetentionDays = (): number => {
+  const days = Number(getStorageItem(STORAGE_KEYS.TRASH_RETENTION_DAYS));
+  return Number.isInteger(days) && days > 0 ? days : TRASH_RETENTION.DEFAULT_DAYS;
+};
+
+/**
+ * Persist the Trash retention period in days
+ */
+export const setTrashRetentionDays = (days: number): void => {
+  setStorageItem(STORAGE_KEYS.TRASH_RETENTION_DAYS, String(days));
+};
+
+/**
+ * ISO timestamp before which trashed files are due for purging
+ */
+const getTrashPurgeCutoff = (retentionDays: number): string =>
+  new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Title for a restored file whose original title is taken by an active file
+ */
+const getRestoredTitle = (title: string, takenTitles: Set<string>): string => {
+  let candidate = `${title} (restored)`;
+  for (let index = 2; takenTitles.has(candidate); index++) {
+    candidate = `${title} (restored ${index})`;
+  }
+  return candidate;
+};
+
 /**
  * Pagination options for file listing
  */
@@ -35,6 +86,16 @@ export interface PaginationOptions {
   limit?: number;
   cursor?: string;
   includeContent?: boolean;
+  /** Only list files in this folder (null = root folder, undefined = every folder) */
+  folderId?: string | null;
+}
+
+/**
+ * New tag list for a single file
+ */
+export interface FileTagsUpdate {
+  fileId: string;
+  tags: string[];
 }
 
 /**
@@ -52,14 +113,24 @@ const STORAGE_LIMITS = {
   MAX_FILES_PER_USER: 100,
   MAX_FILE_SIZE: 1024 * 1024, // 1MB
   MAX_TOTAL_SIZE: 50 * 1024 * 1024, // 50MB
+  MAX_LOCAL_REVISIONS_PER_FILE: 20, // localStorage quota is small, keep the newest only
+  MAX_REVISIONS_LISTED: 200,
 } as const;
 
+/**
+ * Metadata recorded alongside the revision snapshot of a save
+ */
+export interface RevisionOptions {
+  /** Version the saved content was restored from, if any */
+  restoredFromVersion?: number;
+}
+
 /**
  * File storage service interface
  */
 export interface FileStorageService {
   // Cloud operations (authenticated users)
-  saveToCloud(file: FileData): Promise<FileData>;
+  saveToCloud(file: FileData, revision?: RevisionOptions): Promise<FileData>;
   loadFromCloud(fileId: string): Promise<FileData | null>;
   listCloudFiles(): Promise<FileData[]>;
   listCloudFilesPaginated(options?: PaginationOptions): Promise<PaginatedFileResponse>;
@@ -74,17 +145,56 @@ export interface FileStorageService {
   batchDeleteFromCloud(fileIds: string[]): Promise<void>;
 
   // Local operations (non-authenticated users)
-  saveToLocal(file: FileData): void;
+  saveToLocal(file: FileData, revision?: RevisionOptions): void;
   loadFromLocal(fileName: string): FileData | null;
   listLocalFiles(): FileData[];
   deleteFromLocal(fileName: string): void;
 
+  // Trash operations (deleted files are kept until restored, deleted forever or purged)
+  listCloudTrash(): Promise<FileData[]>;
+  restoreFromCloudTrash(fileIds: string[]): Promise<FileData[]>;
+  permanentlyDeleteFromCloud(fileIds: string[]): Promise<void>;
+  purgeCloudTrash(retentionDays: number): Promise<number>;
+  listLocalTrash(): FileData[];
+  restoreFromLocalTrash(fileIds: string[]): FileData[];
+  permanentlyDeleteFromLocal(fileIds: string[]): void;
+  purgeLocalTrash(retentionDays: number): number;
+
+  // Revision history operations
+  listCloudRevisions(fileId: string): Promise<FileRevision[]>;
+  loadCloudRevision(fileId: string, revisionId: string): Promise<FileRevision | null>;
+  listLocalRevisions(fileName: string): FileRevision[];
+  loadLocalRevision(fileName: string, revisionId: string): FileRevision | null;
+
   // Unified operations
   save(file: FileData): Promise<FileData>;
+  batchSave(files: FileData[]): Promise<FileData[]>;
   load(identifier: string): Promise<FileData | null>;
   list(): Promise<FileData[]>;
   listPaginated(options?: PaginationOptions): Promise<PaginatedFileResponse>;
   delete(identifier: string): Promise<void>;
+  listTrash(): Promise<FileData[]>;
+  restoreFromTrash(fileIds: string[]): Promise<FileData[]>;
+  deleteForever(fileIds: string[]): Promise<void>;
+  purgeTrash(retentionDays: number): Promise<number>;
+  listRevisions(identifier: string): Promise<FileRevision[]>;
+  loadRevision(identifier: string, revisionId: string): Promise<FileRevision | null>;
+  restoreRevision(identifier: string, revisionId: string): Promise<FileData>;
+
+  // Folder operations (deleting a folder moves its contents to the parent folder)
+  listFolders(): Promise<FolderData[]>;
+  createFolder(name: string, parentId: string | null): Promise<FolderData>;
+  renameFolder(folderId: string, name: string): Promise<FolderData>;
+  moveFolder(folderId: string, parentId: string | null): Promise<FolderData>;
+  deleteFolder(folderId: string): Promise<void>;
+  moveFilesToFolder(fileIds: string[], folderId: string | null): Promise<void>;
+
+  // Tag operations (only the tags change, no new version or revision is recorded)
+  updateFileTags(updates: FileTagsUpdate[]): Promise<void>;
+
+  // Search operations (every active file with its decompressed content)
+  listCloudFilesWithContent(): Promise<FileData[]>;
+  listWithContent(): Promise<FileData[]>;
 
   // Utility operations
   getStorageInfo(): StorageInfo;
@@ -173,6 +283,7 @@ export class HybridFileStorage implements FileStorageService {
             const fileToRemove = files[i];
             const fileKey = `${STORAGE_KEYS.FILE_PREFIX}${fileToRemove.id}`;
             removeStorageItem(fileKey);
+            removeStorageItem(`${STORAGE_KEYS.REVISION_PREFIX}${fileToRemove.id}`);
             cleanedCount++;
           }
         }
@@ -191,7 +302,7 @@ export class HybridFileStorage implements FileStorageService {
   }
 
   // Cloud operations
-  async saveToCloud(file: FileData): Promise<FileData> {
+  async saveToCloud(file: FileData, revision: RevisionOptions = {}): Promise<FileData> {
     if (!this.supabaseClient || !this.userId) {
       throw new Error('Not authenticated for cloud storage');
     }
@@ -230,26 +341,42 @@ export class HybridFileStorage implements FileStorageService {
 
       // Check if file exists (update) or create new
       if (file.id) {
-        // Update existing file by ID
+        // Update existing file by ID, bumping its version; files in Trash are left untouched
+        const current = await this.getCurrentCloudFile(file.id);
         const { data, error } = await this.getTypedSupabaseClient()
           .from('user_files')
           .update({
             ...dbInsert,
+            tags: applyFrontMatterTagChanges(dbInsert.tags, file.content, current.content),
+            version: current.version + 1,
             updated_at: new Date().toISOString(),
           })
           .eq('id', file.id)
           .eq('user_id', this.userId)
+          .eq('is_deleted', false)
           .select('id, title, file_type, updated_at, file_size, version')
           .single();
 
-        if (error) {
+        // PGRST116: no live file with this ID
+        if (error && error.code !== 'PGRST116') {
           handleSupabaseError(error, 'update file');
           throw error;
         }
 
-        const fileRow = data as Database['public']['Tables']['user_files']['Row'];
-        safeConsole.log('File updated in cloud:', fileRow.title);
-        return dbRowToFileData(fileRow);
+        if (data) {
+          const fileRow = data as Database['public']['Tables']['user_files']['Row'];
+          safeConsole.log('File updated in cloud:', fileRow.title);
+          await this.recordCloudRevision(
+            fileRow,
+            optimizedFile.content,
+            compressionResult.originalSize,
+            revision
+          );
+          return dbRowToFileData(fileRow);
+        }
+
+        // The file was moved to Trash (or deleted) meanwhile: save by title below instead
+        safeConsole.log('File no longer exists in cloud, saving by title:', file.title);
       }
 
       // Enhanced duplicate prevention: Check by title AND content hash
@@ -257,7 +384,7 @@ export class HybridFileStorage implements FileStorageService {
 
       const { data: existingFile } = await this.getTypedSupabaseClient()
         .from('user_files')
-        .select('id, title, content, updated_at')
+        .select('id, title, content, updated_at, version')
         .eq('user_id', this.userId)
         .eq('title', file.title)
         .eq('is_deleted', false)
@@ -284,6 +411,12 @@ export class HybridFileStorage implements FileStorageService {
           .from('user_files')
           .update({
             ...dbInsert,
+            tags: applyFrontMatterTagChanges(
+              dbInsert.tags,
+              file.content,
+              decompressContent(existingFileRow.content)
+            ),
+            version: (existingFileRow.version || 0) + 1,
             updated_at: new Date().toISOString(),
           })
           .eq('id', existingFileRow.id)
@@ -298,13 +431,23 @@ export class HybridFileStorage implements FileStorageService {
 
         const updatedFileRow = data as Database['public']['Tables']['user_files']['Row'];
         safeConsole.log('Existing file updated in cloud:', updatedFileRow.title);
+        await this.recordCloudRevision(
+          updatedFileRow,
+          optimizedFile.content,
+          compressionResult.originalSize,
+          revision
+        );
         return dbRowToFileData(updatedFileRow);
       }
 
-      // File doesn't exist - create new
+      // File doesn't exist - create new, taking all tags from front matter
       const { data, error } = await this.getTypedSupabaseClient()
         .from('user_files')
-        .insert(dbInsert)
+        .insert({
+          ...dbInsert,
+          tags: applyFrontMatterTagChanges(dbInsert.tags, file.content),
+          version: 1,
+        })
         .select('id, title, file_type, created_at, updated_at, file_size, version')
         .single();
 
@@ -315,6 +458,12 @@ export class HybridFileStorage implements FileStorageService {
 
       const createdFileRow = data as Database['public']['Tables']['user_files']['Row'];
       safeConsole.log('File created in cloud:', createdFileRow.title);
+      await this.recordCloudRevision(
+        createdFileRow,
+        optimizedFile.content,
+        compressionResult.originalSize,
+        revision
+      );
       return dbRowToFileData(createdFileRow);
     } catch (error) {
       safeConsole.error('Error saving file to cloud:', error);
@@ -322,6 +471,143 @@ export class HybridFileStorage implements FileStorageService {
     }
   }
 
+  /**
+   * Get the current version (0 when the file has none yet) and saved content of a cloud file
+   */
+  private async getCurrentCloudFile(
+    fileId: string
+  ): Promise<{ version: number; content: string | undefined }> {
+    const { data, error } = await this.getTypedSupabaseClient()
+      .from('user_files')
+      .select('version, content')
+      .eq('id', fileId)
+      .eq('user_id', this.userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return { version: 0, content: undefined };
+      }
+      handleSupabaseError(error, 'get file version');
+      throw error;
+    }
+
+    const row = data as { version: number | null; content: string | null } | null;
+    return {
+      version: row?.version || 0,
+      content: row?.content ? decompressContent(row.content) : undefined,
+    };
+  }
+
+  /**
+   * Store a revision snapshot for a saved cloud file.
+   * The file itself is already persisted, so a failure here is logged and not rethrown.
+   */
+  private async recordCloudRevision(
+    fileRow: Database['public']['Tables']['user_files']['Row'],
+    storedContent: string,
+    originalSize: number,
+    revision: RevisionOptions
+  ): Promise<void> {
+    try {
+      const { error } = await this.getTypedSupabaseClient()
+        .from('file_revisions')
+        .insert({
+          file_id: fileRow.id,
+          user_id: this.userId,
+          version: fileRow.version || 1,
+          title: fileRow.title,
+          content: storedContent,
+          file_size: originalSize,
+          restored_from_version: revision.restoredFromVersion ?? null,
+        });
+
+      if (error) {
+        handleSupabaseError(error, 'record file revision');
+        throw error;
+      }
+
+      safeConsole.log(`Revision v${fileRow.version || 1} recorded for:`, fileRow.title);
+    } catch (error) {
+      safeConsole.error('Error recording file revision:', error);
+    }
+  }
+
+  /**
+   * List revisions of a cloud file, newest first (content excluded)
+   */
+  async listCloudRevisions(fileId: string): Promise<FileRevision[]> {
+    if (!this.supabaseClient || !this.userId) {
+      throw new Error('Not authenticated for cloud storage');
+    }
+
+    try {
+      safeConsole.log('Listing revisions from cloud:', fileId);
+
+      const { data, error } = await this.getTypedSupabaseClient()
+        .from('file_revisions')
+        .select(
+          'id, file_id, user_id, version, title, file_size, restored_from_version, created_at'
+        )
+        .eq('file_id', fileId)
+        .eq('user_id', this.userId)
+        .order('created_at', { ascending: false })
+        .limit(STORAGE_LIMITS.MAX_REVISIONS_LISTED);
+
+      if (error) {
+        handleSupabaseError(error, 'list file revisions');
+        throw error;
+      }
+
+      const revisionRows = (data || []) as Database['public']['Tables']['file_revisions']['Row'][];
+      return revisionRows.map((row) => dbRowToFileRevision({ ...row, content: '' }));
+    } catch (error) {
+      safeConsole.error('Error listing revisions from cloud:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a single cloud revision including its content
+   */
+  async loadCloudRevision(fileId: string, revisionId: string): Promise<FileRevision | null> {
+    if (!this.supabaseClient || !this.userId) {
+      throw new Error('Not authenticated for cloud storage');
+    }
+
+    try {
+      const { data, error } = await this.getTypedSupabaseClient()
+        .from('file_revisions')
+        .select(
+          'id, file_id, user_id, version, title, content, file_size, restored_from_version, created_at'
+        )
+        .eq('id', revisionId)
+        .eq('file_id', fileId)
+        .eq('user_id', this.userId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          safeConsole.log('Revision not found in cloud:', revisionId);
+          return null;
+        }
+        handleSupabaseError(error, 'load file revision');
+        throw error;
+      }
+
+      const revision = dbRowToFileRevision(
+        data as Database['public']['Tables']['file_revisions']['Row']
+      );
+      return {
+        ...revision,
+        content: decompressContent(revision.content),
+      };
+    } catch (error) {
+      safeConsole.error('Error loading revision from cloud:', error);
+      throw error;
+    }
+  }
+
   /**
    * Load file metadata only (without content) - CPU efficient
    */
@@ -411,7 +697,7 @@ export class HybridFileStorage implements FileStorageService {
       const { data, error } = await this.getTypedSupabaseClient()
         .from('user_files')
         .select(
-          'id, user_id, title, content, file_type, tags, created_at, updated_at, is_template, file_size, version, is_deleted, deleted_at'
+          'id, user_id, title, content, file_type, tags, created_at, updated_at, is_template, file_size, version, is_deleted, deleted_at, folder_id'
         )
         .eq('id', fileId)
         .eq('user_id', this.userId)
@@ -456,7 +742,7 @@ export class HybridFileStorage implements FileStorageService {
       const { data, error } = await this.getTypedSupabaseClient()
         .from('user_files')
         .select(
-          'id, user_id, title, file_type, tags, created_at, updated_at, is_template, file_size, version, is_deleted, deleted_at'
+          'id, user_id, title, file_type, tags, created_at, updated_at, is_template, file_size, version, is_deleted, deleted_at, folder_id'
         )
         .eq('user_id', this.userId)
         .eq('is_deleted', false)
@@ -483,7 +769,7 @@ export class HybridFileStorage implements FileStorageService {
    * Uses cursor-based pagination for efficient large dataset handling
    */
   async listCloudFilesPaginated(
-    options: { limit?: number; cursor?: string; includeContent?: boolean } = {}
+    options: PaginationOptions = {}
   ): Promise<{
     files: FileData[];
     nextCursor?: string;
@@ -494,13 +780,18 @@ export class HybridFileStorage implements FileStorageService {
       throw new Error('Not authenticated for cloud storage');
     }
 
-    const { limit = 20, cursor, includeContent = false } = options;
+    const { limit = 20, cursor, includeContent = false, folderId } = options;
 
     try {
-      safeConsole.log('Listing files from cloud (paginated):', { limit, cursor, includeContent });
+      safeConsole.log('Listing files from cloud (paginated):', {
+        limit,
+        cursor,
+        includeContent,
+        folderId,
+      });
 
       // Base columns untuk listing (exclude content untuk performa)
-      const baseColumns = 'id, title, file_type, tags, updated_at, file_size, is_template';
+      const baseColumns = 'id, title, file_type, tags, updated_at, file_size, is_template, folder_id';
       const selectColumns = includeContent ? `${baseColumns}, content` : baseColumns;
 
       let query = this.getTypedSupabaseClient()
@@ -515,6 +806,13 @@ export class HybridFileStorage implements FileStorageService {
         query = query.lt('updated_at', cursor);
       }
 
+      // Folder-aware listing: null filters the root folder, undefined lists every folder
+      if (folderId === null) {
+        query = query.is('folder_id', null);
+      } else if (folderId !== undefined) {
+        query = query.eq('folder_id', folderId);
+      }
+
       const { data, error } = await query;
 
       if (error) {
@@ -548,17 +846,23 @@ export class HybridFileStorage implements FileStorageService {
     }
   }
 
+  /**
+   * Move a cloud file to the Trash (soft delete); it stays restorable until purged
+   */
   async deleteFromCloud(fileId: string): Promise<void> {
     if (!this.supabaseClient || !this.userId) {
       throw new Error('Not authenticated for cloud storage');
     }
 
-    safeConsole.log('Attempting to permanently delete file from cloud:', fileId);
+    safeConsole.log('Moving cloud file to trash:', fileId);
 
     try {
-      const { error } = await this.supabaseClient
+      const { error } = await this.getTypedSupabaseClient()
         .from('user_files')
-        .delete()
+        .update({
+          is_deleted: true,
+          deleted_at: new Date().toISOString(),
+        })
         .eq('id', fileId)
         .eq('user_id', this.userId);
 
@@ -567,9 +871,9 @@ export class HybridFileStorage implements FileStorageService {
         throw error;
       }
 
-      safeConsole.log('File permanently deleted from cloud successfully:', fileId);
+      safeConsole.log('File moved to trash in cloud:', fileId);
     } catch (error) {
-      safeConsole.error('Error permanently deleting file from cloud:', {
+      safeConsole.error('Error moving cloud file to trash:', {
         fileId,
         userId: this.userId,
         error: error instanceof Error ? error.message : String(error),
@@ -578,8 +882,194 @@ export class HybridFileStorage implements FileStorageService {
     }
   }
 
+  async listCloudTrash(): Promise<FileData[]> {
+    if (!this.supabaseClient || !this.userId) {
+      throw new Error('Not authenticated for cloud storage');
+    }
+
+    try {
+      const { data, error } = await this.getTypedSupabaseClient()
+        .from('user_files')
+        .select(
+          'id, user_id, title, file_type, tags, created_at, updated_at, is_template, file_size, version, is_deleted, deleted_at, folder_id'
+        )
+        .eq('user_id', this.userId)
+        .eq('is_deleted', true)
+        .order('deleted_at', { ascending: false })
+        .limit(1000);
+
+      if (error) {
+        handleSupabaseError(error, 'list trash');
+        throw error;
+      }
+
+      const fileRows = data as Database['public']['Tables']['user_files']['Row'][];
+      safeConsole.log(`Loaded ${fileRows.length} trashed files from cloud`);
+      return fileRows.map((row) => dbRowToFileData({ ...row, content: '' }));
+    } catch (error) {
+      safeConsole.error('Error listing trash from cloud:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore trashed cloud files. A file whose title is now used by another
+   * active file is restored under a "(restored)" title instead.
+   */
+  async restoreFromCloudTrash(fileIds: string[]): Promise<FileData[]> {
+    if (!this.supabaseClient || !this.userId) {
+      throw new Error('Not authenticated for cloud storage');
+    }
+
+    if (fileIds.length === 0) return [];
+
+    try {
+      safeConsole.log(`Restoring ${fileIds.length} files from cloud trash`);
+
+      const { data: trashedData, error: trashedError } = await this.getTypedSupabaseClient()
+        .from('user_files')
+        .select('id, title')
+        .in('id', fileIds)
+        .eq('user_id', this.userId)
+        .eq('is_deleted', true);
+
+      if (trashedError) {
+        handleSupabaseError(trashedError, 'load trashed files');
+        throw trashedError;
+      }
+
+      const trashedRows = (trashedData || []) as { id: string; title: string }[];
+      if (trashedRows.length === 0) return [];
+
+      const { data: activeData, error: activeError } = await this.getTypedSupabaseClient()
+        .from('user_files')
+        .select('title')
+        .eq('user_id', this.userId)
+        .eq('is_deleted', false)
+        .in(
+          'title',
+          trashedRows.map((row) => row.title)
+        );
+
+      if (activeError) {
+        handleSupabaseError(activeError, 'check restored titles');
+        throw activeError;
+      }
+
+      const takenTitles = new Set(((activeData || []) as { title: string }[]).map((r) => r.title));
+      const restoredFiles: FileData[] = [];
+
+      for (const row of trashedRows) {
+        const title = takenTitles.has(row.title)
+          ? getRestoredTitle(row.title, takenTitles)
+          : row.title;
+        takenTitles.add(title);
+
+        const { data, error } = await this.getTypedSupabaseClient()
+          .from('user_files')
+          .update({ title, is_deleted: false, deleted_at: null })
+          .eq('id', row.id)
+          .eq('user_id', this.userId)
+          .select('id, title, file_type, created_at, updated_at, file_size, version')
+          .single();
+
+        if (error) {
+          handleSupabaseError(error, 'restore file');
+          throw error;
+        }
+
+        restoredFiles.push(
+          dbRowToFileData(data as Database['public']['Tables']['user_files']['Row'])
+        );
+      }
+
+      safeConsole.log(`Restored ${restoredFiles.length} files from cloud trash`);
+      return restoredFiles;
+    } catch (error) {
+      safeConsole.error('Error restoring files from cloud trash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete trashed cloud files together with their revision history
+   */
+  async permanentlyDeleteFromCloud(fileIds: string[]): Promise<void> {
+    if (!this.supabaseClient || !this.userId) {
+      throw new Error('Not authenticated for cloud storage');
+    }
+
+    if (fileIds.length === 0) return;
+
+    safeConsole.log(`Permanently deleting ${fileIds.length} files from cloud`);
+
+    try {
+      const { error: revisionsError } = await this.getTypedSupabaseClient()
+        .from('file_revisions')
+        .delete()
+        .in('file_id', fileIds)
+        .eq('user_id', this.userId);
+
+      if (revisionsError) {
+        handleSupabaseError(revisionsError, 'delete file revisions');
+        throw revisionsError;
+      }
+
+      const { error } = await this.getTypedSupabaseClient()
+        .from('user_files')
+        .delete()
+        .in('id', fileIds)
+        .eq('user_id', this.userId)
+        .eq('is_deleted', true);
+
+      if (error) {
+        handleSupabaseError(error, 'permanently delete files');
+        throw error;
+      }
+
+      safeConsole.log(`Permanently deleted ${fileIds.length} files from cloud`);
+    } catch (error) {
+      safeConsole.error('Error permanently deleting files from cloud:', {
+        fileIds,
+        userId: this.userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete cloud files that have been in the Trash longer than the retention period
+   * @returns Number of purged files
+   */
+  async purgeCloudTrash(retentionDays: number): Promise<number> {
+    if (!this.supabaseClient || !this.userId) {
+      throw new Error('Not authenticated for cloud storage');
+    }
+
+    const { data, error } = await this.getTypedSupabaseClient()
+      .from('user_files')
+      .select('id')
+      .eq('user_id', this.userId)
+      .eq('is_deleted', true)
+      .lt('deleted_at', getTrashPurgeCutoff(retentionDays));
+
+    if (error) {
+      handleSupabaseError(error, 'list expired trash');
+      throw error;
+    }
+
+    const expiredIds = ((data || []) as { id: string }[]).map((row) => row.id);
+    await this.permanentlyDeleteFromCloud(expiredIds);
+
+    if (expiredIds.length > 0) {
+      safeConsole.log(`Purged ${expiredIds.length} expired files from cloud trash`);
+    }
+    return expiredIds.length;
+  }
+
   // Local operations
-  saveToLocal(file: FileData): FileData {
+  saveToLocal(file: FileData, revision: RevisionOptions = {}): FileData {
     try {
       safeConsole.log('Saving file to local storage:', file.title);
 
@@ -595,17 +1085,15 @@ export class HybridFileStorage implements FileStorageService {
       const existingFiles = filesList;
       const existingFile = existingFiles.find((f: FileData) => f.title === file.title);
 
-      if (existingFile) {
+      const existingFileData = existingFile ? this.loadFromLocal(existingFile.title) : null;
+      if (existingFileData) {
         // Check if content is identical
-        const existingFileData = this.loadFromLocal(existingFile.title);
-        if (existingFileData) {
-          const existingContentHash = this.generateContentHash(existingFileData.content);
-          const newContentHash = this.generateContentHash(file.content);
-
-          if (existingContentHash === newContentHash) {
-            safeConsole.log('Content identical, skipping duplicate local save:', file.title);
-            return existingFileData;
-          }
+        const existingContentHash = this.generateContentHash(existingFileData.content);
+        const newContentHash = this.generateContentHash(file.content);
+
+        if (existingContentHash === newContentHash) {
+          safeConsole.log('Content identical, skipping duplicate local save:', file.title);
+          return existingFileData;
         }
       }
 
@@ -622,6 +1110,11 @@ export class HybridFileStorage implements FileStorageService {
         ...file,
         id: fileId,
         content: compressionResult.content,
+        // Front matter tag edits since the last save, like cloud saves
+        tags: applyFrontMatterTagChanges(file.tags, file.content, existingFileData?.content),
+        version: (existingFile?.version || file.version || 0) + 1,
+        // Saves from the editor don't carry the folder, keep the one the file is in
+        folderId: file.folderId !== undefined ? file.folderId : (existingFile?.folderId ?? null),
       };
 
       // Log compression stats for local storage
@@ -644,6 +1137,8 @@ export class HybridFileStorage implements FileStorageService {
       updatedList.unshift(fileWithId);
       setStorageJSON(STORAGE_KEYS.FILES_LIST, updatedList);
 
+      this.recordLocalRevision(fileWithId, compressionResult.originalSize, revision);
+
       safeConsole.log('File saved to local storage:', file.title);
 
       // Return the saved file with decompressed content
@@ -707,29 +1202,184 @@ export class HybridFileStorage implements FileStorageService {
     }
   }
 
+  /**
+   * Move a local file to the Trash; its content and revisions are kept until purged
+   */
   deleteFromLocal(fileName: string): void {
     try {
-      safeConsole.log('Deleting file from local storage:', fileName);
+      safeConsole.log('Moving local file to trash:', fileName);
 
-      // Remove from files list
       const filesList = this.listLocalFiles();
-      const updatedList = filesList.filter((f) => f.title !== fileName && f.id !== fileName);
-      setStorageJSON(STORAGE_KEYS.FILES_LIST, updatedList);
-
-      // Remove individual file data
       const fileToDelete = filesList.find((f) => f.title === fileName || f.id === fileName);
-      if (fileToDelete?.id) {
-        const fileKey = `${STORAGE_KEYS.FILE_PREFIX}${fileToDelete.id}`;
-        removeStorageItem(fileKey);
+      if (!fileToDelete) {
+        safeConsole.log('File not found in local storage:', fileName);
+        return;
       }
 
-      safeConsole.log('File deleted from local storage:', fileName);
+      setStorageJSON(
+        STORAGE_KEYS.FILES_LIST,
+        filesList.filter((f) => f !== fileToDelete)
+      );
+      setStorageJSON(STORAGE_KEYS.TRASH_LIST, [
+        { ...fileToDelete, deletedAt: new Date().toISOString() },
+        ...this.listLocalTrash(),
+      ]);
+
+      safeConsole.log('File moved to trash in local storage:', fileName);
     } catch (error) {
       safeConsole.error('Error deleting file from local storage:', error);
       throw error;
     }
   }
 
+  listLocalTrash(): FileData[] {
+    return getStorageJSON<FileData[]>(STORAGE_KEYS.TRASH_LIST, []) || [];
+  }
+
+  /**
+   * Restore trashed local files, renaming them when their title is taken by an active file
+   */
+  restoreFromLocalTrash(fileIds: string[]): FileData[] {
+    const trash = this.listLocalTrash();
+    const filesList = this.listLocalFiles();
+    const takenTitles = new Set(filesList.map((f) => f.title));
+    const restoredFiles: FileData[] = [];
+
+    for (const trashedFile of trash) {
+      if (!trashedFile.id || !fileIds.includes(trashedFile.id)) continue;
+
+      const { deletedAt: _deletedAt, ...file } = trashedFile;
+      const title = takenTitles.has(file.title)
+        ? getRestoredTitle(file.title, takenTitles)
+        : file.title;
+      takenTitles.add(title);
+
+      const restoredFile = { ...file, title };
+      const fileKey = `${STORAGE_KEYS.FILE_PREFIX}${file.id}`;
+      const storedFile = getStorageJSON<FileData>(fileKey);
+      if (storedFile) {
+        setStorageJSON(fileKey, { ...storedFile, title });
+      }
+      restoredFiles.push(restoredFile);
+    }
+
+    const restoredIds = new Set(restoredFiles.map((f) => f.id));
+    setStorageJSON(STORAGE_KEYS.FILES_LIST, [...restoredFiles, ...filesList]);
+    setStorageJSON(
+      STORAGE_KEYS.TRASH_LIST,
+      trash.filter((f) => !restoredIds.has(f.id))
+    );
+
+    safeConsole.log(`Restored ${restoredFiles.length} files from local trash`);
+    return restoredFiles.map((f) => ({ ...f, content: decompressContent(f.content) }));
+  }
+
+  /**
+   * Permanently delete trashed local files together with their revision history
+   */
+  permanentlyDeleteFromLocal(fileIds: string[]): void {
+    const ids = new Set(fileIds);
+    const trash = this.listLocalTrash();
+
+    for (const fileId of ids) {
+      removeStorageItem(`${STORAGE_KEYS.FILE_PREFIX}${fileId}`);
+      removeStorageItem(`${STORAGE_KEYS.REVISION_PREFIX}${fileId}`);
+    }
+    setStorageJSON(
+      STORAGE_KEYS.TRASH_LIST,
+      trash.filter((f) => !f.id || !ids.has(f.id))
+    );
+
+    safeConsole.log(`Permanently deleted ${ids.size} files from local storage`);
+  }
+
+  /**
+   * Permanently delete local files that have been in the Trash longer than the retention period
+   * @returns Number of purged files
+   */
+  purgeLocalTrash(retentionDays: number): number {
+    const cutoff = getTrashPurgeCutoff(retentionDays);
+    const expiredIds = this.listLocalTrash()
+      .filter((f) => f.id && (!f.deletedAt || f.deletedAt < cutoff))
+      .map((f) => f.id as string);
+
+    if (expiredIds.length > 0) {
+      this.permanentlyDeleteFromLocal(expiredIds);
+      safeConsole.log(`Purged ${expiredIds.length} expired files from local trash`);
+    }
+    return expiredIds.length;
+  }
+
+  /**
+   * Resolve a local file ID from an ID or title
+   */
+  private resolveLocalFileId(fileName: string): string | null {
+    const file = this.listLocalFiles().find((f) => f.id === fileName || f.title === fileName);
+    return file?.id || null;
+  }
+
+  /**
+   * Store a revision snapshot for a saved local file, trimming the oldest
+   * snapshots when the per-file cap or the localStorage quota is hit
+   */
+  private recordLocalRevision(
+    file: FileData,
+    originalSize: number,
+    revision: RevisionOptions
+  ): void {
+    if (!file.id) return;
+
+    try {
+      const revisionKey = `${STORAGE_KEYS.REVISION_PREFIX}${file.id}`;
+      const revisions = getStorageJSON<FileRevision[]>(revisionKey, []) || [];
+      const snapshot: FileRevision = {
+        id: `rev_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+        fileId: file.id,
+        version: file.version || revisions.length + 1,
+        title: file.title,
+        content: file.content,
+        fileSize: originalSize,
+        createdAt: new Date().toISOString(),
+        restoredFromVersion: revision.restoredFromVersion,
+      };
+
+      let updatedRevisions = [snapshot, ...revisions].slice(
+        0,
+        STORAGE_LIMITS.MAX_LOCAL_REVISIONS_PER_FILE
+      );
+
+      while (!setStorageJSON(revisionKey, updatedRevisions) && updatedRevisions.length > 1) {
+        updatedRevisions = updatedRevisions.slice(0, Math.ceil(updatedRevisions.length / 2));
+      }
+    } catch (error) {
+      safeConsole.error('Error recording local file revision:', error);
+    }
+  }
+
+  listLocalRevisions(fileName: string): FileRevision[] {
+    const fileId = this.resolveLocalFileId(fileName);
+    if (!fileId) return [];
+
+    const revisions =
+      getStorageJSON<FileRevision[]>(`${STORAGE_KEYS.REVISION_PREFIX}${fileId}`, []) || [];
+    return revisions.map((revision) => ({ ...revision, content: '' }));
+  }
+
+  loadLocalRevision(fileName: string, revisionId: string): FileRevision | null {
+    const fileId = this.resolveLocalFileId(fileName);
+    if (!fileId) return null;
+
+    const revisions =
+      getStorageJSON<FileRevision[]>(`${STORAGE_KEYS.REVISION_PREFIX}${fileId}`, []) || [];
+    const revision = revisions.find((r) => r.id === revisionId);
+    if (!revision) return null;
+
+    return {
+      ...revision,
+      content: decompressContent(revision.content),
+    };
+  }
+
   // Unified operations with improved error handling
   async save(file: FileData): Promise<FileData> {
     if (this.isAuthenticated) {
@@ -747,6 +1397,16 @@ export class HybridFileStorage implements FileStorageService {
     return file;
   }
 
+  /**
+   * Save several files in one operation (one upsert by ID in the cloud)
+   */
+  async batchSave(files: FileData[]): Promise<FileData[]> {
+    if (this.isAuthenticated) {
+      return this.batchSaveToCloud(files);
+    }
+    return files.map((file) => this.saveToLocal(file));
+  }
+
   async load(identifier: string): Promise<FileData | null> {
     if (this.isAuthenticated) {
       try {
@@ -804,8 +1464,11 @@ export class HybridFileStorage implements FileStorageService {
     }
 
     // For local storage, implement simple pagination
-    const localFiles = this.listLocalFiles();
-    const { limit = 20, cursor } = options;
+    const { limit = 20, cursor, folderId } = options;
+    const localFiles =
+      folderId === undefined
+        ? this.listLocalFiles()
+        : this.listLocalFiles().filter((f) => (f.folderId ?? null) === folderId);
 
     // Simple offset-based pagination for local files
     let startIndex = 0;
@@ -831,7 +1494,7 @@ export class HybridFileStorage implements FileStorageService {
     if (this.isAuthenticated) {
       try {
         await this.deleteFromCloud(identifier);
-        safeConsole.log('Successfully deleted file from cloud:', identifier);
+        safeConsole.log('Successfully moved file to trash in cloud:', identifier);
       } catch (error) {
         safeConsole.error(
           'Failed to delete from cloud, not falling back to local for authenticated users:',
@@ -844,6 +1507,78 @@ export class HybridFileStorage implements FileStorageService {
     }
   }
 
+  async listTrash(): Promise<FileData[]> {
+    if (this.isAuthenticated) {
+      return this.listCloudTrash();
+    }
+    return this.listLocalTrash().map((file) => ({ ...file, content: '' }));
+  }
+
+  async restoreFromTrash(fileIds: string[]): Promise<FileData[]> {
+    if (this.isAuthenticated) {
+      return this.restoreFromCloudTrash(fileIds);
+    }
+    return this.restoreFromLocalTrash(fileIds);
+  }
+
+  async deleteForever(fileIds: string[]): Promise<void> {
+    if (this.isAuthenticated) {
+      await this.permanentlyDeleteFromCloud(fileIds);
+    } else {
+      this.permanentlyDeleteFromLocal(fileIds);
+    }
+  }
+
+  async purgeTrash(retentionDays: number): Promise<number> {
+    if (this.isAuthenticated) {
+      return this.purgeCloudTrash(retentionDays);
+    }
+    return this.purgeLocalTrash(retentionDays);
+  }
+
+  async listRevisions(identifier: string): Promise<FileRevision[]> {
+    if (this.isAuthenticated) {
+      return this.listCloudRevisions(identifier);
+    }
+    return this.listLocalRevisions(identifier);
+  }
+
+  async loadRevision(identifier: string, revisionId: string): Promise<FileRevision | null> {
+    if (this.isAuthenticated) {
+      return this.loadCloudRevision(identifier, revisionId);
+    }
+    return this.loadLocalRevision(identifier, revisionId);
+  }
+
+  /**
+   * Restore a revision by saving its content as a new revision,
+   * so the history is never rewritten
+   */
+  async restoreRevision(identifier: string, revisionId: string): Promise<FileData> {
+    const revision = await this.loadRevision(identifier, revisionId);
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    const currentFile = await this.load(identifier);
+    if (!currentFile) {
+      throw new Error('File not found');
+    }
+
+    safeConsole.log(`Restoring ${currentFile.title} to version ${revision.version}`);
+
+    const restoredFile: FileData = {
+      ...currentFile,
+      content: revision.content,
+    };
+    const revisionOptions = { restoredFromVersion: revision.version };
+
+    if (this.isAuthenticated) {
+      return this.saveToCloud(restoredFile, revisionOptions);
+    }
+    return this.saveToLocal(restoredFile, revisionOptions);
+  }
+
   /**
    * Optimize file for storage - compression and validation
    */
@@ -890,29 +1625,59 @@ export class HybridFileStorage implements FileStorageService {
     try {
       safeConsole.log(`🔄 Batch saving ${files.length} files to cloud`);
 
-      // Prepare batch insert data
-      const batchInserts = files.map((file) => {
-        const optimizedFile = this.optimizeFileForStorage(file);
-        return fileDataToDbInsert(optimizedFile, this.userId as string);
-      });
+      // Files are matched by ID; files in Trash are left untouched
+      const liveVersions = await this.getLiveCloudFileVersions(
+        files.flatMap((file) => (file.id ? [file.id] : []))
+      );
+      const updates = files.filter((file) => file.id && liveVersions.has(file.id));
+      const creates = files.filter((file) => !file.id || !liveVersions.has(file.id));
+
+      // Prepare batch update data, bumping each stored version
+      const optimizedUpdates = updates.map((file) => this.optimizeFileForStorage(file));
+      const batchUpdates = optimizedUpdates.map((file) => ({
+        ...fileDataToDbInsert(file, this.userId as string),
+        id: file.id,
+        version: (liveVersions.get(file.id as string) || 0) + 1,
+        updated_at: new Date().toISOString(),
+      }));
+
+      let savedRows: Database['public']['Tables']['user_files']['Row'][] = [];
+      if (batchUpdates.length > 0) {
+        // Single batch upsert - much more CPU efficient than individual updates
+        const { data, error } = await this.getTypedSupabaseClient()
+          .from('user_files')
+          .upsert(batchUpdates, {
+            onConflict: 'id',
+            ignoreDuplicates: false,
+          })
+          .select('id, title, file_type, created_at, updated_at, file_size, version');
 
-      // Single batch insert - much more CPU efficient than individual inserts
-      const { data, error } = await this.getTypedSupabaseClient()
-        .from('user_files')
-        .upsert(batchInserts, {
-          onConflict: 'user_id,title',
-          ignoreDuplicates: false,
-        })
-        .select('id, title, file_type, created_at, updated_at, file_size, version');
+        if (error) {
+          handleSupabaseError(error, 'batch save files');
+          throw error;
+        }
 
-      if (error) {
-        handleSupabaseError(error, 'batch save files');
-        throw error;
+        savedRows = (data || []) as Database['public']['Tables']['user_files']['Row'][];
       }
 
-      const savedFiles = (data || []).map(
-        (row: Database['public']['Tables']['user_files']['Row']) => dbRowToFileData(row)
+      // Every batch-saved file gets a revision, same as saveToCloud
+      await Promise.all(
+        savedRows.map((row) => {
+          const index = updates.findIndex((file) => file.id === row.id);
+          if (index === -1) return Promise.resolve();
+          return this.recordCloudRevision(
+            row,
+            optimizedUpdates[index].content,
+            updates[index].content.length,
+            {}
+          );
+        })
       );
+
+      // Files without a live row (new, or moved to Trash meanwhile) are saved one by one
+      const createdFiles = await Promise.all(creates.map((file) => this.saveToCloud(file)));
+
+      const savedFiles = [...savedRows.map((row) => dbRowToFileData(row)), ...createdFiles];
       safeConsole.log(`✅ Batch saved ${savedFiles.length} files to cloud`);
 
       return savedFiles;
@@ -922,6 +1687,28 @@ export class HybridFileStorage implements FileStorageService {
     }
   }
 
+  /**
+   * Current versions of the given cloud files that are not in the Trash, keyed by ID
+   */
+  private async getLiveCloudFileVersions(fileIds: string[]): Promise<Map<string, number>> {
+    if (fileIds.length === 0) return new Map();
+
+    const { data, error } = await this.getTypedSupabaseClient()
+      .from('user_files')
+      .select('id, version')
+      .eq('user_id', this.userId)
+      .eq('is_deleted', false)
+      .in('id', fileIds);
+
+    if (error) {
+      handleSupabaseError(error, 'get file versions');
+      throw error;
+    }
+
+    const rows = (data || []) as { id: string; version: number | null }[];
+    return new Map(rows.map((row) => [row.id, row.version || 0]));
+  }
+
   /**
    * Batch delete operations - CPU efficient
    */
@@ -933,9 +1720,9 @@ export class HybridFileStorage implements FileStorageService {
     if (fileIds.length === 0) return;
 
     try {
-      safeConsole.log(`🗑️ Batch deleting ${fileIds.length} files from cloud`);
+      safeConsole.log(`🗑️ Batch moving ${fileIds.length} files to cloud trash`);
 
-      // Soft delete with single query - much more efficient
+      // Soft delete with single query - files stay in the Trash until purged
       const { error } = await this.getTypedSupabaseClient()
         .from('user_files')
         .update({
@@ -957,6 +1744,326 @@ export class HybridFileStorage implements FileStorageService {
     }
   }
 
+  // Folder operations
+  async listFolders(): Promise<FolderData[]> {
+    if (!this.isAuthenticated) {
+      return this.listLocalFolders();
+    }
+
+    try {
+      const { data, error } = await this.getTypedSupabaseClient()
+        .from('user_folders')
+        .select('id, user_id, name, parent_id, created_at, updated_at')
+        .eq('user_id', this.userId)
+        .order('name', { ascending: true });
+
+      if (error) {
+        handleSupabaseError(error, 'list folders');
+        throw error;
+      }
+
+      const folderRows = (data || []) as Database['public']['Tables']['user_folders']['Row'][];
+      return folderRows.map(dbRowToFolderData);
+    } catch (error) {
+      safeConsole.error('Error listing folders:', error);
+      throw error;
+    }
+  }
+
+  async createFolder(name: string, parentId: string | null): Promise<FolderData> {
+    const folders = await this.listFolders();
+    const folderName = validateFolderName(name, getChildFolders(folders, parentId));
+
+    if (!this.isAuthenticated) {
+      const now = new Date().toISOString();
+      const folder: FolderData = {
+        id: `folder_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+        name: folderName,
+        parentId,
+        createdAt: now,
+        updatedAt: now,
+      };
+      setStorageJSON(STORAGE_KEYS.FOLDERS_LIST, [...folders, folder]);
+      safeConsole.log('Folder created in local storage:', folderName);
+      return folder;
+    }
+
+    const { data, error } = await this.getTypedSupabaseClient()
+      .from('user_folders')
+      .insert({ user_id: this.userId as string, name: folderName, parent_id: parentId })
+      .select('id, user_id, name, parent_id, created_at, updated_at')
+      .single();
+
+    if (error) {
+      handleSupabaseError(error, 'create folder');
+      throw error;
+    }
+
+    safeConsole.log('Folder created in cloud:', folderName);
+    return dbRowToFolderData(data as Database['public']['Tables']['user_folders']['Row']);
+  }
+
+  async renameFolder(folderId: string, name: string): Promise<FolderData> {
+    const folders = await this.listFolders();
+    const folder = folders.find((f) => f.id === folderId);
+    if (!folder) {
+      throw new Error('Folder not found');
+    }
+
+    const folderName = validateFolderName(
+      name,
+      getChildFolders(folders, folder.parentId),
+      folderId
+    );
+    return this.updateFolder(folders, folderId, { name: folderName });
+  }
+
+  async moveFolder(folderId: string, parentId: string | null): Promise<FolderData> {
+    const folders = await this.listFolders();
+    const folder = folders.find((f) => f.id === folderId);
+    if (!folder) {
+      throw new Error('Folder not found');
+    }
+
+    assertValidFolderMove(folders, folderId, parentId);
+    validateFolderName(folder.name, getChildFolders(folders, parentId), folderId);
+    return this.updateFolder(folders, folderId, { parentId });
+  }
+
+  /**
+   * Apply a rename or move to a folder in cloud or local storage
+   */
+  private async updateFolder(
+    folders: FolderData[],
+    folderId: string,
+    changes: Partial<Pick<FolderData, 'name' | 'parentId'>>
+  ): Promise<FolderData> {
+    const updatedAt = new Date().toISOString();
+
+    if (!this.isAuthenticated) {
+      const updatedFolders = folders.map((f) =>
+        f.id === folderId ? { ...f, ...changes, updatedAt } : f
+      );
+      setStorageJSON(STORAGE_KEYS.FOLDERS_LIST, updatedFolders);
+      return updatedFolders.find((f) => f.id === folderId) as FolderData;
+    }
+
+    const { data, error } = await this.getTypedSupabaseClient()
+      .from('user_folders')
+      .update({
+        ...(changes.name !== undefined && { name: changes.name }),
+        ...(changes.parentId !== undefined && { parent_id: changes.parentId }),
+        updated_at: updatedAt,
+      })
+      .eq('id', folderId)
+      .eq('user_id', this.userId)
+      .select('id, user_id, name, parent_id, created_at, updated_at')
+      .single();
+
+    if (error) {
+      handleSupabaseError(error, 'update folder');
+      throw error;
+    }
+
+    return dbRowToFolderData(data as Database['public']['Tables']['user_folders']['Row']);
+  }
+
+  /**
+   * Delete a folder; its files and subfolders move up to the parent folder
+   */
+  async deleteFolder(folderId: string): Promise<void> {
+    const folders = await this.listFolders();
+    const folder = folders.find((f) => f.id === folderId);
+    if (!folder) return;
+
+    const { parentId } = folder;
+
+    if (!this.isAuthenticated) {
+      setStorageJSON(
+        STORAGE_KEYS.FOLDERS_LIST,
+        folders
+          .filter((f) => f.id !== folderId)
+          .map((f) => (f.parentId === folderId ? { ...f, parentId } : f))
+      );
+      const fileIds = [...this.listLocalFiles(), ...this.listLocalTrash()]
+        .filter((f) => f.id && f.folderId === folderId)
+        .map((f) => f.id as string);
+      this.moveLocalFilesToFolder(fileIds, parentId);
+      safeConsole.log('Folder deleted from local storage:', folder.name);
+      return;
+    }
+
+    const client = this.getTypedSupabaseClient();
+    const { error: foldersError } = await client
+      .from('user_folders')
+      .update({ parent_id: parentId })
+      .eq('parent_id', folderId)
+      .eq('user_id', this.userId);
+    if (foldersError) {
+      handleSupabaseError(foldersError, 'move subfolders');
+      throw foldersError;
+    }
+
+    const { error: filesError } = await client
+      .from('user_files')
+      .update({ folder_id: parentId })
+      .eq('folder_id', folderId)
+      .eq('user_id', this.userId);
+    if (filesError) {
+      handleSupabaseError(filesError, 'move folder files');
+      throw filesError;
+    }
+
+    const { error } = await client
+      .from('user_folders')
+      .delete()
+      .eq('id', folderId)
+      .eq('user_id', this.userId);
+    if (error) {
+      handleSupabaseError(error, 'delete folder');
+      throw error;
+    }
+
+    safeConsole.log('Folder deleted from cloud:', folder.name);
+  }
+
+  async moveFilesToFolder(fileIds: string[], folderId: string | null): Promise<void> {
+    if (fileIds.length === 0) return;
+
+    if (!this.isAuthenticated) {
+      this.moveLocalFilesToFolder(fileIds, folderId);
+      return;
+    }
+
+    const { error } = await this.getTypedSupabaseClient()
+      .from('user_files')
+      .update({ folder_id: folderId })
+      .in('id', fileIds)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      handleSupabaseError(error, 'move files');
+      throw error;
+    }
+
+    safeConsole.log(`Moved ${fileIds.length} files to folder:`, folderId ?? 'root');
+  }
+
+  async updateFileTags(updates: FileTagsUpdate[]): Promise<void> {
+    if (updates.length === 0) return;
+
+    if (!this.isAuthenticated) {
+      this.updateLocalFileTags(updates);
+      return;
+    }
+
+    const client = this.getTypedSupabaseClient();
+    const results = await Promise.all(
+      updates.map(({ fileId, tags }) =>
+        client.from('user_files').update({ tags }).eq('id', fileId).eq('user_id', this.userId)
+      )
+    );
+
+    const failed = results.find((result) => result.error);
+    if (failed?.error) {
+      handleSupabaseError(failed.error, 'update file tags');
+      throw failed.error;
+    }
+
+    safeConsole.log(`Updated tags of ${updates.length} files`);
+  }
+
+  async listCloudFilesWithContent(): Promise<FileData[]> {
+    if (!this.supabaseClient || !this.userId) {
+      throw new Error('Not authenticated for cloud storage');
+    }
+
+    const { data, error } = await this.getTypedSupabaseClient()
+      .from('user_files')
+      .select(
+        'id, user_id, title, content, file_type, tags, created_at, updated_at, is_template, file_size, version, is_deleted, deleted_at, folder_id'
+      )
+      .eq('user_id', this.userId)
+      .eq('is_deleted', false)
+      .order('updated_at', { ascending: false })
+      .limit(1000);
+
+    if (error) {
+      handleSupabaseError(error, 'list files with content');
+      throw error;
+    }
+
+    const fileRows = data as Database['public']['Tables']['user_files']['Row'][];
+    safeConsole.log(`Loaded ${fileRows.length} files with content from cloud`);
+    return fileRows.map((row) => {
+      const fileData = dbRowToFileData(row);
+      return { ...fileData, content: decompressContent(fileData.content) };
+    });
+  }
+
+  async listWithContent(): Promise<FileData[]> {
+    if (this.isAuthenticated) {
+      return this.listCloudFilesWithContent();
+    }
+
+    // The stored file data is authoritative; the list entry is only a fallback
+    return this.listLocalFiles().map((file) => {
+      const storedFile = file.id
+        ? getStorageJSON<FileData>(`${STORAGE_KEYS.FILE_PREFIX}${file.id}`)
+        : null;
+      return { ...file, content: decompressContent((storedFile ?? file).content || '') };
+    });
+  }
+
+  private listLocalFolders(): FolderData[] {
+    return getStorageJSON<FolderData[]>(STORAGE_KEYS.FOLDERS_LIST, []) || [];
+  }
+
+  /**
+   * Update the folder of local files in the files list, the trash and the stored file data
+   */
+  private moveLocalFilesToFolder(fileIds: string[], folderId: string | null): void {
+    const ids = new Set(fileIds);
+    const moveFile = (file: FileData) => (file.id && ids.has(file.id) ? { ...file, folderId } : file);
+
+    setStorageJSON(STORAGE_KEYS.FILES_LIST, this.listLocalFiles().map(moveFile));
+    setStorageJSON(STORAGE_KEYS.TRASH_LIST, this.listLocalTrash().map(moveFile));
+
+    for (const fileId of ids) {
+      const fileKey = `${STORAGE_KEYS.FILE_PREFIX}${fileId}`;
+      const storedFile = getStorageJSON<FileData>(fileKey);
+      if (storedFile) {
+        setStorageJSON(fileKey, { ...storedFile, folderId });
+      }
+    }
+
+    safeConsole.log(`Moved ${ids.size} local files to folder:`, folderId ?? 'root');
+  }
+
+  /**
+   * Update the tags of local files in the files list, the trash and the stored file data
+   */
+  private updateLocalFileTags(updates: FileTagsUpdate[]): void {
+    const tagsById = new Map(updates.map(({ fileId, tags }) => [fileId, tags]));
+    const updateFile = (file: FileData) => {
+      const tags = file.id ? tagsById.get(file.id) : undefined;
+      return tags ? { ...file, tags } : file;
+    };
+
+    setStorageJSON(STORAGE_KEYS.FILES_LIST, this.listLocalFiles().map(updateFile));
+    setStorageJSON(STORAGE_KEYS.TRASH_LIST, this.listLocalTrash().map(updateFile));
+
+    for (const [fileId, tags] of tagsById) {
+      const fileKey = `${STORAGE_KEYS.FILE_PREFIX}${fileId}`;
+      const storedFile = getStorageJSON<FileData>(fileKey);
+      if (storedFile) {
+        setStorageJSON(fileKey, { ...storedFile, tags });
+      }
+    }
+
+    safeConsole.log(`Updated tags of ${tagsById.size} local files`);
+  }
+
   // Utility operations
   getStorageInfo(): StorageInfo {
     // For local storage, we can get immediate info
@@ -6,6 +6,7 @@ export interface HeadingItem {
   id: string;
   text: string;
   level: number;
+  lineNumber: number;
 }
 
 export interface DocumentOutlineProps {
@@ -30,6 +31,7 @@ export interface OutlineItemProps {
   isActive: boolean;
   theme?: ThemeConfig;
   onClick: (headingId: string) => void;
+  onReveal?: (item: HeadingItem) => void;
 }
 
 export interface EmptyOutlineProps {
@@ -86,6 +86,21 @@ export interface UseVimModeOptions {
    * Command timeout (ms)
    */
   commandTimeout?: number;
+
+  /**
+   * Integrasi ex-command line (:w, :q, :e, :set) dengan editor
+   */
+  exCommands?: VimExCommandOptions;
+
+  /**
+   * Undo editor (u)
+   */
+  onUndo?: () => void;
+
+  /**
+   * Redo editor (Ctrl-r)
+   */
+  onRedo?: () => void;
 }
 
 /**
@@ -136,6 +151,31 @@ export interface UseVimModeReturn {
    * Get available commands untuk current mode
    */
   getAvailableCommands: () => VimCommand[];
+
+  /**
+   * Isi command line yang sedang diketik (tanpa ':')
+   */
+  commandLine: string;
+
+  /**
+   * Pesan hasil ex-command terakhir
+   */
+  commandMessage: VimCommandMessage | null;
+
+  /**
+   * Prompt konfirmasi substitusi (:s///c) yang sedang aktif
+   */
+  confirmPrompt: string | null;
+
+  /**
+   * Execute ex-command (tanpa ':')
+   */
+  executeExCommand: (input: string) => void;
+
+  /**
+   * Key yang sedang menunggu kelanjutan (mis. 'd2' atau '"a')
+   */
+  pendingKeys: string;
 }
 
 /**
@@ -149,6 +189,204 @@ export interface VimCommandRegistry {
   clear: () => void;
 }
 
+/**
+ * Editor settings yang bisa diubah lewat :set
+ */
+export interface VimExSettings {
+  lineNumbers: boolean;
+  wordWrap: boolean;
+}
+
+/**
+ * Integrasi ex-commands dengan editor host
+ */
+export interface VimExCommandOptions {
+  /** Nama file aktif, dipakai untuk pesan :w */
+  fileName?: string;
+  /** Apakah buffer punya perubahan yang belum disimpan */
+  isModified?: boolean;
+  /** Nilai settings saat ini untuk :set */
+  settings?: VimExSettings;
+  /** Simpan buffer (:w); false jika buffer tidak tersimpan */
+  onWrite?: () => Promise<boolean> | boolean;
+  /** Tutup dokumen (:q) */
+  onQuit?: () => void;
+  /** Buka file berdasarkan nama (:e <file>) */
+  onEdit?: (fileName: string) => Promise<void> | void;
+  /** Ubah settings (:set) */
+  onSettingsChange?: (settings: Partial<VimExSettings>) => void;
+}
+
+/**
+ * Alamat baris pada ex-command: nomor (1-based), '.' atau '$'
+ */
+export type VimLineAddress = number | 'current' | 'last';
+
+/**
+ * Range baris untuk :s
+ */
+export interface VimLineRange {
+  start: VimLineAddress;
+  end: VimLineAddress;
+}
+
+/**
+ * Hasil parsing ex-command
+ */
+export type VimExCommand =
+  | { type: 'write'; quit: boolean }
+  | { type: 'quit'; force: boolean }
+  | { type: 'edit'; fileName: string; force: boolean }
+  | { type: 'goto'; line: VimLineAddress }
+  | {
+      type: 'substitute';
+      range: VimLineRange;
+      pattern: string;
+      replacement: string;
+      global: boolean;
+      confirm: boolean;
+      ignoreCase: boolean;
+    }
+  | { type: 'set'; option: keyof VimExSettings; value: boolean | 'toggle' | 'query' }
+  | { type: 'nohlsearch' }
+  | { type: 'error'; message: string };
+
+/**
+ * Pesan yang ditampilkan di command line
+ */
+export interface VimCommandMessage {
+  text: string;
+  type: 'info' | 'error';
+}
+
+/**
+ * Satu match substitusi pada buffer
+ */
+export interface VimSubstitutionMatch {
+  index: number;
+  length: number;
+  line: number;
+}
+
+/**
+ * Isi register vim
+ */
+export interface VimRegister {
+  text: string;
+  /** Register berisi baris utuh (hasil dd, yy, V) */
+  linewise: boolean;
+}
+
+/**
+ * Operator yang bisa dikombinasikan dengan motion / text object
+ */
+export type VimOperator = 'd' | 'c' | 'y' | '>' | '<' | 'g~' | 'gu' | 'gU';
+
+/**
+ * Target operator: motion, text object, baris (dd/yy) atau seleksi visual
+ */
+export type VimOperatorTarget =
+  | { type: 'motion'; motion: string; char?: string }
+  | { type: 'textObject'; object: string }
+  | { type: 'line' }
+  | { type: 'selection' };
+
+/**
+ * Command normal/visual mode hasil parsing key sequence
+ */
+export type VimParsedCommand =
+  | {
+      kind: 'motion';
+      count: number;
+      hasCount: boolean;
+      motion: string;
+      char?: string;
+    }
+  | {
+      kind: 'operator';
+      count: number;
+      hasCount: boolean;
+      register?: string;
+      operator: VimOperator;
+      target: VimOperatorTarget;
+    }
+  | {
+      kind: 'action';
+      count: number;
+      hasCount: boolean;
+      register?: string;
+      action: string;
+      char?: string;
+    }
+  | { kind: 'registry'; count: number; key: string };
+
+/**
+ * Hasil parsing key sequence
+ */
+export type VimParseResult =
+  | { status: 'pending' }
+  | { status: 'invalid' }
+  | { status: 'complete'; command: VimParsedCommand };
+
+/**
+ * Hasil motion: posisi tujuan dan cara range dibentuk untuk operator
+ */
+export interface VimMotionResult {
+  position: number;
+  linewise?: boolean;
+  inclusive?: boolean;
+}
+
+/**
+ * Range teks [start, end) untuk operator
+ */
+export interface VimTextRange {
+  start: number;
+  end: number;
+  linewise?: boolean;
+}
+
+/**
+ * Seleksi visual mode: anchor tetap, cursor bergerak
+ */
+export interface VimVisualState {
+  anchor: number;
+  linewise: boolean;
+}
+
+/**
+ * Pencarian karakter terakhir (f/F/t/T) untuk ; dan ,
+ */
+export interface VimCharSearch {
+  motion: 'f' | 'F' | 't' | 'T';
+  char: string;
+}
+
+/**
+ * Snapshot buffer yang diberikan ke executor
+ */
+export interface VimBufferState {
+  value: string;
+  cursor: number;
+  mode: VimMode;
+  visual: VimVisualState | null;
+}
+
+/**
+ * Hasil eksekusi command terhadap buffer
+ */
+export interface VimExecutionResult {
+  /** Teks baru, undefined jika tidak berubah */
+  value?: string;
+  cursor: number;
+  /** Mode tujuan, undefined jika tetap */
+  mode?: VimMode;
+  visual?: VimVisualState | null;
+  history?: 'undo' | 'redo';
+  /** Command mengubah teks dan bisa diulang dengan . */
+  isChange?: boolean;
+}
+
 /**
  * Vim state interface
  */
@@ -167,7 +405,7 @@ export interface VimState {
 export const DEFAULT_VIM_CURSOR_CONFIG: VimCursorConfig = {
   normal: {
     caretColor: 'transparent',
-    focused: false,
+    focused: true,
   },
   insert: {
     caretColor: 'auto',
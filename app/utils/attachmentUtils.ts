@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Markdown references to image attachments (attachments/<id>)
+ * Used by the editor (paste/drop), the preview and the AdvancedExport exports
+ * @author Axel Modra
+ */
+
+import { attachmentStorage } from '@/services/attachmentStorage';
+
+/**
+ * Relative path used in markdown for stored attachments; relative URLs survive
+ * react-markdown's URL sanitizing
+ */
+export const ATTACHMENT_PATH_PREFIX = 'attachments/';
+
+export const getAttachmentPath = (id: string): string =>
+  `${ATTACHMENT_PATH_PREFIX}${encodeURIComponent(id)}`;
+
+/**
+ * Attachment id referenced by an image src, or null for any other URL
+ */
+export const getAttachmentId = (src?: string | null): string | null => {
+  if (!src?.startsWith(ATTACHMENT_PATH_PREFIX)) return null;
+  try {
+    return decodeURIComponent(src.slice(ATTACHMENT_PATH_PREFIX.length)) || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Image files carried by a paste or drop
+ */
+export const getImageFiles = (dataTransfer: DataTransfer | null): File[] =>
+  Array.from(dataTransfer?.files ?? []).filter((file) => file.type.startsWith('image/'));
+
+/**
+ * Markdown image for an attachment, with the file name (without extension) as alt text
+ */
+export const createAttachmentMarkdown = (id: string, fileName: string): string => {
+  const altText = fileName.replace(/\.[^.]+$/, '').replace(/[[\]]/g, '') || 'image';
+  return `![${altText}](${getAttachmentPath(id)})`;
+};
+
+/**
+ * Load every attachment referenced by the markdown as a data URL, so exports are self-contained
+ * Attachments that can't be loaded are left out and keep their relative path
+ */
+export const loadMarkdownAttachments = async (markdown: string): Promise<Map<string, string>> => {
+  const attachments = new Map<string, string>();
+  const referencePattern = /attachments\/([^\s)"'>]+)/g;
+
+  for (const match of markdown.matchAll(referencePattern)) {
+    const id = getAttachmentId(`${ATTACHMENT_PATH_PREFIX}${match[1]}`);
+    if (!id || attachments.has(id)) continue;
+
+    try {
+      const dataUrl = await attachmentStorage.getDataUrl(id);
+      if (dataUrl) attachments.set(id, dataUrl);
+    } catch (error) {
+      import('@/utils/console').then(({ safeConsole }) => {
+        safeConsole.warn('Failed to load attachment for export:', error);
+      });
+    }
+  }
+
+  return attachments;
+};
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Render code block diagram (mermaid, sequence, flow) menjadi SVG
+ * Dipakai oleh preview (DiagramBlock) dan export AdvancedExport
+ * @author Axel Modra
+ */
+
+import DOMPurify from 'dompurify';
+
+export type DiagramLanguage = 'mermaid' | 'sequence' | 'flow';
+
+export type DiagramTheme = 'default' | 'dark';
+
+export const DIAGRAM_LANGUAGES: readonly DiagramLanguage[] = ['mermaid', 'sequence', 'flow'];
+
+const MAX_CACHED_DIAGRAMS = 100;
+
+const svgCache = new Map<string, string>();
+
+let renderCounter = 0;
+
+export const isDiagramLanguage = (language?: string): language is DiagramLanguage =>
+  !!language && (DIAGRAM_LANGUAGES as readonly string[]).includes(language);
+
+/**
+ * Key unik untuk satu diagram (dipakai sebagai lookup SVG saat export)
+ */
+export const getDiagramKey = (language: DiagramLanguage, source: string): string =>
+  `${language}\n${source.trim()}`;
+
+/**
+ * Konversi DSL sederhana ke sintaks mermaid
+ * - sequence: isi sequenceDiagram tanpa header, mis. `Alice->>Bob: Hello`
+ * - flow: isi flowchart tanpa header, `A -> B` juga diterima sebagai `A --> B`
+ */
+export const toMermaidSource = (language: DiagramLanguage, source: string): string => {
+  const trimmed = source.trim();
+
+  if (language === 'sequence' && !/^sequenceDiagram\b/.test(trimmed)) {
+    return `sequenceDiagram\n${trimmed}`;
+  }
+
+  if (language === 'flow' && !/^(flowchart|graph)\b/.test(trimmed)) {
+    return `flowchart TD\n${trimmed.replace(/\s->\s/g, ' --> ')}`;
+  }
+
+  return trimmed;
+};
+
+/**
+ * Render diagram menjadi SVG string; melempar error jika sintaks tidak valid
+ */
+export const renderDiagram = async (
+  language: DiagramLanguage,
+  source: string,
+  theme: DiagramTheme = 'default'
+): Promise<string> => {
+  const cacheKey = `${theme}\n${getDiagramKey(language, source)}`;
+  const cached = svgCache.get(cacheKey);
+  if (cached) return cached;
+
+  const { default: mermaid } = await import('mermaid');
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: 'strict',
+    suppressErrorRendering: true,
+    // Label SVG murni agar diagram tetap tampil di EPUB/PDF tanpa foreignObject
+    htmlLabels: false,
+    theme,
+  });
+
+  renderCounter += 1;
+  const { svg: rawSvg } = await mermaid.render(
+    `diagram-${renderCounter}`,
+    toMermaidSource(language, source)
+  );
+  const svg = DOMPurify.sanitize(rawSvg, { USE_PROFILES: { svg: true, svgFilters: true } });
+
+  if (svgCache.size >= MAX_CACHED_DIAGRAMS) {
+    const oldestKey = svgCache.keys().next().value;
+    if (oldestKey !== undefined) svgCache.delete(oldestKey);
+  }
+  svgCache.set(cacheKey, svg);
+
+  return svg;
+};
+
+/**
+ * CSS diagram dan panel error untuk dokumen export
+ */
+export const DIAGRAM_EXPORT_STYLES = `
+        .diagram { margin: 1.5em 0; text-align: center; page-break-inside: avoid; }
+        .diagram svg { max-width: 100%; height: auto; }
+        .diagram-error {
+            margin: 1.5em 0;
+            padding: 0.75em 1em;
+            border: 1px solid #dc2626;
+            border-radius: 4px;
+            background: #fef2f2;
+            color: #dc2626;
+        }
+        .diagram-error p { margin: 0 0 0.5em; font-weight: 600; }
+        .diagram-error pre { margin: 0; background: transparent; color: inherit; }
+`;
+
+/**
+ * Render semua fenced block diagram di markdown untuk export
+ * Diagram yang gagal dirender tidak dimasukkan sehingga export menampilkan panel error
+ */
+export const renderMarkdownDiagrams = async (markdown: string): Promise<Map<string, string>> => {
+  const diagrams = new Map<string, string>();
+  const fencePattern = /^(```|~~~)[ \t]*(\w+)[^\n]*\n([\s\S]*?)\n\1[ \t]*$/gm;
+
+  for (const match of markdown.matchAll(fencePattern)) {
+    const language = match[2];
+    if (!isDiagramLanguage(language)) continue;
+
+    const key = getDiagramKey(language, match[3]);
+    if (diagrams.has(key)) continue;
+
+    try {
+      diagrams.set(key, await renderDiagram(language, match[3]));
+    } catch (error) {
+      import('@/utils/console').then(({ safeConsole }) => {
+        safeConsole.warn('Failed to render diagram for export:', error);
+      });
+    }
+  }
+
+  return diagrams;
+};
@@ -21,12 +21,41 @@ export interface FileContext {
   isActive: boolean;
 }
 
+/**
+ * Editor tab as kept across reloads
+ */
+export interface PersistedTab {
+  /** Tab identifier */
+  id: string;
+  /** File name/title */
+  fileName: string;
+  /** Stored file id, when the tab's document has been saved */
+  fileId?: string;
+  /** Whether the tab has unsaved changes */
+  isModified: boolean;
+  /** Unsaved content, only kept for modified background tabs */
+  content?: string;
+  /** Cursor selection */
+  selection: { start: number; end: number };
+  /** Editor scroll position */
+  scrollTop: number;
+}
+
+/**
+ * Open editor tabs
+ */
+export interface OpenTabsContext {
+  tabs: PersistedTab[];
+  activeTabId: string;
+}
+
 /**
  * Session storage keys for file context
  */
 const SESSION_KEYS = {
   ACTIVE_FILE: 'markdownEditor_activeFile',
   FILE_HISTORY: 'markdownEditor_fileHistory',
+  OPEN_TABS: 'markdownEditor_openTabs',
 } as const;
 
 /**
@@ -179,6 +208,47 @@ class FileContextManager {
     }
   }
 
+  /**
+   * Save open editor tabs
+   */
+  setOpenTabs(context: OpenTabsContext): boolean {
+    if (!this.isSessionStorageAvailable()) return false;
+
+    try {
+      sessionStorage.setItem(SESSION_KEYS.OPEN_TABS, JSON.stringify(context));
+      return true;
+    } catch (error) {
+      safeConsole.error('Failed to save open tabs:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get open editor tabs
+   */
+  getOpenTabs(): OpenTabsContext | null {
+    if (!this.isSessionStorageAvailable()) return null;
+
+    try {
+      const stored = sessionStorage.getItem(SESSION_KEYS.OPEN_TABS);
+      if (!stored) return null;
+
+      const context = JSON.parse(stored) as OpenTabsContext;
+
+      // Validate context structure
+      if (!Array.isArray(context.tabs) || !context.activeTabId) {
+        safeConsole.warn('Invalid open tabs structure, clearing');
+        sessionStorage.removeItem(SESSION_KEYS.OPEN_TABS);
+        return null;
+      }
+
+      return context;
+    } catch (error) {
+      safeConsole.error('Failed to get open tabs:', error);
+      return null;
+    }
+  }
+
   /**
    * Clear all file context data
    */
@@ -188,6 +258,7 @@ class FileContextManager {
     try {
       sessionStorage.removeItem(SESSION_KEYS.ACTIVE_FILE);
       sessionStorage.removeItem(SESSION_KEYS.FILE_HISTORY);
+      sessionStorage.removeItem(SESSION_KEYS.OPEN_TABS);
       return true;
     } catch (error) {
       safeConsole.error('Failed to clear file context data:', error);
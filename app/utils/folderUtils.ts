@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Utilities untuk struktur folder bertingkat (tree, breadcrumb, validasi nama)
+ * @author Axel Modra
+ */
+
+import type { FileData, FolderData } from '@/lib/supabase';
+
+/**
+ * Node tree folder beserta sub-folder dan file di dalamnya
+ */
+export interface FolderTreeNode {
+  folder: FolderData;
+  children: FolderTreeNode[];
+  files: FileData[];
+}
+
+/**
+ * Tipe data drag-and-drop untuk memindahkan file dan folder
+ */
+export const FILE_DRAG_TYPE = 'application/x-markdown-file-ids';
+export const FOLDER_DRAG_TYPE = 'application/x-markdown-folder-id';
+
+/**
+ * Item yang dibawa saat drag (file terpilih atau satu folder)
+ */
+export interface FolderDragItems {
+  fileIds: string[];
+  folderId: string | null;
+}
+
+/**
+ * Simpan file yang di-drag ke dataTransfer
+ */
+export const setFileDragData = (dataTransfer: DataTransfer, fileIds: string[]): void => {
+  dataTransfer.setData(FILE_DRAG_TYPE, JSON.stringify(fileIds));
+  dataTransfer.effectAllowed = 'move';
+};
+
+/**
+ * Simpan folder yang di-drag ke dataTransfer
+ */
+export const setFolderDragData = (dataTransfer: DataTransfer, folderId: string): void => {
+  dataTransfer.setData(FOLDER_DRAG_TYPE, folderId);
+  dataTransfer.effectAllowed = 'move';
+};
+
+/**
+ * Cek apakah drag membawa file atau folder (data baru bisa dibaca saat drop)
+ */
+export const hasFolderDragData = (dataTransfer: DataTransfer): boolean =>
+  dataTransfer.types.includes(FILE_DRAG_TYPE) || dataTransfer.types.includes(FOLDER_DRAG_TYPE);
+
+/**
+ * Baca file dan folder yang di-drop
+ */
+export const getFolderDragData = (dataTransfer: DataTransfer): FolderDragItems => {
+  let fileIds: string[] = [];
+  try {
+    const parsed = JSON.parse(dataTransfer.getData(FILE_DRAG_TYPE) || '[]');
+    fileIds = Array.isArray(parsed) ? parsed.filter((id) => typeof id === 'string') : [];
+  } catch {
+    fileIds = [];
+  }
+
+  return {
+    fileIds,
+    folderId: dataTransfer.getData(FOLDER_DRAG_TYPE) || null,
+  };
+};
+
+const byName = (a: FolderData, b: FolderData) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+
+/**
+ * Sub-folder langsung dari sebuah folder (null = root), urut berdasarkan nama
+ */
+export const getChildFolders = (folders: FolderData[], parentId: string | null): FolderData[] =>
+  folders.filter((folder) => folder.parentId === parentId).sort(byName);
+
+/**
+ * File yang berada langsung di dalam folder (null = root)
+ * File dengan folder yang sudah tidak ada dianggap berada di root
+ */
+export const getFolderFiles = (
+  files: FileData[],
+  folders: FolderData[],
+  folderId: string | null
+): FileData[] => {
+  const folderIds = new Set(folders.map((folder) => folder.id));
+  return files.filter((file) => {
+    const fileFolderId = file.folderId && folderIds.has(file.folderId) ? file.folderId : null;
+    return fileFolderId === folderId;
+  });
+};
+
+/**
+ * Bangun tree folder lengkap dengan file-nya; file di root dikembalikan terpisah
+ */
+export const buildFolderTree = (
+  folders: FolderData[],
+  files: FileData[] = []
+): { nodes: FolderTreeNode[]; rootFiles: FileData[] } => {
+  const buildNodes = (parentId: string | null, visited: Set<string>): FolderTreeNode[] =>
+    getChildFolders(folders, parentId)
+      // Lindungi dari data parent yang melingkar
+      .filter((folder) => !visited.has(folder.id))
+      .map((folder) => {
+        const nextVisited = new Set(visited).add(folder.id);
+        return {
+          folder,
+          children: buildNodes(folder.id, nextVisited),
+          files: getFolderFiles(files, folders, folder.id),
+        };
+      });
+
+  return {
+    nodes: buildNodes(null, new Set()),
+    rootFiles: getFolderFiles(files, folders, null),
+  };
+};
+
+/**
+ * Rantai folder dari root sampai folder yang diberikan (untuk breadcrumb)
+ */
+export const getFolderBreadcrumbs = (
+  folders: FolderData[],
+  folderId: string | null
+): FolderData[] => {
+  const foldersById = new Map(folders.map((folder) => [folder.id, folder]));
+  const breadcrumbs: FolderData[] = [];
+  let current = folderId ? foldersById.get(folderId) : undefined;
+
+  while (current && !breadcrumbs.includes(current)) {
+    breadcrumbs.unshift(current);
+    current = current.parentId ? foldersById.get(current.parentId) : undefined;
+  }
+
+  return breadcrumbs;
+};
+
+/**
+ * ID folder beserta seluruh turunannya
+ */
+export const getDescendantFolderIds = (folders: FolderData[], folderId: string): Set<string> => {
+  const ids = new Set([folderId]);
+  let added = true;
+
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+
+  return ids;
+};
+
+/**
+ * Validasi nama folder: wajib diisi, tanpa "/" dan unik di antara sub-folder dengan parent yang sama
+ * @returns Nama yang sudah dirapikan
+ */
+export const validateFolderName = (
+  name: string,
+  siblings: FolderData[],
+  ignoreFolderId?: string
+): string => {
+  const normalizedName = name.trim().replace(/\s+/g, ' ');
+
+  if (!normalizedName) {
+    throw new Error('Folder name is required');
+  }
+  if (normalizedName.includes('/')) {
+    throw new Error('Folder name cannot contain "/"');
+  }
+  if (
+    siblings.some(
+      (folder) =>
+        folder.id !== ignoreFolderId && folder.name.toLowerCase() === normalizedName.toLowerCase()
+    )
+  ) {
+    throw new Error(`A folder named "${normalizedName}" already exists here`);
+  }
+
+  return normalizedName;
+};
+
+/**
+ * Pastikan folder tidak dipindahkan ke dalam dirinya sendiri atau turunannya
+ */
+export const assertValidFolderMove = (
+  folders: FolderData[],
+  folderId: string,
+  parentId: string | null
+): void => {
+  if (parentId && getDescendantFolderIds(folders, folderId).has(parentId)) {
+    throw new Error('A folder cannot be moved into itself or one of its subfolders');
+  }
+};
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Parsing dan editing YAML front matter di awal dokumen markdown
+ * Metadata dipakai oleh preview (FrontMatterCard), AdvancedExport dan tags file
+ * @author Axel Modra
+ */
+
+import { Document, isMap, parseDocument } from 'yaml';
+
+/**
+ * Field front matter yang dikenali aplikasi
+ */
+export interface FrontMatterFields {
+  title?: string;
+  author?: string;
+  description?: string;
+  tags?: string[];
+  date?: string;
+}
+
+export type FrontMatterField = keyof FrontMatterFields;
+
+export interface ParsedFrontMatter {
+  /** Field yang dikenali, sudah dinormalisasi */
+  fields: FrontMatterFields;
+  /** Seluruh data YAML (termasuk key lain) */
+  data: Record<string, unknown>;
+  /** Blok YAML mentah tanpa delimiter */
+  raw: string;
+  /** Offset awal body setelah delimiter penutup */
+  bodyOffset: number;
+  /** Pesan error jika YAML tidak valid */
+  error?: string;
+}
+
+export const FRONT_MATTER_FIELDS: readonly FrontMatterField[] = [
+  'title',
+  'author',
+  'description',
+  'tags',
+  'date',
+];
+
+const FRONT_MATTER_PATTERN = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+const toOptionalString = (value: unknown): string | undefined => {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+};
+
+/**
+ * Tags boleh berupa list YAML atau string dipisah koma
+ */
+export const normalizeTags = (value: unknown): string[] => {
+  const items = Array.isArray(value)
+    ? value.map(toOptionalString)
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+
+  const tags = items
+    .map((tag) => tag?.trim().replace(/^#/, ''))
+    .filter((tag): tag is string => !!tag);
+
+  return [...new Set(tags)];
+};
+
+const normalizeFields = (data: Record<string, unknown>): FrontMatterFields => {
+  const tags = normalizeTags(data.tags ?? data.keywords);
+
+  return {
+    title: toOptionalString(data.title),
+    author: toOptionalString(data.author),
+    description: toOptionalString(data.description ?? data.summary),
+    tags: tags.length > 0 ? tags : undefined,
+    date: toOptionalString(data.date),
+  };
+};
+
+/**
+ * Parse front matter di awal dokumen, null jika dokumen tidak diawali blok ---
+ */
+export const parseFrontMatter = (markdown: string): ParsedFrontMatter | null => {
+  const match = FRONT_MATTER_PATTERN.exec(markdown);
+  if (!match) return null;
+
+  const raw = match[1] ?? '';
+  const bodyOffset = match[0].length;
+  const document = parseDocument(raw);
+
+  if (document.errors.length > 0) {
+    return { fields: {}, data: {}, raw, bodyOffset, error: document.errors[0].message };
+  }
+
+  const value: unknown = document.toJS();
+  const data =
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+
+  return { fields: normalizeFields(data), data, raw, bodyOffset };
+};
+
+/**
+ * Ambil body dokumen tanpa front matter
+ */
+export const stripFrontMatter = (markdown: string): string => {
+  const frontMatter = parseFrontMatter(markdown);
+  return frontMatter ? markdown.slice(frontMatter.bodyOffset) : markdown;
+};
+
+/**
+ * Tulis ulang field front matter; key lain dan komentar YAML dipertahankan
+ * Field kosong dihapus, dan blok front matter baru dibuat jika belum ada
+ */
+export const updateFrontMatter = (
+  markdown: string,
+  updates: Partial<FrontMatterFields>
+): string => {
+  const existing = parseFrontMatter(markdown);
+  if (existing?.error) {
+    throw new Error(`Invalid front matter: ${existing.error}`);
+  }
+
+  const parsed = parseDocument(existing?.raw ?? '');
+  const document: Document = isMap(parsed.contents) ? parsed : new Document({});
+
+  for (const field of FRONT_MATTER_FIELDS) {
+    if (!(field in updates)) continue;
+
+    const value = updates[field];
+    const isEmpty = Array.isArray(value) ? value.length === 0 : !value?.trim();
+
+    if (isEmpty) {
+      document.delete(field);
+    } else {
+      document.set(field, Array.isArray(value) ? value : value?.trim());
+    }
+  }
+
+  const body = existing ? markdown.slice(existing.bodyOffset) : markdown;
+  const yaml =
+    isMap(document.contents) && document.contents.items.length > 0 ? String(document) : '';
+
+  if (!yaml.trim()) return body;
+  return `---\n${yaml.trimEnd()}\n---\n${body}`;
+};
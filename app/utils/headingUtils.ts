@@ -4,6 +4,7 @@
  */
 
 import { safeConsole } from '@/utils/console';
+import { measureTextareaLines } from '@/utils/scrollSyncUtils';
 
 export interface HeadingItem {
   text: string;
@@ -63,14 +64,16 @@ export const scrollToLineInEditor = (
   options: {
     behavior?: ScrollBehavior;
     highlight?: boolean;
+    /** Pilih sebagian baris (mis. hasil pencarian) alih-alih seluruh baris */
+    selection?: { column: number; length: number };
   } = {}
 ): Promise<boolean> => {
   return new Promise((resolve) => {
-    const { behavior = 'smooth', highlight = true } = options;
+    const { behavior = 'smooth', highlight = true, selection } = options;
 
     requestAnimationFrame(() => {
-      // Find editor textarea
-      const textarea = document.querySelector('textarea') as HTMLTextAreaElement;
+      // Find editor textarea (bukan textarea lain seperti form metadata di preview)
+      const textarea = document.querySelector<HTMLTextAreaElement>('.markdown-editor-textarea');
       if (!textarea) {
         import('@/utils/console').then(({ safeConsole }) => {
           safeConsole.warn('Editor textarea tidak ditemukan');
@@ -95,12 +98,19 @@ export const scrollToLineInEditor = (
       }
 
       // Set cursor position and focus
+      const lineEnd = charPosition + lines[lineNumber].length;
+      const selectionStart = selection
+        ? Math.min(charPosition + selection.column, lineEnd)
+        : charPosition;
+      const selectionEnd = selection
+        ? Math.min(selectionStart + selection.length, lineEnd)
+        : lineEnd;
       textarea.focus();
-      textarea.setSelectionRange(charPosition, charPosition + lines[lineNumber].length);
+      textarea.setSelectionRange(selectionStart, selectionEnd);
 
-      // Calculate scroll position
+      // Calculate scroll position (memperhitungkan baris yang ter-wrap)
       const lineHeight = Number.parseInt(getComputedStyle(textarea).lineHeight, 10) || 20;
-      const scrollTop = lineNumber * lineHeight;
+      const scrollTop = measureTextareaLines(textarea).lineTops[lineNumber] ?? lineNumber * lineHeight;
       const containerHeight = textarea.clientHeight;
       const targetScrollTop = Math.max(0, scrollTop - containerHeight / 2);
 
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Konfigurasi plugin remark/rehype bersama untuk preview dan export
+ * Memastikan markdown (termasuk math LaTeX) dirender sama di PreviewPane dan convertMarkdownToHTML
+ * @author Axel Modra
+ */
+
+import katex, { type KatexOptions } from 'katex';
+import type { Options as ReactMarkdownOptions } from 'react-markdown';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeKatex from 'rehype-katex';
+import { defListHastHandlers, remarkDefinitionList } from 'remark-definition-list';
+import remarkFrontmatter from 'remark-frontmatter';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import { remarkCallouts } from './remarkCallouts';
+
+export type MarkdownPluginList = NonNullable<ReactMarkdownOptions['remarkPlugins']>;
+
+/**
+ * Format output KaTeX: HTML+CSS untuk browser, MathML untuk Word dan EPUB reader
+ */
+export type MathOutput = NonNullable<KatexOptions['output']>;
+
+export const MATH_ERROR_COLOR = '#dc2626';
+
+/**
+ * Stylesheet KaTeX untuk dokumen export standalone (versi sama dengan package terpasang)
+ */
+export const KATEX_STYLESHEET_URL = `https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css`;
+
+/**
+ * Opsi KaTeX: TeX yang invalid tidak melempar error tapi dirender sebagai
+ * span.katex-error dengan pesan error di atribut title
+ */
+export const createKatexOptions = (output: MathOutput = 'htmlAndMathml'): KatexOptions => ({
+  output,
+  errorColor: MATH_ERROR_COLOR,
+  strict: 'ignore',
+  throwOnError: false,
+});
+
+/**
+ * remarkFrontmatter mengenali blok YAML di awal dokumen agar tidak dirender sebagai hr + teks
+ */
+export const MARKDOWN_REMARK_PLUGINS: MarkdownPluginList = [
+  [remarkFrontmatter, ['yaml']],
+  remarkGfm,
+  remarkMath,
+  remarkDefinitionList,
+  remarkCallouts,
+];
+
+/**
+ * Handler remark-rehype untuk node definition list (dl/dt/dd)
+ */
+export const MARKDOWN_REMARK_REHYPE_OPTIONS: ReactMarkdownOptions['remarkRehypeOptions'] = {
+  handlers: defListHastHandlers,
+};
+
+/**
+ * Plugin rehype; rehypeKatex harus sebelum rehypeHighlight agar blok ```math
+ * tidak diperlakukan sebagai code block biasa
+ */
+export const createRehypePlugins = (mathOutput?: MathOutput): MarkdownPluginList => [
+  [rehypeKatex, createKatexOptions(mathOutput)],
+  rehypeHighlight,
+];
+
+export const MARKDOWN_REHYPE_PLUGINS: MarkdownPluginList = createRehypePlugins();
+
+/**
+ * Render satu ekspresi TeX ke HTML string (untuk renderer yang tidak memakai ReactMarkdown)
+ */
+export const renderMathToString = (
+  tex: string,
+  displayMode: boolean,
+  output?: MathOutput
+): string => katex.renderToString(tex, { ...createKatexOptions(output), displayMode });
+
+/**
+ * CSS kotak error untuk TeX invalid di dokumen export; pesan diambil dari atribut title
+ */
+export const MATH_EXPORT_STYLES = `
+        .katex-display { margin: 1em 0; overflow-x: auto; overflow-y: hidden; }
+        .katex-error {
+            display: inline-block;
+            padding: 0.125em 0.5em;
+            border: 1px solid ${MATH_ERROR_COLOR};
+            border-radius: 4px;
+            background: #fef2f2;
+            color: ${MATH_ERROR_COLOR};
+            font-family: monospace;
+            white-space: pre-wrap;
+        }
+        .katex-error::after {
+            content: attr(title);
+            display: block;
+            font-size: 0.8em;
+            font-family: sans-serif;
+        }
+`;
+
+/**
+ * CSS untuk callout, definition list, footnote dan task list di dokumen export
+ */
+export const MARKDOWN_EXPORT_STYLES = `
+        .callout {
+            margin: 1.5em 0;
+            padding: 0.75em 1em;
+            border-left: 4px solid var(--callout-color);
+            border-radius: 4px;
+            background: var(--callout-background);
+            font-style: normal;
+        }
+        .callout > :last-child { margin-bottom: 0; }
+        .callout-title { margin: 0 0 0.25em; font-weight: 600; color: var(--callout-color); }
+        .callout-note { --callout-color: #2563eb; --callout-background: #eff6ff; }
+        .callout-tip { --callout-color: #16a34a; --callout-background: #f0fdf4; }
+        .callout-important { --callout-color: #9333ea; --callout-background: #faf5ff; }
+        .callout-warning { --callout-color: #d97706; --callout-background: #fffbeb; }
+        .callout-caution { --callout-color: #dc2626; --callout-background: #fef2f2; }
+        dl { margin: 1em 0; }
+        dt { font-weight: 600; margin-top: 0.75em; }
+        dd { margin: 0.25em 0 0 1.5em; }
+        .footnotes { margin-top: 3em; padding-top: 1em; border-top: 1px solid #d1d5db; font-size: 0.9em; }
+        .footnotes .sr-only { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0, 0, 0, 0); }
+        .data-footnote-backref { text-decoration: none; }
+        .contains-task-list { list-style: none; padding-left: 0.5em; }
+        .task-list-item input[type="checkbox"] { margin-right: 0.5em; }
+`;
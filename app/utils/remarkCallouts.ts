@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Remark plugin untuk callout GitHub-style (> [!NOTE], > [!WARNING], ...)
+ * Blockquote diberi class callout-{type} dan paragraf judul agar preview dan export sama
+ * @author Axel Modra
+ */
+
+import type { Blockquote, Paragraph, Parent, Root } from 'mdast';
+
+export const CALLOUT_LABELS = {
+  note: 'Note',
+  tip: 'Tip',
+  important: 'Important',
+  warning: 'Warning',
+  caution: 'Caution',
+} as const;
+
+export type CalloutType = keyof typeof CALLOUT_LABELS;
+
+const CALLOUT_MARKER = /^\[!(note|tip|important|warning|caution)\][ \t]*([^\n]*)(?:\n|$)/i;
+
+export const isCalloutType = (value: unknown): value is CalloutType =>
+  typeof value === 'string' && value in CALLOUT_LABELS;
+
+/**
+ * Ubah blockquote yang diawali marker [!TYPE] menjadi callout
+ * Teks setelah marker di baris yang sama dipakai sebagai judul custom
+ */
+const transformCallout = (blockquote: Blockquote): void => {
+  const firstParagraph = blockquote.children[0];
+  if (firstParagraph?.type !== 'paragraph') return;
+
+  const firstText = firstParagraph.children[0];
+  if (firstText?.type !== 'text') return;
+
+  const match = CALLOUT_MARKER.exec(firstText.value);
+  if (!match) return;
+
+  const type = match[1].toLowerCase() as CalloutType;
+  const title = match[2].trim() || CALLOUT_LABELS[type];
+
+  firstText.value = firstText.value.slice(match[0].length);
+  if (!firstText.value) firstParagraph.children.shift();
+  if (firstParagraph.children.length === 0) blockquote.children.shift();
+
+  const titleParagraph: Paragraph = {
+    type: 'paragraph',
+    children: [{ type: 'text', value: title }],
+    data: { hProperties: { className: ['callout-title'] } },
+  };
+  blockquote.children.unshift(titleParagraph);
+  blockquote.data = {
+    ...blockquote.data,
+    hProperties: { className: ['callout', `callout-${type}`], dataCallout: type },
+  };
+};
+
+const visitBlockquotes = (node: Parent): void => {
+  for (const child of node.children) {
+    if (child.type === 'blockquote') transformCallout(child);
+    if ('children' in child) visitBlockquotes(child);
+  }
+};
+
+export const remarkCallouts = () => (tree: Root) => {
+  visitBlockquotes(tree);
+};
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Utilities untuk sinkronisasi scroll editor dan preview
+ * Memetakan posisi baris source (termasuk baris yang ter-wrap) ke posisi block di preview
+ * @author Axel Modra
+ */
+
+/**
+ * Atribut yang ditempel preview pada block hasil render (baris dan offset awal/akhir di source)
+ */
+export const SOURCE_LINE_ATTRIBUTE = 'data-source-line';
+export const SOURCE_END_LINE_ATTRIBUTE = 'data-source-end-line';
+export const SOURCE_START_ATTRIBUTE = 'data-source-start';
+export const SOURCE_END_ATTRIBUTE = 'data-source-end';
+
+/**
+ * Pasangan posisi (px dari atas konten) yang merepresentasikan baris source yang sama
+ */
+export interface ScrollSyncPoint {
+  editor: number;
+  preview: number;
+}
+
+/**
+ * Posisi atas setiap baris textarea, memperhitungkan soft wrap
+ */
+export interface TextareaLineGeometry {
+  /** lineTops[i] = posisi atas baris ke-(i + 1) */
+  lineTops: number[];
+  /** Tinggi total konten textarea */
+  contentHeight: number;
+}
+
+const MIRROR_STYLE_PROPERTIES = [
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'font-variant',
+  'letter-spacing',
+  'word-spacing',
+  'line-height',
+  'text-transform',
+  'text-indent',
+  'tab-size',
+  'white-space',
+  'word-wrap',
+  'overflow-wrap',
+  'word-break',
+  'padding-top',
+  'padding-right',
+  'padding-bottom',
+  'padding-left',
+] as const;
+
+/**
+ * Ukur posisi atas setiap baris textarea dengan mirror div yang memakai style yang sama
+ * Baris panjang yang ter-wrap menghasilkan jarak lebih besar ke baris berikutnya
+ */
+export const measureTextareaLines = (textarea: HTMLTextAreaElement): TextareaLineGeometry => {
+  const computed = window.getComputedStyle(textarea);
+  const mirror = document.createElement('div');
+
+  for (const property of MIRROR_STYLE_PROPERTIES) {
+    mirror.style.setProperty(property, computed.getPropertyValue(property));
+  }
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+  mirror.style.boxSizing = 'border-box';
+  mirror.style.border = '0';
+  mirror.style.width = `${textarea.clientWidth}px`;
+
+  const lineElements = textarea.value.split('\n').map((line) => {
+    const lineElement = document.createElement('div');
+    // Baris kosong tetap butuh tinggi satu baris
+    lineElement.textContent = line || '\u200b';
+    return lineElement;
+  });
+  mirror.append(...lineElements);
+  document.body.appendChild(mirror);
+
+  const geometry = {
+    lineTops: lineElements.map((lineElement) => lineElement.offsetTop),
+    contentHeight: mirror.scrollHeight,
+  };
+  mirror.remove();
+
+  return geometry;
+};
+
+/**
+ * Bangun peta scroll dari block preview yang memiliki atribut source line
+ * Setiap block menyumbang dua titik (awal dan akhir) sehingga gambar, tabel dan
+ * code block yang tinggi diinterpolasi secara proporsional
+ */
+export const buildScrollSyncMap = (
+  geometry: TextareaLineGeometry,
+  editorScrollHeight: number,
+  preview: HTMLElement
+): ScrollSyncPoint[] => {
+  const { lineTops, contentHeight } = geometry;
+  const getLineTop = (line: number) =>
+    lineTops[Math.min(Math.max(line, 1), lineTops.length + 1) - 1] ?? contentHeight;
+
+  const previewRect = preview.getBoundingClientRect();
+  const candidates: ScrollSyncPoint[] = [];
+
+  for (const element of preview.querySelectorAll<HTMLElement>(`[${SOURCE_LINE_ATTRIBUTE}]`)) {
+    const startLine = Number(element.getAttribute(SOURCE_LINE_ATTRIBUTE));
+    const endLine = Number(element.getAttribute(SOURCE_END_LINE_ATTRIBUTE) || startLine);
+    if (!startLine || element.getClientRects().length === 0) continue;
+
+    const rect = element.getBoundingClientRect();
+    const top = rect.top - previewRect.top + preview.scrollTop;
+
+    candidates.push(
+      { editor: getLineTop(startLine), preview: top },
+      { editor: getLineTop(endLine + 1), preview: top + rect.height }
+    );
+  }
+
+  candidates.sort((a, b) => a.editor - b.editor || a.preview - b.preview);
+
+  // Block bersarang (list, blockquote) bisa menghasilkan titik yang mundur; buang agar peta monoton
+  const points: ScrollSyncPoint[] = [{ editor: 0, preview: 0 }];
+  for (const point of candidates) {
+    const last = points[points.length - 1];
+    if (point.editor >= last.editor && point.preview >= last.preview) {
+      points.push(point);
+    }
+  }
+
+  const last = points[points.length - 1];
+  points.push({
+    editor: Math.max(editorScrollHeight, last.editor),
+    preview: Math.max(preview.scrollHeight, last.preview),
+  });
+
+  return points;
+};
+
+/**
+ * Interpolasi linear posisi scroll dari satu pane ke pane lainnya
+ */
+export const mapScrollPosition = (
+  points: ScrollSyncPoint[],
+  position: number,
+  from: keyof ScrollSyncPoint
+): number => {
+  const to: keyof ScrollSyncPoint = from === 'editor' ? 'preview' : 'editor';
+  if (points.length === 0) return 0;
+
+  let low = 0;
+  let high = points.length - 1;
+  if (position <= points[low][from]) return points[low][to];
+  if (position >= points[high][from]) return points[high][to];
+
+  // Cari segmen [low, high] yang memuat position
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (points[middle][from] <= position) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const start = points[low];
+  const end = points[high];
+  const span = end[from] - start[from];
+  if (span <= 0) return start[to];
+
+  return start[to] + ((position - start[from]) / span) * (end[to] - start[to]);
+};
+
+/**
+ * Pilih range source di textarea dan scroll agar baris awalnya terlihat
+ *
+ * @param viewportOffset - Jarak baris dari atas viewport textarea; default sepertiga tinggi textarea
+ */
+export const revealTextareaRange = (
+  textarea: HTMLTextAreaElement,
+  start: number,
+  end: number,
+  viewportOffset = textarea.clientHeight / 3
+): void => {
+  const line = textarea.value.slice(0, start).split('\n').length;
+  const { lineTops } = measureTextareaLines(textarea);
+
+  textarea.focus({ preventScroll: true });
+  textarea.setSelectionRange(start, end);
+  textarea.scrollTop = Math.max(0, (lineTops[line - 1] ?? 0) - viewportOffset);
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { getSlideBackground, parseMarkdownToSlides } from './slideUtils';
+
+const titlesOf = (markdown: string) => parseMarkdownToSlides(markdown).map(({ title }) => title);
+
+describe('parseMarkdownToSlides', () => {
+  it('splits slides at --- lines', () => {
+    expect(parseMarkdownToSlides('# One\n\nText\n\n---\n\n# Two\n\nMore')).toEqual([
+      { title: 'One', content: 'Text', notes: '', layout: 'default' },
+      { title: 'Two', content: 'More', notes: '', layout: 'default' },
+    ]);
+  });
+
+  it('splits at # and ## headings when there is no separator', () => {
+    const slides = parseMarkdownToSlides('# A\nx\n## B\ny\n### C');
+    expect(slides.map(({ title, content }) => ({ title, content }))).toEqual([
+      { title: 'A', content: 'x' },
+      { title: 'B', content: 'y\n### C' },
+    ]);
+  });
+
+  it('ignores --- and headings inside code fences', () => {
+    const slides = parseMarkdownToSlides('One\n\n```yaml\n\n---\n\n```\n\n---\n\nTwo');
+    expect(slides.map(({ content }) => content)).toEqual(['One\n\n```yaml\n\n---\n\n```', 'Two']);
+    expect(titlesOf('# A\n~~~\n# comment\n~~~')).toEqual(['A']);
+  });
+
+  it('ignores --- inside $$ blocks', () => {
+    const slides = parseMarkdownToSlides('One\n\n$$\n\n---\n\n$$\n\n---\n\nTwo');
+    expect(slides.map(({ content }) => content)).toEqual(['One\n\n$$\n\n---\n\n$$', 'Two']);
+  });
+
+  it('keeps --- under a paragraph as a setext heading', () => {
+    expect(parseMarkdownToSlides('Title\n---\n\nBody').map(({ content }) => content)).toEqual([
+      'Title\n---\n\nBody',
+    ]);
+    expect(
+      parseMarkdownToSlides('Title\n---\n\nBody\n\n---\n\nNext').map(({ content }) => content)
+    ).toEqual(['Title\n---\n\nBody', 'Next']);
+  });
+
+  it('skips the front matter', () => {
+    expect(titlesOf('---\ntitle: Deck\n---\n\n# A\n\n---\n\n# B')).toEqual(['A', 'B']);
+  });
+
+  it('takes the title without closing hashes', () => {
+    expect(titlesOf('## Title ##\nText')).toEqual(['Title']);
+  });
+
+  it('reads layout and background directives from leading comments', () => {
+    expect(parseMarkdownToSlides('# A\n\n---\n\n<!-- layout: center -->\nText')[1]).toMatchObject({
+      title: '',
+      content: 'Text',
+      layout: 'center',
+    });
+    expect(
+      parseMarkdownToSlides('<!-- layout: center -->\n<!-- background: #1e293b -->\n# Hi')
+    ).toEqual([{ title: 'Hi', content: '', notes: '', layout: 'center', background: '#1e293b' }]);
+    expect(
+      parseMarkdownToSlides('<!--\nlayout: Section\nbackground: red\n-->\n# X')[0]
+    ).toMatchObject({ layout: 'section', background: 'red' });
+  });
+
+  it('falls back to the default layout for unknown layouts', () => {
+    expect(parseMarkdownToSlides('<!-- layout: sideways -->\n# X')[0].layout).toBe('default');
+  });
+
+  it("gives directives above a heading to that heading's slide", () => {
+    expect(parseMarkdownToSlides('# A\nx\n\n<!-- layout: section -->\n\n## B\ny')).toEqual([
+      { title: 'A', content: 'x', notes: '', layout: 'default' },
+      { title: 'B', content: 'y', notes: '', layout: 'section' },
+    ]);
+  });
+
+  it('keeps other comments as content', () => {
+    expect(parseMarkdownToSlides('<!-- just a comment -->\nText')[0]).toMatchObject({
+      title: '',
+      content: '<!-- just a comment -->\nText',
+    });
+    expect(titlesOf('# A\n<!-- just a comment -->\n# B')).toEqual(['A', 'B']);
+    expect(parseMarkdownToSlides('# A\n<!-- just a comment -->\n# B')[0].content).toBe(
+      '<!-- just a comment -->'
+    );
+  });
+
+  it('moves everything after a Note: line into the speaker notes', () => {
+    expect(parseMarkdownToSlides('# A\nBody\nNote: Say hi\nmore')[0]).toMatchObject({
+      content: 'Body',
+      notes: 'Say hi\nmore',
+    });
+    expect(parseMarkdownToSlides('# A\nBody\nnotes:\nRemember')[0].notes).toBe('Remember');
+  });
+
+  it('ignores Note: lines inside code fences', () => {
+    expect(parseMarkdownToSlides('# A\n```\nNote: x\n```')[0]).toMatchObject({
+      content: '```\nNote: x\n```',
+      notes: '',
+    });
+  });
+
+  it('drops empty slides but keeps slides with only a background', () => {
+    expect(titlesOf('# A\n\n---\n\n\n\n---\n\n# B')).toEqual(['A', 'B']);
+    expect(parseMarkdownToSlides('<!-- background: red -->')).toEqual([
+      { title: '', content: '', notes: '', layout: 'default', background: 'red' },
+    ]);
+  });
+});
+
+describe('getSlideBackground', () => {
+  it('uses colors and gradients as they are', () => {
+    expect(getSlideBackground('#fff')).toBe('#fff');
+    expect(getSlideBackground('linear-gradient(red, blue)')).toBe('linear-gradient(red, blue)');
+  });
+
+  it('covers the slide with images', () => {
+    expect(getSlideBackground('https://example.com/a.png')).toBe(
+      'url("https://example.com/a.png") center / cover no-repeat'
+    );
+  });
+
+  it('resolves image URLs and escapes quotes', () => {
+    expect(getSlideBackground('attachments/a.png', () => 'data:image/png;base64,AA"A')).toBe(
+      'url("data:image/png;base64,AA%22A") center / cover no-repeat'
+    );
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Parser slide dari markdown untuk presentation
+ * Slide dipisah dengan baris `---`; dokumen tanpa pemisah dipecah di heading # dan ##
+ * @author Axel Modra
+ */
+
+import { stripFrontMatter } from '@/utils/frontMatter';
+
+/**
+ * Layout slide yang didukung
+ */
+export type SlideLayout = 'default' | 'center' | 'section' | 'two-column';
+
+export const SLIDE_LAYOUTS: readonly SlideLayout[] = ['default', 'center', 'section', 'two-column'];
+
+/**
+ * Satu slide hasil parsing
+ */
+export interface SlideData {
+  /** Judul slide dari heading # atau ## pertama, kosong jika slide tanpa judul */
+  title: string;
+  /** Markdown isi slide tanpa judul, directive dan catatan */
+  content: string;
+  /** Markdown catatan pembicara (setelah baris `Note:`) */
+  notes: string;
+  /** Layout dari directive `layout:` */
+  layout: SlideLayout;
+  /** Warna, gradient atau URL image dari directive `background:` */
+  background?: string;
+}
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const SEPARATOR_PATTERN = /^---\s*$/;
+const HEADING_SPLIT_PATTERN = /^#{1,2}\s/;
+const TITLE_PATTERN = /^#{1,2}\s+(.+?)(?:\s+#+)?\s*$/;
+const NOTES_PATTERN = /^notes?:\s*(.*)$/i;
+/** Directive di komentar HTML di awal slide, mis. `<!-- layout: center -->` */
+const DIRECTIVE_COMMENT_PATTERN = /^<!--([\s\S]*?)-->\s*/;
+const DIRECTIVE_PATTERN = /^(layout|background)\s*:\s*(.+)$/i;
+const IMAGE_URL_PATTERN =
+  /^(https?:|data:|blob:|\.{0,2}\/|attachments\/)|\.(png|jpe?g|gif|svg|webp)$/i;
+
+/**
+ * Tandai baris yang berada di dalam code block atau blok $$ (tidak dicek sebagai pemisah)
+ */
+const getBlockLines = (lines: string[]): boolean[] => {
+  let fence: string | null = null;
+  let isMath = false;
+
+  return lines.map((line) => {
+    const trimmed = line.trim();
+    const fenceMatch = line.match(FENCE_PATTERN);
+
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return true;
+    }
+    if (isMath) {
+      if (trimmed === '$$') isMath = false;
+      return true;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      return true;
+    }
+    if (trimmed === '$$') {
+      isMath = true;
+      return true;
+    }
+    return false;
+  });
+};
+
+/**
+ * Index awal komentar directive di akhir kelompok baris (panjang kelompok jika tidak ada).
+ * Tanpa pemisah, directive ditulis tepat di atas heading slide yang diaturnya.
+ */
+const getTrailingDirectivesStart = (lines: string[]): number => {
+  let start = lines.length;
+  for (let index = lines.length - 1; index >= 0; index--) {
+    if (!lines[index].trim().startsWith('<!--')) continue;
+
+    const text = lines.slice(index).join('\n').trim();
+    const { rest } = extractDirectives(text);
+    if (rest === text || rest.trim()) break;
+    start = index;
+  }
+  return start;
+};
+
+/**
+ * Pecah baris dokumen menjadi kelompok baris per slide
+ */
+const splitSlides = (lines: string[]): string[][] => {
+  const inBlock = getBlockLines(lines);
+  const isSeparator = (index: number) =>
+    !inBlock[index] &&
+    SEPARATOR_PATTERN.test(lines[index]) &&
+    // `---` tepat di bawah paragraf adalah heading setext, bukan pemisah
+    (index === 0 || !lines[index - 1].trim());
+  const hasSeparators = lines.some((_, index) => isSeparator(index));
+
+  const chunks: string[][] = [[]];
+  lines.forEach((line, index) => {
+    if (hasSeparators && isSeparator(index)) {
+      chunks.push([]);
+      return;
+    }
+    if (!hasSeparators && !inBlock[index] && HEADING_SPLIT_PATTERN.test(line)) {
+      const previous = chunks[chunks.length - 1];
+      chunks.push(previous.splice(getTrailingDirectivesStart(previous)));
+    }
+    chunks[chunks.length - 1].push(line);
+  });
+
+  return chunks;
+};
+
+/**
+ * Ambil directive dari komentar HTML di awal slide; komentar lain dibiarkan sebagai konten
+ */
+const extractDirectives = (
+  text: string
+): { directives: Pick<SlideData, 'layout' | 'background'>; rest: string } => {
+  const directives: Pick<SlideData, 'layout' | 'background'> = { layout: 'default' };
+  let rest = text;
+
+  for (
+    let match = rest.match(DIRECTIVE_COMMENT_PATTERN);
+    match;
+    match = rest.match(DIRECTIVE_COMMENT_PATTERN)
+  ) {
+    const entries = match[1]
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => line.match(DIRECTIVE_PATTERN));
+    if (!entries.length || entries.some((entry) => !entry)) break;
+
+    for (const entry of entries) {
+      if (!entry) continue;
+      const [, key, value] = entry;
+      if (key.toLowerCase() === 'layout') {
+        const layout = value.trim().toLowerCase() as SlideLayout;
+        directives.layout = SLIDE_LAYOUTS.includes(layout) ? layout : 'default';
+      } else {
+        directives.background = value.trim();
+      }
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return { directives, rest };
+};
+
+const parseSlide = (lines: string[]): SlideData | null => {
+  const { directives, rest } = extractDirectives(lines.join('\n').trim());
+  const slideLines = rest.split('\n');
+
+  // Baris `Note:` di luar code block memulai catatan pembicara sampai akhir slide
+  const inBlock = getBlockLines(slideLines);
+  const notesIndex = slideLines.findIndex(
+    (line, index) => !inBlock[index] && NOTES_PATTERN.test(line.trim())
+  );
+  const contentLines = notesIndex === -1 ? slideLines : slideLines.slice(0, notesIndex);
+  const notes =
+    notesIndex === -1
+      ? ''
+      : [
+          slideLines[notesIndex].trim().replace(NOTES_PATTERN, '$1'),
+          ...slideLines.slice(notesIndex + 1),
+        ]
+          .join('\n')
+          .trim();
+
+  const firstLineIndex = contentLines.findIndex((line) => line.trim());
+  const titleMatch =
+    firstLineIndex === -1 ? null : contentLines[firstLineIndex].match(TITLE_PATTERN);
+  const title = titleMatch?.[1] ?? '';
+  const content = (titleMatch ? contentLines.slice(firstLineIndex + 1) : contentLines)
+    .join('\n')
+    .trim();
+
+  if (!title && !content && !directives.background) return null;
+  return { title, content, notes, ...directives };
+};
+
+/**
+ * Parse markdown menjadi slides
+ *
+ * - Slide dipisah dengan baris `---` (diapit baris kosong); tanpa pemisah, setiap heading # / ## memulai slide baru
+ * - Komentar `<!-- layout: center -->` / `<!-- background: #1e293b -->` di awal slide (tanpa pemisah: tepat di atas heading) mengatur tampilannya
+ * - Baris `Note:` memulai catatan pembicara
+ *
+ * @param markdown - Dokumen markdown (front matter diabaikan)
+ */
+export const parseMarkdownToSlides = (markdown: string): SlideData[] =>
+  splitSlides(stripFrontMatter(markdown).split('\n'))
+    .map(parseSlide)
+    .filter((slide): slide is SlideData => slide !== null);
+
+/**
+ * Nilai CSS `background` untuk directive background slide
+ * URL image ditampilkan menutupi slide; nilai lain (warna, gradient) dipakai apa adanya
+ *
+ * @param background - Nilai directive background
+ * @param resolveUrl - Resolve URL image (mis. attachment menjadi data URL)
+ */
+export const getSlideBackground = (
+  background: string,
+  resolveUrl: (url: string) => string = (url) => url
+): string =>
+  IMAGE_URL_PATTERN.test(background)
+    ? `url("${resolveUrl(background).replace(/"/g, '%22')}") center / cover no-repeat`
+    : background;
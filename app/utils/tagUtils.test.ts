@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { applyFrontMatterTagChanges } from './tagUtils';
+
+const withTags = (tags: string, body = '# Notes') => `---\ntags: [${tags}]\n---\n${body}`;
+
+describe('applyFrontMatterTagChanges', () => {
+  it('takes every front matter tag for a new file', () => {
+    expect(applyFrontMatterTagChanges(['draft'], withTags('react, hooks'))).toEqual([
+      'draft',
+      'react',
+      'hooks',
+    ]);
+  });
+
+  it('adds tags added to the front matter since the last save', () => {
+    expect(
+      applyFrontMatterTagChanges(['react', 'draft'], withTags('react, hooks'), withTags('react'))
+    ).toEqual(['react', 'draft', 'hooks']);
+  });
+
+  it('removes tags removed from the front matter since the last save', () => {
+    expect(
+      applyFrontMatterTagChanges(
+        ['react', 'hooks', 'draft'],
+        withTags('react'),
+        withTags('react, hooks')
+      )
+    ).toEqual(['react', 'draft']);
+  });
+
+  it('keeps a tag deleted in the UI deleted while the front matter still lists it', () => {
+    const content = withTags('react, hooks', '# Edited');
+    expect(applyFrontMatterTagChanges(['react'], content, withTags('react, hooks'))).toEqual([
+      'react',
+    ]);
+  });
+
+  it('keeps a tag renamed in the UI renamed while the front matter still has the old name', () => {
+    expect(
+      applyFrontMatterTagChanges(['frontend'], withTags('react'), withTags('react', '# Old'))
+    ).toEqual(['frontend']);
+  });
+
+  it('matches front matter tags without case sensitivity', () => {
+    expect(applyFrontMatterTagChanges(['React'], withTags('react'), withTags('react'))).toEqual([
+      'React',
+    ]);
+  });
+
+  it('leaves tags alone while the front matter is invalid', () => {
+    expect(
+      applyFrontMatterTagChanges(['react'], '---\ntags: [react\n---\n# Notes', withTags('react'))
+    ).toEqual(['react']);
+  });
+});
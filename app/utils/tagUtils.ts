@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Utilities untuk tag file (normalisasi, hitungan, filter AND/OR, perubahan massal)
+ * @author Axel Modra
+ */
+
+import type { FileData } from '@/lib/supabase';
+import { normalizeTags, parseFrontMatter } from './frontMatter';
+
+/**
+ * Mode filter tag: AND = file harus punya semua tag, OR = salah satu tag cukup
+ */
+export type TagFilterMode = 'and' | 'or';
+
+/**
+ * Tag beserta jumlah file yang memakainya
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Perubahan tag yang diterapkan ke satu atau beberapa file sekaligus
+ */
+export interface TagChanges {
+  add: string[];
+  remove: string[];
+}
+
+/**
+ * Panjang maksimal satu tag
+ */
+export const MAX_TAG_LENGTH = 40;
+
+const sameTag = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Rapikan satu tag: tanpa "#" di depan, spasi dirapikan, dipotong ke MAX_TAG_LENGTH
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH).trim();
+
+/**
+ * Parse input tag (dipisah koma) menjadi list tag unik
+ */
+export const parseTagInput = (input: string): string[] =>
+  dedupeTags(normalizeTags(input).map(normalizeTag));
+
+/**
+ * Hapus tag kosong dan duplikat (tidak case-sensitive), urutan pertama dipertahankan
+ */
+export const dedupeTags = (tags: string[]): string[] =>
+  tags.reduce<string[]>((result, tag) => {
+    if (tag && !result.some((existing) => sameTag(existing, tag))) result.push(tag);
+    return result;
+  }, []);
+
+/**
+ * Cek apakah list tag berisi tag tertentu (tidak case-sensitive)
+ */
+export const hasTag = (tags: string[] | undefined, tag: string): boolean =>
+  !!tags?.some((existing) => sameTag(existing, tag));
+
+/**
+ * Terapkan perubahan tag ke list tag sebuah file
+ */
+export const applyTagChanges = (tags: string[] | undefined, changes: TagChanges): string[] =>
+  dedupeTags([
+    ...(tags ?? []).filter((tag) => !changes.remove.some((removed) => sameTag(removed, tag))),
+    ...changes.add,
+  ]);
+
+/**
+ * Ganti nama tag di list tag; tag tujuan yang sudah ada digabung
+ */
+export const renameTagInList = (tags: string[] | undefined, from: string, to: string): string[] =>
+  dedupeTags((tags ?? []).map((tag) => (sameTag(tag, from) ? to : tag)));
+
+/**
+ * Hitung pemakaian tag di semua file, urut dari yang paling banyak lalu nama
+ */
+export const getTagCounts = (files: FileData[]): TagCount[] => {
+  const counts = new Map<string, TagCount>();
+
+  for (const file of files) {
+    for (const tag of dedupeTags(file.tags ?? [])) {
+      const key = tag.toLowerCase();
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        counts.set(key, { tag, count: 1 });
+      }
+    }
+  }
+
+  return [...counts.values()].sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag, undefined, { sensitivity: 'base' })
+  );
+};
+
+/**
+ * Cek apakah tag file cocok dengan filter; filter kosong selalu cocok
+ */
+export const matchesTagFilter = (
+  tags: string[] | undefined,
+  selectedTags: string[],
+  mode: TagFilterMode
+): boolean => {
+  if (selectedTags.length === 0) return true;
+  return mode === 'and'
+    ? selectedTags.every((tag) => hasTag(tags, tag))
+    : selectedTags.some((tag) => hasTag(tags, tag));
+};
+
+/**
+ * Tag yang dimiliki semua file (shared) dan yang hanya dimiliki sebagian file (partial)
+ */
+export const getSharedTags = (files: FileData[]): { shared: string[]; partial: string[] } => {
+  const counts = getTagCounts(files);
+  return {
+    shared: counts.filter(({ count }) => count === files.length).map(({ tag }) => tag),
+    partial: counts.filter(({ count }) => count < files.length).map(({ tag }) => tag),
+  };
+};
+
+/**
+ * Tags dari YAML front matter; null jika front matter tidak valid (sedang diketik)
+ */
+const getFrontMatterTags = (content: string): string[] | null => {
+  const frontMatter = parseFrontMatter(content);
+  if (frontMatter?.error) return null;
+  return frontMatter?.fields.tags ?? [];
+};
+
+/**
+ * Terapkan perubahan tags di front matter ke tags file saat save.
+ * Hanya tag yang ditambah/dihapus di front matter sejak versi tersimpan sebelumnya yang
+ * diterapkan, jadi tag yang di-rename/hapus lewat UI tidak kembali dari front matter.
+ * File baru (tanpa versi sebelumnya) mengambil semua tag front matter.
+ */
+export const applyFrontMatterTagChanges = (
+  tags: string[] | undefined,
+  content: string,
+  previousContent?: string
+): string[] => {
+  const frontMatterTags = getFrontMatterTags(content);
+  const previousTags = previousContent === undefined ? [] : getFrontMatterTags(previousContent);
+  if (!frontMatterTags || !previousTags) return dedupeTags(tags ?? []);
+
+  return applyTagChanges(tags, {
+    add: frontMatterTags.filter((tag) => !hasTag(previousTags, tag)),
+    remove: previousTags.filter((tag) => !hasTag(frontMatterTags, tag)),
+  });
+};
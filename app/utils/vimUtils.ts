@@ -8,6 +8,7 @@ import {
   type VimContext,
   type VimCursorConfig,
   type VimMode,
+  type VimVisualState,
 } from '@/types/vim';
 
 /**
@@ -73,6 +74,16 @@ export const moveToLine = (textarea: HTMLTextAreaElement, lineNumber: number): v
   textarea.setSelectionRange(position, position);
 };
 
+/**
+ * Scroll textarea supaya baris tertentu berada di tengah viewport
+ */
+export const scrollToLine = (textarea: HTMLTextAreaElement, lineNumber: number): void => {
+  const lineHeight = Number.parseFloat(getComputedStyle(textarea).lineHeight);
+  if (Number.isNaN(lineHeight)) return;
+
+  textarea.scrollTop = Math.max(0, (lineNumber - 1) * lineHeight - textarea.clientHeight / 2);
+};
+
 /**
  * Move cursor ke beginning of line
  */
@@ -225,3 +236,117 @@ export const parseVimCommand = (command: string): { count: number; action: strin
 
   return { count, action };
 };
+
+/**
+ * Offset awal baris yang memuat posisi
+ */
+export const getLineStartOffset = (value: string, pos: number): number =>
+  value.lastIndexOf('\n', pos - 1) + 1;
+
+/**
+ * Offset akhir baris (posisi newline atau akhir teks) yang memuat posisi
+ */
+export const getLineEndOffset = (value: string, pos: number): number => {
+  const lineEnd = value.indexOf('\n', pos);
+  return lineEnd === -1 ? value.length : lineEnd;
+};
+
+/**
+ * Offset karakter non-blank pertama pada baris
+ */
+export const getFirstNonBlankOffset = (value: string, lineStart: number): number => {
+  const lineEnd = getLineEndOffset(value, lineStart);
+  let pos = lineStart;
+  while (pos < lineEnd && /[ \t]/.test(value[pos])) pos++;
+  return pos;
+};
+
+/**
+ * Index baris (0-based) dari posisi
+ */
+export const getLineIndexAt = (value: string, pos: number): number => {
+  let index = 0;
+  for (let i = value.indexOf('\n'); i !== -1 && i < pos; i = value.indexOf('\n', i + 1)) {
+    index++;
+  }
+  return index;
+};
+
+/**
+ * Offset awal baris berdasarkan index (0-based), dibatasi ke baris terakhir
+ */
+export const getLineOffsetByIndex = (value: string, lineIndex: number): number => {
+  let offset = 0;
+  for (let i = 0; i < lineIndex; i++) {
+    const next = value.indexOf('\n', offset);
+    if (next === -1) break;
+    offset = next + 1;
+  }
+  return offset;
+};
+
+/**
+ * Kelas karakter untuk word motion: 0 whitespace, 1 punctuation, 2 keyword.
+ * WORD (W, B, E) memperlakukan semua non-blank sebagai satu kelas.
+ */
+export const getCharClass = (char: string | undefined, bigWord = false): 0 | 1 | 2 => {
+  if (char === undefined || /\s/.test(char)) return 0;
+  if (bigWord || /[\p{L}\p{N}_]/u.test(char)) return 2;
+  return 1;
+};
+
+/**
+ * Tampilkan cursor vim di textarea: blok satu karakter di normal mode,
+ * seleksi dari anchor ke cursor di visual mode, caret biasa di mode lain
+ */
+export const setVimCursor = (
+  textarea: HTMLTextAreaElement,
+  cursor: number,
+  mode: VimMode,
+  visual: VimVisualState | null
+): void => {
+  const value = textarea.value;
+
+  if (mode === 'visual' && visual) {
+    const direction = cursor < visual.anchor ? 'backward' : 'forward';
+    const start = Math.min(visual.anchor, cursor);
+    const end = Math.max(visual.anchor, cursor);
+
+    if (visual.linewise) {
+      textarea.setSelectionRange(
+        getLineStartOffset(value, start),
+        getLineEndOffset(value, end),
+        direction
+      );
+    } else {
+      textarea.setSelectionRange(start, Math.min(value.length, end + 1), direction);
+    }
+    return;
+  }
+
+  if (mode === 'normal' && cursor < value.length && value[cursor] !== '\n') {
+    textarea.setSelectionRange(cursor, cursor + 1);
+    return;
+  }
+
+  textarea.setSelectionRange(cursor, cursor);
+};
+
+/**
+ * Teks yang disisipkan selama insert mode (selisih sebelum dan sesudah)
+ */
+export const getInsertedText = (before: string, after: string): string => {
+  const maxLength = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < maxLength && before[prefix] === after[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < maxLength - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return after.slice(prefix, after.length - suffix);
+};